@@ -15,13 +15,15 @@ import { GameInputController, InputManager } from '@atsu/noshiro';
 import { GameEngine } from './core/GameEngine';
 import { StoryTeller } from './core/StoryTeller';
 import { UnitController } from './ai/UnitController';
+import { WildAnimalSpawner } from './ai/WildAnimalSpawner';
 import { Logger, type LogEntry } from './utils/Logger';
 import { MapGenerator } from './utils/MapGenerator';
 import { isUnitPosition } from './types/typeGuards';
-import type { Action, ActionPayload, DiaryEntry } from './types';
-import { targetFromPayload } from './utils/TargetUtils';
+import type { UnitDeathEvent } from './types';
 import { ConfigManager } from './utils/ConfigManager';
+import { UnitLifecycle } from './utils/UnitLifecycle';
 import type { MovementStepUpdate } from './core/WorldManager';
+import { TerminalPlayerInput } from './core/TerminalPlayerInput';
 
 export class TakaoImpl {
   private gameEngine: GameEngine;
@@ -33,8 +35,6 @@ export class TakaoImpl {
     this.inputManager
   );
   private isRunning: boolean = false;
-  private processedDeadUnits: Set<string> = new Set();
-  private lastDiaryIndex: number = 0;
   private consoleEntries: ConsoleEntry[] = [];
   private consoleEntryLimit: number = 200;
 
@@ -42,9 +42,13 @@ export class TakaoImpl {
     this.configureConsoleLogging();
     this.gameEngine = new GameEngine({
       onTurnStart: this.runTurn.bind(this),
-      onTurnEnd: this.afterTurn.bind(this),
+      onTurnEnd: () => {},
       onStop: this.handleEngineStop.bind(this),
     });
+
+    const events = this.gameEngine.getEvents();
+    events.on('unitMoved', this.handleMovementStep.bind(this));
+    events.on('unitDied', this.handleUnitDied.bind(this));
   }
 
   private get unitController(): UnitController {
@@ -93,7 +97,6 @@ export class TakaoImpl {
     this.configureConsoleLogging();
     // Initialize the underlying game engine
     await this.gameEngine.initialize({ turn: 0 });
-    this.storyTeller.setMovementStepHandler(this.handleMovementStep.bind(this));
     this.logger.info('Initializing Takao Engine...');
     this.logger = new Logger({
       prefix: 'TakaoImpl',
@@ -103,6 +106,9 @@ export class TakaoImpl {
     });
     this.inputManager = new InputManager({ logger: this.logger });
     this.gameInputController = new GameInputController(this.inputManager);
+    this.gameEngine.setPlayerInputProvider(
+      new TerminalPlayerInput(this.logger)
+    );
     // Get the world instance
     const world = this.storyTeller.getWorld();
 
@@ -121,7 +127,7 @@ export class TakaoImpl {
         );
       }
 
-      const mapGenerator = new MapGenerator();
+      const mapGenerator = new MapGenerator(this.gameEngine.getRandom());
       const mapName = 'Main Continent';
       const newMap = mapGenerator.generateMap(mapName);
       world.addMap(newMap);
@@ -141,14 +147,6 @@ export class TakaoImpl {
     // Place some initial units on the maps based on configuration
     this.initializeUnitPositions();
 
-    // Track existing diary entries and defeated units so we only process new ones
-    this.lastDiaryIndex = this.storyTeller.getDiary().length;
-    for (const unit of this.unitController.getUnits()) {
-      if (this.isUnitDead(unit)) {
-        this.processedDeadUnits.add(unit.id);
-      }
-    }
-
     // DEBUG: Check how many maps are in the world
     const finalMaps = world.getAllMaps();
     this.logger.info(
@@ -180,9 +178,10 @@ export class TakaoImpl {
       throw new Error(`Map "${name}" not found; cannot place units.`);
     }
 
+    const random = this.gameEngine.getRandom();
     const getRandomPosition = (map: ChoukaiMap): Position => {
-      const x = Math.floor(Math.random() * map.width);
-      const y = Math.floor(Math.random() * map.height);
+      const x = random.nextInt(0, map.width - 1);
+      const y = random.nextInt(0, map.height - 1);
       return new Position(x, y);
     };
 
@@ -240,6 +239,42 @@ export class TakaoImpl {
       );
     };
 
+    // Units saved without a position go back where the world save last saw them
+    const placements = new Map(
+      this.gameEngine
+        .getWorldController()
+        .getUnitPlacements()
+        .map(placement => [placement.unitId, placement])
+    );
+    const placeAtSavedPlacement = (unit: BaseUnit): boolean => {
+      const placement = placements.get(unit.id);
+      const map =
+        placement &&
+        maps.find(
+          (candidate: ChoukaiMap) => candidate.name === placement.mapId
+        );
+      if (!placement || !map) {
+        return false;
+      }
+      const pos = new Position(placement.x, placement.y);
+      const key = positionKey(map.name, pos);
+      if (
+        !isWithinMap(map, pos) ||
+        !map.isWalkable(pos.x, pos.y) ||
+        occupied.has(key)
+      ) {
+        return false;
+      }
+      unit.setProperty('position', {
+        unitId: unit.id,
+        mapId: map.name,
+        position: pos,
+      });
+      occupied.add(key);
+      return true;
+    };
+
+    const unplaced: BaseUnit[] = [];
     for (const unit of allUnits.values()) {
       const unitPosition = unit.getPropertyValue('position');
 
@@ -264,7 +299,14 @@ export class TakaoImpl {
         continue;
       }
 
-      placeAtRandomWalkable(unit);
+      unplaced.push(unit);
+    }
+
+    // Placed after every positioned unit so they cannot take its tile
+    for (const unit of unplaced) {
+      if (!placeAtSavedPlacement(unit)) {
+        placeAtRandomWalkable(unit);
+      }
     }
   }
 
@@ -339,19 +381,11 @@ export class TakaoImpl {
     };
 
     // Periodic hostile spawns: every 10 turns, ensure at least 3 Wild Animals
-    if (currentTurn > 0 && currentTurn % 10 === 0) {
+    if (WildAnimalSpawner.isDue(currentTurn)) {
       await this.maybeSpawnWildAnimals(allMaps, allUnits);
     }
   }
 
-  private afterTurn(turn: number): void {
-    void turn; // turn number currently unused but preserved for future hooks
-    const newEntries = this.getNewDiaryEntries();
-    if (newEntries.length === 0) return;
-
-    this.handleNewDiaryEntries(newEntries);
-  }
-
   /**
    * Spawn a wolf with faction Wild Animals if below threshold.
    */
@@ -364,46 +398,26 @@ export class TakaoImpl {
       return;
     }
 
-    const wildAnimalCount = units.filter(
-      unit => unit.getPropertyValue('faction') === 'Wild Animals'
-    ).length;
-
-    if (wildAnimalCount >= 3) {
-      return;
-    }
-
-    const newUnit = await this.unitController.addUnitFromBeastiary('wolf');
-    newUnit.setProperty('faction', 'Wild Animals');
-
-    // Relationships: mark as hostile toward all non-Wild Animals
-    const relationships: Record<string, 'hostile'> = {};
-    for (const unit of units) {
-      const faction = unit.getPropertyValue('faction');
-      if (faction !== 'Wild Animals') {
-        relationships[unit.id] = 'hostile';
-      }
-    }
-    newUnit.setProperty('relationships', relationships);
-
-    // Place on main map (or first map) at a random valid position
-    const targetMap =
-      allMaps.find(map => map.name === 'Main Continent') ?? allMaps[0];
-    if (!targetMap) {
-      this.logger.warn('No map available to place spawned wolf.');
+    const newUnit = await WildAnimalSpawner.spawn(
+      this.unitController,
+      allMaps,
+      units,
+      this.gameEngine.getRandom()
+    );
+    const position = newUnit?.getPropertyValue('position');
+    if (!newUnit || !isUnitPosition(position)) {
       return;
     }
 
-    const x = Math.floor(Math.random() * targetMap.width);
-    const y = Math.floor(Math.random() * targetMap.height);
-    newUnit.setProperty('position', {
-      unitId: newUnit.id,
-      mapId: targetMap.name,
-      position: new Position(x, y),
-    });
-
     this.logger.info(
-      `Spawned Wild Animals wolf (${newUnit.id}) at ${targetMap.name} (${x}, ${y})`
+      `Spawned Wild Animals ${newUnit.type} (${newUnit.id}) at ${position.mapId} (${position.position.x}, ${position.position.y})`
     );
+    await this.gameEngine.getEvents().emit('unitSpawned', {
+      unitId: newUnit.id,
+      unitName: newUnit.name,
+      unitType: newUnit.type,
+      source: 'wild_animal_spawn',
+    });
   }
 
   private startRenderer(): void {
@@ -426,21 +440,26 @@ export class TakaoImpl {
       ? Array.from(cachedState.units.values())
       : this.unitController.getUnits();
 
+    // Get configuration from ConfigManager
+    const config = this.gameEngine.getConfig();
+    const perspective = config.rendering.perspectiveFaction;
+    const vision = this.storyTeller.getVision();
+
     // Create a fresh units mapping to ensure all units are included
     const unitsMap: Record<string, BaseUnit> = {};
     for (const unit of unitsList) {
       // Only include units that are not dead
-      const statusProperty = unit.getPropertyValue<string>('status');
-      if (statusProperty === 'dead') continue;
+      if (UnitLifecycle.isDead(unit)) continue;
+      // From a faction's perspective, only draw the units it can see
+      if (perspective && !vision.isVisibleToFaction(perspective, unit)) {
+        continue;
+      }
       unitsMap[unit.id] = unit;
     }
 
     // Get diary entries from the StoryTeller
     const diaryEntries = this.storyTeller.getDiary();
 
-    // Get configuration from ConfigManager
-    const config = this.gameEngine.getConfig();
-
     // Render the game using Maya with the stored world state and diary
     // Prepare configuration object with proper handling of optional properties
     const rendererConfig = {
@@ -506,70 +525,15 @@ export class TakaoImpl {
     }
   }
 
-  private getNewDiaryEntries(): DiaryEntry[] {
-    const diary = this.storyTeller.getDiary();
-    const entries = diary.slice(this.lastDiaryIndex);
-    this.lastDiaryIndex = diary.length;
-    return entries;
-  }
-
-  private handleNewDiaryEntries(entries: DiaryEntry[]): void {
-    const units = this.unitController.getUnits();
-
-    for (const entry of entries) {
-      const action = entry.action;
-      const targetId = this.getTargetIdFromAction(action);
-
-      if (!targetId) continue;
-
-      const defeatedUnit = units.find(unit => unit.id === targetId);
-      if (!defeatedUnit) continue;
-      if (this.processedDeadUnits.has(defeatedUnit.id)) continue;
-      if (!this.isUnitDead(defeatedUnit)) continue;
-      if (!this.isWildAnimal(defeatedUnit)) continue;
-
-      const killerUnit = units.find(unit => unit.id === action.player);
-
-      if (killerUnit) {
-        const loot = this.getNumericPropertyValue(defeatedUnit, 'resources');
-        if (loot > 0) {
-          const currentResources = this.getNumericPropertyValue(
-            killerUnit,
-            'resources'
-          );
-          killerUnit.setProperty('resources', currentResources + loot);
-        }
-      }
-
-      this.unitController.removeUnit(defeatedUnit.id);
-      this.processedDeadUnits.add(defeatedUnit.id);
-    }
-  }
-
-  private getTargetIdFromAction(action: Action): string | null {
-    return targetFromPayload(action.payload as ActionPayload | undefined);
-  }
-
-  private isWildAnimal(unit: BaseUnit): boolean {
-    const faction = unit.getPropertyValue<string>('faction');
-    if (!faction) return unit.type === 'beast';
-    return faction === 'Wild Animals' || unit.type === 'beast';
-  }
-
-  private isUnitDead(unit: BaseUnit): boolean {
-    const healthValue = unit.getPropertyValue<number>('health');
-    const statusValue = unit.getPropertyValue<string>('status');
-
-    if (!healthValue || healthValue <= 0) {
-      return true;
-    }
-
-    return statusValue === 'dead';
-  }
-
-  private getNumericPropertyValue(unit: BaseUnit, property: string): number {
-    const value = unit.getPropertyValue<number>(property);
-    return value ?? 0;
+  private handleUnitDied(event: UnitDeathEvent): void {
+    const killer = event.killerName ? ` by ${event.killerName}` : '';
+    const loot = Object.entries(event.loot)
+      .map(([property, amount]) => `${amount} ${property}`)
+      .join(', ');
+    this.logger.info(
+      `${event.unitName} was defeated${killer} (${event.cause})` +
+        (loot ? `; looted ${loot}` : '')
+    );
   }
 
   private handleEngineStop(): void {
@@ -679,8 +643,7 @@ export class TakaoImpl {
     const unitsMap: Record<string, BaseUnit> = {};
     for (const unit of allUnits) {
       // Only include units that are not dead
-      const statusProperty = unit.getPropertyValue('status');
-      if (statusProperty === 'dead') continue; // skip dead units
+      if (UnitLifecycle.isDead(unit)) continue; // skip dead units
       unitsMap[unit.id] = unit;
     }
 
@@ -0,0 +1,205 @@
+import type { BaseUnit } from '@atsu/atago';
+import type { IMapPosition } from '@atsu/choukai';
+import type {
+  Action,
+  ActionExploration,
+  PatrolState,
+  PatrolWaypoint,
+} from '../types';
+import { isRecord } from '../types/typeGuards';
+
+const isWaypoint = (value: unknown): value is PatrolWaypoint =>
+  isRecord(value) &&
+  typeof value.mapId === 'string' &&
+  typeof value.x === 'number' &&
+  typeof value.y === 'number';
+
+/**
+ * Utility class for the exploration state kept on units: the tiles each
+ * unit has visited and its patrol route
+ */
+export class Exploration {
+  public static readonly VISITED_PROPERTY = 'visited';
+  public static readonly PATROL_PROPERTY = 'patrol';
+  public static readonly DEFAULT_PATROL_RADIUS = 3;
+  /** Tiles (Manhattan) from a waypoint that count as reaching it. */
+  public static readonly WAYPOINT_REACH = 1;
+  /** Visited tiles kept per map; the earliest are forgotten first. */
+  public static readonly MAX_VISITED_PER_MAP = 200;
+
+  /**
+   * The action's `exploration` block; `explore` without one walks randomly
+   */
+  public static resolve(action: Action): ActionExploration | undefined {
+    if (action.exploration) {
+      return action.exploration;
+    }
+    return action.type === 'explore' ? { strategy: 'random' } : undefined;
+  }
+
+  /**
+   * Tiles the unit has stood on, as `x,y` keys per map id
+   */
+  public static readVisited(unit: BaseUnit): Record<string, string[]> {
+    const stored = unit.getPropertyValue<unknown>(this.VISITED_PROPERTY);
+    if (!isRecord(stored)) {
+      return {};
+    }
+    const visited: Record<string, string[]> = {};
+    for (const [mapId, tiles] of Object.entries(stored)) {
+      if (Array.isArray(tiles)) {
+        visited[mapId] = tiles.filter(
+          (tile): tile is string => typeof tile === 'string'
+        );
+      }
+    }
+    return visited;
+  }
+
+  /**
+   * Adds the positions to the unit's visited tiles, keeping at most
+   * `MAX_VISITED_PER_MAP` per map
+   */
+  public static markVisited(unit: BaseUnit, positions: IMapPosition[]): void {
+    const visited = this.readVisited(unit);
+    let changed = false;
+    for (const { mapId, position } of positions) {
+      const tiles = visited[mapId] ?? [];
+      const key = `${position.x},${position.y}`;
+      if (tiles.includes(key)) continue;
+      visited[mapId] = [...tiles, key].slice(-this.MAX_VISITED_PER_MAP);
+      changed = true;
+    }
+    if (changed) {
+      unit.setProperty(this.VISITED_PROPERTY, visited);
+    }
+  }
+
+  /**
+   * Tiles any unit of the unit's faction has visited, per map id; a unit
+   * without a faction only counts its own
+   */
+  public static getFactionVisited(
+    unit: BaseUnit,
+    units: BaseUnit[]
+  ): Map<string, Set<string>> {
+    const factionOf = (candidate: BaseUnit): string => {
+      const faction = candidate.getPropertyValue<unknown>('faction');
+      return typeof faction === 'string' && faction.trim().length > 0
+        ? faction
+        : candidate.id;
+    };
+    const faction = factionOf(unit);
+    const visited = new Map<string, Set<string>>();
+    for (const member of [unit, ...units]) {
+      if (factionOf(member) !== faction) continue;
+      for (const [mapId, tiles] of Object.entries(this.readVisited(member))) {
+        const known = visited.get(mapId) ?? new Set<string>();
+        for (const tile of tiles) known.add(tile);
+        visited.set(mapId, known);
+      }
+    }
+    return visited;
+  }
+
+  public static isVisited(
+    visited: Map<string, Set<string>>,
+    position: IMapPosition
+  ): boolean {
+    return (
+      visited
+        .get(position.mapId)
+        ?.has(`${position.position.x},${position.position.y}`) ?? false
+    );
+  }
+
+  public static readPatrol(unit: BaseUnit): PatrolState | undefined {
+    const stored = unit.getPropertyValue<unknown>(this.PATROL_PROPERTY);
+    if (
+      !isRecord(stored) ||
+      typeof stored.next !== 'number' ||
+      !Array.isArray(stored.waypoints) ||
+      stored.waypoints.length === 0 ||
+      !stored.waypoints.every(isWaypoint)
+    ) {
+      return undefined;
+    }
+    return {
+      waypoints: stored.waypoints.map((waypoint: PatrolWaypoint) => ({
+        ...waypoint,
+      })),
+      next: stored.next,
+    };
+  }
+
+  public static writePatrol(unit: BaseUnit, state: PatrolState): void {
+    unit.setProperty(this.PATROL_PROPERTY, state);
+  }
+
+  /**
+   * A route over the unit's `patrolRoute` property, else around the corners
+   * of a square of `radius` tiles centred where it stands, kept on the map
+   */
+  public static createPatrol(
+    unit: BaseUnit,
+    position: IMapPosition,
+    radius: number,
+    bounds: { width: number; height: number }
+  ): PatrolState | undefined {
+    const route = unit.getPropertyValue<unknown>('patrolRoute');
+    if (Array.isArray(route) && route.length > 0 && route.every(isWaypoint)) {
+      return {
+        waypoints: route.map((waypoint: PatrolWaypoint) => ({ ...waypoint })),
+        next: 0,
+      };
+    }
+
+    const clamp = (value: number, size: number): number =>
+      Math.min(Math.max(value, 0), size - 1);
+    const { x, y } = position.position;
+    const waypoints = [
+      { x: x - radius, y: y - radius },
+      { x: x + radius, y: y - radius },
+      { x: x + radius, y: y + radius },
+      { x: x - radius, y: y + radius },
+    ]
+      .map(corner => ({
+        mapId: position.mapId,
+        x: clamp(corner.x, bounds.width),
+        y: clamp(corner.y, bounds.height),
+      }))
+      .filter(
+        (waypoint, index, all) =>
+          all.findIndex(
+            other => other.x === waypoint.x && other.y === waypoint.y
+          ) === index
+      );
+    return waypoints.length > 1 ? { waypoints, next: 0 } : undefined;
+  }
+
+  /**
+   * The waypoint to head for, moving past every waypoint the unit has
+   * already reached
+   */
+  public static advancePatrol(
+    state: PatrolState,
+    position: IMapPosition
+  ): { state: PatrolState; waypoint: PatrolWaypoint } {
+    const isReached = (waypoint: PatrolWaypoint): boolean =>
+      waypoint.mapId === position.mapId &&
+      Math.abs(waypoint.x - position.position.x) +
+        Math.abs(waypoint.y - position.position.y) <=
+        this.WAYPOINT_REACH;
+
+    const count = state.waypoints.length;
+    let next = ((state.next % count) + count) % count;
+    for (let checked = 0; checked < count; checked++) {
+      if (!isReached(state.waypoints[next] as PatrolWaypoint)) break;
+      next = (next + 1) % count;
+    }
+    return {
+      state: { ...state, next },
+      waypoint: state.waypoints[next] as PatrolWaypoint,
+    };
+  }
+}
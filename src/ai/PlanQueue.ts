@@ -0,0 +1,173 @@
+import type { BaseUnit } from '@atsu/atago';
+import type { PlanEvent, PlanStep, UnitPlan } from '../types';
+import { isRecord } from '../types/typeGuards';
+import { UnitLifecycle } from '../utils/UnitLifecycle';
+
+const isPlanStep = (value: unknown): value is PlanStep =>
+  isRecord(value) &&
+  (value.kind === 'approach' || value.kind === 'act') &&
+  typeof value.actionType === 'string' &&
+  typeof value.targetUnitId === 'string';
+
+/**
+ * What a unit's turn did, as far as its plan is concerned
+ */
+export interface PlanTurnOutcome {
+  actionType: string;
+  targetUnitId?: string | undefined;
+  movedTowardsTarget: boolean;
+}
+
+/**
+ * What a plan is checked against before its next step runs
+ */
+export interface PlanCheck {
+  goalId?: string | undefined;
+  target?: BaseUnit | undefined;
+  actionAvailable: boolean;
+  /** Turns of walking before the target is in range. */
+  turnsToReach: number;
+}
+
+/**
+ * Utility class for the multi-turn plan queue kept on a unit: approach a
+ * target over several turns, then act on it
+ */
+export class PlanQueue {
+  public static readonly PROPERTY = 'plan';
+  /** Extra turns a plan may take before its target counts as out of reach. */
+  public static readonly REACH_SLACK_TURNS = 1;
+
+  public static read(unit: BaseUnit): UnitPlan | undefined {
+    const stored = unit.getPropertyValue<unknown>(this.PROPERTY);
+    if (
+      !isRecord(stored) ||
+      typeof stored.createdTurn !== 'number' ||
+      !Array.isArray(stored.steps) ||
+      !stored.steps.every(isPlanStep)
+    ) {
+      return undefined;
+    }
+
+    return {
+      ...(typeof stored.goalId === 'string' ? { goalId: stored.goalId } : {}),
+      createdTurn: stored.createdTurn,
+      steps: stored.steps.map((step: PlanStep) => ({ ...step })),
+    };
+  }
+
+  /**
+   * Stores the plan on the unit; no plan clears it
+   */
+  public static write(unit: BaseUnit, plan?: UnitPlan): void {
+    unit.setProperty(this.PROPERTY, plan ?? null);
+  }
+
+  /**
+   * A plan to walk for `approachTurns` turns, then act on the target
+   */
+  public static create(
+    actionType: string,
+    targetUnitId: string,
+    approachTurns: number,
+    turn: number,
+    goalId?: string
+  ): UnitPlan {
+    const approach: PlanStep = { kind: 'approach', actionType, targetUnitId };
+    return {
+      ...(goalId ? { goalId } : {}),
+      createdTurn: turn,
+      steps: [
+        ...Array.from({ length: approachTurns }, () => ({ ...approach })),
+        { kind: 'act', actionType, targetUnitId },
+      ],
+    };
+  }
+
+  public static countApproachSteps(plan: UnitPlan): number {
+    return plan.steps.filter(step => step.kind === 'approach').length;
+  }
+
+  /**
+   * Why the plan can no longer run, or undefined when it still holds
+   */
+  public static getInvalidReason(
+    plan: UnitPlan,
+    check: PlanCheck
+  ): string | undefined {
+    const [step] = plan.steps;
+    if (!step) {
+      return 'Plan has no steps left';
+    }
+    if (plan.goalId && check.goalId && plan.goalId !== check.goalId) {
+      return `Goal changed to ${check.goalId}`;
+    }
+    if (!check.target || !UnitLifecycle.isAlive(check.target)) {
+      return 'Target died';
+    }
+    if (!check.actionAvailable) {
+      return `${step.actionType} is no longer available`;
+    }
+    if (check.turnsToReach === Infinity) {
+      return 'Target out of reach';
+    }
+    if (
+      check.turnsToReach >
+      this.countApproachSteps(plan) + this.REACH_SLACK_TURNS
+    ) {
+      return 'Target moved out of reach';
+    }
+    return undefined;
+  }
+
+  /**
+   * Consumes the steps the turn carried out. A move toward the target uses
+   * up an approach step; acting on it finishes the approach and the act.
+   */
+  public static advance(
+    plan: UnitPlan,
+    outcome: PlanTurnOutcome
+  ): { plan?: UnitPlan; event: PlanEvent['event']; reason?: string } {
+    const [step] = plan.steps;
+    if (
+      !step ||
+      step.actionType !== outcome.actionType ||
+      step.targetUnitId !== outcome.targetUnitId
+    ) {
+      return {
+        event: 'abandoned',
+        reason: `Planned ${step?.actionType ?? 'step'} did not run`,
+      };
+    }
+
+    if (outcome.movedTowardsTarget) {
+      const steps = step.kind === 'approach' ? plan.steps.slice(1) : plan.steps;
+      return { plan: { ...plan, steps }, event: 'progressed' };
+    }
+
+    const actIndex = plan.steps.findIndex(
+      candidate => candidate.kind === 'act'
+    );
+    const steps = plan.steps.slice(actIndex + 1);
+    return steps.length > 0
+      ? { plan: { ...plan, steps }, event: 'progressed' }
+      : { event: 'completed' };
+  }
+
+  public static toEvent(
+    unitId: string,
+    step: PlanStep,
+    event: PlanEvent['event'],
+    plan?: UnitPlan,
+    reason?: string
+  ): PlanEvent {
+    return {
+      unitId,
+      event,
+      actionType: step.actionType,
+      targetUnitId: step.targetUnitId,
+      remainingSteps: plan?.steps.length ?? 0,
+      ...(reason ? { reason } : {}),
+    };
+  }
+}
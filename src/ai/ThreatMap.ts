@@ -0,0 +1,135 @@
+import type { BaseUnit, IUnitPosition } from '@atsu/atago';
+import type { IMapPosition } from '@atsu/choukai';
+import type { ThreatSource } from '../types';
+import { isNumber, isUnitPosition } from '../types/typeGuards';
+import { ConfigManager } from '../utils/ConfigManager';
+import type { MemoryConfig } from '../utils/engineConfig';
+import { RelationshipHelper } from '../utils/RelationshipHelper';
+import { UnitLifecycle } from '../utils/UnitLifecycle';
+import { UnitMemory } from './UnitMemory';
+
+/**
+ * Where each faction expects danger. Hostiles in sight count where they
+ * stand, others where a member last saw them, fading with the sighting's
+ * age. A hostile weighs its `attack` plus the damage it has dealt to the
+ * faction, and its threat falls off linearly over `threatRadius` tiles.
+ */
+export class ThreatMap {
+  private sources = new Map<string, ThreatSource[]>();
+  private config: MemoryConfig;
+
+  constructor(config: MemoryConfig = ConfigManager.getMemoryConfig()) {
+    this.config = config;
+  }
+
+  /**
+   * A unit's faction, else the unit itself
+   */
+  public getFactionId(unit: BaseUnit): string {
+    const faction = unit.getPropertyValue<unknown>('faction');
+    return typeof faction === 'string' && faction.trim().length > 0
+      ? faction
+      : unit.id;
+  }
+
+  /**
+   * Rebuilds every faction's threat sources from what its members see and
+   * remember
+   */
+  public update(
+    units: BaseUnit[],
+    canSee: (viewer: BaseUnit, target: BaseUnit) => boolean,
+    turn: number
+  ): void {
+    const alive = units.filter(unit => UnitLifecycle.isAlive(unit));
+    const factions = new Map<string, BaseUnit[]>();
+    for (const unit of alive) {
+      const factionId = this.getFactionId(unit);
+      factions.set(factionId, [...(factions.get(factionId) ?? []), unit]);
+    }
+
+    this.sources = new Map();
+    for (const [factionId, members] of factions) {
+      const sources = alive
+        .filter(unit =>
+          members.some(member => RelationshipHelper.isHostile(member, unit))
+        )
+        .map(hostile => this.buildSource(hostile, members, canSee, turn))
+        .filter((source): source is ThreatSource => source !== undefined);
+      this.sources.set(factionId, sources);
+    }
+  }
+
+  public getSources(factionId: string): ThreatSource[] {
+    return [...(this.sources.get(factionId) ?? [])];
+  }
+
+  /**
+   * Threat the faction expects on a tile; 0 out of every hostile's reach
+   */
+  public getThreat(factionId: string, position: IMapPosition): number {
+    const reach = this.config.threatRadius + 1;
+    return (this.sources.get(factionId) ?? []).reduce((total, source) => {
+      if (source.mapId !== position.mapId) return total;
+      const distance =
+        Math.abs(source.x - position.position.x) +
+        Math.abs(source.y - position.position.y);
+      return distance < reach
+        ? total + source.strength * (1 - distance / reach)
+        : total;
+    }, 0);
+  }
+
+  private buildSource(
+    hostile: BaseUnit,
+    members: BaseUnit[],
+    canSee: (viewer: BaseUnit, target: BaseUnit) => boolean,
+    turn: number
+  ): ThreatSource | undefined {
+    const memories = members.map(member => UnitMemory.read(member));
+    const attack = hostile.getPropertyValue<unknown>('attack');
+    const strength =
+      (isNumber(attack) && attack > 0 ? attack : 1) +
+      memories.reduce(
+        (total, memory) =>
+          total +
+          UnitMemory.getDamageFrom(memory, hostile.id, turn, this.config),
+        0
+      );
+
+    const position = hostile.getPropertyValue<IUnitPosition>('position');
+    if (
+      isUnitPosition(position) &&
+      members.some(member => canSee(member, hostile))
+    ) {
+      return {
+        unitId: hostile.id,
+        mapId: position.mapId,
+        x: position.position.x,
+        y: position.position.y,
+        strength,
+        lastSeenTurn: turn,
+        visible: true,
+      };
+    }
+
+    const sighting = memories
+      .map(memory => UnitMemory.getSighting(memory, hostile.id))
+      .filter(candidate => candidate !== undefined)
+      .sort((a, b) => b.turn - a.turn)[0];
+    if (!sighting) {
+      return undefined;
+    }
+    return {
+      unitId: hostile.id,
+      mapId: sighting.mapId,
+      x: sighting.x,
+      y: sighting.y,
+      strength:
+        strength *
+        Math.pow(this.config.decay, Math.max(0, turn - sighting.turn)),
+      lastSeenTurn: sighting.turn,
+      visible: false,
+    };
+  }
+}
@@ -3,8 +3,9 @@ import { BaseUnit } from '@atsu/atago';
 import type { IPropertyCollection } from '@atsu/atago';
 import { DataManager } from '../utils/DataManager';
 import type { GameState, NamesData, UnitDefinition } from '../types';
-import { randomUUID } from 'crypto';
 import { ConfigManager } from '../utils/ConfigManager';
+import { RandomGenerator } from '../utils/RandomGenerator';
+import type { StorageAdapter } from '../utils/StorageAdapter';
 
 interface BestiarySpawnOptions {
   id?: string;
@@ -26,13 +27,20 @@ export class UnitController {
   private readonly defaultMovementRange =
     ConfigManager.getConfig().defaultMovementRange ?? 3;
   private bestiaryIndex: Map<string, UnitDefinition> = new Map();
+  private random: RandomGenerator;
+  private storage: StorageAdapter;
+
+  constructor(random?: RandomGenerator, storage?: StorageAdapter) {
+    this.random = random ?? RandomGenerator.fromConfig();
+    this.storage = storage ?? DataManager.storage;
+  }
 
   /**
    * Initializes the Unit controller with the game state
    */
   public async initialize(gameState: GameState): Promise<void> {
     this.gameState = gameState;
-    this.namesCatalog = DataManager.loadNames();
+    this.namesCatalog = DataManager.loadNames(this.storage);
     this.loadBestiary();
     this.initialized = true;
     console.log('Unit Controller initialized');
@@ -49,7 +57,7 @@ export class UnitController {
    */
   private initializeGameUnits(): void {
     // Attempt to load existing units from file
-    const savedUnits = DataManager.loadUnits();
+    const savedUnits = DataManager.loadUnits(this.storage);
 
     if (savedUnits && savedUnits.length > 0) {
       // Load existing units from saved state
@@ -68,11 +76,11 @@ export class UnitController {
       console.log(
         `Loaded ${this.gameUnits.length} game units from saved state`
       );
-      DataManager.saveUnits(this.gameUnits);
+      DataManager.saveUnits(this.gameUnits, this.storage);
     } else {
       // Create new example units using Atago's BaseUnit class with names from the catalog
       const warriorName = this.getRandomName(true); // Male name for warrior
-      const unit1 = new BaseUnit(randomUUID(), warriorName, 'warrior', {
+      const unit1 = new BaseUnit(this.random.uuid(), warriorName, 'warrior', {
         health: { name: 'health', value: 100, baseValue: 100 },
         mana: { name: 'mana', value: 50, baseValue: 50 },
         attack: { name: 'attack', value: 20, baseValue: 20 },
@@ -94,7 +102,7 @@ export class UnitController {
       });
 
       const archerName = this.getRandomName(false); // Female name for archer
-      const unit2 = new BaseUnit(randomUUID(), archerName, 'archer', {
+      const unit2 = new BaseUnit(this.random.uuid(), archerName, 'archer', {
         health: { name: 'health', value: 70, baseValue: 70 },
         mana: { name: 'mana', value: 30, baseValue: 30 },
         attack: { name: 'attack', value: 25, baseValue: 25 },
@@ -132,7 +140,7 @@ export class UnitController {
    * Loads the bestiary entries and prepares a lookup map.
    */
   private loadBestiary(): void {
-    const entries = DataManager.loadBeastiary();
+    const entries = DataManager.loadBeastiary(this.storage);
     const index = new Map<string, UnitDefinition>();
 
     for (const entry of entries) {
@@ -187,8 +195,7 @@ export class UnitController {
       return unknown; // fallback if no names are available
     }
 
-    const randomIndex = Math.floor(Math.random() * namesArray.length);
-    return namesArray[randomIndex] || unknown;
+    return this.random.pick(namesArray) || unknown;
   }
 
   /**
@@ -232,63 +239,68 @@ export class UnitController {
    */
   public async addNewUnit(): Promise<BaseUnit> {
     // Generate a random name for the new unit
-    const isMale = Math.random() > 0.5;
+    const isMale = this.random.chance(0.5);
     const newUnitName = this.getRandomName(isMale);
 
     // Generate fully random stats with correlations between them
     // Health ranges from 60-120 depending on other stats
-    const baseHealth = Math.floor(Math.random() * 60) + 60; // 60-120
+    const baseHealth = this.random.nextInt(60, 119); // 60-120
 
     // Mana ranges from 20-70 depending on other stats
-    const baseMana = Math.floor(Math.random() * 50) + 20; // 20-70
+    const baseMana = this.random.nextInt(20, 69); // 20-70
 
     // Attack is base stat with some randomness
-    const baseAttack = Math.floor(Math.random() * 25) + 10; // 10-35
+    const baseAttack = this.random.nextInt(10, 34); // 10-35
 
     // Defense is correlated to attack (higher attack often means higher defense), with some variation
     const baseDefense = Math.max(
       5,
-      Math.floor(baseAttack * (0.4 + Math.random() * 0.4))
+      Math.floor(baseAttack * (0.4 + this.random.next() * 0.4))
     ); // Correlated to attack (±20%)
 
     // Create the new unit with correlated random stats
-    const newUnit = new BaseUnit(randomUUID(), newUnitName, 'adventurer', {
-      health: { name: 'health', value: baseHealth, baseValue: baseHealth },
-      mana: { name: 'mana', value: baseMana, baseValue: baseMana },
-      attack: { name: 'attack', value: baseAttack, baseValue: baseAttack },
-      defense: {
-        name: 'defense',
-        value: baseDefense,
-        baseValue: baseDefense,
-      },
-      status: { name: 'status', value: 'alive', baseValue: 'alive' },
-      maxHealth: {
-        name: 'maxHealth',
-        value: baseHealth,
-        baseValue: baseHealth,
-      },
-      maxMana: { name: 'maxMana', value: baseMana, baseValue: baseMana },
-      // Add other properties with reasonable ranges
-      resources: {
-        name: 'resources',
-        value: Math.floor(Math.random() * 15) + 5,
-        baseValue: 5,
-        modifiers: [],
-        readonly: false,
-      },
-
-      faction: {
-        name: 'faction',
-        value: this.defaultFaction,
-        baseValue: this.defaultFaction,
-      },
-      diplomacy: { name: 'diplomacy', value: 0, baseValue: 0 },
-      movementRange: {
-        name: 'movementRange',
-        value: this.defaultMovementRange,
-        baseValue: this.defaultMovementRange,
-      },
-    });
+    const newUnit = new BaseUnit(
+      this.random.uuid(),
+      newUnitName,
+      'adventurer',
+      {
+        health: { name: 'health', value: baseHealth, baseValue: baseHealth },
+        mana: { name: 'mana', value: baseMana, baseValue: baseMana },
+        attack: { name: 'attack', value: baseAttack, baseValue: baseAttack },
+        defense: {
+          name: 'defense',
+          value: baseDefense,
+          baseValue: baseDefense,
+        },
+        status: { name: 'status', value: 'alive', baseValue: 'alive' },
+        maxHealth: {
+          name: 'maxHealth',
+          value: baseHealth,
+          baseValue: baseHealth,
+        },
+        maxMana: { name: 'maxMana', value: baseMana, baseValue: baseMana },
+        // Add other properties with reasonable ranges
+        resources: {
+          name: 'resources',
+          value: this.random.nextInt(5, 19),
+          baseValue: 5,
+          modifiers: [],
+          readonly: false,
+        },
+
+        faction: {
+          name: 'faction',
+          value: this.defaultFaction,
+          baseValue: this.defaultFaction,
+        },
+        diplomacy: { name: 'diplomacy', value: 0, baseValue: 0 },
+        movementRange: {
+          name: 'movementRange',
+          value: this.defaultMovementRange,
+          baseValue: this.defaultMovementRange,
+        },
+      }
+    );
 
     // Add the new unit to the game units array
     this.gameUnits.push(newUnit);
@@ -299,7 +311,7 @@ export class UnitController {
     console.log(`New unit ${newUnitName} (${newUnit.id}) has joined the game!`);
 
     // Save the updated units to the data manager
-    DataManager.saveUnits(this.gameUnits);
+    DataManager.saveUnits(this.gameUnits, this.storage);
 
     return newUnit;
   }
@@ -330,7 +342,7 @@ export class UnitController {
       }
     }
 
-    const unitId = options.id ?? randomUUID();
+    const unitId = options.id ?? this.random.uuid();
     const name = options.name ?? template.name;
     const type = options.type ?? template.type;
     const newUnit = new BaseUnit(unitId, name, type, properties);
@@ -339,7 +351,7 @@ export class UnitController {
     this.ensureFaction(newUnit);
     this.ensureDiplomacy(newUnit);
     this.ensureMovementRange(newUnit);
-    DataManager.saveUnits(this.gameUnits);
+    DataManager.saveUnits(this.gameUnits, this.storage);
 
     return newUnit;
   }
@@ -354,7 +366,7 @@ export class UnitController {
     }
 
     this.gameUnits.splice(index, 1);
-    DataManager.saveUnits(this.gameUnits);
+    DataManager.saveUnits(this.gameUnits, this.storage);
     return true;
   }
 
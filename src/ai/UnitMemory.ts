@@ -0,0 +1,136 @@
+import type { BaseUnit } from '@atsu/atago';
+import type {
+  AttackerRecord,
+  HostileSighting,
+  UnitMemoryState,
+} from '../types';
+import { isRecord } from '../types/typeGuards';
+import { ConfigManager } from '../utils/ConfigManager';
+import type { MemoryConfig } from '../utils/engineConfig';
+
+const isSighting = (value: unknown): value is HostileSighting =>
+  isRecord(value) &&
+  typeof value.unitId === 'string' &&
+  typeof value.mapId === 'string' &&
+  typeof value.x === 'number' &&
+  typeof value.y === 'number' &&
+  typeof value.turn === 'number';
+
+const isAttacker = (value: unknown): value is AttackerRecord =>
+  isRecord(value) &&
+  typeof value.unitId === 'string' &&
+  typeof value.damage === 'number' &&
+  typeof value.lastTurn === 'number';
+
+/**
+ * Utility class for what a unit remembers of hostiles: where it last saw
+ * each one and how much damage each has dealt to it. Both fade over turns.
+ */
+export class UnitMemory {
+  public static readonly PROPERTY = 'memory';
+
+  /**
+   * Returns a copy of the unit's memory; missing or malformed memory reads
+   * as empty
+   */
+  public static read(unit: BaseUnit): UnitMemoryState {
+    const stored = unit.getPropertyValue<unknown>(this.PROPERTY);
+    if (!isRecord(stored)) {
+      return { sightings: [], attackers: [] };
+    }
+
+    return {
+      sightings: Array.isArray(stored.sightings)
+        ? stored.sightings
+            .filter(isSighting)
+            .map((sighting: HostileSighting) => ({ ...sighting }))
+        : [],
+      attackers: Array.isArray(stored.attackers)
+        ? stored.attackers
+            .filter(isAttacker)
+            .map((attacker: AttackerRecord) => ({ ...attacker }))
+        : [],
+    };
+  }
+
+  public static write(unit: BaseUnit, state: UnitMemoryState): void {
+    unit.setProperty(this.PROPERTY, state);
+  }
+
+  /**
+   * Updates the memory after the unit looked around. Hostiles it sees
+   * replace their old sightings; a sighting on a tile it sees whose hostile
+   * is gone is dropped, as is anything older than `forgetAfterTurns`.
+   */
+  public static observe(
+    state: UnitMemoryState,
+    seen: HostileSighting[],
+    seesTile: (sighting: HostileSighting) => boolean,
+    turn: number,
+    config: MemoryConfig = ConfigManager.getMemoryConfig()
+  ): UnitMemoryState {
+    const seenIds = new Set(seen.map(sighting => sighting.unitId));
+    const kept = state.sightings.filter(
+      sighting =>
+        !seenIds.has(sighting.unitId) &&
+        !seesTile(sighting) &&
+        turn - sighting.turn <= config.forgetAfterTurns
+    );
+
+    return {
+      sightings: [...kept, ...seen.map(sighting => ({ ...sighting }))],
+      attackers: state.attackers.filter(
+        attacker => turn - attacker.lastTurn <= config.forgetAfterTurns
+      ),
+    };
+  }
+
+  /**
+   * Adds damage a hostile dealt on top of what is left of earlier damage
+   */
+  public static recordDamage(
+    state: UnitMemoryState,
+    attackerId: string,
+    damage: number,
+    turn: number,
+    config: MemoryConfig = ConfigManager.getMemoryConfig()
+  ): UnitMemoryState {
+    const total = this.getDamageFrom(state, attackerId, turn, config) + damage;
+    return {
+      ...state,
+      attackers: [
+        ...state.attackers.filter(attacker => attacker.unitId !== attackerId),
+        { unitId: attackerId, damage: total, lastTurn: turn },
+      ],
+    };
+  }
+
+  /**
+   * Damage the hostile has dealt, faded by `decay` for every turn since it
+   * last hit; 0 once forgotten
+   */
+  public static getDamageFrom(
+    state: UnitMemoryState,
+    attackerId: string,
+    turn: number,
+    config: MemoryConfig = ConfigManager.getMemoryConfig()
+  ): number {
+    const attacker = state.attackers.find(
+      candidate => candidate.unitId === attackerId
+    );
+    if (!attacker || turn - attacker.lastTurn > config.forgetAfterTurns) {
+      return 0;
+    }
+    return (
+      attacker.damage *
+      Math.pow(config.decay, Math.max(0, turn - attacker.lastTurn))
+    );
+  }
+
+  public static getSighting(
+    state: UnitMemoryState,
+    unitId: string
+  ): HostileSighting | undefined {
+    return state.sightings.find(sighting => sighting.unitId === unitId);
+  }
+}
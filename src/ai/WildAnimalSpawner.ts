@@ -0,0 +1,85 @@
+import type { BaseUnit } from '@atsu/atago';
+import { Position, type Map as ChoukaiMap } from '@atsu/choukai';
+import type { RandomGenerator } from '../utils/RandomGenerator';
+import type { UnitController } from './UnitController';
+
+export interface WildAnimalSpawnOptions {
+  /** Bestiary entry to spawn. */
+  templateId: string;
+  /** Check every this many completed turns. */
+  every: number;
+  /** No spawn while at least this many wild animals are around. */
+  maxAlive: number;
+}
+
+/**
+ * Periodically tops up the hostile Wild Animals faction from the bestiary
+ */
+export class WildAnimalSpawner {
+  public static readonly FACTION = 'Wild Animals';
+
+  public static readonly DEFAULTS: WildAnimalSpawnOptions = {
+    templateId: 'wolf',
+    every: 10,
+    maxAlive: 3,
+  };
+
+  /**
+   * Whether a spawn check is due once `completedTurns` turns have ended
+   */
+  public static isDue(
+    completedTurns: number,
+    options: WildAnimalSpawnOptions = this.DEFAULTS
+  ): boolean {
+    return completedTurns > 0 && completedTurns % options.every === 0;
+  }
+
+  /**
+   * Spawns one animal hostile to every other unit at a random tile of the
+   * main map when fewer than `maxAlive` are around; null when none spawned
+   */
+  public static async spawn(
+    unitController: UnitController,
+    maps: ChoukaiMap[],
+    units: BaseUnit[],
+    random: RandomGenerator,
+    options: WildAnimalSpawnOptions = this.DEFAULTS
+  ): Promise<BaseUnit | null> {
+    const targetMap =
+      maps.find(map => map.name === 'Main Continent') ?? maps[0];
+    if (!targetMap) {
+      return null;
+    }
+
+    const wildAnimalCount = units.filter(
+      unit => unit.getPropertyValue('faction') === this.FACTION
+    ).length;
+    if (wildAnimalCount >= options.maxAlive) {
+      return null;
+    }
+
+    const newUnit = await unitController.addUnitFromBeastiary(
+      options.templateId
+    );
+    newUnit.setProperty('faction', this.FACTION);
+
+    // Relationships: mark as hostile toward all non-Wild Animals
+    const relationships: Record<string, 'hostile'> = {};
+    for (const unit of units) {
+      if (unit.getPropertyValue('faction') !== this.FACTION) {
+        relationships[unit.id] = 'hostile';
+      }
+    }
+    newUnit.setProperty('relationships', relationships);
+
+    const x = random.nextInt(0, targetMap.width - 1);
+    const y = random.nextInt(0, targetMap.height - 1);
+    newUnit.setProperty('position', {
+      unitId: newUnit.id,
+      mapId: targetMap.name,
+      position: new Position(x, y),
+    });
+
+    return newUnit;
+  }
+}
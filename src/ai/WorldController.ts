@@ -1,6 +1,10 @@
 // Import types from the Choukai library
 import { World as ChoukaiWorld, Map as ChoukaiMap } from '@atsu/choukai';
+import type { BaseUnit } from '@atsu/atago';
 import { DataManager } from '../utils/DataManager';
+import { GateSystem } from '../utils/GateSystem';
+import type { StorageAdapter } from '../utils/StorageAdapter';
+import type { UnitPlacementSnapshot } from '../utils/WorldSnapshotSerializer';
 
 /**
  * Represents the World controller that connects to the Choukai library
@@ -8,8 +12,12 @@ import { DataManager } from '../utils/DataManager';
  */
 export class WorldController {
   private world: ChoukaiWorld;
+  private gateSystem: GateSystem = new GateSystem();
+  private unitPlacements: UnitPlacementSnapshot[] = [];
+  private storage: StorageAdapter;
 
-  constructor() {
+  constructor(storage?: StorageAdapter) {
+    this.storage = storage ?? DataManager.storage;
     this.world = this.initializeWorld();
   }
 
@@ -17,15 +25,17 @@ export class WorldController {
    * Initializes the World controller with the game world
    */
   private initializeWorld(): ChoukaiWorld {
-    // Try to load existing world from file
-    const loadedWorld = DataManager.loadWorld();
+    // Try to load existing world (with its gates and placements) from file
+    const loadedState = DataManager.loadWorldState(this.storage);
 
-    if (loadedWorld) {
+    if (loadedState) {
       // Use the loaded world
       console.log(
-        `Loaded world with ${loadedWorld.getAllMaps().length} maps from saved state`
+        `Loaded world with ${loadedState.world.getAllMaps().length} maps from saved state`
       );
-      return loadedWorld;
+      this.gateSystem = loadedState.gateSystem;
+      this.unitPlacements = loadedState.units;
+      return loadedState.world;
     } else {
       // Create a new world instance
       console.log('Initialized new world with Choukai library');
@@ -40,6 +50,20 @@ export class WorldController {
     return this.world;
   }
 
+  /**
+   * Gets the gate system restored with the world
+   */
+  public getGateSystem(): GateSystem {
+    return this.gateSystem;
+  }
+
+  /**
+   * Gets where units stood when the loaded world was saved
+   */
+  public getUnitPlacements(): UnitPlacementSnapshot[] {
+    return this.unitPlacements.map(placement => ({ ...placement }));
+  }
+
   /**
    * Creates a new map and adds it to the world
    */
@@ -69,16 +93,30 @@ export class WorldController {
   /**
    * Saves the current world state to file (async)
    */
-  public async saveWorld(): Promise<void> {
-    DataManager.saveWorld(this.world);
+  public async saveWorld(units?: BaseUnit[]): Promise<void> {
+    DataManager.saveWorld(
+      this.world,
+      {
+        gateSystem: this.gateSystem,
+        ...(units && { units }),
+      },
+      this.storage
+    );
     console.log('World saved to file');
   }
 
   /**
    * Saves the current world state to file (synchronous)
    */
-  public saveWorldSync(): void {
-    DataManager.saveWorld(this.world);
+  public saveWorldSync(units?: BaseUnit[]): void {
+    DataManager.saveWorld(
+      this.world,
+      {
+        gateSystem: this.gateSystem,
+        ...(units && { units }),
+      },
+      this.storage
+    );
     console.log('World saved to file (sync)');
   }
 
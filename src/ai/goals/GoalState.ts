@@ -0,0 +1,77 @@
+import type { BaseUnit } from '@atsu/atago';
+import type { GoalStatus, UnitGoalState } from '../../types';
+import { isRecord } from '../../types/typeGuards';
+
+const GOAL_STATUSES: GoalStatus[] = ['pending', 'active', 'done', 'blocked'];
+
+const readTurns = (value: unknown): Record<string, number> => {
+  if (!isRecord(value)) return {};
+  const turns: Record<string, number> = {};
+  for (const [key, turn] of Object.entries(value)) {
+    if (typeof turn === 'number') turns[key] = turn;
+  }
+  return turns;
+};
+
+/**
+ * Utility class reading and writing the goal state kept on a unit
+ */
+export class GoalState {
+  public static readonly PROPERTY = 'goalState';
+
+  /**
+   * Returns a copy of the unit's goal state; missing or malformed state
+   * reads as no goal
+   */
+  public static read(unit: BaseUnit): UnitGoalState {
+    const stored = unit.getPropertyValue<unknown>(this.PROPERTY);
+    if (!isRecord(stored)) {
+      return { failedActions: {}, cooldowns: {} };
+    }
+
+    const status = GOAL_STATUSES.find(candidate => candidate === stored.status);
+    return {
+      ...(typeof stored.currentGoal === 'string'
+        ? { currentGoal: stored.currentGoal }
+        : {}),
+      ...(status ? { status } : {}),
+      ...(typeof stored.startedTurn === 'number'
+        ? { startedTurn: stored.startedTurn }
+        : {}),
+      failedActions: readTurns(stored.failedActions),
+      cooldowns: readTurns(stored.cooldowns),
+    };
+  }
+
+  public static write(unit: BaseUnit, state: UnitGoalState): void {
+    unit.setProperty(this.PROPERTY, state);
+  }
+
+  /**
+   * Whether the state holds a goal the unit is still pursuing
+   */
+  public static isPursuing(state: UnitGoalState): boolean {
+    return (
+      state.currentGoal !== undefined &&
+      (state.status === 'pending' || state.status === 'active')
+    );
+  }
+
+  public static isCoolingDown(
+    state: UnitGoalState,
+    goalId: string,
+    turn: number
+  ): boolean {
+    return turn < (state.cooldowns[goalId] ?? -Infinity);
+  }
+
+  public static hasRecentlyFailed(
+    state: UnitGoalState,
+    actionType: string,
+    turn: number,
+    memoryTurns: number
+  ): boolean {
+    const failedTurn = state.failedActions[actionType];
+    return failedTurn !== undefined && turn - failedTurn < memoryTurns;
+  }
+}
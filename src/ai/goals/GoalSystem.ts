@@ -1,8 +1,23 @@
 import { BaseUnit } from '@atsu/atago';
-import type { Action, GoalDefinition, GoalsData } from '../../types';
+import type {
+  Action,
+  GoalDefinition,
+  GoalsData,
+  GoalTransition,
+  SquadDirective,
+  UnitGoalState,
+} from '../../types';
 import { DataManager } from '../../utils/DataManager';
+import { ActionTargeting } from '../../utils/ActionTargeting';
+import { ConditionParser } from '../../utils/ConditionParser';
+import { ConfigManager } from '../../utils/ConfigManager';
+import type { GoalsConfig } from '../../utils/engineConfig';
 import { MathUtils } from '../../utils/Math';
-import { RelationshipHelper } from '../../utils/RelationshipHelper';
+import { RandomGenerator } from '../../utils/RandomGenerator';
+import type { StorageAdapter } from '../../utils/StorageAdapter';
+import { GoalState } from './GoalState';
+import { SquadBlackboard } from './SquadBlackboard';
+import { UtilityScorer, type GoalInputs } from './UtilityScorer';
 
 interface GoalContext {
   availableActions: Action[];
@@ -29,29 +44,65 @@ interface GoalChoice {
   candidateActions: Action[];
   reason: string;
   goalCandidates: GoalActionCandidate[];
+  /** Goal changes made while choosing, oldest first. */
+  transitions: GoalTransition[];
+  /** The member's part when a squad goal was chosen. */
+  directive?: SquadDirective;
 }
 
 /**
- * Simple goal system that scores goals, picks the best, then chooses
- * the first executable action for that goal.
+ * Goal system that scores goals from their `scoring` in goals.json, picks
+ * the best, then chooses the first executable action for that goal.
+ * Each unit keeps its goal (see GoalState) until it is done, blocked, or
+ * beaten by `goals.switchMargin`. Squad goals compete with personal goals
+ * for members of a squad on the shared SquadBlackboard.
  */
 export class GoalSystem {
   private goals: GoalDefinition[];
+  private random: RandomGenerator;
+  private config: GoalsConfig;
+  private blackboard: SquadBlackboard;
 
-  constructor(goalsData?: GoalsData) {
-    this.goals = goalsData ?? DataManager.loadGoals();
+  constructor(
+    goalsData?: GoalsData,
+    random?: RandomGenerator,
+    storage?: StorageAdapter,
+    config: GoalsConfig = ConfigManager.getGoalsConfig(),
+    blackboard: SquadBlackboard = new SquadBlackboard()
+  ) {
+    this.goals = goalsData ?? DataManager.loadGoals(storage);
+    this.random = random ?? RandomGenerator.fromConfig();
+    this.config = config;
+    this.blackboard = blackboard;
+  }
+
+  public getBlackboard(): SquadBlackboard {
+    return this.blackboard;
   }
 
   public chooseAction(unit: BaseUnit, context: GoalContext): GoalChoice {
-    const evaluatedGoals = this.evaluateGoals(unit, context).sort(
-      (a, b) => b.score - a.score
-    );
+    if (context.units) {
+      this.blackboard.update(context.units);
+    }
+    const state = GoalState.read(unit);
+    const transitions: GoalTransition[] = [];
+    this.finishIfComplete(unit, state, context, transitions);
+
+    const evaluatedGoals = this.evaluateGoals(unit, context)
+      .filter(
+        candidate =>
+          !GoalState.isCoolingDown(state, candidate.goal.id, context.turn)
+      )
+      .sort((a, b) => b.score - a.score);
+    this.keepCurrentGoal(evaluatedGoals, state);
 
     const goalCandidates: GoalActionCandidate[] = evaluatedGoals.map(
       candidate => {
         const actionsForGoal = this.getActionsForGoal(
           candidate.goal,
-          context.availableActions
+          context.availableActions,
+          state,
+          context.turn
         );
         return {
           goal: candidate.goal,
@@ -62,23 +113,52 @@ export class GoalSystem {
       }
     );
 
+    const current = goalCandidates.find(
+      candidate =>
+        GoalState.isPursuing(state) && candidate.goal.id === state.currentGoal
+    );
+    if (current && current.actions.length === 0) {
+      this.endGoal(
+        unit,
+        state,
+        current.goal,
+        'blocked',
+        'No executable actions',
+        context.turn,
+        transitions
+      );
+    }
+
     for (const candidate of goalCandidates) {
       if (candidate.actions.length > 0) {
         const chosenAction = candidate.actions[0] ?? null;
+        this.startGoal(
+          unit,
+          state,
+          candidate.goal,
+          candidate.reason,
+          context.turn,
+          transitions
+        );
+        GoalState.write(unit, state);
+        const directive = this.getDirective(unit, candidate.goal);
         return {
           goal: candidate.goal,
           action: chosenAction,
           candidateActions: candidate.actions,
           reason: candidate.reason,
           goalCandidates,
+          transitions,
+          ...(directive ? { directive } : {}),
         };
       }
     }
+    GoalState.write(unit, state);
 
     // Fallback: use any available action with the first known goal
     const fallbackAction =
       context.availableActions[0] ??
-      MathUtils.getRandomFromArray(context.availableActions) ??
+      MathUtils.getRandomFromArray(context.availableActions, this.random) ??
       null;
 
     const fallbackGoal =
@@ -90,72 +170,231 @@ export class GoalSystem {
       candidateActions: context.availableActions,
       reason: evaluatedGoals[0]?.reason ?? 'Fallback selection',
       goalCandidates,
+      transitions,
     };
   }
 
-  private evaluateGoals(unit: BaseUnit, context: GoalContext): GoalCandidate[] {
-    const health = unit.getPropertyValue<number>('health') ?? 0;
-    const maxHealth = unit.getPropertyValue<number>('maxHealth') ?? 0;
-    const mana = unit.getPropertyValue<number>('mana') ?? 0;
-    const maxMana = unit.getPropertyValue<number>('maxMana') ?? 0;
-    const healthPct = maxHealth > 0 ? health / maxHealth : 1;
-    const manaPct = maxMana > 0 ? mana / maxMana : 1;
-    const hostilesAvailable = this.hasHostileTarget(unit, context.units);
-
-    const candidates: GoalCandidate[] = [];
+  /**
+   * Updates the unit's goal after its turn: remembers failed actions, marks
+   * the goal active once one of its actions succeeds, done once its
+   * completion is met, and blocked when none of its actions succeeded.
+   */
+  public resolveTurn(
+    unit: BaseUnit,
+    context: GoalContext,
+    executedActionType: string,
+    failedActionTypes: string[] = []
+  ): GoalTransition[] {
+    if (context.units) {
+      this.blackboard.update(context.units);
+    }
+    const state = GoalState.read(unit);
+    const transitions: GoalTransition[] = [];
+    for (const actionType of failedActionTypes) {
+      state.failedActions[actionType] = context.turn;
+    }
+    delete state.failedActions[executedActionType];
 
-    const recoverHealthGoal = this.findGoalById('RecoverHealth');
-    if (recoverHealthGoal) {
-      if (healthPct < 0.3) {
-        candidates.push({
-          goal: recoverHealthGoal,
-          score: 100,
-          reason: 'Health critically low',
+    const goal = GoalState.isPursuing(state)
+      ? this.goals.find(candidate => candidate.id === state.currentGoal)
+      : undefined;
+    if (goal && !goal.candidateActions.includes(executedActionType)) {
+      this.endGoal(
+        unit,
+        state,
+        goal,
+        'blocked',
+        'No goal action succeeded',
+        context.turn,
+        transitions
+      );
+    } else if (goal) {
+      if (state.status === 'pending') {
+        state.status = 'active';
+        transitions.push({
+          unitId: unit.id,
+          goalId: goal.id,
+          status: 'active',
+          reason: `${executedActionType} succeeded`,
         });
-      } else if (healthPct < 0.6) {
-        candidates.push({
-          goal: recoverHealthGoal,
-          score: 75,
-          reason: 'Health below comfort threshold',
+      }
+      this.finishIfComplete(unit, state, context, transitions);
+    }
+
+    GoalState.write(unit, state);
+    return transitions;
+  }
+
+  /**
+   * Checks whether a goal's completion criteria are met for the unit.
+   * `condition_met` uses the same ConditionParser grammar as effect
+   * conditions, with the goal scoring inputs (e.g. `squadSpread`) as values.
+   */
+  public isGoalComplete(
+    goal: GoalDefinition,
+    unit: BaseUnit,
+    context: GoalContext
+  ): boolean {
+    const { completion } = goal;
+    switch (completion.type) {
+      case 'stat_at_least': {
+        if (!completion.stat) return false;
+        const value = unit.getPropertyValue<number>(completion.stat) ?? 0;
+        return value >= (completion.value ?? 0);
+      }
+      case 'condition_met':
+        if (!completion.condition) return false;
+        return ConditionParser.evaluate(completion.condition, {
+          actor: unit,
+          units: context.units,
+          range: this.getGoalRange(goal, context.availableActions),
+          values: this.readInputs(unit, context),
         });
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Scores every goal that declares `scoring`; goals scoring 0 or less are
+   * left out
+   */
+  private evaluateGoals(unit: BaseUnit, context: GoalContext): GoalCandidate[] {
+    const inputs = this.readInputs(unit, context);
+    const inSquad = Boolean(this.blackboard.getForUnit(unit.id));
+    const candidates: GoalCandidate[] = [];
+
+    for (const goal of this.goals) {
+      if (!goal.scoring) continue;
+      if (goal.scope === 'squad' && (!inSquad || !goal.subgoal)) continue;
+      const { score, reason } = UtilityScorer.score(goal.scoring, inputs);
+      if (score > 0) {
+        candidates.push({ goal, score, ...(reason ? { reason } : {}) });
       }
     }
 
-    const recoverManaGoal = this.findGoalById('RecoverMana');
-    if (recoverManaGoal && manaPct < 0.5) {
-      const score = manaPct < 0.25 ? 70 : 45;
-      candidates.push({
-        goal: recoverManaGoal,
-        score,
-        reason: 'Mana running low',
-      });
+    return candidates;
+  }
+
+  private readInputs(unit: BaseUnit, context: GoalContext): GoalInputs {
+    return UtilityScorer.readInputs(
+      unit,
+      context.units,
+      context.units
+        ? this.blackboard.readInputs(unit, context.units)
+        : undefined
+    );
+  }
+
+  private getDirective(
+    unit: BaseUnit,
+    goal: GoalDefinition
+  ): SquadDirective | undefined {
+    const entry = this.blackboard.getForUnit(unit.id);
+    if (goal.scope !== 'squad' || !goal.subgoal || !entry) {
+      return undefined;
     }
+    return this.blackboard.getDirective(entry, unit.id, goal.subgoal);
+  }
+
+  /**
+   * Moves the unit's current goal to the front unless the best goal beats
+   * it by at least the switch margin
+   */
+  private keepCurrentGoal(
+    evaluatedGoals: GoalCandidate[],
+    state: UnitGoalState
+  ): void {
+    if (!GoalState.isPursuing(state)) return;
+    const index = evaluatedGoals.findIndex(
+      candidate => candidate.goal.id === state.currentGoal
+    );
+    const current = evaluatedGoals[index];
+    const best = evaluatedGoals[0];
+    if (!current || !best || index === 0) return;
 
-    const attackGoal = this.findGoalById('AttackEnemy');
-    if (attackGoal && hostilesAvailable) {
-      const baseAttackScore = healthPct > 0.35 ? 60 : 25;
-      candidates.push({
-        goal: attackGoal,
-        score: baseAttackScore,
-        reason: 'Hostile targets available',
-      });
+    if (best.score < current.score + this.config.switchMargin) {
+      evaluatedGoals.splice(index, 1);
+      evaluatedGoals.unshift(current);
     }
+  }
+
+  private startGoal(
+    unit: BaseUnit,
+    state: UnitGoalState,
+    goal: GoalDefinition,
+    reason: string,
+    turn: number,
+    transitions: GoalTransition[]
+  ): void {
+    if (GoalState.isPursuing(state) && state.currentGoal === goal.id) return;
 
-    const exploreGoal = this.findGoalById('Explore');
-    if (exploreGoal) {
-      candidates.push({
-        goal: exploreGoal,
-        score: 10,
-        reason: 'Fallback exploration',
-      });
+    transitions.push({
+      unitId: unit.id,
+      goalId: goal.id,
+      status: 'pending',
+      ...(GoalState.isPursuing(state) && state.currentGoal
+        ? { previousGoalId: state.currentGoal }
+        : {}),
+      reason,
+    });
+    state.currentGoal = goal.id;
+    state.status = 'pending';
+    state.startedTurn = turn;
+  }
+
+  /**
+   * Closes the unit's current goal and starts its cooldown
+   */
+  private endGoal(
+    unit: BaseUnit,
+    state: UnitGoalState,
+    goal: GoalDefinition,
+    status: 'done' | 'blocked',
+    reason: string,
+    turn: number,
+    transitions: GoalTransition[]
+  ): void {
+    transitions.push({ unitId: unit.id, goalId: goal.id, status, reason });
+    state.status = status;
+    const cooldown = goal.cooldown ?? this.config.cooldownTurns;
+    if (cooldown > 0) {
+      state.cooldowns[goal.id] = turn + cooldown;
     }
+  }
 
-    return candidates;
+  private finishIfComplete(
+    unit: BaseUnit,
+    state: UnitGoalState,
+    context: GoalContext,
+    transitions: GoalTransition[]
+  ): void {
+    if (!GoalState.isPursuing(state)) return;
+    const goal = this.goals.find(
+      candidate => candidate.id === state.currentGoal
+    );
+    if (goal && this.isGoalComplete(goal, unit, context)) {
+      this.endGoal(
+        unit,
+        state,
+        goal,
+        'done',
+        'Completion met',
+        context.turn,
+        transitions
+      );
+    }
   }
 
+  /**
+   * Available candidate actions of the goal in goal order, with actions
+   * that failed within `goals.failedActionTurns` moved to the end
+   */
   private getActionsForGoal(
     goal: GoalDefinition,
-    availableActions: Action[]
+    availableActions: Action[],
+    state?: UnitGoalState,
+    turn?: number
   ): Action[] {
     if (!goal?.candidateActions || goal.candidateActions.length === 0) {
       return [];
@@ -167,11 +406,33 @@ export class GoalSystem {
       )
       .filter((action): action is Action => Boolean(action));
 
-    return actions;
+    if (!state || turn === undefined) {
+      return actions;
+    }
+    const failed = (action: Action): boolean =>
+      GoalState.hasRecentlyFailed(
+        state,
+        action.type,
+        turn,
+        this.config.failedActionTurns
+      );
+    return [
+      ...actions.filter(action => !failed(action)),
+      ...actions.filter(failed),
+    ];
   }
 
-  private findGoalById(goalId: string): GoalDefinition | undefined {
-    return this.goals.find(goal => goal.id === goalId);
+  /**
+   * Largest max range among the goal's available candidate actions that target a unit.
+   */
+  private getGoalRange(
+    goal: GoalDefinition,
+    availableActions: Action[]
+  ): number {
+    const ranges = this.getActionsForGoal(goal, availableActions)
+      .filter(action => ActionTargeting.requiresTarget(action))
+      .map(action => ActionTargeting.resolve(action).maxRange);
+    return ranges.length > 0 ? Math.max(...ranges) : 1;
   }
 
   private createDefaultGoal(): GoalDefinition {
@@ -182,31 +443,4 @@ export class GoalSystem {
       candidateActions: [],
     };
   }
-
-  /**
-   * Determines whether the unit has any hostile targets available.
-   */
-  private hasHostileTarget(actor: BaseUnit, units?: BaseUnit[]): boolean {
-    if (!units || units.length === 0) return true; // Unknown context: allow attack goal
-    return units.some(
-      other =>
-        other.id !== actor.id &&
-        this.isUnitAlive(other) &&
-        RelationshipHelper.isHostile(actor, other)
-    );
-  }
-
-  private isUnitAlive(unit: BaseUnit): boolean {
-    const status = unit.getPropertyValue<string>('status');
-    if (status === 'dead') {
-      return false;
-    }
-
-    const healthValue = unit.getPropertyValue<number>('health');
-    if (!healthValue || healthValue <= 0) {
-      return false;
-    }
-
-    return true;
-  }
 }
@@ -0,0 +1,299 @@
+import type { BaseUnit, IUnitPosition } from '@atsu/atago';
+import type {
+  SquadBlackboardEntry,
+  SquadDirective,
+  SquadFormation,
+  SquadRallyPoint,
+  SquadSubgoal,
+} from '../../types';
+import { ConfigManager } from '../../utils/ConfigManager';
+import type { SquadsConfig } from '../../utils/engineConfig';
+import { RelationshipHelper } from '../../utils/RelationshipHelper';
+import { UnitLifecycle } from '../../utils/UnitLifecycle';
+import { UnitPosition } from '../../utils/UnitPosition';
+import type { SquadInputs } from './UtilityScorer';
+
+/**
+ * Shared state of every squad: membership, leader, focus target, rally
+ * point and formation. Squads are rebuilt from the units on each update;
+ * only explicit rally points, formations and still-valid focus targets
+ * carry over.
+ */
+export class SquadBlackboard {
+  private entries = new Map<string, SquadBlackboardEntry>();
+  private rallyPoints = new Map<string, SquadRallyPoint>();
+  private formations = new Map<string, SquadFormation>();
+  private config: SquadsConfig;
+
+  constructor(config: SquadsConfig = ConfigManager.getSquadsConfig()) {
+    this.config = config;
+  }
+
+  /**
+   * A unit's `squad` property, else its faction when squads are derived
+   * from factions
+   */
+  public getSquadId(unit: BaseUnit): string | undefined {
+    const squad = unit.getPropertyValue<unknown>('squad');
+    if (typeof squad === 'string' && squad.trim().length > 0) {
+      return squad;
+    }
+    const faction = unit.getPropertyValue<unknown>('faction');
+    return this.config.deriveFromFaction &&
+      typeof faction === 'string' &&
+      faction.trim().length > 0
+      ? faction
+      : undefined;
+  }
+
+  /**
+   * Rebuilds every squad of two or more alive members from the units
+   */
+  public update(units: BaseUnit[]): SquadBlackboardEntry[] {
+    const members = new Map<string, BaseUnit[]>();
+    for (const unit of units.filter(candidate =>
+      UnitLifecycle.isAlive(candidate)
+    )) {
+      const squadId = this.getSquadId(unit);
+      if (squadId) {
+        members.set(squadId, [...(members.get(squadId) ?? []), unit]);
+      }
+    }
+
+    const entries = new Map<string, SquadBlackboardEntry>();
+    for (const [squadId, squadMembers] of members) {
+      if (squadMembers.length < 2) continue;
+      entries.set(
+        squadId,
+        this.buildEntry(squadId, squadMembers, units, this.entries.get(squadId))
+      );
+    }
+
+    this.entries = entries;
+    return [...entries.values()];
+  }
+
+  public get(squadId: string): SquadBlackboardEntry | undefined {
+    return this.entries.get(squadId);
+  }
+
+  public getForUnit(unitId: string): SquadBlackboardEntry | undefined {
+    return [...this.entries.values()].find(entry =>
+      entry.memberIds.includes(unitId)
+    );
+  }
+
+  public getAll(): SquadBlackboardEntry[] {
+    return [...this.entries.values()];
+  }
+
+  /**
+   * Pins the squad's rally point; `undefined` goes back to the leader's position
+   */
+  public setRallyPoint(squadId: string, point?: SquadRallyPoint): void {
+    if (point) {
+      this.rallyPoints.set(squadId, point);
+    } else {
+      this.rallyPoints.delete(squadId);
+    }
+    const entry = this.entries.get(squadId);
+    if (entry && point) {
+      entry.rallyPoint = point;
+    }
+  }
+
+  /**
+   * Sets the squad's formation; `undefined` goes back to `squads.formation`
+   */
+  public setFormation(squadId: string, formation?: SquadFormation): void {
+    if (formation) {
+      this.formations.set(squadId, formation);
+    } else {
+      this.formations.delete(squadId);
+    }
+    const entry = this.entries.get(squadId);
+    if (entry) {
+      entry.formation = formation ?? this.config.formation;
+    }
+  }
+
+  /**
+   * Sets the squad's focus target; it is kept while it stays alive and hostile
+   */
+  public setFocusTarget(squadId: string, targetUnitId?: string): void {
+    const entry = this.entries.get(squadId);
+    if (!entry) return;
+    if (targetUnitId) {
+      entry.focusTargetId = targetUnitId;
+    } else {
+      delete entry.focusTargetId;
+    }
+  }
+
+  /**
+   * The member a unit keeps its formation on: the leader in a cluster, the
+   * member ahead of it in a column. The leader has none.
+   */
+  public getAnchorId(
+    entry: SquadBlackboardEntry,
+    unitId: string
+  ): string | undefined {
+    const index = entry.memberIds.indexOf(unitId);
+    if (index <= 0) return undefined;
+    return entry.formation === 'column'
+      ? entry.memberIds[index - 1]
+      : entry.leaderId;
+  }
+
+  /**
+   * Turns a squad goal's subgoal into what the member does this turn
+   */
+  public getDirective(
+    entry: SquadBlackboardEntry,
+    unitId: string,
+    subgoal: SquadSubgoal
+  ): SquadDirective {
+    const directive: SquadDirective = {
+      squadId: entry.squadId,
+      subgoal,
+      withinRange: this.config.spacing,
+    };
+    const anchorId = this.getAnchorId(entry, unitId);
+    switch (subgoal) {
+      case 'keep_formation':
+        return anchorId ? { ...directive, followUnitId: anchorId } : directive;
+      case 'attack_focus_target':
+        return entry.focusTargetId
+          ? { ...directive, targetUnitId: entry.focusTargetId }
+          : directive;
+      case 'move_to_rally_point':
+        return entry.rallyPoint
+          ? { ...directive, destination: entry.rallyPoint }
+          : directive;
+    }
+  }
+
+  /**
+   * Squad measurements for goal scoring; undefined outside a squad
+   */
+  public readInputs(
+    unit: BaseUnit,
+    units: BaseUnit[]
+  ): SquadInputs | undefined {
+    const entry = this.getForUnit(unit.id);
+    if (!entry) return undefined;
+
+    const anchorId = this.getAnchorId(entry, unit.id);
+    const members = units.filter(candidate =>
+      entry.memberIds.includes(candidate.id)
+    );
+    const healthRatios = members.map(member => {
+      const health = member.getPropertyValue<number>('health') ?? 0;
+      const maxHealth = member.getPropertyValue<number>('maxHealth') ?? 0;
+      return maxHealth > 0 ? health / maxHealth : 1;
+    });
+
+    return {
+      squadSize: entry.memberIds.length,
+      squadSpread: anchorId
+        ? UnitPosition.getDistanceBetweenUnits(units, unit.id, anchorId)
+        : 0,
+      rallyPointDistance: entry.rallyPoint
+        ? this.distanceToPoint(unit, entry.rallyPoint)
+        : 0,
+      squadHealthPct:
+        healthRatios.reduce((total, ratio) => total + ratio, 0) /
+        Math.max(1, healthRatios.length),
+      focusTargetAvailable: entry.focusTargetId ? 1 : 0,
+    };
+  }
+
+  private buildEntry(
+    squadId: string,
+    members: BaseUnit[],
+    units: BaseUnit[],
+    previous?: SquadBlackboardEntry
+  ): SquadBlackboardEntry {
+    const leader =
+      members.find(
+        member => member.getPropertyValue<unknown>('squadLeader') === true
+      ) ??
+      members.find(member => member.id === previous?.leaderId) ??
+      (members[0] as BaseUnit);
+    const focusTargetId = this.selectFocusTarget(
+      leader,
+      units,
+      previous?.focusTargetId
+    );
+    const rallyPoint =
+      this.rallyPoints.get(squadId) ?? this.getLeaderPoint(leader);
+
+    return {
+      squadId,
+      memberIds: [
+        leader.id,
+        ...members
+          .filter(member => member.id !== leader.id)
+          .map(member => member.id),
+      ],
+      leaderId: leader.id,
+      ...(focusTargetId ? { focusTargetId } : {}),
+      ...(rallyPoint ? { rallyPoint } : {}),
+      formation: this.formations.get(squadId) ?? this.config.formation,
+    };
+  }
+
+  /**
+   * Keeps the current focus target while it is alive and hostile, otherwise
+   * picks the hostile nearest to the leader
+   */
+  private selectFocusTarget(
+    leader: BaseUnit,
+    units: BaseUnit[],
+    currentTargetId?: string
+  ): string | undefined {
+    const hostiles = units.filter(
+      unit =>
+        UnitLifecycle.isAlive(unit) &&
+        RelationshipHelper.isHostile(leader, unit)
+    );
+    if (currentTargetId && hostiles.some(unit => unit.id === currentTargetId)) {
+      return currentTargetId;
+    }
+
+    const nearest = hostiles
+      .map(unit => ({
+        unit,
+        distance: UnitPosition.getDistanceBetweenUnits(
+          units,
+          leader.id,
+          unit.id
+        ),
+      }))
+      .filter(candidate => candidate.distance !== Infinity)
+      .sort((a, b) => a.distance - b.distance)[0];
+    return nearest?.unit.id;
+  }
+
+  private getLeaderPoint(leader: BaseUnit): SquadRallyPoint | undefined {
+    const position = leader.getPropertyValue<IUnitPosition>('position');
+    return position
+      ? {
+          mapId: position.mapId,
+          x: position.position.x,
+          y: position.position.y,
+        }
+      : undefined;
+  }
+
+  private distanceToPoint(unit: BaseUnit, point: SquadRallyPoint): number {
+    const position = unit.getPropertyValue<IUnitPosition>('position');
+    if (!position || position.mapId !== point.mapId) {
+      return Infinity;
+    }
+    return (
+      Math.abs(position.position.x - point.x) +
+      Math.abs(position.position.y - point.y)
+    );
+  }
+}
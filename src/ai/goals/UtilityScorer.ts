@@ -0,0 +1,132 @@
+import type { BaseUnit } from '@atsu/atago';
+import type { GoalInput, GoalScoring, ResponseCurve } from '../../types';
+import { RelationshipHelper } from '../../utils/RelationshipHelper';
+import { UnitLifecycle } from '../../utils/UnitLifecycle';
+import { UnitPosition } from '../../utils/UnitPosition';
+
+export type GoalInputs = Record<GoalInput, number>;
+
+export type SquadInputs = Pick<
+  GoalInputs,
+  | 'squadSize'
+  | 'squadSpread'
+  | 'rallyPointDistance'
+  | 'squadHealthPct'
+  | 'focusTargetAvailable'
+>;
+
+export interface UtilityScore {
+  score: number;
+  reason?: string;
+}
+
+/**
+ * Utility class scoring goals from the response curves declared in goals.json
+ */
+export class UtilityScorer {
+  /** Squad inputs of a unit outside any squad. */
+  public static readonly NO_SQUAD: SquadInputs = {
+    squadSize: 0,
+    squadSpread: 0,
+    rallyPointDistance: 0,
+    squadHealthPct: 1,
+    focusTargetAvailable: 0,
+  };
+
+  /**
+   * Measures everything goal scoring can respond to. Without a unit list
+   * hostiles are assumed to be available, so attack goals stay eligible.
+   */
+  public static readInputs(
+    unit: BaseUnit,
+    units?: BaseUnit[],
+    squad: SquadInputs = this.NO_SQUAD
+  ): GoalInputs {
+    const others = (units ?? []).filter(
+      other => other.id !== unit.id && UnitLifecycle.isAlive(other)
+    );
+    const hostiles = others.filter(other =>
+      RelationshipHelper.isHostile(unit, other)
+    );
+    const allies = others.filter(other =>
+      RelationshipHelper.isAlly(unit, other)
+    );
+    const hostileDistances = hostiles.map(hostile =>
+      UnitPosition.getDistanceBetweenUnits(units ?? [], unit.id, hostile.id)
+    );
+
+    return {
+      healthPct: this.getRatio(unit, 'health', 'maxHealth'),
+      manaPct: this.getRatio(unit, 'mana', 'maxMana'),
+      hostilesAvailable:
+        !units || units.length === 0 || hostiles.length > 0 ? 1 : 0,
+      hostileCount: hostiles.length,
+      nearestHostileDistance: Math.min(Infinity, ...hostileDistances),
+      allyCount: allies.length,
+      lowestAllyHealthPct: Math.min(
+        1,
+        ...allies.map(ally => this.getRatio(ally, 'health', 'maxHealth'))
+      ),
+      ...squad,
+    };
+  }
+
+  /**
+   * Multiplies the weight by every consideration's curve value. The reason
+   * is the first matched step's, falling back to the scoring's own.
+   */
+  public static score(scoring: GoalScoring, inputs: GoalInputs): UtilityScore {
+    let score = scoring.weight ?? 1;
+    let reason: string | undefined;
+    for (const consideration of scoring.considerations ?? []) {
+      const result = this.evaluateCurve(
+        consideration.curve,
+        inputs[consideration.input]
+      );
+      score *= result.value;
+      reason ??= result.reason;
+    }
+
+    reason ??= scoring.reason;
+    return { score, ...(reason ? { reason } : {}) };
+  }
+
+  public static evaluateCurve(
+    curve: ResponseCurve,
+    input: number
+  ): { value: number; reason?: string } {
+    if (curve.type === 'step') {
+      const step = curve.steps.find(candidate =>
+        candidate.below !== undefined
+          ? input < candidate.below
+          : candidate.atMost !== undefined && input <= candidate.atMost
+      );
+      if (!step) {
+        return { value: curve.otherwise ?? 0 };
+      }
+      return {
+        value: step.value,
+        ...(step.reason ? { reason: step.reason } : {}),
+      };
+    }
+
+    const { from, to } = curve;
+    const progress = Math.min(
+      1,
+      Math.max(0, (input - from.x) / (to.x - from.x))
+    );
+    return {
+      value: from.y + (to.y - from.y) * progress ** (curve.exponent ?? 1),
+    };
+  }
+
+  private static getRatio(
+    unit: BaseUnit,
+    property: string,
+    maxProperty: string
+  ): number {
+    const value = unit.getPropertyValue<number>(property) ?? 0;
+    const max = unit.getPropertyValue<number>(maxProperty) ?? 0;
+    return max > 0 ? value / max : 1;
+  }
+}
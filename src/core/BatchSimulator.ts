@@ -0,0 +1,451 @@
+/**
+ * Headless batch runner for balancing data files.
+ * Plays several seeded sessions without renderer or TTY, each on its own
+ * in-memory storage seeded with the catalogs, and aggregates what happened
+ * through the engine events.
+ */
+
+import type { BaseUnit } from '@atsu/atago';
+import { Position, type Map as ChoukaiMap } from '@atsu/choukai';
+import { GameEngine } from './GameEngine';
+import type { EngineEvents } from './EngineEvents';
+import {
+  WildAnimalSpawner,
+  type WildAnimalSpawnOptions,
+} from '../ai/WildAnimalSpawner';
+import { DataManager } from '../utils/DataManager';
+import { MapGenerator } from '../utils/MapGenerator';
+import { RandomGenerator } from '../utils/RandomGenerator';
+import {
+  MemoryStorageAdapter,
+  type StorageAdapter,
+} from '../utils/StorageAdapter';
+import { UnitLifecycle } from '../utils/UnitLifecycle';
+import { isNumber } from '../types/typeGuards';
+
+export interface SimulationOptions {
+  sessions: number;
+  /** Turns per session; a session ends early when no unit can act. */
+  turns: number;
+  /** Session `i` (1-based) is seeded with `${seed}-${i}`. */
+  seed?: string;
+  /** Where the catalogs are read from; defaults to `DataManager.storage`. */
+  source?: StorageAdapter;
+  /** Wild animal top-ups as in the demo; false disables them. */
+  wildAnimals?: WildAnimalSpawnOptions | false;
+}
+
+export interface SimulationSessionSummary {
+  seed: string;
+  turnsPlayed: number;
+  units: number;
+  /** Units left off the map because no free walkable tile was found. */
+  unplacedUnits: number;
+}
+
+export interface FrequencyStats {
+  count: number;
+  /** Fraction of all counted occurrences, 0-1. */
+  share: number;
+}
+
+/**
+ * `dealt` counts health removed by a unit's action effects; `taken` counts
+ * every health loss, including status ticks and effects without an actor.
+ */
+export interface DamageStats {
+  units: number;
+  dealt: number;
+  taken: number;
+  averageDealt: number;
+  averageTaken: number;
+}
+
+export interface SurvivalStats {
+  units: number;
+  survived: number;
+  rate: number;
+}
+
+export interface SimulationReport {
+  sessions: SimulationSessionSummary[];
+  turnsPlayed: number;
+  actionUsage: Record<string, FrequencyStats>;
+  /** Failure counts per action type, keyed by failure type. */
+  failures: Record<string, Record<string, number>>;
+  damageByUnitType: Record<string, DamageStats>;
+  survivalByFaction: Record<string, SurvivalStats>;
+  goalSelection: Record<string, FrequencyStats>;
+}
+
+interface TrackedUnit {
+  type: string;
+  faction: string;
+}
+
+const MAP_NAME = 'Main Continent';
+
+/**
+ * Accumulates statistics across sessions from engine events
+ */
+class SimulationStats {
+  private actionCounts: Record<string, number> = {};
+  private failures: Record<string, Record<string, number>> = {};
+  private goalCounts: Record<string, number> = {};
+  private damage: Record<string, { dealt: number; taken: number }> = {};
+  private unitTypes: Record<string, number> = {};
+  private survival: Record<string, { units: number; survived: number }> = {};
+  private sessionUnits = new Map<string, TrackedUnit>();
+
+  /**
+   * Starts tracking a session; returns a function that detaches the handlers
+   */
+  public attach(events: EngineEvents, getUnits: () => BaseUnit[]): () => void {
+    this.sessionUnits = new Map();
+    for (const unit of getUnits()) {
+      this.track(unit);
+    }
+
+    const findUnit = (unitId: string): TrackedUnit | undefined => {
+      const unit = getUnits().find(candidate => candidate.id === unitId);
+      return unit ? this.track(unit) : this.sessionUnits.get(unitId);
+    };
+
+    const unsubscribers = [
+      events.on('goalSelected', ({ goalId }) => {
+        increment(this.goalCounts, goalId ?? 'none');
+      }),
+      events.on('actionChosen', ({ action }) => {
+        increment(this.actionCounts, action.type);
+      }),
+      events.on('actionFailed', ({ action, failureType }) => {
+        const counts = (this.failures[action.type] ??= {});
+        increment(counts, failureType ?? 'unknown');
+      }),
+      events.on('unitSpawned', ({ unitId }) => {
+        findUnit(unitId);
+      }),
+      events.on('statChanged', change => {
+        if (
+          change.propertyName !== 'health' ||
+          !isNumber(change.oldValue) ||
+          !isNumber(change.newValue) ||
+          change.newValue >= change.oldValue
+        ) {
+          return;
+        }
+
+        const target = findUnit(change.unitId);
+        if (target) {
+          this.damageFor(target.type).taken +=
+            change.oldValue - change.newValue;
+        }
+      }),
+      events.on('effectApplied', effect => {
+        if (
+          effect.property !== 'health' ||
+          effect.newValue >= effect.oldValue ||
+          !effect.actorId ||
+          effect.actorId === effect.unitId
+        ) {
+          return;
+        }
+
+        const attacker = findUnit(effect.actorId);
+        if (attacker) {
+          this.damageFor(attacker.type).dealt +=
+            effect.oldValue - effect.newValue;
+        }
+      }),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  /**
+   * Counts survivors among every unit seen during the session
+   */
+  public finishSession(units: BaseUnit[]): number {
+    for (const [unitId, tracked] of this.sessionUnits) {
+      const unit = units.find(candidate => candidate.id === unitId);
+      const entry = (this.survival[tracked.faction] ??= {
+        units: 0,
+        survived: 0,
+      });
+      entry.units += 1;
+      if (unit && UnitLifecycle.isAlive(unit)) {
+        entry.survived += 1;
+      }
+      increment(this.unitTypes, tracked.type);
+    }
+    return this.sessionUnits.size;
+  }
+
+  public toReport(sessions: SimulationSessionSummary[]): SimulationReport {
+    const damageByUnitType: Record<string, DamageStats> = {};
+    for (const [type, units] of Object.entries(this.unitTypes)) {
+      const { dealt, taken } = this.damageFor(type);
+      damageByUnitType[type] = {
+        units,
+        dealt,
+        taken,
+        averageDealt: dealt / units,
+        averageTaken: taken / units,
+      };
+    }
+
+    const survivalByFaction: Record<string, SurvivalStats> = {};
+    for (const [faction, { units, survived }] of Object.entries(
+      this.survival
+    )) {
+      survivalByFaction[faction] = {
+        units,
+        survived,
+        rate: units > 0 ? survived / units : 0,
+      };
+    }
+
+    return {
+      sessions,
+      turnsPlayed: sessions.reduce(
+        (total, session) => total + session.turnsPlayed,
+        0
+      ),
+      actionUsage: toFrequencies(this.actionCounts),
+      failures: this.failures,
+      damageByUnitType,
+      survivalByFaction,
+      goalSelection: toFrequencies(this.goalCounts),
+    };
+  }
+
+  private track(unit: BaseUnit): TrackedUnit {
+    const existing = this.sessionUnits.get(unit.id);
+    if (existing) {
+      return existing;
+    }
+    const faction = unit.getPropertyValue('faction');
+    const tracked = {
+      type: unit.type,
+      faction: typeof faction === 'string' ? faction : 'none',
+    };
+    this.sessionUnits.set(unit.id, tracked);
+    return tracked;
+  }
+
+  private damageFor(type: string): { dealt: number; taken: number } {
+    return (this.damage[type] ??= { dealt: 0, taken: 0 });
+  }
+}
+
+const increment = (counts: Record<string, number>, key: string): void => {
+  counts[key] = (counts[key] ?? 0) + 1;
+};
+
+const toFrequencies = (
+  counts: Record<string, number>
+): Record<string, FrequencyStats> => {
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  const frequencies: Record<string, FrequencyStats> = {};
+  for (const [key, count] of Object.entries(counts)) {
+    frequencies[key] = { count, share: total > 0 ? count / total : 0 };
+  }
+  return frequencies;
+};
+
+/**
+ * Runs batches of headless sessions and reports aggregate statistics
+ */
+export class BatchSimulator {
+  /** Catalog files copied into every session's storage. */
+  public static readonly CATALOG_FILES = [
+    DataManager.ACTIONS_FILE,
+    DataManager.GOALS_FILE,
+    DataManager.BEASTIARY_FILE,
+    DataManager.NAMES_FILE,
+  ];
+
+  public static async run(
+    options: SimulationOptions
+  ): Promise<SimulationReport> {
+    if (options.sessions < 1 || options.turns < 1) {
+      throw new Error('Simulation needs at least one session and one turn');
+    }
+
+    const catalogs = this.readCatalogs(options.source ?? DataManager.storage);
+    const stats = new SimulationStats();
+    const sessions: SimulationSessionSummary[] = [];
+
+    for (let index = 1; index <= options.sessions; index++) {
+      const seed = `${options.seed ?? 'simulation'}-${index}`;
+      sessions.push(await this.runSession(seed, options, catalogs, stats));
+    }
+
+    return stats.toReport(sessions);
+  }
+
+  /**
+   * Flattens a report into `section,name,metric,value` rows
+   */
+  public static toCsv(report: SimulationReport): string {
+    const rows: Array<[string, string, string, number]> = [];
+    report.sessions.forEach(session => {
+      rows.push(['session', session.seed, 'turnsPlayed', session.turnsPlayed]);
+      rows.push(['session', session.seed, 'units', session.units]);
+      rows.push([
+        'session',
+        session.seed,
+        'unplacedUnits',
+        session.unplacedUnits,
+      ]);
+    });
+    const addStats = (section: string, entries: Record<string, object>) => {
+      for (const [name, values] of Object.entries(entries)) {
+        for (const [metric, value] of Object.entries(values)) {
+          rows.push([section, name, metric, value as number]);
+        }
+      }
+    };
+    addStats('action', report.actionUsage);
+    addStats('failure', report.failures);
+    addStats('damage', report.damageByUnitType);
+    addStats('survival', report.survivalByFaction);
+    addStats('goal', report.goalSelection);
+
+    return [
+      'section,name,metric,value',
+      ...rows.map(row => row.map(toCsvField).join(',')),
+    ].join('\n');
+  }
+
+  private static readCatalogs(source: StorageAdapter): Map<string, string> {
+    const catalogs = new Map<string, string>();
+    for (const file of this.CATALOG_FILES) {
+      const key = DataManager.toStorageKey(file);
+      const content = source.read(key);
+      if (content === null) {
+        throw new Error(`Simulation catalog not found: ${key}`);
+      }
+      catalogs.set(key, content);
+    }
+    return catalogs;
+  }
+
+  private static async runSession(
+    seed: string,
+    options: SimulationOptions,
+    catalogs: Map<string, string>,
+    stats: SimulationStats
+  ): Promise<SimulationSessionSummary> {
+    const storage = new MemoryStorageAdapter();
+    for (const [key, content] of catalogs) {
+      storage.write(key, content);
+    }
+
+    const random = new RandomGenerator(seed);
+    const engine = new GameEngine({}, { storage, random });
+    engine.setSessionTurnLimit(options.turns);
+    await engine.initialize({ turn: 0 });
+
+    const unitController = engine.getUnitController();
+    const world = engine.getWorldController().getWorld();
+    const map = new MapGenerator(random).generateMap(MAP_NAME);
+    world.addMap(map);
+    const unplacedUnits = this.placeUnits(
+      map,
+      unitController.getUnits(),
+      random
+    );
+
+    const events = engine.getEvents();
+    const detach = stats.attach(events, () => unitController.getUnits());
+    const spawnOptions =
+      options.wildAnimals === false
+        ? null
+        : (options.wildAnimals ?? WildAnimalSpawner.DEFAULTS);
+    let turnsPlayed = 0;
+    const stopCounting = events.on('turnEnded', async ({ turn }) => {
+      turnsPlayed += 1;
+      if (!spawnOptions || !WildAnimalSpawner.isDue(turn, spawnOptions)) {
+        return;
+      }
+      const spawned = await WildAnimalSpawner.spawn(
+        unitController,
+        world.getAllMaps(),
+        unitController.getUnits(),
+        random,
+        spawnOptions
+      );
+      if (spawned) {
+        await events.emit('unitSpawned', {
+          unitId: spawned.id,
+          unitName: spawned.name,
+          unitType: spawned.type,
+          source: 'wild_animal_spawn',
+        });
+      }
+    });
+
+    try {
+      engine.startManual();
+      for (let turn = 0; turn < options.turns && engine.getRunning(); turn++) {
+        await engine.playTurn();
+      }
+      if (engine.getRunning()) {
+        engine.stop();
+      }
+    } finally {
+      stopCounting();
+      detach();
+    }
+
+    return {
+      seed,
+      turnsPlayed,
+      units: stats.finishSession(unitController.getUnits()),
+      unplacedUnits,
+    };
+  }
+
+  /**
+   * Puts every unit on a random free walkable tile; returns how many units
+   * found no tile
+   */
+  private static placeUnits(
+    map: ChoukaiMap,
+    units: BaseUnit[],
+    random: RandomGenerator
+  ): number {
+    const occupied = new Set<string>();
+    const maxAttempts = Math.max(map.width * map.height * 2, 50);
+
+    let unplaced = 0;
+    for (const unit of units) {
+      let placed = false;
+      for (let attempt = 0; attempt < maxAttempts && !placed; attempt++) {
+        const x = random.nextInt(0, map.width - 1);
+        const y = random.nextInt(0, map.height - 1);
+        const key = `${x},${y}`;
+        if (!map.isWalkable(x, y) || occupied.has(key)) {
+          continue;
+        }
+        occupied.add(key);
+        unit.setProperty('position', {
+          unitId: unit.id,
+          mapId: map.name,
+          position: new Position(x, y),
+        });
+        placed = true;
+      }
+      if (!placed) {
+        unplaced += 1;
+      }
+    }
+    return unplaced;
+  }
+}
+
+const toCsvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
@@ -0,0 +1,198 @@
+import type {
+  Action,
+  EffectApplication,
+  StatChange,
+  UnitDeathEvent,
+} from '../types';
+import { Logger } from '../utils/Logger';
+import type { TurnEndInfo } from './TurnManager';
+import type { MovementStepUpdate } from './WorldManager';
+
+export interface RoundStartedEvent {
+  round: number;
+  turnOrder: string[];
+}
+
+export interface TurnStartedEvent {
+  turn: number;
+  round: number;
+  /** 1-based position of the actor in the round. */
+  turnInRound: number;
+  actorId: string;
+}
+
+/**
+ * Sent before a candidate action runs. A failed attempt is followed by
+ * `actionFailed` and the next candidate; when all fail, the idle action.
+ */
+export interface ActionChosenEvent {
+  turn: number;
+  action: Action;
+}
+
+export interface GoalSelectedEvent {
+  turn: number;
+  unitId: string;
+  goalId?: string;
+  /** First executable action of the goal, if any. */
+  actionType?: string;
+}
+
+export interface ActionFailedEvent {
+  turn: number;
+  action: Action;
+  errorMessage?: string;
+  failureType?: 'range' | 'error';
+}
+
+export interface EffectAppliedEvent extends EffectApplication {
+  turn: number;
+}
+
+export interface StatChangedEvent extends StatChange {
+  turn: number;
+}
+
+export interface UnitSpawnedEvent {
+  unitId: string;
+  unitName: string;
+  unitType: string;
+  /** What brought the unit into play, e.g. `unit_join`. */
+  source: string;
+}
+
+export interface GateTraversedEvent {
+  unitId: string;
+  gateName?: string;
+  fromMapId: string;
+  from: { x: number; y: number };
+  toMapId: string;
+  to: { x: number; y: number };
+}
+
+/**
+ * Every engine event and the payload its handlers receive
+ */
+export interface EngineEventMap {
+  roundStarted: RoundStartedEvent;
+  turnStarted: TurnStartedEvent;
+  goalSelected: GoalSelectedEvent;
+  actionChosen: ActionChosenEvent;
+  actionFailed: ActionFailedEvent;
+  effectApplied: EffectAppliedEvent;
+  statChanged: StatChangedEvent;
+  unitMoved: MovementStepUpdate;
+  unitSpawned: UnitSpawnedEvent;
+  unitDied: UnitDeathEvent;
+  gateTraversed: GateTraversedEvent;
+  turnEnded: TurnEndInfo;
+}
+
+export type EngineEventName = keyof EngineEventMap;
+
+export type EngineEventHandler<K extends EngineEventName> = (
+  payload: EngineEventMap[K]
+) => void | Promise<void>;
+
+type HandlerRegistry = {
+  [K in EngineEventName]?: Set<EngineEventHandler<K>>;
+};
+
+type OnceRegistry = {
+  [K in EngineEventName]?: Map<EngineEventHandler<K>, EngineEventHandler<K>>;
+};
+
+/**
+ * Typed publish/subscribe hub for engine events.
+ * Handlers run in subscription order and async handlers are awaited, so the
+ * engine waits for them before moving on. A handler that throws is logged and
+ * does not stop the others.
+ */
+export class EngineEvents {
+  private handlers: HandlerRegistry = {};
+  /** Wrappers registered by `once`, keyed by the handler passed in, so `off` can find them. */
+  private onceWrappers: OnceRegistry = {};
+  private logger: Logger;
+
+  constructor(logger?: Logger) {
+    this.logger = logger ?? new Logger({ prefix: 'EngineEvents' });
+  }
+
+  /**
+   * Subscribes to an event; returns a function that unsubscribes
+   */
+  public on<K extends EngineEventName>(
+    event: K,
+    handler: EngineEventHandler<K>
+  ): () => void {
+    const registry = this.handlers as Record<K, Set<EngineEventHandler<K>>>;
+    registry[event] ??= new Set();
+    registry[event].add(handler);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Subscribes to the next occurrence of an event only. The handler can be
+   * removed with `off` or the returned function.
+   */
+  public once<K extends EngineEventName>(
+    event: K,
+    handler: EngineEventHandler<K>
+  ): () => void {
+    const wrappers = this.onceWrappers as Record<
+      K,
+      Map<EngineEventHandler<K>, EngineEventHandler<K>>
+    >;
+    wrappers[event] ??= new Map();
+    if (!wrappers[event].has(handler)) {
+      const wrapper: EngineEventHandler<K> = async payload => {
+        this.off(event, handler);
+        await handler(payload);
+      };
+      wrappers[event].set(handler, wrapper);
+      this.on(event, wrapper);
+    }
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Unsubscribes a handler added with `on` or `once`
+   */
+  public off<K extends EngineEventName>(
+    event: K,
+    handler: EngineEventHandler<K>
+  ): void {
+    const wrappers = this.onceWrappers[event];
+    const wrapper = wrappers?.get(handler);
+    if (wrapper) {
+      wrappers?.delete(handler);
+      this.handlers[event]?.delete(wrapper);
+    }
+    this.handlers[event]?.delete(handler);
+  }
+
+  /**
+   * Runs every handler of an event, awaiting async ones in order
+   */
+  public async emit<K extends EngineEventName>(
+    event: K,
+    payload: EngineEventMap[K]
+  ): Promise<void> {
+    const handlers = this.handlers[event];
+    if (!handlers || handlers.size === 0) {
+      return;
+    }
+
+    for (const handler of [...handlers]) {
+      try {
+        await handler(payload);
+      } catch (error) {
+        this.logger.error(`Error in ${event} handler:`, error);
+      }
+    }
+  }
+
+  public listenerCount(event: EngineEventName): number {
+    return this.handlers[event]?.size ?? 0;
+  }
+}
@@ -3,12 +3,45 @@ import { WorldController } from '../ai/WorldController';
 import { GameLoop } from './GameLoop';
 import { TurnManager } from './TurnManager';
 import { StoryTeller } from './StoryTeller';
+import { EngineEvents } from './EngineEvents';
+import {
+  PlayerControl,
+  type PlayerChoice,
+  type PlayerInputProvider,
+} from './PlayerInput';
 import { DataManager } from '../utils/DataManager';
 import { ConfigManager } from '../utils/ConfigManager';
+import { UnitLifecycle } from '../utils/UnitLifecycle';
 import type { FullConfig } from '../utils/engineConfig';
 import { Logger } from '../utils/Logger';
+import { GameClock } from '../utils/GameClock';
+import { RandomGenerator } from '../utils/RandomGenerator';
+import type { StorageAdapter } from '../utils/StorageAdapter';
+import type { CombatResolver } from '../utils/CombatResolver';
+import {
+  SaveSlotManager,
+  type SaveGame,
+  type SaveGameData,
+} from '../utils/SaveSlotManager';
+import { WorldSnapshotSerializer } from '../utils/WorldSnapshotSerializer';
 import type { BaseUnit } from '@atsu/atago';
-import type { EngineProps, GameState } from '../types';
+import type { EngineProps, GameState, TurnStateSnapshot } from '../types';
+
+/**
+ * Collaborators a `GameEngine` can be given instead of its defaults
+ */
+export interface GameEngineOptions {
+  /** Backend for units, world, diary and turn state; defaults to `DataManager.storage`. */
+  storage?: StorageAdapter;
+  /** Damage rules; defaults to `StandardCombatResolver`. */
+  combatResolver?: CombatResolver;
+  /** Decides the turns of player-controlled units; without one the AI runs them. */
+  playerInput?: PlayerInputProvider;
+  /** Shared random source; defaults to one seeded from config. */
+  random?: RandomGenerator;
+  /** Turn clock for diary timestamps; defaults to one starting at the epoch. */
+  clock?: GameClock;
+}
 
 /**
  * Represents the main game engine that manages the game state,
@@ -21,6 +54,13 @@ export class GameEngine {
   private storyTeller: StoryTeller;
   private turnManager: TurnManager;
   private logger: Logger;
+  private random: RandomGenerator;
+  private clock: GameClock;
+  private storage: StorageAdapter;
+  private combatResolver: CombatResolver | undefined;
+  private events: EngineEvents;
+  private playerInput: PlayerInputProvider | undefined;
+  private awaitingPlayerInput: boolean = false;
   private isRunning: boolean = false;
   private sessionTurnCount: number = 0;
   private persistentTurnOrder: string[] = [];
@@ -30,18 +70,34 @@ export class GameEngine {
     ConfigManager.getConfig().runIndefinitely ?? false;
   private props: EngineProps = this.getDefaultProps();
 
-  constructor(_props: Partial<EngineProps> = {}) {
+  constructor(
+    _props: Partial<EngineProps> = {},
+    options: GameEngineOptions = {}
+  ) {
+    const { storage, combatResolver, playerInput, random, clock } = options;
     this.logger = new Logger({ prefix: 'GameEngine' });
-    this.unitController = new UnitController();
-    this.worldController = new WorldController();
+    this.random = random ?? RandomGenerator.fromConfig();
+    this.clock = clock ?? new GameClock();
+    this.storage = storage ?? DataManager.storage;
+    this.combatResolver = combatResolver;
+    this.playerInput = playerInput;
+    this.events = new EngineEvents(this.logger);
+    this.unitController = new UnitController(this.random, this.storage);
+    this.worldController = new WorldController(this.storage);
     // Pass the world controller's world to the StoryTeller so they share the same world
     this.storyTeller = new StoryTeller(
       this.unitController,
-      this.worldController.getWorld()
+      this.worldController.getWorld(),
+      this.random,
+      this.worldController.getGateSystem(),
+      this.storage,
+      this.combatResolver,
+      this.events,
+      this.clock
     );
     this.gameLoop = new GameLoop();
     // We'll initialize turnManager in the initialize method with a default value
-    this.turnManager = new TurnManager({ turn: 0 });
+    this.turnManager = this.createTurnManager({ turn: 0 });
     this.props = { ...this.props, ..._props };
   }
 
@@ -53,29 +109,129 @@ export class GameEngine {
     const config = ConfigManager.getConfig();
 
     if (config.clearUnitsOnStart) {
-      DataManager.ensureDataDirectory();
-      DataManager.saveUnits([]);
+      DataManager.saveUnits([], this.storage);
       this.logger.info('Cleared saved units before start per configuration.');
     }
 
+    await this.resumeSession(gameState, config.clearUnitsOnStart);
+    this.logger.info('Game engine initialized successfully.');
+  }
+
+  /**
+   * Restores a named slot, diary included, and resumes from its turn state.
+   * Fails while the engine is running.
+   */
+  public async loadGame(slotName: string): Promise<SaveGame> {
+    if (this.isRunning) {
+      throw new Error('Stop the game engine before loading a save slot');
+    }
+
+    const save = SaveSlotManager.restoreSlot(slotName, this.storage);
+    this.unitController = new UnitController(this.random, this.storage);
+    this.worldController = new WorldController(this.storage);
+    await this.resumeSession({ turn: save.turnState.turn });
+    this.logger.info(`Loaded game from slot "${slotName}"`);
+    return save;
+  }
+
+  /**
+   * Loads units from storage and rebuilds the story teller and turn manager
+   * from the resume state
+   */
+  private async resumeSession(
+    gameState: GameState,
+    clearUnits?: boolean
+  ): Promise<void> {
     // Initialize the controllers
     await this.unitController.initialize(gameState);
 
-    // Load the last turn number to continue from the previous session
-    const lastTurn = DataManager.getLastTurnNumber();
-    this.logger.info(`Starting from turn: ${lastTurn + 1}`);
+    // Resume turn, round and initiative from the previous session
+    const resumeState = this.resolveResumeState(clearUnits);
+    this.persistentTurnOrder = [...resumeState.persistentTurnOrder];
+    this.logger.info(
+      `Starting from turn: ${resumeState.turn + 1} (round ${Math.max(1, resumeState.round)})`
+    );
 
     // Create a new story teller with the initialized controller and use the same world
     this.storyTeller = new StoryTeller(
       this.unitController,
-      this.worldController.getWorld()
+      this.worldController.getWorld(),
+      this.random,
+      this.worldController.getGateSystem(),
+      this.storage,
+      this.combatResolver,
+      this.events,
+      this.clock
     );
 
-    // Initialize the turn manager with the continued turn number
-    const gameStateWithTurn = { ...gameState, turn: lastTurn };
-    this.turnManager = new TurnManager(gameStateWithTurn);
+    // Initialize the turn manager with the continued turn and round
+    this.turnManager = this.createTurnManager({
+      ...gameState,
+      turn: resumeState.turn,
+      round: resumeState.round,
+      turnOrder: resumeState.turnOrder,
+      turnInRound: resumeState.turnInRound,
+    });
+  }
 
-    this.logger.info('Game engine initialized successfully.');
+  /**
+   * Creates a turn manager that persists the turn state as turns end
+   */
+  private createTurnManager(gameState: GameState): TurnManager {
+    const turnManager = new TurnManager(gameState);
+    turnManager.setTurnEndHandler(() => {
+      DataManager.saveTurnState(this.createTurnState(), this.storage);
+    });
+    return turnManager;
+  }
+
+  /**
+   * Picks the state to resume from: the saved turn state when it was restored
+   * from a slot or is at least as recent as the diary, otherwise the round
+   * recorded by the last diary entry. Cleared units start a fresh round.
+   */
+  private resolveResumeState(clearUnits?: boolean): TurnStateSnapshot {
+    const lastTurn = DataManager.getLastTurnNumber(this.storage);
+    const saved = DataManager.loadTurnState(this.storage);
+    const freshRound = (turn: number, round: number): TurnStateSnapshot => ({
+      turn,
+      round,
+      turnInRound: 0,
+      turnOrder: [],
+      persistentTurnOrder: [],
+    });
+
+    if (clearUnits) {
+      return freshRound(Math.max(lastTurn, saved?.turn ?? 0), 0);
+    }
+
+    if (saved && (saved.restored === true || saved.turn >= lastTurn)) {
+      return saved;
+    }
+
+    const lastEntry = DataManager.loadRecentDiary(1, this.storage)[0];
+    const state = freshRound(lastTurn, lastEntry?.round ?? 0);
+    const turnOrder = lastEntry?.turnOrder ?? [];
+    const nextIndex = lastEntry?.turnInRound ?? 0;
+    if (nextIndex > 0 && nextIndex < turnOrder.length) {
+      state.turnOrder = [...turnOrder];
+      state.turnInRound = nextIndex;
+    }
+    state.persistentTurnOrder = saved?.persistentTurnOrder ?? [...turnOrder];
+    return state;
+  }
+
+  /**
+   * Captures turn, round and initiative order
+   */
+  private createTurnState(): TurnStateSnapshot {
+    return {
+      turn: this.turnManager.getCurrentTurn(),
+      round: this.turnManager.getCurrentRound(),
+      turnInRound: this.turnManager.getTurnIndexInRound(),
+      turnOrder: this.turnManager.getTurnOrder(),
+      persistentTurnOrder: [...this.persistentTurnOrder],
+    };
   }
 
   private beginSession(): void {
@@ -143,6 +299,11 @@ export class GameEngine {
    * Processes a single turn in the game
    */
   private async processTurnInternal(): Promise<void> {
+    // The automatic loop keeps ticking while a player decides; skip those ticks
+    if (this.awaitingPlayerInput) {
+      return;
+    }
+
     // Ensure we have a round and turn order ready
     if (!this.turnManager.hasPendingTurns()) {
       const units = this.unitController.getUnits();
@@ -159,6 +320,10 @@ export class GameEngine {
         this.turnManager.getCurrentRound() + 1
       );
       this.turnManager.startNewRound(turnOrder, nextRoundNumber);
+      await this.events.emit('roundStarted', {
+        round: nextRoundNumber,
+        turnOrder: [...turnOrder],
+      });
 
       const turnOrderLabels = turnOrder.map(unitId =>
         this.formatUnitLabel(
@@ -172,7 +337,7 @@ export class GameEngine {
     }
 
     const turnOrder = this.turnManager.getTurnOrder();
-    const actor = this.getNextActor();
+    const actor = await this.getNextActor();
 
     if (!actor) {
       this.logger.warn('Unable to find an actor for this turn, skipping.');
@@ -185,6 +350,12 @@ export class GameEngine {
     const turnInRound = this.turnManager.getTurnIndexInRound() + 1;
 
     this.props.onTurnStart(actualTurn);
+    await this.events.emit('turnStarted', {
+      turn: actualTurn,
+      round: currentRound,
+      turnInRound,
+      actorId: actor.id,
+    });
 
     const actorLabel = this.formatUnitLabel(actor);
     this.logger.info(
@@ -192,6 +363,12 @@ export class GameEngine {
     );
 
     try {
+      const playerChoice = await this.requestPlayerChoice(
+        actor,
+        actualTurn,
+        currentRound
+      );
+
       // Use the StoryTeller to generate a story action for this turn
       const { action } = await this.storyTeller.generateStoryAction(
         actualTurn,
@@ -200,7 +377,8 @@ export class GameEngine {
           round: currentRound,
           turnInRound,
           turnOrder,
-        }
+        },
+        playerChoice
       );
 
       this.logger.info(`Story Action: ${action.description || action.type}`);
@@ -222,8 +400,20 @@ export class GameEngine {
       // End the turn
       this.turnManager.endTurn();
       this.sessionTurnCount++; // Increment session turn count
+      const roundEnded = !this.turnManager.hasPendingTurns();
+      await this.storyTeller.expireStatusEffects({
+        turn: actualTurn,
+        round: currentRound,
+        roundEnded,
+        actorId: actor.id,
+      });
 
       this.props.onTurnEnd(actualTurn);
+      await this.events.emit('turnEnded', {
+        turn: actualTurn,
+        round: currentRound,
+        roundEnded,
+      });
 
       // Check if game should continue
       const shouldContinue = await this.shouldContinue();
@@ -245,6 +435,37 @@ export class GameEngine {
     }
   }
 
+  /**
+   * Pauses for the player when the actor is player-controlled and alive;
+   * undefined leaves the turn to the AI
+   */
+  private async requestPlayerChoice(
+    actor: BaseUnit,
+    turn: number,
+    round: number
+  ): Promise<PlayerChoice | undefined> {
+    if (
+      !this.playerInput ||
+      !PlayerControl.isPlayerControlled(actor) ||
+      UnitLifecycle.isDead(actor)
+    ) {
+      return undefined;
+    }
+
+    const options = await this.storyTeller.getPlayerOptions(actor);
+    this.awaitingPlayerInput = true;
+    try {
+      return await this.playerInput.chooseAction({
+        turn,
+        round,
+        unit: actor,
+        ...options,
+      });
+    } finally {
+      this.awaitingPlayerInput = false;
+    }
+  }
+
   /**
    * Determines if the game should continue
    */
@@ -283,7 +504,7 @@ export class GameEngine {
         );
       }
 
-      this.worldController.saveWorldSync();
+      this.worldController.saveWorldSync(this.unitController.getUnits());
       this.logger.info('World state saved successfully');
     } catch (error) {
       this.logger.error('Error saving world state:', error);
@@ -318,6 +539,29 @@ export class GameEngine {
     return this.turnManager;
   }
 
+  /**
+   * Stops the session after this many turns, overriding `maxTurnsPerSession`
+   * and `runIndefinitely` from config
+   */
+  public setSessionTurnLimit(maxTurns: number): void {
+    this.maxTurnsPerSession = maxTurns;
+    this.runIndefinitely = false;
+  }
+
+  /**
+   * Sets or clears the provider that decides player-controlled turns
+   */
+  public setPlayerInputProvider(provider?: PlayerInputProvider): void {
+    this.playerInput = provider;
+  }
+
+  /**
+   * Gets the event bus publishing turns, actions, movement and unit lifecycle
+   */
+  public getEvents(): EngineEvents {
+    return this.events;
+  }
+
   /**
    * Gets the world controller
    */
@@ -325,6 +569,43 @@ export class GameEngine {
     return this.worldController;
   }
 
+  /**
+   * Captures units, world, gates, diary cursor and turn state for a save slot
+   */
+  public createSaveData(): SaveGameData {
+    const units = this.unitController.getUnits();
+    const diaryStore = DataManager.getDiaryStore(this.storage);
+    return {
+      units: DataManager.serializeUnits(units),
+      world: WorldSnapshotSerializer.serialize(
+        this.worldController.getWorld(),
+        {
+          gateSystem: this.worldController.getGateSystem(),
+          units,
+        }
+      ),
+      turnState: this.createTurnState(),
+      diary: {
+        entryCount: diaryStore.getEntryCount(),
+        lastTurn: diaryStore.getLastTurn(),
+      },
+    };
+  }
+
+  /**
+   * Saves the current engine state into a named slot, replacing it if present
+   */
+  public saveGame(slotName: string): SaveGame {
+    const save = SaveSlotManager.createSlot(
+      slotName,
+      this.createSaveData(),
+      true,
+      this.storage
+    );
+    this.logger.info(`Saved game to slot "${slotName}"`);
+    return save;
+  }
+
   /**
    * Gets the default engine properties, with empty no-op callbacks
    * @returns default EngineProps object
@@ -346,6 +627,13 @@ export class GameEngine {
     return ConfigManager.getConfig();
   }
 
+  /**
+   * Gets the seeded generator shared by every system in this engine
+   */
+  public getRandom(): RandomGenerator {
+    return this.random;
+  }
+
   /**
    * Gets the cooldown period from configuration
    */
@@ -359,12 +647,16 @@ export class GameEngine {
 
     // Establish an initial, experience-weighted order once.
     if (this.persistentTurnOrder.length === 0) {
+      // Roll tiebreak keys up front so the comparator stays consistent and seeded
+      const tieKeys = new Map(
+        aliveUnits.map(unit => [unit.id, this.random.next()])
+      );
       this.persistentTurnOrder = [...aliveUnits]
         .sort((a, b) => {
           const expDiff = this.getUnitExperience(b) - this.getUnitExperience(a);
           if (expDiff !== 0) return expDiff;
-          // Stable-ish tiebreaker: random first, then name to avoid identical sort results every run
-          const randomTie = Math.random() - 0.5;
+          // Tiebreaker: seeded random key first, then name
+          const randomTie = (tieKeys.get(a.id) ?? 0) - (tieKeys.get(b.id) ?? 0);
           if (randomTie !== 0) return randomTie;
           return a.name.localeCompare(b.name);
         })
@@ -385,15 +677,14 @@ export class GameEngine {
   }
 
   private getAliveUnits(units: BaseUnit[]): BaseUnit[] {
-    return units.filter(unit => {
-      const status = unit.getPropertyValue<string>('status');
-      const healthValue = unit.getPropertyValue<number>('health') ?? 0;
-
-      return status !== 'dead' && healthValue > 0;
-    });
+    return units.filter(unit => UnitLifecycle.isAlive(unit));
   }
 
-  private getNextActor(): BaseUnit | null {
+  /**
+   * The unit whose turn is next, skipping units that can no longer act. A
+   * round emptied by skips still counts down `round` statuses.
+   */
+  private async getNextActor(): Promise<BaseUnit | null> {
     const units = this.unitController.getUnits();
     const aliveUnits = this.getAliveUnits(units);
     let actorId = this.turnManager.getCurrentActorId();
@@ -408,6 +699,13 @@ export class GameEngine {
         `Unit ${actorLabel} is unavailable; skipping their turn.`
       );
       this.turnManager.endTurn();
+      if (!this.turnManager.hasPendingTurns()) {
+        await this.storyTeller.expireStatusEffects({
+          turn: this.turnManager.getCurrentTurn(),
+          round: this.turnManager.getCurrentRound(),
+          roundEnded: true,
+        });
+      }
       actorId = this.turnManager.getCurrentActorId();
       actor = actorId ? aliveUnits.find(unit => unit.id === actorId) : null;
     }
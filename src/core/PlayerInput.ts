@@ -0,0 +1,107 @@
+import type { BaseUnit } from '@atsu/atago';
+import type { IMapPosition } from '@atsu/choukai';
+import type { Action } from '../types';
+import type { AppConfig } from '../utils/engineConfig';
+import { ConfigManager } from '../utils/ConfigManager';
+
+/**
+ * An action the player may pick, with the targets currently in range.
+ * Actions without targeting have an empty target list.
+ */
+export interface PlayerActionOption {
+  action: Action;
+  targets: BaseUnit[];
+}
+
+export interface PlayerTurnOptions {
+  actions: PlayerActionOption[];
+  /** Tiles the unit can walk to this turn, nearest first. */
+  destinations: IMapPosition[];
+}
+
+export interface PlayerTurnRequest extends PlayerTurnOptions {
+  turn: number;
+  round: number;
+  unit: BaseUnit;
+}
+
+/**
+ * What the player decided. Omitting `actionType` waits in place; a
+ * `destination` is walked to after the action resolves.
+ */
+export interface PlayerChoice {
+  actionType?: string;
+  targetUnitId?: string;
+  destination?: IMapPosition;
+}
+
+/**
+ * Source of decisions for player-controlled units
+ */
+export interface PlayerInputProvider {
+  chooseAction(request: PlayerTurnRequest): Promise<PlayerChoice>;
+}
+
+export type PlayerChoiceStrategy = (
+  request: PlayerTurnRequest
+) => PlayerChoice | Promise<PlayerChoice>;
+
+/**
+ * Utility class deciding which units wait for player input
+ */
+export class PlayerControl {
+  /**
+   * A unit is player-controlled when its faction is listed in
+   * `playerFactions` or its `playerControlled` property is true
+   */
+  public static isPlayerControlled(
+    unit: BaseUnit,
+    config: Pick<AppConfig, 'playerFactions'> = ConfigManager.getConfig()
+  ): boolean {
+    if (unit.getPropertyValue('playerControlled') === true) {
+      return true;
+    }
+    const faction = unit.getPropertyValue('faction');
+    return (
+      typeof faction === 'string' &&
+      (config.playerFactions ?? []).includes(faction)
+    );
+  }
+}
+
+/**
+ * Answers player turns from queued choices or a strategy callback and keeps
+ * every request it received, for tests and scripted sessions
+ */
+export class ProgrammaticPlayerInput implements PlayerInputProvider {
+  private queue: PlayerChoice[] = [];
+  private strategy: PlayerChoiceStrategy | undefined;
+  private requests: PlayerTurnRequest[] = [];
+
+  constructor(source: PlayerChoice[] | PlayerChoiceStrategy = []) {
+    if (typeof source === 'function') {
+      this.strategy = source;
+    } else {
+      this.queue = [...source];
+    }
+  }
+
+  public enqueue(...choices: PlayerChoice[]): void {
+    this.queue.push(...choices);
+  }
+
+  public getRequests(): PlayerTurnRequest[] {
+    return [...this.requests];
+  }
+
+  /**
+   * Returns the next queued choice, or waits in place when the queue is empty
+   */
+  public async chooseAction(request: PlayerTurnRequest): Promise<PlayerChoice> {
+    this.requests.push(request);
+    if (this.strategy) {
+      return this.strategy(request);
+    }
+    return this.queue.shift() ?? {};
+  }
+}
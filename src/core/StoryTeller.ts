@@ -6,18 +6,39 @@
 import { UnitController } from '../ai/UnitController';
 import type {
   Action,
+  ActionExploration,
   ActionPayload,
+  CombatRoll,
   ExecutedAction,
   ActionsData,
   DiaryEntry,
+  GoalDefinition,
+  GoalTransition,
+  PlanEvent,
+  SquadDirective,
   StatChange,
+  StatusEffectEvent,
   TurnContext,
+  UnitDeathEvent,
 } from '../types';
 import { DataManager } from '../utils/DataManager';
 import { ConfigManager } from '../utils/ConfigManager';
 import { StatTracker } from '../utils/StatTracker';
 import { ActionProcessor } from '../utils/ActionProcessor';
+import {
+  ActionTargeting,
+  type ResolvedTargeting,
+} from '../utils/ActionTargeting';
+import { AreaOfEffect } from '../utils/AreaOfEffect';
 import { MathUtils } from '../utils/Math';
+import { RandomGenerator } from '../utils/RandomGenerator';
+import { GameClock } from '../utils/GameClock';
+import { StatusEffects } from '../utils/StatusEffects';
+import type { StorageAdapter } from '../utils/StorageAdapter';
+import type { CombatResolver } from '../utils/CombatResolver';
+import { RelationshipHelper } from '../utils/RelationshipHelper';
+import { UnitLifecycle } from '../utils/UnitLifecycle';
+import { VisionSystem } from '../utils/VisionSystem';
 import { ConditionParser } from '../utils/ConditionParser';
 import { BaseUnit, type IUnitPosition } from '@atsu/atago';
 import {
@@ -27,13 +48,46 @@ import {
   isUnitPosition,
 } from '../types/typeGuards';
 import { MapGenerator } from '../utils/MapGenerator';
-import { World, Map as ChoukaiMap, Position } from '@atsu/choukai';
+import {
+  World,
+  Map as ChoukaiMap,
+  Position,
+  getMapPositionKey,
+  type IMapPosition,
+} from '@atsu/choukai';
 import { GateSystem } from '../utils/GateSystem';
 import { Logger } from '../utils/Logger';
 import { UnitPosition } from '../utils/UnitPosition';
 import { GoalSystem } from '../ai/goals/GoalSystem';
-import { RelationshipHelper } from '../utils/RelationshipHelper';
+import { Exploration } from '../ai/Exploration';
+import { PlanQueue } from '../ai/PlanQueue';
+import { ThreatMap } from '../ai/ThreatMap';
+import { UnitMemory } from '../ai/UnitMemory';
 import { WorldManager, type MovementStepHandler } from './WorldManager';
+import type { TurnEndInfo } from './TurnManager';
+import { EngineEvents } from './EngineEvents';
+import type {
+  PlayerActionOption,
+  PlayerChoice,
+  PlayerTurnOptions,
+} from './PlayerInput';
+
+/**
+ * Action side effects recorded alongside a diary entry
+ */
+type DiaryOutcome = Pick<
+  DiaryEntry,
+  'statusEffects' | 'areaHits' | 'deaths' | 'goalTransitions' | 'planEvents'
+>;
+
+/** A turn's candidate actions; AI turns also carry their goal and plan changes. */
+interface StoryCandidates {
+  executions: ExecutedAction[];
+  actor: BaseUnit;
+  goalTransitions?: GoalTransition[];
+  goalId?: string;
+  planEvents?: PlanEvent[];
+}
 
 /**
  * Represents the StoryTeller that generates narrative actions based on unit states
@@ -52,8 +106,24 @@ export class StoryTeller {
   private logger: Logger;
   private actionProcessor: ActionProcessor;
   private movementStepHandler: MovementStepHandler | undefined;
-
-  constructor(unitController: UnitController, world?: World) {
+  private events: EngineEvents;
+  private random: RandomGenerator;
+  private clock: GameClock;
+  private storage: StorageAdapter;
+  private vision: VisionSystem;
+  private threatMap: ThreatMap;
+  private threatRound: number | undefined;
+
+  constructor(
+    unitController: UnitController,
+    world?: World,
+    random?: RandomGenerator,
+    gateSystem?: GateSystem,
+    storage?: StorageAdapter,
+    combatResolver?: CombatResolver,
+    events?: EngineEvents,
+    clock?: GameClock
+  ) {
     const renderingConfig = ConfigManager.getConfig().rendering;
     const disableLogger =
       renderingConfig.visualOnly && renderingConfig.showConsole !== true;
@@ -62,16 +132,33 @@ export class StoryTeller {
       disable: disableLogger,
     });
     this.unitController = unitController;
-    this.actionsData = DataManager.loadActions();
-    this.goalSystem = new GoalSystem();
-    this.diary = DataManager.loadDiary(); // Load existing diary entries
-    DataManager.ensureDataDirectory(); // Ensure data directory exists
-    this.actionProcessor = new ActionProcessor(this.logger); // Initialize action processor with logger
+    this.events = events ?? new EngineEvents(this.logger);
+    this.random = random ?? RandomGenerator.fromConfig();
+    this.clock = clock ?? new GameClock();
+    this.storage = storage ?? DataManager.storage;
+    this.actionsData = DataManager.loadActions(this.storage);
+    this.goalSystem = new GoalSystem(undefined, this.random, this.storage);
+    this.vision = new VisionSystem();
+    this.threatMap = new ThreatMap();
+    // Load only the recent history; older entries stay in storage
+    this.diary = DataManager.loadRecentDiary(
+      renderingConfig.diaryMaxEntries ?? 20,
+      this.storage
+    );
+    this.actionProcessor = new ActionProcessor(
+      this.logger,
+      undefined,
+      this.random,
+      this.storage,
+      combatResolver,
+      this.clock
+    ); // Initialize action processor with logger, shared generator, storage, combat rules and clock
 
     // Initialize map generation capabilities
-    this.mapGenerator = new MapGenerator();
+    this.mapGenerator = new MapGenerator(this.random);
 
     // Use provided world or create our own
+    let savedGateSystem: GateSystem | undefined;
     if (world) {
       this.world = world;
       this.logger.info(
@@ -79,24 +166,28 @@ export class StoryTeller {
       );
     } else {
       // Load existing world from file if available, otherwise fail early
-      const loadedWorld = DataManager.loadWorld();
-      if (!loadedWorld) {
+      const loadedState = DataManager.loadWorldState(this.storage);
+      if (!loadedState) {
         throw new Error(
           'No world available; please create or load maps before starting StoryTeller.'
         );
       }
       this.logger.info(
-        `loaded world with ${loadedWorld.getAllMaps().length} maps from saved state`
+        `loaded world with ${loadedState.world.getAllMaps().length} maps from saved state`
       );
-      this.world = loadedWorld;
+      this.world = loadedState.world;
+      savedGateSystem = loadedState.gateSystem;
     }
 
-    this.gateSystem = new GateSystem();
+    this.gateSystem = gateSystem ?? savedGateSystem ?? new GateSystem();
     this.worldManager = new WorldManager(
       this.world,
       this.unitController,
       this.gateSystem,
-      this.logger
+      this.logger,
+      0,
+      this.random,
+      this.events
     );
     const movementStepCooldown =
       ConfigManager.getConfig().movementStepCooldownMs ?? 0;
@@ -114,11 +205,13 @@ export class StoryTeller {
   }
 
   /**
-   * Generates a story action based on the current unit states
+   * Generates a story action based on the current unit states.
+   * A player choice replaces goal selection for the turn's actor.
    */
   public async generateStoryAction(
     turn: number,
-    context: Partial<TurnContext> = {}
+    context: Partial<TurnContext> = {},
+    playerChoice?: PlayerChoice
   ): Promise<ExecutedAction> {
     // Get the current state of units from the UnitController
     const units = await this.unitController.getUnitState();
@@ -127,8 +220,26 @@ export class StoryTeller {
       : undefined;
 
     // Build candidate actions (in priority order) for the turn
-    const { executions: actionCandidates, actor } =
-      await this.createStoryBasedOnUnits(units, turn, context, preferredActor);
+    const {
+      executions: actionCandidates,
+      actor,
+      goalTransitions,
+      goalId,
+      planEvents,
+    } = playerChoice && preferredActor
+      ? this.createPlayerStory(
+          preferredActor,
+          playerChoice,
+          units,
+          turn,
+          context
+        )
+      : await this.createStoryBasedOnUnits(
+          units,
+          turn,
+          context,
+          preferredActor
+        );
 
     // Take a snapshot of unit properties before action execution
     const initialStates = StatTracker.takeSnapshot(units);
@@ -137,25 +248,60 @@ export class StoryTeller {
     const safeContext = this.getSafeContext(context);
     let storyAction: ExecutedAction =
       this.actionProcessor.getDefaultExecutedAction(actor, turn, safeContext);
+    let outcome: DiaryOutcome = {};
+    let removedUnitIds: string[] = [];
+    const failedActionTypes: string[] = [];
 
     const finalizeAction = async (
       candidate: ExecutedAction
     ): Promise<ExecutedAction> => {
       await this.applyPlannedMove(candidate);
+      this.markWalkedTiles(actor, candidate);
       actor.setProperty('lastActionTurn', turn);
       return candidate;
     };
 
+    let acted = false;
     for (const candidate of actionCandidates) {
+      await this.events.emit('actionChosen', {
+        turn,
+        action: candidate.action,
+      });
       const result = await this.actionProcessor.executeActionEffect(
         candidate.action,
         units
       );
       if (result.success) {
+        if (result.combatRolls) {
+          candidate.action.payload = {
+            ...candidate.action.payload,
+            combat: result.combatRolls,
+          };
+          this.rememberAttacks(result.combatRolls, units, turn);
+        }
+        outcome = {
+          ...(result.statusEffects
+            ? { statusEffects: result.statusEffects }
+            : {}),
+          ...(result.areaHits ? { areaHits: result.areaHits } : {}),
+          ...(result.deaths ? { deaths: result.deaths } : {}),
+        };
+        removedUnitIds = result.removedUnitIds ?? [];
+        for (const applied of result.appliedEffects ?? []) {
+          await this.events.emit('effectApplied', { ...applied, turn });
+        }
         storyAction = await finalizeAction(candidate);
+        acted = true;
         break;
       }
 
+      await this.events.emit('actionFailed', {
+        turn,
+        action: candidate.action,
+        ...(result.errorMessage ? { errorMessage: result.errorMessage } : {}),
+        ...(result.failureType ? { failureType: result.failureType } : {}),
+      });
+
       const movedTowardsTarget =
         Boolean(candidate.action.payload?.movedTowardsTarget) &&
         result.failureType === 'range';
@@ -164,12 +310,14 @@ export class StoryTeller {
           `Action ${candidate.action.type} could not execute; applying planned move instead`
         );
         storyAction = await finalizeAction(candidate);
+        acted = true;
         break;
       }
 
       this.logger.warn(
         `Action ${candidate.action.type} failed (${result.errorMessage || 'unknown reason'}), trying next candidate`
       );
+      failedActionTypes.push(candidate.action.type);
 
       if (candidate.action.payload?.movedTowardsTarget) {
         const targetId = candidate.action.payload?.targetUnit;
@@ -185,6 +333,43 @@ export class StoryTeller {
       }
     }
 
+    // Every candidate failed; the unit idles instead
+    if (!acted) {
+      await this.events.emit('actionChosen', {
+        turn,
+        action: storyAction.action,
+      });
+    }
+
+    if (goalTransitions) {
+      const transitions = [
+        ...goalTransitions,
+        ...this.goalSystem.resolveTurn(
+          actor,
+          {
+            availableActions: this.getAvailableActionsForUnit(actor),
+            units: this.vision.getVisibleUnits(actor, units),
+            turn,
+          },
+          storyAction.action.type,
+          failedActionTypes
+        ),
+      ];
+      this.logGoalTransitions(transitions, units);
+      if (transitions.length > 0) {
+        outcome = { ...outcome, goalTransitions: transitions };
+      }
+
+      const plans = [
+        ...(planEvents ?? []),
+        ...this.updatePlan(actor, storyAction, units, turn, goalId),
+      ];
+      this.logPlanEvents(plans, units);
+      if (plans.length > 0) {
+        outcome = { ...outcome, planEvents: plans };
+      }
+    }
+
     // Handle new units if any were created
     if (storyAction.action.type === 'unit_join') {
       const newUnit = await this.unitController.addNewUnit();
@@ -194,8 +379,8 @@ export class StoryTeller {
         // Place the new unit at a default position (we could make this more sophisticated)
         const mainMap = this.world.getAllMaps()[0];
         if (mainMap) {
-          const x = Math.floor(Math.random() * mainMap.width);
-          const y = Math.floor(Math.random() * mainMap.height);
+          const x = this.random.nextInt(0, mainMap.width - 1);
+          const y = this.random.nextInt(0, mainMap.height - 1);
 
           newUnit.setProperty('position', {
             unitId: newUnit.id,
@@ -203,11 +388,21 @@ export class StoryTeller {
             position: new Position(x, y),
           });
         }
+
+        await this.events.emit('unitSpawned', {
+          unitId: newUnit.id,
+          unitName: newUnit.name,
+          unitType: newUnit.type,
+          source: storyAction.action.type,
+        });
       }
     }
 
     // Get stat changes by comparing snapshots
     const changes = StatTracker.compareSnapshots(initialStates, units);
+    for (const change of changes) {
+      await this.events.emit('statChanged', { ...change, turn });
+    }
 
     if (changes.length > 0) {
       // Group changes by unit and format them
@@ -228,6 +423,9 @@ export class StoryTeller {
       }
     }
 
+    // Take fallen units out of play before saving
+    this.disposeOfDeadUnits(outcome.deaths ?? [], removedUnitIds);
+
     // Add to story history
     this.storyHistory.push(
       `Turn ${turn}: ${this.describeAction(storyAction.action)}`
@@ -239,11 +437,136 @@ export class StoryTeller {
 
     // Save the current unit states and diary entry
     this.saveUnits();
-    this.saveDiaryEntry(storyAction, turn, changes, context);
+    this.saveDiaryEntry(storyAction, turn, changes, context, outcome);
+    for (const death of outcome.deaths ?? []) {
+      await this.events.emit('unitDied', death);
+    }
 
     return storyAction;
   }
 
+  /**
+   * Removes units whose corpses are not kept, plus bodies removed by effects
+   */
+  private disposeOfDeadUnits(
+    deaths: UnitDeathEvent[],
+    removedUnitIds: string[]
+  ): void {
+    const toRemove = new Set(removedUnitIds);
+    for (const death of deaths) {
+      if (death.disposal === 'remove') {
+        toRemove.add(death.unitId);
+      }
+    }
+
+    for (const unitId of toRemove) {
+      if (this.unitController.removeUnit(unitId)) {
+        this.logger.info(`Removed ${unitId} from play`);
+      }
+    }
+  }
+
+  /**
+   * Marks where every unit stands as visited, updates what each sees and
+   * remembers of hostiles, and rebuilds the threat map once per round (every
+   * turn outside rounds)
+   */
+  private observe(units: BaseUnit[], turn: number, round?: number): void {
+    this.vision.update(this.world, units);
+
+    for (const unit of units) {
+      if (!UnitLifecycle.isAlive(unit)) continue;
+      const own = unit.getPropertyValue<IUnitPosition>('position');
+      if (isUnitPosition(own)) {
+        Exploration.markVisited(unit, [own]);
+      }
+      const seen = units.flatMap(other => {
+        const position = other.getPropertyValue<IUnitPosition>('position');
+        return other.id !== unit.id &&
+          UnitLifecycle.isAlive(other) &&
+          RelationshipHelper.isHostile(unit, other) &&
+          isUnitPosition(position) &&
+          this.vision.canSee(unit, other)
+          ? [
+              {
+                unitId: other.id,
+                mapId: position.mapId,
+                x: position.position.x,
+                y: position.position.y,
+                turn,
+              },
+            ]
+          : [];
+      });
+      const viewerId = this.vision.getViewerId(unit);
+      UnitMemory.write(
+        unit,
+        UnitMemory.observe(
+          UnitMemory.read(unit),
+          seen,
+          sighting =>
+            this.vision.isVisible(viewerId, {
+              mapId: sighting.mapId,
+              position: new Position(sighting.x, sighting.y),
+            }),
+          turn
+        )
+      );
+    }
+
+    if (round === undefined || round !== this.threatRound) {
+      this.threatMap.update(
+        units,
+        (viewer, target) => this.vision.canSee(viewer, target),
+        turn
+      );
+      this.threatRound = round;
+    }
+  }
+
+  /**
+   * Marks the tiles of the planned path the actor walked, up to where it
+   * ended, as visited
+   */
+  private markWalkedTiles(actor: BaseUnit, executed: ExecutedAction): void {
+    const position = actor.getPropertyValue<IUnitPosition>('position');
+    if (!isUnitPosition(position)) return;
+
+    const path = executed.action.payload?.movementPath;
+    const steps = isMovementPath(path) ? path : [];
+    const endKey = getMapPositionKey(position);
+    const endIndex = steps.findIndex(
+      step => getMapPositionKey(step) === endKey
+    );
+    Exploration.markVisited(actor, [
+      ...(endIndex >= 0 ? steps.slice(0, endIndex) : []),
+      position,
+    ]);
+  }
+
+  /**
+   * Remembers on each defender who hit it and for how much
+   */
+  private rememberAttacks(
+    rolls: CombatRoll[],
+    units: BaseUnit[],
+    turn: number
+  ): void {
+    for (const roll of rolls) {
+      const defender = units.find(unit => unit.id === roll.defenderId);
+      if (!defender || !roll.attackerId || roll.damage <= 0) continue;
+      UnitMemory.write(
+        defender,
+        UnitMemory.recordDamage(
+          UnitMemory.read(defender),
+          roll.attackerId,
+          roll.damage,
+          turn
+        )
+      );
+    }
+  }
+
   /**
    * Creates a story action based on unit states
    */
@@ -252,7 +575,7 @@ export class StoryTeller {
     turn: number,
     context: Partial<TurnContext>,
     forcedActor?: BaseUnit
-  ): Promise<{ executions: ExecutedAction[]; actor: BaseUnit }> {
+  ): Promise<StoryCandidates> {
     // If no units exist, create a default action
     if (units.length === 0) {
       // Return a default narrative action instead of throwing
@@ -260,9 +583,10 @@ export class StoryTeller {
     }
 
     // Filter out dead units - only consider alive units for taking actions
-    const aliveUnits = units.filter(unit => this.isUnitAlive(unit));
+    const aliveUnits = units.filter(unit => UnitLifecycle.isAlive(unit));
+    this.observe(units, turn, context.round);
 
-    if (forcedActor && !this.isUnitAlive(forcedActor)) {
+    if (forcedActor && !UnitLifecycle.isAlive(forcedActor)) {
       return this.buildDefaultStory(turn, forcedActor);
     }
 
@@ -277,7 +601,7 @@ export class StoryTeller {
 
     // If no units are available due to cooldown, use all alive units (reset cooldowns)
     const unitsToConsider =
-      forcedActor && this.isUnitAlive(forcedActor)
+      forcedActor && UnitLifecycle.isAlive(forcedActor)
         ? [forcedActor]
         : availableUnits.length > 0
           ? availableUnits
@@ -290,14 +614,15 @@ export class StoryTeller {
 
     // Choose a random alive unit to center the story around
     const randomUnit =
-      (forcedActor && this.isUnitAlive(forcedActor) ? forcedActor : null) ??
-      MathUtils.getRandomFromArray(unitsToConsider);
+      (forcedActor && UnitLifecycle.isAlive(forcedActor)
+        ? forcedActor
+        : null) ?? MathUtils.getRandomFromArray(unitsToConsider, this.random);
 
     const availableActions = this.getAvailableActionsForUnit(randomUnit);
 
     const goalChoice = this.goalSystem.chooseAction(randomUnit, {
       availableActions,
-      units,
+      units: this.vision.getVisibleUnits(randomUnit, units),
       turn,
     });
 
@@ -339,6 +664,21 @@ export class StoryTeller {
       );
     }
 
+    const { directive } = goalChoice;
+    if (directive) {
+      const focus = directive.targetUnitId ?? directive.followUnitId;
+      this.logger.info(
+        `Squad ${directive.squadId}: ${directive.subgoal}${focus ? ` (${focus})` : ''}`
+      );
+    }
+
+    await this.events.emit('goalSelected', {
+      turn,
+      unitId: randomUnit.id,
+      ...(goalChoice.goal ? { goalId: goalChoice.goal.id } : {}),
+      ...(goalChoice.action ? { actionType: goalChoice.action.type } : {}),
+    });
+
     const prioritizedActions =
       goalChoice?.candidateActions && goalChoice.candidateActions.length > 0
         ? goalChoice.candidateActions
@@ -356,14 +696,27 @@ export class StoryTeller {
       `Prioritized actions (${prioritizedSource}): ${prioritizedActionTypes}`
     );
 
-    const executions: ExecutedAction[] = [];
+    // A plan from an earlier turn goes first while it still holds
+    const planEvents: PlanEvent[] = [];
+    const plannedExecution = await this.preparePlannedAction(
+      randomUnit,
+      goalChoice,
+      availableActions,
+      units,
+      turn,
+      planEvents
+    );
+    const executions: ExecutedAction[] = plannedExecution
+      ? [plannedExecution]
+      : [];
 
     for (const actionDef of prioritizedActions) {
       const execution = await this.prepareActionExecution(
         randomUnit,
         actionDef,
         units,
-        turn
+        turn,
+        goalChoice.directive
       );
       if (execution) {
         executions.push(execution);
@@ -379,7 +732,312 @@ export class StoryTeller {
       )
     );
 
-    return { executions, actor: randomUnit };
+    return {
+      executions,
+      actor: randomUnit,
+      goalTransitions: goalChoice.transitions,
+      ...(goalChoice.goal ? { goalId: goalChoice.goal.id } : {}),
+      planEvents,
+    };
+  }
+
+  /**
+   * Prepares the next step of the unit's plan, abandoning the plan when its
+   * goal changed, its target died or got out of reach, or its action is gone
+   */
+  private async preparePlannedAction(
+    unit: BaseUnit,
+    goalChoice: { goal?: GoalDefinition; directive?: SquadDirective },
+    availableActions: Action[],
+    units: BaseUnit[],
+    turn: number,
+    planEvents: PlanEvent[]
+  ): Promise<ExecutedAction | null> {
+    const plan = PlanQueue.read(unit);
+    const step = plan?.steps[0];
+    if (!plan || !step) {
+      return null;
+    }
+
+    const actionDef = availableActions.find(
+      action => action.type === step.actionType
+    );
+    const target = units.find(candidate => candidate.id === step.targetUnitId);
+    let reason = PlanQueue.getInvalidReason(plan, {
+      goalId: goalChoice.goal?.id,
+      target,
+      actionAvailable: Boolean(actionDef),
+      turnsToReach:
+        actionDef && target
+          ? this.estimateApproachTurns(unit, target, actionDef, units)
+          : Infinity,
+    });
+    const execution =
+      !reason && actionDef
+        ? await this.prepareActionExecution(
+            unit,
+            actionDef,
+            units,
+            turn,
+            goalChoice.directive,
+            step.targetUnitId
+          )
+        : null;
+    if (execution?.action.payload?.targetUnit === step.targetUnitId) {
+      return execution;
+    }
+
+    reason ??= 'Target can no longer be targeted';
+    PlanQueue.write(unit);
+    planEvents.push(
+      PlanQueue.toEvent(unit.id, step, 'abandoned', undefined, reason)
+    );
+    return null;
+  }
+
+  /**
+   * Advances the actor's plan by what its turn did, or starts one when the
+   * actor had to walk toward its target
+   */
+  private updatePlan(
+    actor: BaseUnit,
+    storyAction: ExecutedAction,
+    units: BaseUnit[],
+    turn: number,
+    goalId?: string
+  ): PlanEvent[] {
+    const { action } = storyAction;
+    const targetUnitId =
+      typeof action.payload?.targetUnit === 'string'
+        ? action.payload.targetUnit
+        : undefined;
+    const movedTowardsTarget = Boolean(action.payload?.movedTowardsTarget);
+
+    const plan = PlanQueue.read(actor);
+    const step = plan?.steps[0];
+    if (plan && step) {
+      const result = PlanQueue.advance(plan, {
+        actionType: action.type,
+        targetUnitId,
+        movedTowardsTarget,
+      });
+      PlanQueue.write(actor, result.plan);
+      return [
+        PlanQueue.toEvent(
+          actor.id,
+          step,
+          result.event,
+          result.plan,
+          result.reason
+        ),
+      ];
+    }
+
+    const target = units.find(candidate => candidate.id === targetUnitId);
+    if (!movedTowardsTarget || !targetUnitId || !target) {
+      return [];
+    }
+
+    const created = PlanQueue.create(
+      action.type,
+      targetUnitId,
+      this.estimateApproachTurns(actor, target, action, units),
+      turn,
+      goalId
+    );
+    PlanQueue.write(actor, created);
+    const [firstStep] = created.steps;
+    return firstStep
+      ? [PlanQueue.toEvent(actor.id, firstStep, 'created', created)]
+      : [];
+  }
+
+  /**
+   * Turns of walking before the target is within the action's range
+   */
+  private estimateApproachTurns(
+    unit: BaseUnit,
+    target: BaseUnit,
+    actionDef: Action,
+    units: BaseUnit[]
+  ): number {
+    const distance = UnitPosition.getDistanceBetweenUnits(
+      units,
+      unit.id,
+      target.id,
+      true
+    );
+    const gap = distance - this.actionProcessor.getActionRange(actionDef);
+    if (gap <= 0) {
+      return 0;
+    }
+    const movementRange = this.worldManager.getMovementRange(unit);
+    return movementRange > 0 ? Math.ceil(gap / movementRange) : Infinity;
+  }
+
+  private logPlanEvents(planEvents: PlanEvent[], units: BaseUnit[]): void {
+    for (const planEvent of planEvents) {
+      const unit = units.find(candidate => candidate.id === planEvent.unitId);
+      const target = units.find(
+        candidate => candidate.id === planEvent.targetUnitId
+      );
+      this.logger.info(
+        `Plan ${planEvent.event} for ${this.formatUnitLabel(unit, planEvent.unitId)}: ${planEvent.actionType} on ${this.formatUnitLabel(target, planEvent.targetUnitId)}, ${planEvent.remainingSteps} step(s) left${planEvent.reason ? ` (${planEvent.reason})` : ''}`
+      );
+    }
+  }
+
+  /**
+   * Logs goal changes made for the turn's actor
+   */
+  private logGoalTransitions(
+    transitions: GoalTransition[],
+    units: BaseUnit[]
+  ): void {
+    for (const transition of transitions) {
+      const unit = units.find(candidate => candidate.id === transition.unitId);
+      const previous = transition.previousGoalId
+        ? ` (replacing ${transition.previousGoalId})`
+        : '';
+      this.logger.info(
+        `Goal ${transition.goalId} ${transition.status} for ${this.formatUnitLabel(unit, transition.unitId)}${previous}: ${transition.reason ?? 'no reason'}`
+      );
+    }
+  }
+
+  /**
+   * Lists what a player-controlled unit may do this turn: available actions
+   * with their in-range targets (targeted actions without one are left out)
+   * and the tiles it can walk to.
+   */
+  public async getPlayerOptions(unit: BaseUnit): Promise<PlayerTurnOptions> {
+    const units = await this.unitController.getUnitState();
+    return this.collectPlayerOptions(unit, units);
+  }
+
+  private collectPlayerOptions(
+    unit: BaseUnit,
+    units: BaseUnit[]
+  ): PlayerTurnOptions {
+    this.vision.update(this.world, units);
+    const actions: PlayerActionOption[] = [];
+    for (const action of this.getAvailableActionsForUnit(unit)) {
+      const targets = ActionTargeting.requiresTarget(action)
+        ? this.getTargetsInRange(unit, action, units)
+        : [];
+      if (ActionTargeting.requiresTarget(action) && targets.length === 0) {
+        continue;
+      }
+      actions.push({ action, targets });
+    }
+
+    return {
+      actions,
+      destinations: this.worldManager.getMoveDestinations(unit, units),
+    };
+  }
+
+  /**
+   * Turns a player's choice into the turn's candidates: the chosen action,
+   * then the default action, both walking to the chosen destination.
+   * Choices that are not among the unit's options fall back to waiting.
+   */
+  private createPlayerStory(
+    actor: BaseUnit,
+    choice: PlayerChoice,
+    units: BaseUnit[],
+    turn: number,
+    context: Partial<TurnContext>
+  ): StoryCandidates {
+    if (!UnitLifecycle.isAlive(actor)) {
+      return this.buildDefaultStory(turn, actor);
+    }
+
+    this.observe(units, turn, context.round);
+    const movement = this.planPlayerMovement(actor, choice, units);
+    const fallback = this.actionProcessor.getDefaultExecutedAction(
+      actor,
+      turn,
+      this.getSafeContext(context)
+    );
+    fallback.action.payload = { ...fallback.action.payload, ...movement };
+
+    if (!choice.actionType) {
+      return { executions: [fallback], actor };
+    }
+
+    const option = this.collectPlayerOptions(actor, units).actions.find(
+      candidate => candidate.action.type === choice.actionType
+    );
+    const targetUnit = choice.targetUnitId
+      ? option?.targets.find(target => target.id === choice.targetUnitId)
+      : option?.targets[0];
+    if (
+      !option ||
+      (ActionTargeting.requiresTarget(option.action) && !targetUnit)
+    ) {
+      this.logger.warn(
+        `Player choice ${choice.actionType}${
+          choice.targetUnitId ? ` on ${choice.targetUnitId}` : ''
+        } is not available to ${this.formatUnitLabel(actor)}; waiting instead`
+      );
+      return { executions: [fallback], actor };
+    }
+
+    const payload: ActionPayload = {
+      ...this.buildBasePayload(option.action, targetUnit ?? null),
+      ...(targetUnit ? { targetUnit: targetUnit.id } : {}),
+      ...movement,
+    };
+
+    return {
+      executions: [
+        {
+          turn,
+          timestamp: this.clock.timeOf(turn),
+          action: {
+            ...option.action,
+            description: this.buildDescription(
+              option.action,
+              actor.name,
+              actor.type,
+              targetUnit?.name ?? 'another unit',
+              false
+            ),
+            player: actor.id,
+            payload,
+          },
+        },
+        fallback,
+      ],
+      actor,
+    };
+  }
+
+  private planPlayerMovement(
+    unit: BaseUnit,
+    choice: PlayerChoice,
+    units: BaseUnit[]
+  ): ActionPayload {
+    if (!choice.destination) {
+      return {};
+    }
+
+    const steps = this.worldManager.planMovementToPosition(
+      unit,
+      choice.destination,
+      units
+    );
+    if (steps.length === 0) {
+      this.logger.warn(
+        `${this.formatUnitLabel(unit)} cannot reach (${
+          choice.destination.position.x
+        }, ${choice.destination.position.y}) this turn; staying put`
+      );
+      return {};
+    }
+
+    return this.buildMovementPayload(unit, steps);
   }
 
   /**
@@ -389,10 +1047,18 @@ export class StoryTeller {
     unit: BaseUnit,
     actionDef: Action,
     units: BaseUnit[],
-    turn: number
+    turn: number,
+    directive?: SquadDirective,
+    preferredTargetId?: string
   ): Promise<ExecutedAction | null> {
-    const targetUnit = this.selectTargetForAction(unit, actionDef, units);
-    if (this.requiresTarget(actionDef.type) && !targetUnit) {
+    const targetUnit =
+      this.selectDirectedTarget(
+        unit,
+        actionDef,
+        units,
+        preferredTargetId ?? directive?.targetUnitId
+      ) ?? this.selectTargetForAction(unit, actionDef, units, turn);
+    if (ActionTargeting.requiresTarget(actionDef) && !targetUnit) {
       this.logger.info(
         `Skipping action ${actionDef.type} for ${this.formatUnitLabel(
           unit
@@ -407,12 +1073,18 @@ export class StoryTeller {
       ...(targetUnit ? { targetUnit: targetUnit.id } : {}),
     };
 
-    const movementPlan = this.planMovementForAction({
-      actionDef,
-      unit,
-      targetUnit,
-      units,
-    });
+    const movementPlan =
+      directive && !targetUnit
+        ? {
+            payload: this.planDirectedMovement(unit, directive, units),
+            movedTowardsTarget: false,
+          }
+        : this.planMovementForAction({
+            actionDef,
+            unit,
+            targetUnit,
+            units,
+          });
 
     const finalPayload: ActionPayload = {
       ...payloadWithTarget,
@@ -429,7 +1101,7 @@ export class StoryTeller {
 
     return {
       turn,
-      timestamp: Date.now(),
+      timestamp: this.clock.timeOf(turn),
       action: {
         ...actionDef,
         description,
@@ -464,44 +1136,103 @@ export class StoryTeller {
       return {};
     }
 
-    return ActionProcessor.processActionPayload(actionDef.payload, targetUnit);
+    return ActionProcessor.processActionPayload(
+      actionDef.payload,
+      targetUnit,
+      this.random
+    );
   }
 
-  private selectTargetForAction(
+  /**
+   * The planned or squad focus target, when the action can target it
+   */
+  private selectDirectedTarget(
     unit: BaseUnit,
     actionDef: Action,
-    units: BaseUnit[]
+    units: BaseUnit[],
+    targetUnitId?: string
   ): BaseUnit | null {
-    if (!this.requiresTarget(actionDef.type) || units.length <= 1) {
+    if (!targetUnitId || !ActionTargeting.requiresTarget(actionDef)) {
       return null;
     }
+    const targeting = ActionTargeting.resolve(actionDef);
+    return (
+      this.getCandidateTargets(unit, targeting, units).find(
+        target => target.id === targetUnitId
+      ) ?? null
+    );
+  }
 
-    const otherUnits = units.filter(u => u.id !== unit.id);
-    const aliveTargets = otherUnits.filter(u => this.isUnitAlive(u));
-    let candidateTargets = aliveTargets;
+  /**
+   * Walks a squad member toward its formation anchor or the rally point
+   */
+  private planDirectedMovement(
+    unit: BaseUnit,
+    directive: SquadDirective,
+    units: BaseUnit[]
+  ): ActionPayload {
+    try {
+      const followed = directive.followUnitId
+        ? units.find(candidate => candidate.id === directive.followUnitId)
+        : undefined;
+      if (followed) {
+        const plan = this.worldManager.planMovementTowardTarget(
+          unit,
+          followed,
+          units,
+          directive.withinRange
+        );
+        return this.buildMovementPayload(unit, plan.steps);
+      }
 
-    if (this.requiresHostileTarget(actionDef.type)) {
-      candidateTargets = aliveTargets.filter(u =>
-        RelationshipHelper.isHostile(unit, u)
-      );
-      if (candidateTargets.length === 0) {
-        return null;
+      const { destination } = directive;
+      if (destination) {
+        const steps = this.worldManager.planMovementTowardPosition(
+          unit,
+          {
+            mapId: destination.mapId,
+            position: new Position(destination.x, destination.y),
+          },
+          units,
+          directive.withinRange
+        );
+        return this.buildMovementPayload(unit, steps);
       }
-    } else if (this.requiresAllyTarget(actionDef.type)) {
-      candidateTargets = aliveTargets.filter(u =>
-        RelationshipHelper.isAlly(unit, u)
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.warn(
+        `Unable to plan ${directive.subgoal} move for ${this.formatUnitLabel(
+          unit
+        )}: ${err.message}`
       );
     }
+    return {};
+  }
 
-    if (candidateTargets.length === 0) {
-      candidateTargets = aliveTargets;
+  /**
+   * Picks the nearest visible unit matching the action's targeting. Targets in range
+   * (and in sight) win; otherwise the nearest match is returned so the actor
+   * can move toward it. Area actions prefer the in-range placement catching
+   * the most wanted units over unwanted ones. Hostiles that have hurt the
+   * actor come before nearer ones, the most damage first.
+   */
+  private selectTargetForAction(
+    unit: BaseUnit,
+    actionDef: Action,
+    units: BaseUnit[],
+    turn: number
+  ): BaseUnit | null {
+    if (!ActionTargeting.requiresTarget(actionDef) || units.length <= 1) {
+      return null;
     }
 
+    const targeting = ActionTargeting.resolve(actionDef);
+    const candidateTargets = this.getCandidateTargets(unit, targeting, units);
+
     if (candidateTargets.length === 0) {
       return null; // No valid target for this action
     }
 
-    const actionRange = this.actionProcessor.getActionRange(actionDef);
     const candidatesWithDistance = candidateTargets.map(target => ({
       target,
       distance: UnitPosition.getDistanceBetweenUnits(
@@ -517,14 +1248,110 @@ export class StoryTeller {
     );
     const considered =
       reachable.length > 0 ? reachable : candidatesWithDistance;
-    const inRange = considered.filter(c => c.distance <= actionRange);
+    const inRange = considered.filter(c =>
+      this.isTargetInRange(unit, targeting, c.target, c.distance)
+    );
+    if (inRange.length > 0 && AreaOfEffect.isArea(targeting)) {
+      return this.selectAreaPlacement(unit, inRange, units, targeting);
+    }
+
+    const memory = UnitMemory.read(unit);
+    const grudge = (target: BaseUnit): number =>
+      RelationshipHelper.isHostile(unit, target)
+        ? UnitMemory.getDamageFrom(memory, target.id, turn)
+        : 0;
     const selectionPool = inRange.length > 0 ? inRange : considered;
-    selectionPool.sort((a, b) => a.distance - b.distance);
+    selectionPool.sort(
+      (a, b) => grudge(b.target) - grudge(a.target) || a.distance - b.distance
+    );
 
     const chosen = selectionPool[0]?.target ?? null;
     return chosen;
   }
 
+  /**
+   * Targets an action can reach right now, nearest first
+   */
+  private getTargetsInRange(
+    unit: BaseUnit,
+    actionDef: Action,
+    units: BaseUnit[]
+  ): BaseUnit[] {
+    const targeting = ActionTargeting.resolve(actionDef);
+    return this.getCandidateTargets(unit, targeting, units)
+      .map(target => ({
+        target,
+        distance: UnitPosition.getDistanceBetweenUnits(
+          units,
+          unit.id,
+          target.id,
+          true
+        ),
+      }))
+      .filter(
+        c =>
+          c.distance !== Infinity &&
+          this.isTargetInRange(unit, targeting, c.target, c.distance)
+      )
+      .sort((a, b) => a.distance - b.distance)
+      .map(c => c.target);
+  }
+
+  private getCandidateTargets(
+    unit: BaseUnit,
+    targeting: ResolvedTargeting,
+    units: BaseUnit[]
+  ): BaseUnit[] {
+    return units.filter(
+      u =>
+        u.id !== unit.id &&
+        UnitLifecycle.isAlive(u) === (targeting.status === 'alive') &&
+        ActionTargeting.matchesRelationship(targeting, unit, u) &&
+        this.vision.canSee(unit, u)
+    );
+  }
+
+  private isTargetInRange(
+    unit: BaseUnit,
+    targeting: ResolvedTargeting,
+    target: BaseUnit,
+    distance: number
+  ): boolean {
+    return (
+      ActionTargeting.isWithinRange(targeting, distance) &&
+      (!targeting.lineOfSight ||
+        ActionTargeting.hasLineOfSight(this.world, unit, target))
+    );
+  }
+
+  /**
+   * Scores each in-range target as the area's anchor; ties go to the nearest
+   */
+  private selectAreaPlacement(
+    unit: BaseUnit,
+    inRange: Array<{ target: BaseUnit; distance: number }>,
+    units: BaseUnit[],
+    targeting: ResolvedTargeting
+  ): BaseUnit | null {
+    const aliveUnits = units.filter(u => UnitLifecycle.isAlive(u));
+    const scored = inRange.map(candidate => ({
+      ...candidate,
+      score: AreaOfEffect.scorePlacement(
+        targeting,
+        unit,
+        AreaOfEffect.getUnitsInArea(
+          this.world,
+          aliveUnits,
+          unit,
+          candidate.target,
+          targeting
+        )
+      ),
+    }));
+    scored.sort((a, b) => b.score - a.score || a.distance - b.distance);
+    return scored[0]?.target ?? null;
+  }
+
   private planMovementForAction({
     actionDef,
     unit,
@@ -538,38 +1365,30 @@ export class StoryTeller {
   }): { payload: ActionPayload; movedTowardsTarget: boolean } {
     const payload: ActionPayload = {};
 
-    if (actionDef.type === 'explore') {
-      try {
-        const steps = this.worldManager.planExploreMovement(unit, units);
-        const [firstStep] = steps;
-        if (!firstStep) {
-          return { payload, movedTowardsTarget: false };
-        }
+    if (actionDef.type === 'retreat') {
+      return {
+        payload: this.planRetreatMovement(unit, units),
+        movedTowardsTarget: false,
+      };
+    }
 
-        payload.unitId = unit.id;
-        payload.mapId = firstStep.mapId;
-        payload.position = new Position(
-          firstStep.position.x,
-          firstStep.position.y
-        );
-        payload.movedTo = {
-          x: firstStep.position.x,
-          y: firstStep.position.y,
+    const exploration = Exploration.resolve(actionDef);
+    if (exploration) {
+      try {
+        const steps = this.planExplorationMovement(unit, exploration, units);
+        return {
+          payload: this.buildMovementPayload(
+            unit,
+            steps.length > 0
+              ? steps
+              : this.worldManager.planExploreMovement(unit, units)
+          ),
+          movedTowardsTarget: false,
         };
-        payload.movementPath = steps.map(step => ({
-          mapId: step.mapId,
-          position: {
-            x: step.position.x,
-            y: step.position.y,
-            ...(step.position.z !== undefined ? { z: step.position.z } : {}),
-          },
-        }));
-
-        return { payload, movedTowardsTarget: false };
       } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
         this.logger.warn(
-          `Unable to plan explore move for ${this.formatUnitLabel(
+          `Unable to plan ${actionDef.type} move for ${this.formatUnitLabel(
             unit
           )}: ${err.message}`
         );
@@ -590,27 +1409,10 @@ export class StoryTeller {
         actionRange
       );
 
-      const [firstStep] = plan.steps;
-      if (firstStep) {
-        payload.movedTowardsTarget = plan.movedTowardsTarget;
-        payload.movedTo = {
-          x: firstStep.position.x,
-          y: firstStep.position.y,
-        };
-        payload.unitId = unit.id;
-        payload.mapId = firstStep.mapId;
-        payload.position = new Position(
-          firstStep.position.x,
-          firstStep.position.y
-        );
-        payload.movementPath = plan.steps.map(step => ({
-          mapId: step.mapId,
-          position: {
-            x: step.position.x,
-            y: step.position.y,
-            ...(step.position.z !== undefined ? { z: step.position.z } : {}),
-          },
-        }));
+      if (plan.steps.length > 0) {
+        Object.assign(payload, this.buildMovementPayload(unit, plan.steps), {
+          movedTowardsTarget: plan.movedTowardsTarget,
+        });
       }
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
@@ -626,41 +1428,172 @@ export class StoryTeller {
     return { payload, movedTowardsTarget: Boolean(payload.movedTowardsTarget) };
   }
 
-  private requiresHostileTarget(actionType: string): boolean {
-    return [
-      'attack',
-      'desperate_attack',
-      'ranged_attack',
-      'shoot',
-      'stab',
-      'melee',
-      'cast_attack',
-    ].includes(actionType);
+  /**
+   * Steps for an exploring action's strategy; none when the strategy has
+   * nowhere to go, so the unit falls back to a random walk. Random and
+   * frontier exploration first hunt hostiles the faction has lost sight of.
+   */
+  private planExplorationMovement(
+    unit: BaseUnit,
+    exploration: ActionExploration,
+    units: BaseUnit[]
+  ): IMapPosition[] {
+    const visited = Exploration.getFactionVisited(unit, units);
+    switch (exploration.strategy) {
+      case 'patrol':
+        return this.planPatrolMovement(unit, exploration, units);
+      case 'gates':
+        return this.worldManager.planGateMovement(
+          unit,
+          units,
+          mapId => visited.get(mapId)?.size ?? 0
+        );
+      case 'frontier': {
+        const huntSteps = this.planHuntMovement(unit, units);
+        return huntSteps.length > 0
+          ? huntSteps
+          : this.worldManager.planFrontierMovement(unit, units, position =>
+              Exploration.isVisited(visited, position)
+            );
+      }
+      case 'random':
+        return this.planHuntMovement(unit, units);
+    }
   }
 
-  private requiresAllyTarget(actionType: string): boolean {
-    return ['support', 'heal', 'inspire'].includes(actionType);
-  }
+  /**
+   * Steps toward the unit's next patrol waypoint, starting a route the first
+   * time it patrols
+   */
+  private planPatrolMovement(
+    unit: BaseUnit,
+    exploration: ActionExploration,
+    units: BaseUnit[]
+  ): IMapPosition[] {
+    const position = unit.getPropertyValue<IUnitPosition>('position');
+    if (!isUnitPosition(position)) {
+      return [];
+    }
+
+    const patrol =
+      Exploration.readPatrol(unit) ??
+      Exploration.createPatrol(
+        unit,
+        position,
+        exploration.patrolRadius ?? Exploration.DEFAULT_PATROL_RADIUS,
+        this.world.getMap(position.mapId)
+      );
+    if (!patrol) {
+      return [];
+    }
 
-  private requiresTarget(actionType: string): boolean {
-    return ['interact', 'attack', 'support', 'trade', 'inspire'].includes(
-      actionType
+    const { state, waypoint } = Exploration.advancePatrol(patrol, position);
+    Exploration.writePatrol(unit, state);
+    return this.worldManager.planMovementTowardPosition(
+      unit,
+      {
+        mapId: waypoint.mapId,
+        position: new Position(waypoint.x, waypoint.y),
+      },
+      units,
+      Exploration.WAYPOINT_REACH
     );
   }
 
-  private isUnitAlive(unit: BaseUnit): boolean {
-    const status = unit.getPropertyValue<string>('status');
-    if (status === 'dead') {
-      return false;
+  /**
+   * Walks a unit to the least threatened tile it can reach; stays put when
+   * its faction knows of no hostiles
+   */
+  private planRetreatMovement(
+    unit: BaseUnit,
+    units: BaseUnit[]
+  ): ActionPayload {
+    const factionId = this.threatMap.getFactionId(unit);
+    if (this.threatMap.getSources(factionId).length === 0) {
+      return {};
+    }
+
+    try {
+      const steps = this.worldManager.planMovementToLowestScore(
+        unit,
+        units,
+        position => this.threatMap.getThreat(factionId, position)
+      );
+      return this.buildMovementPayload(unit, steps);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.warn(
+        `Unable to plan retreat for ${this.formatUnitLabel(unit)}: ${
+          err.message
+        }`
+      );
+      return {};
+    }
+  }
+
+  /**
+   * Steps toward the latest sighting of a hostile the faction has lost sight
+   * of, nearest first on ties; none when there is nothing to hunt
+   */
+  private planHuntMovement(unit: BaseUnit, units: BaseUnit[]): IMapPosition[] {
+    const position = unit.getPropertyValue<IUnitPosition>('position');
+    if (!isUnitPosition(position)) {
+      return [];
+    }
+
+    const distanceTo = (source: { mapId: string; x: number; y: number }) =>
+      source.mapId === position.mapId
+        ? Math.abs(source.x - position.position.x) +
+          Math.abs(source.y - position.position.y)
+        : Infinity;
+    const [lead] = this.threatMap
+      .getSources(this.threatMap.getFactionId(unit))
+      .filter(source => !source.visible && distanceTo(source) > 0)
+      .sort(
+        (a, b) =>
+          b.lastSeenTurn - a.lastSeenTurn || distanceTo(a) - distanceTo(b)
+      );
+    if (!lead) {
+      return [];
     }
 
-    const healthValue = unit.getPropertyValue<number>('health');
+    this.logger.info(
+      `${this.formatUnitLabel(unit)} hunts toward where it last saw ${lead.unitId} (${lead.x}, ${lead.y})`
+    );
+    return this.worldManager.planMovementTowardPosition(
+      unit,
+      { mapId: lead.mapId, position: new Position(lead.x, lead.y) },
+      units,
+      0
+    );
+  }
 
-    if (!healthValue || healthValue <= 0) {
-      return false;
+  /**
+   * Payload fields that make `applyPlannedMove` walk a unit along a path
+   */
+  private buildMovementPayload(
+    unit: BaseUnit,
+    steps: IMapPosition[]
+  ): ActionPayload {
+    const [firstStep] = steps;
+    if (!firstStep) {
+      return {};
     }
 
-    return true;
+    return {
+      unitId: unit.id,
+      mapId: firstStep.mapId,
+      position: new Position(firstStep.position.x, firstStep.position.y),
+      movedTo: { x: firstStep.position.x, y: firstStep.position.y },
+      movementPath: steps.map(step => ({
+        mapId: step.mapId,
+        position: {
+          x: step.position.x,
+          y: step.position.y,
+          ...(step.position.z !== undefined ? { z: step.position.z } : {}),
+        },
+      })),
+    };
   }
 
   private getAvailableActionsForUnit(unit: BaseUnit): Action[] {
@@ -723,10 +1656,7 @@ export class StoryTeller {
     return new BaseUnit('default-unit', 'DefaultUnit', 'unknown', {});
   }
 
-  private buildDefaultStory(
-    turn: number,
-    actor?: BaseUnit
-  ): { executions: ExecutedAction[]; actor: BaseUnit } {
+  private buildDefaultStory(turn: number, actor?: BaseUnit): StoryCandidates {
     const resolvedActor = actor ?? this.createDefaultActor();
     return {
       actor: resolvedActor,
@@ -766,6 +1696,20 @@ export class StoryTeller {
     this.actionProcessor.setWorld(world);
   }
 
+  /**
+   * Gets the vision system deciding which units each unit can see.
+   */
+  public getVision(): VisionSystem {
+    return this.vision;
+  }
+
+  /**
+   * Gets the per-faction threat map retreats and hunts are planned on.
+   */
+  public getThreatMap(): ThreatMap {
+    return this.threatMap;
+  }
+
   /**
    * Gets the world manager that owns gate and movement operations.
    */
@@ -867,14 +1811,21 @@ export class StoryTeller {
    */
   public saveUnits(): void {
     const units = this.unitController.getUnits();
-    DataManager.saveUnits(units);
+    DataManager.saveUnits(units, this.storage);
   }
 
   /**
    * Saves the current world state to JSON
    */
   public saveWorld(): void {
-    DataManager.saveWorld(this.world);
+    DataManager.saveWorld(
+      this.world,
+      {
+        gateSystem: this.gateSystem,
+        units: this.unitController.getUnits(),
+      },
+      this.storage
+    );
   }
 
   /**
@@ -884,7 +1835,8 @@ export class StoryTeller {
     executedAction: ExecutedAction,
     turn: number,
     statChanges: StatChange[] = [],
-    context: Partial<TurnContext> = {}
+    context: Partial<TurnContext> = {},
+    outcome: DiaryOutcome = {}
   ): void {
     const formattedChanges = this.formatStatChangeSummary(statChanges);
     const statChangesByUnit = this.formatStatChangesByUnit(statChanges);
@@ -901,7 +1853,7 @@ export class StoryTeller {
       context.actorId ?? executedAction.actorId ?? executedAction.action.player;
     const diaryEntry: DiaryEntry = {
       turn,
-      timestamp: new Date().toISOString(),
+      timestamp: this.clock.isoTimeOf(turn),
       action: executedAction.action,
       round,
       turnInRound,
@@ -911,12 +1863,81 @@ export class StoryTeller {
       statChangesSummary: formattedChanges,
       statChangesByUnit,
       statChangesFormatted,
+      ...(outcome.statusEffects?.length
+        ? { statusEffects: outcome.statusEffects }
+        : {}),
+      ...(outcome.areaHits?.length ? { areaHits: outcome.areaHits } : {}),
+      ...(outcome.deaths?.length ? { deaths: outcome.deaths } : {}),
+      ...(outcome.goalTransitions?.length
+        ? { goalTransitions: outcome.goalTransitions }
+        : {}),
+      ...(outcome.planEvents?.length ? { planEvents: outcome.planEvents } : {}),
     };
 
-    DataManager.saveDiaryEntry(diaryEntry);
+    DataManager.saveDiaryEntry(diaryEntry, this.storage);
     this.diary.push(diaryEntry);
   }
 
+  /**
+   * Ticks timed status effects when a turn ends and records any expiries:
+   * `turn` statuses count the actor's own turns, `round` statuses every
+   * unit's rounds. `info.turn` is the turn that just ended.
+   */
+  public async expireStatusEffects(
+    info: TurnEndInfo & { actorId?: string }
+  ): Promise<StatusEffectEvent[]> {
+    const units = this.unitController.getUnits();
+    const actor = units.find(
+      unit => unit.id === info.actorId && UnitLifecycle.isAlive(unit)
+    );
+    const initialStates = StatTracker.takeSnapshot(units);
+    const expired = [
+      ...(actor ? StatusEffects.tick([actor], 'turn') : []),
+      ...(info.roundEnded ? StatusEffects.tick(units, 'round') : []),
+    ];
+    if (expired.length === 0) {
+      return expired;
+    }
+
+    const changes = StatTracker.compareSnapshots(initialStates, units);
+    for (const change of changes) {
+      await this.events.emit('statChanged', { ...change, turn: info.turn });
+    }
+    const description = expired
+      .map(
+        event =>
+          `${event.source.slice(StatusEffects.SOURCE_PREFIX.length)} on ${event.unitName} wore off (${event.property} ${event.delta >= 0 ? '-' : '+'}${Math.abs(event.delta)})`
+      )
+      .join('; ');
+    const last = this.diary[this.diary.length - 1];
+    const executedAction: ExecutedAction = {
+      turn: info.turn,
+      timestamp: this.clock.timeOf(info.turn),
+      action: {
+        player: 'system',
+        type: 'status_expired',
+        description,
+      },
+      round: info.round,
+      turnInRound: last?.turnInRound ?? 0,
+      turnOrder: last?.turnOrder ?? [],
+      actorId: 'system',
+    };
+
+    this.logger.info(`Status effects expired: ${description}`);
+    this.saveUnits();
+    this.saveDiaryEntry(
+      executedAction,
+      info.turn,
+      changes,
+      {},
+      {
+        statusEffects: expired,
+      }
+    );
+    return expired;
+  }
+
   /**
    * Logs a system-level diary entry (e.g., errors) so renderers can display it.
    */
@@ -947,7 +1968,7 @@ export class StoryTeller {
 
     const diaryEntry: DiaryEntry = {
       turn,
-      timestamp: new Date().toISOString(),
+      timestamp: this.clock.isoTimeOf(turn),
       action,
       round,
       turnInRound,
@@ -959,7 +1980,7 @@ export class StoryTeller {
       statChangesFormatted: [],
     };
 
-    DataManager.saveDiaryEntry(diaryEntry);
+    DataManager.saveDiaryEntry(diaryEntry, this.storage);
     this.diary.push(diaryEntry);
   }
 
@@ -1140,6 +2161,20 @@ export class StoryTeller {
           position: new Position(payload.position.x, payload.position.y),
         });
       }
+
+      const moved = this.unitController
+        .getUnits()
+        .find(u => u.id === executedAction.action.player)
+        ?.getPropertyValue<IUnitPosition>('position');
+      if (moved) {
+        await this.events.emit('unitMoved', {
+          unitId: executedAction.action.player,
+          stepIndex: 1,
+          totalSteps: 1,
+          mapId: moved.mapId,
+          position: moved.position,
+        });
+      }
     } catch (error) {
       this.logger.warn(
         `Planned move failed for ${executedAction.action.player}: ${(error as Error).message}`
@@ -0,0 +1,126 @@
+import { createInterface } from 'readline/promises';
+import type { IMapPosition } from '@atsu/choukai';
+import type { BaseUnit } from '@atsu/atago';
+import { Logger } from '../utils/Logger';
+import type {
+  PlayerActionOption,
+  PlayerChoice,
+  PlayerInputProvider,
+  PlayerTurnRequest,
+} from './PlayerInput';
+
+/**
+ * Shows a question and resolves with the line the player typed
+ */
+export type PromptLine = (question: string) => Promise<string>;
+
+/**
+ * Reads one line from stdin. The stream is left flowing if it was, so key
+ * handlers attached by the game keep working.
+ */
+const promptStdin: PromptLine = async question => {
+  const wasPaused = process.stdin.isPaused();
+  const readline = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    terminal: false,
+  });
+  try {
+    return await readline.question(question);
+  } finally {
+    readline.close();
+    if (!wasPaused) {
+      process.stdin.resume();
+    }
+  }
+};
+
+/**
+ * Asks the player at the terminal what their unit should do.
+ * Each step lists numbered options with `0. skip`: action, target when there
+ * is more than one, and finally a destination. An empty or invalid answer skips.
+ */
+export class TerminalPlayerInput implements PlayerInputProvider {
+  private logger: Logger;
+  private promptLine: PromptLine;
+
+  constructor(logger?: Logger, promptLine: PromptLine = promptStdin) {
+    this.logger = logger ?? new Logger({ prefix: 'PlayerInput' });
+    this.promptLine = promptLine;
+  }
+
+  public async chooseAction(request: PlayerTurnRequest): Promise<PlayerChoice> {
+    this.logger.info(
+      `Round ${request.round}, turn ${request.turn}: ${request.unit.name} (${request.unit.id}) awaits your orders`
+    );
+
+    const option = await this.pick('Action', request.actions, describeAction);
+    const target = option ? await this.pickTarget(option) : undefined;
+    const destination = await this.pick(
+      'Move to',
+      request.destinations,
+      formatPosition
+    );
+
+    return {
+      ...(option ? { actionType: option.action.type } : {}),
+      ...(target ? { targetUnitId: target.id } : {}),
+      ...(destination ? { destination } : {}),
+    };
+  }
+
+  private async pickTarget(
+    option: PlayerActionOption
+  ): Promise<BaseUnit | undefined> {
+    const [first, ...rest] = option.targets;
+    if (!first || rest.length === 0) {
+      return first;
+    }
+    return this.pick(
+      'Target',
+      option.targets,
+      target => `${target.name} (${target.id})`
+    );
+  }
+
+  /**
+   * Lists the options after `0. skip` and reads one number
+   */
+  private async pick<T>(
+    title: string,
+    options: T[],
+    describe: (option: T) => string
+  ): Promise<T | undefined> {
+    if (options.length === 0) {
+      return undefined;
+    }
+
+    this.logger.info(`${title}:`);
+    this.logger.info('  0. skip');
+    options.forEach((option, index) => {
+      this.logger.info(`  ${index + 1}. ${describe(option)}`);
+    });
+
+    const answer = (
+      await this.promptLine(`${title} [0-${options.length}, default 0]: `)
+    ).trim();
+    if (answer === '' || answer === '0') {
+      return undefined;
+    }
+
+    const choice = Number(answer);
+    const option = Number.isInteger(choice) ? options[choice - 1] : undefined;
+    if (option === undefined) {
+      this.logger.warn(`"${answer}" is not one of the options; skipping`);
+    }
+    return option;
+  }
+}
+
+const describeAction = (option: PlayerActionOption): string =>
+  option.targets.length > 0
+    ? `${option.action.type} -> ${option.targets.map(target => target.name).join(', ')}`
+    : option.action.type;
+
+const formatPosition = (destination: IMapPosition): string =>
+  `(${destination.position.x}, ${destination.position.y})`;
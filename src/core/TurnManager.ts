@@ -1,5 +1,13 @@
 import type { GameState, Action, Turn, TurnContext } from '../types';
 
+export interface TurnEndInfo {
+  turn: number;
+  round: number;
+  roundEnded: boolean;
+}
+
+export type TurnEndHandler = (info: TurnEndInfo) => void;
+
 /**
  * Represents the turn manager that handles turn-based mechanics
  */
@@ -11,6 +19,7 @@ export class TurnManager {
   private turnIndexInRound: number = 0;
   private roundInProgress: boolean = false;
   private history: Turn[] = [];
+  private turnEndHandler: TurnEndHandler | undefined;
 
   constructor(initialState: GameState) {
     this.gameState = { ...initialState };
@@ -154,11 +163,19 @@ export class TurnManager {
     );
   }
 
+  /**
+   * Register a handler called after every endTurn (e.g. status effect ticks).
+   */
+  public setTurnEndHandler(handler?: TurnEndHandler | null): void {
+    this.turnEndHandler = handler ?? undefined;
+  }
+
   /**
    * Ends the current turn and advances to the next turn
    */
   public endTurn(): void {
     this.currentTurn++;
+    let roundEnded = false;
 
     // Update the game state with the new turn
     this.gameState.turn = this.currentTurn;
@@ -171,8 +188,15 @@ export class TurnManager {
         this.turnOrder = [];
         this.turnIndexInRound = 0;
         this.gameState.turnOrder = [];
+        roundEnded = true;
       }
     }
+
+    this.turnEndHandler?.({
+      turn: this.currentTurn,
+      round: this.currentRound,
+      roundEnded,
+    });
   }
 
   /**
@@ -16,11 +16,17 @@ import {
   type IMapPosition,
 } from '@atsu/choukai';
 import { UnitController } from '../ai/UnitController';
+import { ConfigManager } from '../utils/ConfigManager';
+import type { TerrainConfig } from '../utils/engineConfig';
 import { MathUtils } from '../utils/Math';
+import { RandomGenerator } from '../utils/RandomGenerator';
 import { GateSystem, type GateConnection } from '../utils/GateSystem';
 import { Logger } from '../utils/Logger';
+import { TerrainPathfinder, type PathGrid } from '../utils/TerrainPathfinder';
+import { TerrainRules } from '../utils/TerrainRules';
 import { UnitPosition } from '../utils/UnitPosition';
 import { isUnitPosition } from '../types/typeGuards';
+import type { EngineEvents } from './EngineEvents';
 
 export interface MovementStepUpdate {
   unitId: string;
@@ -34,25 +40,37 @@ export type MovementStepHandler = (
   update: MovementStepUpdate
 ) => void | Promise<void>;
 
+/** Tiles (Manhattan) around a frontier tile counted when scoring it. */
+const FRONTIER_RADIUS = 2;
+
 export class WorldManager {
   private world: ChoukaiWorld;
   private unitController: UnitController;
   private gateSystem: GateSystem;
   private logger: Logger;
   private movementStepCooldownMs: number;
+  private random: RandomGenerator;
+  private events: EngineEvents | undefined;
+  private terrainRules: TerrainConfig;
 
   constructor(
     world: ChoukaiWorld,
     unitController: UnitController,
     gateSystem: GateSystem,
     logger: Logger,
-    movementStepCooldownMs: number = 0
+    movementStepCooldownMs: number = 0,
+    random?: RandomGenerator,
+    events?: EngineEvents,
+    terrainRules: TerrainConfig = ConfigManager.getTerrainConfig()
   ) {
     this.world = world;
     this.unitController = unitController;
     this.gateSystem = gateSystem;
     this.logger = logger;
     this.movementStepCooldownMs = movementStepCooldownMs;
+    this.random = random ?? RandomGenerator.fromConfig();
+    this.events = events;
+    this.terrainRules = terrainRules;
   }
 
   /**
@@ -80,8 +98,8 @@ export class WorldManager {
    * @returns Random position within map bounds
    */
   getRandomPosition(map: ChoukaiMap): Position {
-    const x = Math.floor(Math.random() * map.width);
-    const y = Math.floor(Math.random() * map.height);
+    const x = MathUtils.getRandomNumber(0, map.width - 1, this.random);
+    const y = MathUtils.getRandomNumber(0, map.height - 1, this.random);
     return new Position(x, y);
   }
 
@@ -241,19 +259,21 @@ export class WorldManager {
 
       stepsApplied += 1;
 
-      if (onStep) {
+      if (onStep || this.events) {
         const updatedPos = unit.getPropertyValue<IUnitPosition>('position');
         if (!updatedPos) {
           throw new Error(`Unit ${unitLabel} missing position after movement`);
         }
 
-        await onStep({
+        const update: MovementStepUpdate = {
           unitId,
           stepIndex: index + 1,
           totalSteps,
           mapId: updatedPos.mapId,
           position: updatedPos.position,
-        });
+        };
+        await onStep?.(update);
+        await this.events?.emit('unitMoved', update);
       }
 
       // Apply movement step cooldown if configured and not the last step
@@ -304,7 +324,7 @@ export class WorldManager {
       { x: -1, y: 0 },
     ];
 
-    const dir = MathUtils.getRandomFromArray(directions);
+    const dir = MathUtils.getRandomFromArray(directions, this.random);
     const maxX = currentMap.width - 1;
     const maxY = currentMap.height - 1;
     const newX = Math.max(0, Math.min(unitPos.position.x + dir.x, maxX));
@@ -345,6 +365,7 @@ export class WorldManager {
 
     const occupiedPositions = this.collectOccupiedPositions(units);
     const target = this.selectRandomTarget(
+      unit,
       unitPos,
       movementRange,
       occupiedPositions
@@ -357,20 +378,275 @@ export class WorldManager {
       return [];
     }
 
-    const plan = planMovementSteps(
-      this.world,
-      { mapId: unitPos.mapId, position: unitPos.position },
+    return this.planTerrainPath(
+      unit,
+      unitPos,
       target,
       movementRange,
-      {
-        occupiedPositions,
-        gateConnections: this.getGateConnections(),
-        allowDiagonal: false,
-        useManhattanDistance: true,
+      occupiedPositions
+    );
+  }
+
+  /**
+   * Plan a walk onto tiles nobody has visited. Within reach, the unvisited
+   * tile bordering the most other unvisited tiles wins; otherwise the unit
+   * heads for the cheapest unvisited tile on its map. Empty when every tile
+   * it can get to has been visited.
+   */
+  planFrontierMovement(
+    unit: BaseUnit,
+    units: BaseUnit[],
+    isVisited: (position: IMapPosition) => boolean
+  ): IMapPosition[] {
+    const movementRange = this.getMovementRange(unit);
+    const unitPos = unit.getPropertyValue<IUnitPosition>('position');
+    if (movementRange === 0 || !unitPos) {
+      return [];
+    }
+
+    const occupiedPositions = this.collectOccupiedPositions(units);
+    const map = this.world.getMap(unitPos.mapId);
+    const toPosition = (x: number, y: number): IMapPosition => ({
+      mapId: unitPos.mapId,
+      position: new Position(x, y),
+    });
+    const countUnvisitedAround = (x: number, y: number): number => {
+      let count = 0;
+      for (let dy = -FRONTIER_RADIUS; dy <= FRONTIER_RADIUS; dy++) {
+        for (let dx = -FRONTIER_RADIUS; dx <= FRONTIER_RADIUS; dx++) {
+          const aroundX = x + dx;
+          const aroundY = y + dy;
+          if (
+            Math.abs(dx) + Math.abs(dy) <= FRONTIER_RADIUS &&
+            aroundX >= 0 &&
+            aroundY >= 0 &&
+            aroundX < map.width &&
+            aroundY < map.height &&
+            !isVisited(toPosition(aroundX, aroundY))
+          ) {
+            count += 1;
+          }
+        }
       }
+      return count;
+    };
+
+    const unvisited = TerrainPathfinder.getReachable(
+      this.buildPathGrid(unit, unitPos.mapId, occupiedPositions),
+      unitPos.position,
+      Infinity
+    ).filter(tile => !isVisited(toPosition(tile.x, tile.y)));
+    const inReach = unvisited
+      .filter(tile => tile.cost <= movementRange)
+      .map(tile => ({ tile, frontier: countUnvisitedAround(tile.x, tile.y) }))
+      .sort((a, b) => b.frontier - a.frontier || a.tile.cost - b.tile.cost);
+    const target =
+      inReach[0]?.tile ?? unvisited.sort((a, b) => a.cost - b.cost)[0];
+    if (!target) {
+      return [];
+    }
+
+    return this.planTerrainPath(
+      unit,
+      unitPos,
+      toPosition(target.x, target.y),
+      movementRange,
+      occupiedPositions
+    );
+  }
+
+  /**
+   * Plan a walk to the gate leading to the map that ranks lowest, the
+   * cheapest gate to reach on ties. Empty when no gate on the unit's map can
+   * be reached.
+   */
+  planGateMovement(
+    unit: BaseUnit,
+    units: BaseUnit[],
+    rankMap: (mapId: string) => number
+  ): IMapPosition[] {
+    const movementRange = this.getMovementRange(unit);
+    const unitPos = unit.getPropertyValue<IUnitPosition>('position');
+    if (movementRange === 0 || !unitPos) {
+      return [];
+    }
+
+    const occupiedPositions = this.collectOccupiedPositions(units);
+    const costs = new Map(
+      TerrainPathfinder.getReachable(
+        this.buildPathGrid(unit, unitPos.mapId, occupiedPositions),
+        unitPos.position,
+        Infinity
+      ).map(tile => [`${tile.x},${tile.y}`, tile.cost])
+    );
+    const [gate] = this.gateSystem
+      .getGatesForMap(unitPos.mapId)
+      .map(candidate => ({
+        candidate,
+        rank: rankMap(candidate.mapTo),
+        cost:
+          costs.get(
+            `${candidate.positionFrom.x},${candidate.positionFrom.y}`
+          ) ?? Infinity,
+      }))
+      .filter(scored => scored.cost !== Infinity)
+      .sort((a, b) => a.rank - b.rank || a.cost - b.cost);
+    if (!gate) {
+      return [];
+    }
+
+    this.logger.info(
+      `${this.formatUnitLabel(unit)} scouts toward gate ${gate.candidate.name} to ${gate.candidate.mapTo}`
+    );
+    return this.planTerrainPath(
+      unit,
+      unitPos,
+      {
+        mapId: unitPos.mapId,
+        position: new Position(
+          gate.candidate.positionFrom.x,
+          gate.candidate.positionFrom.y
+        ),
+      },
+      movementRange,
+      occupiedPositions
+    );
+  }
+
+  /**
+   * List the tiles a unit can walk to this turn, nearest first.
+   */
+  getMoveDestinations(unit: BaseUnit, units: BaseUnit[]): IMapPosition[] {
+    const movementRange = this.getMovementRange(unit);
+    const unitPos = unit.getPropertyValue<IUnitPosition>('position');
+    if (movementRange === 0 || !unitPos) {
+      return [];
+    }
+
+    const occupiedPositions = this.collectOccupiedPositions(units);
+    const distanceTo = (candidate: IMapPosition): number =>
+      Math.abs(candidate.position.x - unitPos.position.x) +
+      Math.abs(candidate.position.y - unitPos.position.y);
+
+    return this.collectMoveCandidates(
+      unit,
+      unitPos,
+      movementRange,
+      occupiedPositions
+    )
+      .filter(
+        candidate =>
+          this.planPathTo(
+            unit,
+            unitPos,
+            candidate,
+            movementRange,
+            occupiedPositions
+          ).length > 0
+      )
+      .sort((a, b) => distanceTo(a) - distanceTo(b));
+  }
+
+  /**
+   * Plan a path to the reachable tile with the lowest score, nearest first on
+   * ties; empty when no tile scores below the unit's own.
+   */
+  planMovementToLowestScore(
+    unit: BaseUnit,
+    units: BaseUnit[],
+    score: (position: IMapPosition) => number
+  ): IMapPosition[] {
+    const movementRange = this.getMovementRange(unit);
+    const unitPos = unit.getPropertyValue<IUnitPosition>('position');
+    if (movementRange === 0 || !unitPos) {
+      return [];
+    }
+
+    const occupiedPositions = this.collectOccupiedPositions(units);
+    const currentScore = score(unitPos);
+    const distanceTo = (candidate: IMapPosition): number =>
+      Math.abs(candidate.position.x - unitPos.position.x) +
+      Math.abs(candidate.position.y - unitPos.position.y);
+    const [best] = this.collectMoveCandidates(
+      unit,
+      unitPos,
+      movementRange,
+      occupiedPositions
+    )
+      .map(candidate => ({ candidate, score: score(candidate) }))
+      .filter(scored => scored.score < currentScore)
+      .sort(
+        (a, b) =>
+          a.score - b.score || distanceTo(a.candidate) - distanceTo(b.candidate)
+      );
+    if (!best) {
+      return [];
+    }
+
+    return this.planPathTo(
+      unit,
+      unitPos,
+      best.candidate,
+      movementRange,
+      occupiedPositions
+    );
+  }
+
+  /**
+   * Plan a path to a chosen tile; empty when the unit cannot reach it this turn.
+   */
+  planMovementToPosition(
+    unit: BaseUnit,
+    destination: IMapPosition,
+    units: BaseUnit[]
+  ): IMapPosition[] {
+    const movementRange = this.getMovementRange(unit);
+    const unitPos = unit.getPropertyValue<IUnitPosition>('position');
+    if (movementRange === 0 || !unitPos) {
+      return [];
+    }
+
+    return this.planPathTo(
+      unit,
+      unitPos,
+      destination,
+      movementRange,
+      this.collectOccupiedPositions(units)
     );
+  }
+
+  /**
+   * Plan a path toward a map position, stopping within `withinRange` tiles of it.
+   */
+  planMovementTowardPosition(
+    unit: BaseUnit,
+    destination: IMapPosition,
+    units: BaseUnit[],
+    withinRange: number
+  ): IMapPosition[] {
+    const movementRange = this.getMovementRange(unit);
+    const unitPos = unit.getPropertyValue<IUnitPosition>('position');
+    if (movementRange === 0 || !unitPos) {
+      return [];
+    }
+
+    const distance =
+      unitPos.mapId === destination.mapId
+        ? Math.abs(unitPos.position.x - destination.position.x) +
+          Math.abs(unitPos.position.y - destination.position.y)
+        : Infinity;
+    if (distance <= withinRange) {
+      return [];
+    }
 
-    return plan.steps;
+    return this.planTerrainPath(
+      unit,
+      unitPos,
+      destination,
+      movementRange,
+      this.collectOccupiedPositions(units),
+      withinRange
+    );
   }
 
   /**
@@ -412,21 +688,16 @@ export class WorldManager {
       return { steps: [], movedTowardsTarget: false };
     }
 
-    const plan = planMovementSteps(
-      this.world,
-      { mapId: unitPos.mapId, position: unitPos.position },
+    const steps = this.planTerrainPath(
+      unit,
+      unitPos,
       { mapId: targetPos.mapId, position: targetPos.position },
       movementRange,
-      {
-        occupiedPositions: this.collectOccupiedPositions(units),
-        gateConnections: this.getGateConnections(),
-        allowDiagonal: false,
-        stopWithinRange: actionRange,
-        useManhattanDistance: true,
-      }
+      this.collectOccupiedPositions(units),
+      actionRange
     );
 
-    const [firstStep] = plan.steps;
+    const [firstStep] = steps;
     if (firstStep) {
       this.logger.info(
         `Planned move for ${this.formatUnitLabel(
@@ -437,7 +708,7 @@ export class WorldManager {
       );
     }
 
-    return { steps: plan.steps, movedTowardsTarget: plan.steps.length > 0 };
+    return { steps, movedTowardsTarget: steps.length > 0 };
   }
 
   /**
@@ -513,52 +784,146 @@ export class WorldManager {
   }
 
   private selectRandomTarget(
+    unit: BaseUnit,
     unitPos: IUnitPosition,
     movementRange: number,
     occupied: IMapPosition[]
   ): IMapPosition | null {
-    const map = this.world.getMap(unitPos.mapId);
-    const blocked = new Set(occupied.map(pos => getMapPositionKey(pos)));
+    const candidates = this.collectMoveCandidates(
+      unit,
+      unitPos,
+      movementRange,
+      occupied
+    );
+    if (candidates.length === 0) {
+      return null;
+    }
 
-    const candidates: IMapPosition[] = [];
+    return MathUtils.getRandomFromArray(candidates, this.random);
+  }
 
-    for (let dy = -movementRange; dy <= movementRange; dy++) {
-      for (let dx = -movementRange; dx <= movementRange; dx++) {
-        const distance = Math.abs(dx) + Math.abs(dy);
-        if (distance > movementRange) {
-          continue;
-        }
+  /**
+   * Unoccupied tiles a unit can walk to within its movement points.
+   */
+  private collectMoveCandidates(
+    unit: BaseUnit,
+    unitPos: IUnitPosition,
+    movementRange: number,
+    occupied: IMapPosition[]
+  ): IMapPosition[] {
+    return TerrainPathfinder.getReachable(
+      this.buildPathGrid(unit, unitPos.mapId, occupied),
+      unitPos.position,
+      movementRange
+    ).map(tile => ({
+      mapId: unitPos.mapId,
+      position: new Position(tile.x, tile.y),
+    }));
+  }
 
-        const x = unitPos.position.x + dx;
-        const y = unitPos.position.y + dy;
-        if (x === unitPos.position.x && y === unitPos.position.y) {
-          continue;
-        }
+  /**
+   * Steps from a unit's tile to a destination, or none if it is out of reach.
+   */
+  private planPathTo(
+    unit: BaseUnit,
+    unitPos: IUnitPosition,
+    destination: IMapPosition,
+    movementRange: number,
+    occupiedPositions: IMapPosition[]
+  ): IMapPosition[] {
+    let steps: IMapPosition[];
+    try {
+      steps = this.planTerrainPath(
+        unit,
+        unitPos,
+        destination,
+        movementRange,
+        occupiedPositions
+      );
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.logger.info(
+        `No path for ${this.formatUnitLabel(unit)} to ${getMapPositionKey(destination)}: ${err.message}`
+      );
+      return [];
+    }
 
-        if (!map.isWalkable(x, y)) {
-          continue;
-        }
+    const lastStep = steps[steps.length - 1];
+    return lastStep &&
+      getMapPositionKey(lastStep) === getMapPositionKey(destination)
+      ? steps
+      : [];
+  }
 
-        const key = getMapPositionKey({
-          mapId: unitPos.mapId,
-          position: { x, y },
-        });
-        if (blocked.has(key)) {
-          continue;
+  /**
+   * Cheapest path under the terrain rules, cut to the unit's movement points.
+   * Destinations on another map are routed through gates by Choukai's
+   * planner, which ignores terrain cost.
+   */
+  private planTerrainPath(
+    unit: BaseUnit,
+    unitPos: IUnitPosition,
+    destination: IMapPosition,
+    movementRange: number,
+    occupiedPositions: IMapPosition[],
+    stopWithinRange: number = 0
+  ): IMapPosition[] {
+    if (destination.mapId !== unitPos.mapId) {
+      return planMovementSteps(
+        this.world,
+        { mapId: unitPos.mapId, position: unitPos.position },
+        destination,
+        movementRange,
+        {
+          occupiedPositions,
+          gateConnections: this.getGateConnections(),
+          allowDiagonal: false,
+          stopWithinRange,
+          useManhattanDistance: true,
         }
-
-        candidates.push({
-          mapId: unitPos.mapId,
-          position: new Position(x, y),
-        });
-      }
+      ).steps;
     }
 
-    if (candidates.length === 0) {
-      return null;
-    }
+    return TerrainPathfinder.findPath(
+      this.buildPathGrid(unit, unitPos.mapId, occupiedPositions),
+      unitPos.position,
+      destination.position,
+      movementRange,
+      stopWithinRange
+    ).map(point => ({
+      mapId: unitPos.mapId,
+      position: new Position(point.x, point.y),
+    }));
+  }
 
-    return MathUtils.getRandomFromArray(candidates);
+  /**
+   * A map as the terrain pathfinder sees it for one unit: unwalkable,
+   * occupied and forbidden terrain cannot be entered, and gates end the walk.
+   */
+  private buildPathGrid(
+    unit: BaseUnit,
+    mapId: string,
+    occupied: IMapPosition[]
+  ): PathGrid {
+    const map = this.world.getMap(mapId);
+    const blocked = new Set(occupied.map(pos => getMapPositionKey(pos)));
+    const keyOf = (x: number, y: number): string =>
+      getMapPositionKey({ mapId, position: { x, y } });
+
+    return {
+      width: map.width,
+      height: map.height,
+      getEnterCost: (x: number, y: number): number =>
+        !map.isWalkable(x, y) || blocked.has(keyOf(x, y))
+          ? Infinity
+          : TerrainRules.getMoveCost(
+              map.getTerrain(x, y),
+              unit.type,
+              this.terrainRules
+            ),
+      endsMovement: (x: number, y: number): boolean =>
+        this.gateSystem.hasGate(mapId, x, y),
+    };
   }
 
   private async handleMapTransition(
@@ -602,6 +967,14 @@ export class WorldManager {
       this.logger.info(
         `Unit ${unitLabel} moved through gate from ${currentMapId}(${x},${y}) to ${gate.mapTo}(${gate.positionTo.x},${gate.positionTo.y})`
       );
+      await this.events?.emit('gateTraversed', {
+        unitId: unit.id,
+        ...(gate.name ? { gateName: gate.name } : {}),
+        fromMapId: currentMapId,
+        from: { x, y },
+        toMapId: gate.mapTo,
+        to: { x: gate.positionTo.x, y: gate.positionTo.y },
+      });
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.logger.error(
@@ -5,3 +5,158 @@ export { TakaoImpl } from './TakaoImpl';
 
 // Export UnitPosition for position-based operations
 export { UnitPosition } from './utils/UnitPosition';
+
+// Storage backends for persisted engine data
+export {
+  FileSystemStorageAdapter,
+  KeyValueStorageAdapter,
+  MemoryStorageAdapter,
+} from './utils/StorageAdapter';
+export type { StorageAdapter, KeyValueStore } from './utils/StorageAdapter';
+
+// Data file validation
+export { DataValidator } from './utils/DataValidator';
+export type {
+  DataIssue,
+  DataIssueSeverity,
+  DataValidationReport,
+} from './utils/DataValidator';
+
+// Data-driven action targeting
+export { ActionTargeting } from './utils/ActionTargeting';
+export { AreaOfEffect } from './utils/AreaOfEffect';
+export type { AreaUnit } from './utils/AreaOfEffect';
+export type { ResolvedTargeting } from './utils/ActionTargeting';
+export type { ActionTargeting as ActionTargetingDefinition } from './types';
+
+// Combat rules used by damage effects
+export {
+  StandardCombatResolver,
+  DEFAULT_COMBAT_OPTIONS,
+} from './utils/CombatResolver';
+export type {
+  CombatResolver,
+  CombatContext,
+  StandardCombatOptions,
+} from './utils/CombatResolver';
+export type { CombatRoll, DamageType } from './types';
+
+// Unit death, loot and corpse handling
+export { UnitLifecycle } from './utils/UnitLifecycle';
+export type { CorpsePolicy, LootPolicy, UnitDeathEvent } from './types';
+
+// Typed engine events
+export { EngineEvents } from './core/EngineEvents';
+export type {
+  EngineEventMap,
+  EngineEventName,
+  EngineEventHandler,
+  RoundStartedEvent,
+  TurnStartedEvent,
+  GoalSelectedEvent,
+  ActionChosenEvent,
+  ActionFailedEvent,
+  EffectAppliedEvent,
+  StatChangedEvent,
+  UnitSpawnedEvent,
+  GateTraversedEvent,
+} from './core/EngineEvents';
+export type { MovementStepUpdate } from './core/WorldManager';
+export type { TurnEndInfo } from './core/TurnManager';
+export type { EffectApplication } from './types';
+
+// Player-controlled units
+export { PlayerControl, ProgrammaticPlayerInput } from './core/PlayerInput';
+export type {
+  PlayerActionOption,
+  PlayerTurnOptions,
+  PlayerTurnRequest,
+  PlayerChoice,
+  PlayerChoiceStrategy,
+  PlayerInputProvider,
+} from './core/PlayerInput';
+export { TerminalPlayerInput } from './core/TerminalPlayerInput';
+export type { PromptLine } from './core/TerminalPlayerInput';
+
+// Headless batch simulation
+export { BatchSimulator } from './core/BatchSimulator';
+export type {
+  SimulationOptions,
+  SimulationReport,
+  SimulationSessionSummary,
+  FrequencyStats,
+  DamageStats,
+  SurvivalStats,
+} from './core/BatchSimulator';
+export { WildAnimalSpawner } from './ai/WildAnimalSpawner';
+export type { WildAnimalSpawnOptions } from './ai/WildAnimalSpawner';
+
+// Utility-based goal scoring
+export { UtilityScorer } from './ai/goals/UtilityScorer';
+export type { GoalInputs, UtilityScore } from './ai/goals/UtilityScorer';
+export type {
+  GoalScoring,
+  GoalConsideration,
+  GoalInput,
+  ResponseCurve,
+  StepCurve,
+  CurveStep,
+  LinearCurve,
+} from './types';
+
+// Per-unit goal persistence
+export { GoalState } from './ai/goals/GoalState';
+export type { GoalStatus, GoalTransition, UnitGoalState } from './types';
+export type { GoalsConfig } from './utils/engineConfig';
+
+// Squad goals and the shared blackboard
+export { SquadBlackboard } from './ai/goals/SquadBlackboard';
+export type { SquadInputs } from './ai/goals/UtilityScorer';
+export type {
+  SquadBlackboardEntry,
+  SquadDirective,
+  SquadFormation,
+  SquadRallyPoint,
+  SquadSubgoal,
+} from './types';
+export type { SquadsConfig } from './utils/engineConfig';
+
+// Multi-turn plan queues
+export { PlanQueue } from './ai/PlanQueue';
+export type { PlanCheck, PlanTurnOutcome } from './ai/PlanQueue';
+export type { PlanEvent, PlanStep, UnitPlan } from './types';
+
+// Terrain rules and weighted pathfinding
+export { TerrainRules } from './utils/TerrainRules';
+export { TerrainPathfinder } from './utils/TerrainPathfinder';
+export type {
+  GridPoint,
+  PathGrid,
+  ReachableTile,
+} from './utils/TerrainPathfinder';
+export type { TerrainCombatModifiers, TerrainRule } from './types';
+export type { TerrainConfig } from './utils/engineConfig';
+
+// Fog of war
+export { VisionSystem } from './utils/VisionSystem';
+export type { VisionConfig } from './utils/engineConfig';
+
+// Unit memory and threat maps
+export { UnitMemory } from './ai/UnitMemory';
+export { ThreatMap } from './ai/ThreatMap';
+export type {
+  AttackerRecord,
+  HostileSighting,
+  ThreatSource,
+  UnitMemoryState,
+} from './types';
+export type { MemoryConfig } from './utils/engineConfig';
+
+// Exploration strategies
+export { Exploration } from './ai/Exploration';
+export type {
+  ActionExploration,
+  ExplorationStrategy,
+  PatrolState,
+  PatrolWaypoint,
+} from './types';
@@ -0,0 +1,70 @@
+/**
+ * Runs headless batch simulations and writes aggregate statistics.
+ * Usage: npm run simulate -- [--sessions N] [--turns M] [--seed S]
+ *   [--data dataDir] [--out outDir] [--no-wild-animals]
+ * Writes simulation-report.json and simulation-report.csv to outDir.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BatchSimulator } from './core/BatchSimulator';
+import { DataManager } from './utils/DataManager';
+import { Logger } from './utils/Logger';
+import { FileSystemStorageAdapter } from './utils/StorageAdapter';
+
+const readFlag = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const readCount = (name: string, fallback: number): number => {
+  const value = Number(readFlag(name) ?? fallback);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return value;
+};
+
+const run = async (): Promise<void> => {
+  const dataDir = readFlag('data');
+  const outDir = path.resolve(readFlag('out') ?? '.');
+  const seed = readFlag('seed');
+
+  Logger.setConsoleEnabled(false);
+  const report = await BatchSimulator.run({
+    sessions: readCount('sessions', 10),
+    turns: readCount('turns', 100),
+    ...(seed ? { seed } : {}),
+    source: dataDir
+      ? new FileSystemStorageAdapter(path.resolve(dataDir))
+      : DataManager.storage,
+    ...(process.argv.includes('--no-wild-animals')
+      ? { wildAnimals: false as const }
+      : {}),
+  });
+  Logger.setConsoleEnabled(true);
+
+  fs.mkdirSync(outDir, { recursive: true });
+  const jsonFile = path.join(outDir, 'simulation-report.json');
+  const csvFile = path.join(outDir, 'simulation-report.csv');
+  fs.writeFileSync(jsonFile, `${JSON.stringify(report, null, 2)}\n`);
+  fs.writeFileSync(csvFile, `${BatchSimulator.toCsv(report)}\n`);
+
+  console.log(
+    `Simulated ${report.sessions.length} session(s), ${report.turnsPlayed} turn(s); wrote ${jsonFile} and ${csvFile}`
+  );
+  const unplaced = report.sessions.reduce(
+    (total, session) => total + session.unplacedUnits,
+    0
+  );
+  if (unplaced > 0) {
+    console.warn(
+      `${unplaced} unit(s) found no free tile and played without a position`
+    );
+  }
+};
+
+run().catch(error => {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+});
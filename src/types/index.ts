@@ -1,4 +1,4 @@
-import type { IMapCell, IMapConfig } from '@atsu/choukai';
+import type { IMapCell, IMapConfig, TerrainType } from '@atsu/choukai';
 import type { IPropertyCollection } from '@atsu/atago';
 
 /**
@@ -11,6 +11,23 @@ export interface GameState {
   turnInRound?: number;
 }
 
+/**
+ * Turn and initiative state persisted between sessions
+ */
+export interface TurnStateSnapshot {
+  /** Last completed turn. */
+  turn: number;
+  round: number;
+  /** Index of the next actor within `turnOrder`; 0 when no round is in progress. */
+  turnInRound: number;
+  /** Order of the round in progress; empty between rounds. */
+  turnOrder: string[];
+  /** Initiative order kept across rounds by the engine. */
+  persistentTurnOrder: string[];
+  /** Set when written from a save slot; the next start resumes from it even if the diary is further ahead. */
+  restored?: boolean;
+}
+
 /**
  * Represents an action that can be taken in the game
  */
@@ -21,6 +38,76 @@ export interface Action {
   requirements?: Requirement[];
   payload?: ActionPayload;
   effects?: EffectDefinition[];
+  targeting?: ActionTargeting;
+  exploration?: ActionExploration;
+}
+
+/**
+ * Who a target can be: nobody, the actor itself, one ally, one hostile, or any other unit
+ */
+export type TargetingType = 'none' | 'self' | 'ally' | 'hostile' | 'any';
+
+/**
+ * Shape of the area an action affects. `radius` is a circle, `diamond` uses
+ * Manhattan distance, and `line`/`cone` extend from the actor toward the target.
+ */
+export type TargetArea =
+  | 'single'
+  | 'radius'
+  | 'diamond'
+  | 'line'
+  | 'cone'
+  | 'square';
+
+/**
+ * How an action picks its target, declared per action in actions.json
+ */
+export interface ActionTargeting {
+  type: TargetingType;
+  area?: TargetArea;
+  /** Radius, half-width or length of the area in tiles (default 1). */
+  areaSize?: number;
+  /** Unit a radius, diamond or square area is centered on (default the target). */
+  areaOrigin?: 'target' | 'actor';
+  /** Minimum distance in tiles to the target (default 0). */
+  minRange?: number;
+  /** Maximum distance in tiles to the target (default `payload.range`, then 1). */
+  maxRange?: number;
+  /** Requires no sight-blocking terrain between actor and target. */
+  lineOfSight?: boolean;
+  /** Whether the target must be alive (default) or dead. */
+  status?: 'alive' | 'dead';
+}
+
+/**
+ * Where an exploring action walks: a random reachable tile, tiles the
+ * faction has never visited, the unit's patrol route, or gates into maps the
+ * faction knows least
+ */
+export type ExplorationStrategy = 'random' | 'frontier' | 'patrol' | 'gates';
+
+/**
+ * How an action moves the unit, declared per action in actions.json
+ */
+export interface ActionExploration {
+  strategy: ExplorationStrategy;
+  /** Half-width of the square patrolled by units without a `patrolRoute` (default 3). */
+  patrolRadius?: number;
+}
+
+export interface PatrolWaypoint {
+  mapId: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * A unit's patrol route and the waypoint it heads for, persisted on the
+ * unit as its `patrol` property
+ */
+export interface PatrolState {
+  waypoints: PatrolWaypoint[];
+  next: number;
 }
 
 /**
@@ -32,6 +119,87 @@ export interface GoalDefinition {
   scope?: 'unit' | 'squad';
   completion: GoalCompletion;
   candidateActions: string[];
+  /** How strongly the unit wants this goal; goals without it are never picked. */
+  scoring?: GoalScoring;
+  /** Turns before the goal may be picked again once done or blocked; defaults to `goals.cooldownTurns`. */
+  cooldown?: number;
+  /** What each member does for a `squad` scope goal. */
+  subgoal?: SquadSubgoal;
+}
+
+/**
+ * Per-member part of a squad goal: keep to the formation, attack the squad's
+ * focus target, or head for its rally point
+ */
+export type SquadSubgoal =
+  | 'keep_formation'
+  | 'attack_focus_target'
+  | 'move_to_rally_point';
+
+/**
+ * Utility score of a goal: `weight` times the product of its considerations.
+ * A score of 0 or less leaves the goal out of the turn's candidates.
+ */
+export interface GoalScoring {
+  /** Defaults to 1. */
+  weight?: number;
+  considerations?: GoalConsideration[];
+  /** Reported when no matched curve step gives a reason. */
+  reason?: string;
+}
+
+/**
+ * Unit measurements that goal scoring can respond to
+ */
+export type GoalInput =
+  | 'healthPct'
+  | 'manaPct'
+  | 'hostilesAvailable'
+  | 'hostileCount'
+  | 'nearestHostileDistance'
+  | 'allyCount'
+  | 'lowestAllyHealthPct'
+  | 'squadSize'
+  | 'squadSpread'
+  | 'rallyPointDistance'
+  | 'squadHealthPct'
+  | 'focusTargetAvailable';
+
+export interface GoalConsideration {
+  input: GoalInput;
+  curve: ResponseCurve;
+}
+
+export type ResponseCurve = StepCurve | LinearCurve;
+
+/**
+ * Piecewise constant curve: the first step matching the input wins
+ */
+export interface StepCurve {
+  type: 'step';
+  steps: CurveStep[];
+  /** Value when no step matches; defaults to 0. */
+  otherwise?: number;
+}
+
+export interface CurveStep {
+  /** Matches inputs strictly below this value. */
+  below?: number;
+  /** Matches inputs at or below this value. */
+  atMost?: number;
+  value: number;
+  reason?: string;
+}
+
+/**
+ * Curve from one point to another, flat outside them; `exponent` bends it
+ */
+export interface LinearCurve {
+  type: 'linear';
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+  /** Defaults to 1 (a straight line). */
+  exponent?: number;
 }
 
 /**
@@ -44,11 +212,167 @@ export interface GoalCompletion {
   condition?: string;
 }
 
+/**
+ * Progress of a unit's current goal: picked (`pending`), pursued by a
+ * successful action (`active`), completed (`done`) or given up (`blocked`)
+ */
+export type GoalStatus = 'pending' | 'active' | 'done' | 'blocked';
+
+/**
+ * Per-unit goal state, persisted on the unit as its `goalState` property
+ */
+export interface UnitGoalState {
+  currentGoal?: string;
+  status?: GoalStatus;
+  startedTurn?: number;
+  /** Turn on which each action type last failed. */
+  failedActions: Record<string, number>;
+  /** Turn from which each goal may be picked again. */
+  cooldowns: Record<string, number>;
+}
+
+/**
+ * `cluster` keeps members near the leader; `column` has each member follow
+ * the one before it
+ */
+export type SquadFormation = 'cluster' | 'column';
+
+export interface SquadRallyPoint {
+  mapId: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Shared state of one squad, rebuilt from its members every turn
+ */
+export interface SquadBlackboardEntry {
+  squadId: string;
+  /** Alive members in unit order; the leader comes first. */
+  memberIds: string[];
+  leaderId: string;
+  focusTargetId?: string;
+  /** Set explicitly, or the leader's position. */
+  rallyPoint?: SquadRallyPoint;
+  formation: SquadFormation;
+}
+
+/**
+ * How a member carries out its squad subgoal this turn
+ */
+export interface SquadDirective {
+  squadId: string;
+  subgoal: SquadSubgoal;
+  /** Preferred target for targeted actions. */
+  targetUnitId?: string;
+  /** Unit to stay within `withinRange` tiles of. */
+  followUnitId?: string;
+  /** Position to stay within `withinRange` tiles of. */
+  destination?: SquadRallyPoint;
+  withinRange: number;
+}
+
+/**
+ * One queued step of a unit's plan: walk toward the target with the action
+ * prepared (`approach`), or perform the action on it (`act`)
+ */
+export interface PlanStep {
+  kind: 'approach' | 'act';
+  actionType: string;
+  targetUnitId: string;
+}
+
+/**
+ * Multi-turn plan, persisted on the unit as its `plan` property
+ */
+export interface UnitPlan {
+  /** Goal the plan serves; choosing another goal abandons it. */
+  goalId?: string;
+  createdTurn: number;
+  /** Remaining steps; the first runs next. */
+  steps: PlanStep[];
+}
+
+/**
+ * A plan being created, advanced, completed or abandoned, recorded in the diary
+ */
+export interface PlanEvent {
+  unitId: string;
+  event: 'created' | 'progressed' | 'completed' | 'abandoned';
+  actionType: string;
+  targetUnitId: string;
+  /** Steps left after the event. */
+  remainingSteps: number;
+  reason?: string;
+}
+
+/**
+ * Where a unit last saw a hostile
+ */
+export interface HostileSighting {
+  unitId: string;
+  mapId: string;
+  x: number;
+  y: number;
+  turn: number;
+}
+
+/**
+ * Damage a hostile has dealt to a unit, decayed up to `lastTurn`
+ */
+export interface AttackerRecord {
+  unitId: string;
+  damage: number;
+  lastTurn: number;
+}
+
+/**
+ * What a unit remembers of hostiles, persisted on the unit as its `memory` property
+ */
+export interface UnitMemoryState {
+  sightings: HostileSighting[];
+  attackers: AttackerRecord[];
+}
+
+/**
+ * A hostile a faction knows of, placed where it is or was last seen
+ */
+export interface ThreatSource {
+  unitId: string;
+  mapId: string;
+  x: number;
+  y: number;
+  strength: number;
+  /** Turn the faction last saw the hostile; the current turn when in sight. */
+  lastSeenTurn: number;
+  visible: boolean;
+}
+
+/**
+ * A change of a unit's goal or goal status, recorded in the diary
+ */
+export interface GoalTransition {
+  unitId: string;
+  goalId: string;
+  status: GoalStatus;
+  /** Goal the unit dropped in favour of this one. */
+  previousGoalId?: string;
+  reason?: string;
+}
+
 /**
  * Represents an effect definition for actions
  */
 export interface EffectDefinition {
-  target: 'unit' | 'self' | 'target' | 'world' | 'all' | 'ally' | 'enemy';
+  target:
+    | 'unit'
+    | 'self'
+    | 'target'
+    | 'world'
+    | 'all'
+    | 'ally'
+    | 'enemy'
+    | 'area';
   property: string;
   operation:
     | 'add'
@@ -61,6 +385,130 @@ export interface EffectDefinition {
   value: EffectValue;
   permanent: boolean;
   condition?: string;
+  /** Turns/rounds a non-permanent effect lasts before its delta is reverted. */
+  duration?: number;
+  durationUnit?: StatusDurationUnit;
+  /** How re-applying an active status from the same action behaves. */
+  stacking?: StatusStackingRule;
+  /** Lets an `area` effect hit every unit in the area, including allies and the actor. */
+  friendlyFire?: boolean;
+  /** Fraction of an `area` effect's add/subtract value lost per tile from the area's center. */
+  falloff?: number;
+  /** Resolves a health-subtracting effect as an attack through the combat resolver. */
+  damageType?: DamageType;
+}
+
+export type DamageType = 'physical' | 'magical';
+
+/**
+ * Every roll and modifier of one resolved attack
+ */
+export interface CombatRoll {
+  attackerId?: string;
+  defenderId: string;
+  damageType: DamageType;
+  hitChance: number;
+  hitRoll: number;
+  hit: boolean;
+  critChance: number;
+  critRoll: number;
+  critical: boolean;
+  /** Damage rolled by the effect before combat modifiers. */
+  baseDamage: number;
+  /** Damage removed by the defender's defense. */
+  mitigation: number;
+  /** Defender's resistance to the damage type (negative for weaknesses). */
+  resistance: number;
+  /** Final damage dealt; 0 on a miss. */
+  damage: number;
+  /** Cover the defender's tile gave; absent on open ground. */
+  terrain?: TerrainCombatModifiers;
+}
+
+/**
+ * Movement and combat rules of one terrain type
+ */
+export interface TerrainRule {
+  /** Movement points spent to enter a tile. */
+  moveCost: number;
+  /** Unit types that cannot enter; `'*'` blocks every type not in `passableFor`. */
+  impassableFor: string[];
+  /** Unit types that may enter even when `impassableFor` holds `'*'`. */
+  passableFor: string[];
+  /** Added to the defense of a unit standing on the tile. */
+  defense: number;
+  /** Taken off the hit chance against a unit standing on the tile. */
+  evasion: number;
+}
+
+/**
+ * Combat modifiers from the tile a defender stands on
+ */
+export interface TerrainCombatModifiers {
+  terrain: TerrainType;
+  defense: number;
+  evasion: number;
+}
+
+/**
+ * Records one unit caught by an area effect
+ */
+export interface AreaHit {
+  unitId: string;
+  unitName: string;
+  property: string;
+  /** Tiles from the area's center (from the actor for lines and cones). */
+  distance: number;
+  /** Multiplier applied to the effect value after falloff. */
+  scale: number;
+}
+
+/**
+ * Records one effect written to a unit property
+ */
+export interface EffectApplication {
+  actionType: string;
+  actorId?: string;
+  unitId: string;
+  unitName: string;
+  property: string;
+  oldValue: number;
+  newValue: number;
+}
+
+export type CorpsePolicy = 'remove' | 'persist';
+export type LootPolicy = 'none' | 'removed' | 'always';
+
+/**
+ * Records a unit dying from an action effect
+ */
+export interface UnitDeathEvent {
+  unitId: string;
+  unitName: string;
+  killerId?: string;
+  killerName?: string;
+  /** Type of the action that dealt the killing blow. */
+  cause: string;
+  /** Properties moved to the killer, by amount. */
+  loot: Record<string, number>;
+  disposal: CorpsePolicy;
+}
+
+export type StatusDurationUnit = 'turn' | 'round';
+export type StatusStackingRule = 'refresh' | 'stack' | 'ignore';
+
+/**
+ * Records a timed status effect being applied, refreshed, or expiring
+ */
+export interface StatusEffectEvent {
+  type: 'applied' | 'stacked' | 'refreshed' | 'ignored' | 'expired';
+  unitId: string;
+  unitName: string;
+  property: string;
+  source: string;
+  delta: number;
+  remaining: number;
+  durationUnit: StatusDurationUnit;
 }
 
 /**
@@ -181,6 +629,11 @@ export interface UnitDefinition {
   properties: IPropertyCollection;
 }
 
+/**
+ * Represents a unit as persisted in units.json and save slots.
+ */
+export type SavedUnitData = UnitDefinition;
+
 /**
  * Represents the structure of beastiary.json.
  */
@@ -207,6 +660,11 @@ export interface DiaryEntry {
     unit: string;
     changes: string[];
   }>;
+  statusEffects?: StatusEffectEvent[];
+  areaHits?: AreaHit[];
+  deaths?: UnitDeathEvent[];
+  goalTransitions?: GoalTransition[];
+  planEvents?: PlanEvent[];
 }
 
 /**
@@ -216,6 +674,13 @@ export interface ActionProcessingResult {
   success: boolean;
   errorMessage?: string;
   failureType?: 'range' | 'error';
+  statusEffects?: StatusEffectEvent[];
+  areaHits?: AreaHit[];
+  combatRolls?: CombatRoll[];
+  deaths?: UnitDeathEvent[];
+  appliedEffects?: EffectApplication[];
+  /** Dead units whose bodies an effect removed from play. */
+  removedUnitIds?: string[];
 }
 
 /**
@@ -99,7 +99,9 @@ const isPropertyModifier = (
   return true;
 };
 
-const isProperty = (value: unknown): value is IProperty<PropertyValue> => {
+export const isProperty = (
+  value: unknown
+): value is IProperty<PropertyValue> => {
   if (!isRecord(value)) {
     return false;
   }
@@ -6,6 +6,11 @@ import type {
   EffectDefinition,
   EffectValue,
   ActionProcessingResult,
+  AreaHit,
+  CombatRoll,
+  EffectApplication,
+  StatusEffectEvent,
+  UnitDeathEvent,
 } from '../types';
 import { DataManager } from './DataManager';
 import { isNumber } from '../types/typeGuards';
@@ -13,6 +18,18 @@ import { Logger } from './Logger';
 import { UnitPosition } from './UnitPosition';
 import { RelationshipHelper } from './RelationshipHelper';
 import { World } from '@atsu/choukai';
+import { ActionTargeting, type ResolvedTargeting } from './ActionTargeting';
+import { AreaOfEffect } from './AreaOfEffect';
+import { type CombatResolver, StandardCombatResolver } from './CombatResolver';
+import { MathUtils } from './Math';
+import { ExpressionEvaluator } from './ExpressionEvaluator';
+import { ConditionParser } from './ConditionParser';
+import { GameClock } from './GameClock';
+import { RandomGenerator } from './RandomGenerator';
+import { StatusEffects } from './StatusEffects';
+import type { StorageAdapter } from './StorageAdapter';
+import { TerrainRules } from './TerrainRules';
+import { UnitLifecycle } from './UnitLifecycle';
 
 const formatUnitLabel = (
   unit?: BaseUnit | null,
@@ -34,14 +51,42 @@ const formatUnitLabel = (
 export class ActionProcessor {
   private logger: Logger | undefined;
   private world: World | null = null;
-
-  constructor(logger?: Logger, world?: World) {
+  private random: RandomGenerator;
+  private clock: GameClock;
+  private statusEvents: StatusEffectEvent[] = [];
+  private areaHits: AreaHit[] = [];
+  private combatRolls: CombatRoll[] = [];
+  private deaths: UnitDeathEvent[] = [];
+  private appliedEffects: EffectApplication[] = [];
+  private removedUnitIds: string[] = [];
+  private combatResolver: CombatResolver;
+  private storage: StorageAdapter;
+
+  constructor(
+    logger?: Logger,
+    world?: World,
+    random?: RandomGenerator,
+    storage?: StorageAdapter,
+    combatResolver?: CombatResolver,
+    clock?: GameClock
+  ) {
     this.logger = logger;
+    this.random = random ?? RandomGenerator.fromConfig();
+    this.clock = clock ?? new GameClock();
+    this.storage = storage ?? DataManager.storage;
+    this.combatResolver = combatResolver ?? new StandardCombatResolver();
     if (world) {
       this.world = world;
     }
   }
 
+  /**
+   * Swaps the combat rules used by damage effects
+   */
+  public setCombatResolver(combatResolver: CombatResolver): void {
+    this.combatResolver = combatResolver;
+  }
+
   /**
    * Sets the world for range validation
    */
@@ -106,6 +151,28 @@ export class ActionProcessor {
         };
       }
 
+      const targeting = ActionTargeting.resolve(action);
+      if (distance < targeting.minRange) {
+        return {
+          isValid: false,
+          errorMessage: `Target unit ${formatUnitLabel(
+            targetUnit
+          )} is too close. Distance: ${distance}, Min range: ${targeting.minRange}`,
+        };
+      }
+
+      if (
+        targeting.lineOfSight &&
+        !ActionTargeting.hasLineOfSight(this.world, actingUnit, targetUnit)
+      ) {
+        return {
+          isValid: false,
+          errorMessage: `Target unit ${formatUnitLabel(
+            targetUnit
+          )} is not in line of sight`,
+        };
+      }
+
       return { isValid: true };
     } catch (error) {
       return {
@@ -122,6 +189,12 @@ export class ActionProcessor {
     action: Action,
     units: BaseUnit[]
   ): Promise<ActionProcessingResult> {
+    this.statusEvents = [];
+    this.areaHits = [];
+    this.combatRolls = [];
+    this.deaths = [];
+    this.appliedEffects = [];
+    this.removedUnitIds = [];
     try {
       const effectsToExecute = this.getEffectsForAction(action);
       if (effectsToExecute.length === 0) {
@@ -164,7 +237,23 @@ export class ActionProcessor {
         await this.executeSingleEffect(effect, action, units);
       }
 
-      return { success: true };
+      return {
+        success: true,
+        ...(this.statusEvents.length > 0
+          ? { statusEffects: [...this.statusEvents] }
+          : {}),
+        ...(this.areaHits.length > 0 ? { areaHits: [...this.areaHits] } : {}),
+        ...(this.combatRolls.length > 0
+          ? { combatRolls: [...this.combatRolls] }
+          : {}),
+        ...(this.deaths.length > 0 ? { deaths: [...this.deaths] } : {}),
+        ...(this.appliedEffects.length > 0
+          ? { appliedEffects: [...this.appliedEffects] }
+          : {}),
+        ...(this.removedUnitIds.length > 0
+          ? { removedUnitIds: [...this.removedUnitIds] }
+          : {}),
+      };
     } catch (error) {
       return {
         success: false,
@@ -208,7 +297,13 @@ export class ActionProcessor {
         // Apply to all units
         for (const unit of units) {
           if (this.canAffectTarget(effect, actingUnit, unit)) {
-            await this.applyEffectToUnit(effect, unit, action);
+            await this.applyEffectToUnit(
+              effect,
+              unit,
+              action,
+              actingUnit,
+              units
+            );
           } else {
             this.logger?.info(
               `Skipped applying effect ${effect.property} to ${unit.name} due to relationship filter`
@@ -223,19 +318,35 @@ export class ActionProcessor {
           actingUnit &&
           this.canAffectTarget(effect, actingUnit, actingUnit)
         ) {
-          await this.applyEffectToUnit(effect, actingUnit, action);
+          await this.applyEffectToUnit(
+            effect,
+            actingUnit,
+            action,
+            actingUnit,
+            units
+          );
         }
         if (action.payload?.targetUnit) {
           const target = units.find(
             unit => unit.id === action.payload?.targetUnit
           );
           if (target && this.canAffectTarget(effect, actingUnit, target)) {
-            await this.applyEffectToUnit(effect, target, action);
+            await this.applyEffectToUnit(
+              effect,
+              target,
+              action,
+              actingUnit,
+              units
+            );
           }
         }
         return;
       }
 
+      case 'area':
+        await this.applyAreaEffect(effect, action, actingUnit, units);
+        return;
+
       case 'enemy':
         // Apply to enemy units - apply to target unit
         targetUnit = this.getHostileTarget(action, actingUnit, units);
@@ -275,23 +386,170 @@ export class ActionProcessor {
     }
 
     // Apply the effect to the target unit
-    await this.applyEffectToUnit(effect, targetUnit, action);
+    await this.applyEffectToUnit(effect, targetUnit, action, actingUnit, units);
   }
 
   /**
-   * Applies a single effect to a specific unit
+   * Applies an effect to every living unit in the action's area. Without
+   * `friendlyFire` the actor and units not matching the action's targeting
+   * type are spared.
    */
-  private async applyEffectToUnit(
+  private async applyAreaEffect(
     effect: EffectDefinition,
-    targetUnit: BaseUnit,
-    action: Action
+    action: Action,
+    actingUnit: BaseUnit | undefined,
+    units: BaseUnit[]
   ): Promise<void> {
-    const { propertyName, valueToApply } = this.resolveEffectApplication(
-      effect,
-      action,
-      targetUnit
+    if (!actingUnit || !this.world) {
+      this.logger?.error(
+        `Could not resolve area for action ${action.type} without an actor and world`
+      );
+      return;
+    }
+
+    const targeting = ActionTargeting.resolve(action);
+    const targetId = action.payload?.targetUnit;
+    const target = units.find(unit => unit.id === targetId) ?? null;
+    const caught = AreaOfEffect.getUnitsInArea(
+      this.world,
+      units,
+      actingUnit,
+      target,
+      targeting
     );
 
+    for (const { unit, distance } of caught) {
+      if (UnitLifecycle.isDead(unit)) {
+        continue;
+      }
+      if (this.isSparedByArea(effect, targeting, actingUnit, unit)) {
+        continue;
+      }
+
+      const scale = AreaOfEffect.getFalloffScale(effect.falloff, distance);
+      const applied = await this.applyEffectToUnit(
+        effect,
+        unit,
+        action,
+        actingUnit,
+        units,
+        scale
+      );
+      if (applied) {
+        this.areaHits.push({
+          unitId: unit.id,
+          unitName: unit.name,
+          property: effect.property,
+          distance,
+          scale,
+        });
+      }
+    }
+  }
+
+  /**
+   * Without `friendlyFire`, area effects spare the actor and units whose
+   * relationship does not match an ally or hostile targeting type
+   */
+  private isSparedByArea(
+    effect: EffectDefinition,
+    targeting: ResolvedTargeting,
+    actingUnit: BaseUnit,
+    unit: BaseUnit
+  ): boolean {
+    if (effect.friendlyFire) return false;
+    if (unit.id === actingUnit.id) return true;
+    if (
+      (targeting.type === 'ally' || targeting.type === 'hostile') &&
+      !ActionTargeting.matchesRelationship(targeting, actingUnit, unit)
+    ) {
+      return true;
+    }
+    return !this.canAffectTarget(effect, actingUnit, unit);
+  }
+
+  /**
+   * Applies a single effect to a specific unit; `scale` multiplies add/subtract values.
+   * Dead units are only affected by actions that target the dead.
+   * Returns whether the effect took hold.
+   */
+  private async applyEffectToUnit(
+    effect: EffectDefinition,
+    targetUnit: BaseUnit,
+    action: Action,
+    actingUnit?: BaseUnit,
+    units: BaseUnit[] = [],
+    scale: number = 1
+  ): Promise<boolean> {
+    const targetWasDead = UnitLifecycle.isDead(targetUnit);
+    if (targetWasDead && ActionTargeting.resolve(action).status !== 'dead') {
+      this.logger?.info(
+        `Skipped applying effect ${effect.property} to ${targetUnit.name}; unit is dead`
+      );
+      return false;
+    }
+
+    if (
+      effect.condition &&
+      !ConditionParser.evaluate(effect.condition, {
+        actor: actingUnit,
+        target: targetUnit,
+        units,
+        range: this.getActionRange(action),
+      })
+    ) {
+      this.logger?.info(
+        `Skipped applying effect ${effect.property} to ${targetUnit.name}; condition "${effect.condition}" not met`
+      );
+      return false;
+    }
+
+    if (effect.property === 'unit' && effect.operation === 'remove') {
+      return this.removeCorpse(targetUnit, action);
+    }
+
+    const { propertyName, valueToApply: baseValue } =
+      this.resolveEffectApplication(effect, action, targetUnit, actingUnit);
+    let valueToApply =
+      scale !== 1 &&
+      (effect.operation === 'add' || effect.operation === 'subtract')
+        ? Math.round(baseValue * scale)
+        : baseValue;
+
+    // Timed statuses may refresh or ignore instead of applying a new delta
+    const status = StatusEffects.isTimed(effect)
+      ? StatusEffects.resolveApplication(effect, propertyName, action.type)
+      : null;
+    if (status) {
+      const stackingEvent = StatusEffects.checkStacking(targetUnit, status);
+      if (stackingEvent) {
+        this.statusEvents.push(stackingEvent);
+        return stackingEvent.type === 'refreshed';
+      }
+    }
+
+    // Attacks on other units go through the combat rules
+    if (
+      effect.damageType &&
+      effect.operation === 'subtract' &&
+      targetUnit.id !== actingUnit?.id
+    ) {
+      const terrain = this.world
+        ? TerrainRules.getCombatModifiers(this.world, targetUnit)
+        : undefined;
+      const roll = this.combatResolver.resolve({
+        attacker: actingUnit,
+        defender: targetUnit,
+        baseDamage: valueToApply,
+        damageType: effect.damageType,
+        actionType: action.type,
+        random: this.random,
+        ...(terrain ? { terrain } : {}),
+      });
+      this.combatRolls.push(roll);
+      valueToApply = roll.damage;
+    }
+
     // Ensure the property exists; if missing, initialize it with value 1
     const existingValue = targetUnit.getPropertyValue(propertyName);
     if (existingValue === undefined) {
@@ -335,16 +593,55 @@ export class ActionProcessor {
     } else {
       targetUnit.setProperty(propertyName, newValue);
     }
+    this.appliedEffects.push({
+      actionType: action.type,
+      ...(actingUnit ? { actorId: actingUnit.id } : {}),
+      unitId: targetUnit.id,
+      unitName: targetUnit.name,
+      property: propertyName,
+      oldValue: currentValue,
+      newValue,
+    });
+
+    if (status) {
+      this.statusEvents.push(
+        StatusEffects.track(targetUnit, status, newValue - currentValue)
+      );
+    }
 
-    if (propertyName === 'health' && newValue <= 0) {
-      targetUnit.setProperty('status', 'dead');
+    if (propertyName === 'health') {
+      if (!targetWasDead && newValue <= 0) {
+        this.deaths.push(
+          UnitLifecycle.kill(targetUnit, action.type, actingUnit)
+        );
+      } else if (targetWasDead && newValue > 0) {
+        UnitLifecycle.revive(targetUnit);
+      }
     }
+    return true;
+  }
+
+  /**
+   * Marks a dead unit's body for removal from play
+   */
+  private removeCorpse(targetUnit: BaseUnit, action: Action): boolean {
+    if (!UnitLifecycle.isDead(targetUnit)) {
+      this.logger?.error(
+        `Cannot remove living unit ${formatUnitLabel(targetUnit)} in action ${action.type}`
+      );
+      return false;
+    }
+    if (!this.removedUnitIds.includes(targetUnit.id)) {
+      this.removedUnitIds.push(targetUnit.id);
+    }
+    return true;
   }
 
   private resolveEffectApplication(
     effect: EffectDefinition,
     action: Action,
-    targetUnit: BaseUnit
+    targetUnit: BaseUnit,
+    actingUnit?: BaseUnit
   ): { propertyName: string; valueToApply: number } {
     const valueDef = effect.value;
     if (valueDef?.type === 'modifyProperty') {
@@ -353,19 +650,25 @@ export class ActionProcessor {
       const valueToApply = this.calculateEffectValue(
         nested,
         action,
-        targetUnit
+        targetUnit,
+        actingUnit
       );
       return { propertyName, valueToApply };
     }
 
     return {
       propertyName: effect.property,
-      valueToApply: this.calculateEffectValue(effect.value, action, targetUnit),
+      valueToApply: this.calculateEffectValue(
+        effect.value,
+        action,
+        targetUnit,
+        actingUnit
+      ),
     };
   }
 
   private getEffectsForAction(action: Action): EffectDefinition[] {
-    const actionDef = DataManager.loadActions().find(
+    const actionDef = DataManager.loadActions(this.storage).find(
       a => a.type === action.type
     );
 
@@ -429,7 +732,8 @@ export class ActionProcessor {
     if (raw.type === 'random') {
       return ActionProcessor.getRandomValue(
         raw.min ?? 0,
-        raw.max ?? 0
+        raw.max ?? 0,
+        this.random
       ).toString();
     }
 
@@ -446,7 +750,8 @@ export class ActionProcessor {
   private calculateEffectValue(
     valueDef: EffectValue | number | string,
     action: Action,
-    targetUnit: BaseUnit
+    targetUnit: BaseUnit,
+    actingUnit?: BaseUnit
   ): number {
     if (typeof valueDef === 'number') {
       return valueDef;
@@ -460,17 +765,32 @@ export class ActionProcessor {
       case 'static':
         return valueDef.value ?? 0;
       case 'calculation':
-        // For now, just return value or default if calculation is complex
+        if (valueDef.expression) {
+          return ExpressionEvaluator.evaluate(valueDef.expression, {
+            actor: actingUnit,
+            target: targetUnit,
+            random: this.random,
+          });
+        }
         return valueDef.value ?? 0;
       case 'random':
         // Generate random value based on min/max in the definition
         if (valueDef.min !== undefined && valueDef.max !== undefined) {
-          return ActionProcessor.getRandomValue(valueDef.min, valueDef.max);
+          return ActionProcessor.getRandomValue(
+            valueDef.min,
+            valueDef.max,
+            this.random
+          );
         }
         return 0;
       case 'modifyProperty': {
         const nested = valueDef.value ?? { type: 'static', value: 0 };
-        return this.calculateEffectValue(nested, action, targetUnit);
+        return this.calculateEffectValue(
+          nested,
+          action,
+          targetUnit,
+          actingUnit
+        );
       }
       default:
         return 0;
@@ -480,8 +800,12 @@ export class ActionProcessor {
   /**
    * Helper method to get a random value between min and max
    */
-  private static getRandomValue(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+  private static getRandomValue(
+    min: number,
+    max: number,
+    random: RandomGenerator
+  ): number {
+    return MathUtils.getRandomNumber(min, max, random);
   }
 
   /**
@@ -528,17 +852,10 @@ export class ActionProcessor {
   }
 
   /**
-   * Determine action range from definition, payload, or defaults
+   * Determine action range from its targeting, payload, or defaults
    */
   public getActionRange(action: Action): number {
-    if (
-      action?.payload?.range !== undefined &&
-      isNumber(action?.payload?.range)
-    ) {
-      return action.payload.range;
-    }
-
-    return 1;
+    return ActionTargeting.resolve(action).maxRange;
   }
 
   /**
@@ -546,7 +863,8 @@ export class ActionProcessor {
    */
   public static processActionPayload(
     actionPayload: ActionPayload,
-    targetUnit: BaseUnit | null
+    targetUnit: BaseUnit | null,
+    random: RandomGenerator
   ): ActionPayload {
     const processedPayload = { ...actionPayload };
 
@@ -562,14 +880,15 @@ export class ActionProcessor {
         const randomDef = value as { type: 'random'; min: number; max: number };
         processedPayload[key] = this.getRandomValue(
           randomDef.min,
-          randomDef.max
+          randomDef.max,
+          random
         );
       } else if (valueType === 'random_direction') {
         // This is a direction selector
-        processedPayload[key] = this.getRandomDirection();
+        processedPayload[key] = this.getRandomDirection(random);
       } else if (valueType === 'random_resource') {
         // This is a resource selector
-        processedPayload[key] = this.getRandomResource();
+        processedPayload[key] = this.getRandomResource(random);
       } else if (valueType === 'calculated') {
         // This could be a calculated value based on unit properties
         // For now we'll handle simple cases
@@ -593,7 +912,7 @@ export class ActionProcessor {
   /**
    * Returns a random direction
    */
-  private static getRandomDirection(): string {
+  private static getRandomDirection(random: RandomGenerator): string {
     const directions = [
       'north',
       'south',
@@ -604,17 +923,15 @@ export class ActionProcessor {
       'southeast',
       'southwest',
     ];
-    const randomIndex = Math.floor(Math.random() * directions.length);
-    return directions[randomIndex] || 'north'; // fallback to 'north' if undefined
+    return MathUtils.getRandomFromArray(directions, random) || 'north'; // fallback to 'north' if undefined
   }
 
   /**
    * Returns a random resource
    */
-  private static getRandomResource(): string {
+  private static getRandomResource(random: RandomGenerator): string {
     const resources = ['gold', 'wood', 'stone', 'food', 'herbs', 'ore'];
-    const randomIndex = Math.floor(Math.random() * resources.length);
-    return resources[randomIndex] || 'gold'; // fallback to 'gold' if undefined
+    return MathUtils.getRandomFromArray(resources, random) || 'gold'; // fallback to 'gold' if undefined
   }
 
   /**
@@ -659,7 +976,7 @@ export class ActionProcessor {
     return {
       action: this.getDefaultAction(unit),
       turn,
-      timestamp: Date.now(),
+      timestamp: this.clock.timeOf(turn),
       actorId: unit.id,
       ...safeContext,
     };
@@ -0,0 +1,143 @@
+import type { BaseUnit, IUnitPosition } from '@atsu/atago';
+import type { TerrainType, World } from '@atsu/choukai';
+import type { Action, ActionTargeting as TargetingDefinition } from '../types';
+import { isNumber, isUnitPosition } from '../types/typeGuards';
+import { RelationshipHelper } from './RelationshipHelper';
+
+/**
+ * Targeting declaration with every default filled in
+ */
+export type ResolvedTargeting = Required<TargetingDefinition>;
+
+/**
+ * Utility class reading the `targeting` declaration of actions.
+ * Actions without one need no target; their range falls back to `payload.range`.
+ */
+export class ActionTargeting {
+  /** Terrain that blocks line of sight for `lineOfSight` actions. */
+  public static SIGHT_BLOCKING_TERRAIN: TerrainType[] = ['wall', 'mountain'];
+
+  /**
+   * Gets an action's targeting with defaults applied
+   */
+  public static resolve(
+    action: Pick<Action, 'targeting' | 'payload'>
+  ): ResolvedTargeting {
+    const targeting = action.targeting;
+    const payloadRange = action.payload?.range;
+    return {
+      type: targeting?.type ?? 'none',
+      area: targeting?.area ?? 'single',
+      areaSize: targeting?.areaSize ?? 1,
+      areaOrigin: targeting?.areaOrigin ?? 'target',
+      minRange: targeting?.minRange ?? 0,
+      maxRange:
+        targeting?.maxRange ?? (isNumber(payloadRange) ? payloadRange : 1),
+      lineOfSight: targeting?.lineOfSight ?? false,
+      status: targeting?.status ?? 'alive',
+    };
+  }
+
+  /**
+   * Checks whether the action needs another unit as its target
+   */
+  public static requiresTarget(
+    action: Pick<Action, 'targeting' | 'payload'>
+  ): boolean {
+    const { type } = this.resolve(action);
+    return type === 'ally' || type === 'hostile' || type === 'any';
+  }
+
+  /**
+   * Checks the actor's relationship to a candidate against the targeting type
+   */
+  public static matchesRelationship(
+    targeting: ResolvedTargeting,
+    actor: BaseUnit,
+    target: BaseUnit
+  ): boolean {
+    switch (targeting.type) {
+      case 'ally':
+        return RelationshipHelper.isAlly(actor, target);
+      case 'hostile':
+        return RelationshipHelper.isHostile(actor, target);
+      case 'any':
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Checks a distance against the min/max range
+   */
+  public static isWithinRange(
+    targeting: ResolvedTargeting,
+    distance: number
+  ): boolean {
+    return distance >= targeting.minRange && distance <= targeting.maxRange;
+  }
+
+  /**
+   * Checks that no sight-blocking terrain lies on the straight line between
+   * two units (their own tiles excluded). Units without a position are not
+   * blocked; units on different maps never see each other.
+   */
+  public static hasLineOfSight(
+    world: World,
+    actor: BaseUnit,
+    target: BaseUnit
+  ): boolean {
+    const from = actor.getPropertyValue<IUnitPosition>('position');
+    const to = target.getPropertyValue<IUnitPosition>('position');
+    if (!isUnitPosition(from) || !isUnitPosition(to)) {
+      return true;
+    }
+    if (from.mapId !== to.mapId) {
+      return false;
+    }
+
+    const map = world.getMap(from.mapId);
+    for (const point of this.getLinePoints(from.position, to.position)) {
+      if (
+        this.SIGHT_BLOCKING_TERRAIN.includes(map.getTerrain(point.x, point.y))
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Tiles strictly between two points on a Bresenham line
+   */
+  public static getLinePoints(
+    from: { x: number; y: number },
+    to: { x: number; y: number }
+  ): Array<{ x: number; y: number }> {
+    const points: Array<{ x: number; y: number }> = [];
+    const dx = Math.abs(to.x - from.x);
+    const dy = -Math.abs(to.y - from.y);
+    const stepX = from.x < to.x ? 1 : -1;
+    const stepY = from.y < to.y ? 1 : -1;
+    let error = dx + dy;
+    let x = from.x;
+    let y = from.y;
+
+    while (x !== to.x || y !== to.y) {
+      const doubled = 2 * error;
+      if (doubled >= dy) {
+        error += dy;
+        x += stepX;
+      }
+      if (doubled <= dx) {
+        error += dx;
+        y += stepY;
+      }
+      if (x !== to.x || y !== to.y) {
+        points.push({ x, y });
+      }
+    }
+    return points;
+  }
+}
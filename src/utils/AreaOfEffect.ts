@@ -0,0 +1,216 @@
+import type { BaseUnit, IUnitPosition } from '@atsu/atago';
+import type { World } from '@atsu/choukai';
+import { isUnitPosition } from '../types/typeGuards';
+import type { TargetArea } from '../types';
+import type { ResolvedTargeting } from './ActionTargeting';
+import { RelationshipHelper } from './RelationshipHelper';
+import { UnitPosition } from './UnitPosition';
+
+/**
+ * A unit inside an area with its distance from the area's center
+ */
+export interface AreaUnit {
+  unit: BaseUnit;
+  distance: number;
+}
+
+interface Direction {
+  x: number;
+  y: number;
+}
+
+/**
+ * Utility class resolving area-of-effect shapes to the units they catch
+ */
+export class AreaOfEffect {
+  /**
+   * Checks whether the targeting covers more than a single unit
+   */
+  public static isArea(targeting: ResolvedTargeting): boolean {
+    return targeting.area !== 'single';
+  }
+
+  /**
+   * Finds every unit inside the action's area, nearest to the center first.
+   * Radius, diamond and square areas center on the target (or the actor when
+   * `areaOrigin` is `actor`); lines and cones start next to the actor and point
+   * at the target. Units outside the map bounds are never caught.
+   */
+  public static getUnitsInArea(
+    world: World,
+    units: BaseUnit[],
+    actor: BaseUnit,
+    target: BaseUnit | null,
+    targeting: ResolvedTargeting
+  ): AreaUnit[] {
+    if (targeting.area === 'single') {
+      return target ? [{ unit: target, distance: 0 }] : [];
+    }
+
+    const directional = targeting.area === 'line' || targeting.area === 'cone';
+    const origin =
+      directional || targeting.areaOrigin === 'actor' ? actor : target;
+    const originPosition = origin && this.getPosition(origin);
+    if (!origin || !originPosition) {
+      return [];
+    }
+
+    let direction: Direction | null = null;
+    if (directional) {
+      direction = this.getDirection(originPosition, target);
+      if (!direction) {
+        return [];
+      }
+    }
+
+    const map = world.getMap(originPosition.mapId);
+    const candidates = [
+      origin,
+      ...UnitPosition.getUnitsWithinRange(
+        units,
+        world,
+        origin.id,
+        targeting.areaSize * Math.SQRT2,
+        false
+      ),
+    ];
+
+    const caught: AreaUnit[] = [];
+    for (const unit of candidates) {
+      const position = this.getPosition(unit);
+      if (!position || position.mapId !== originPosition.mapId) {
+        continue;
+      }
+
+      const { x, y } = position.position;
+      if (x < 0 || y < 0 || x >= map.width || y >= map.height) {
+        continue;
+      }
+
+      const distance = this.getShapeDistance(
+        targeting.area,
+        targeting.areaSize,
+        x - originPosition.position.x,
+        y - originPosition.position.y,
+        direction
+      );
+      if (distance !== null) {
+        caught.push({ unit, distance });
+      }
+    }
+
+    return caught.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Multiplier for an effect value `distance` tiles from the area's center
+   */
+  public static getFalloffScale(
+    falloff: number | undefined,
+    distance: number
+  ): number {
+    if (!falloff || falloff <= 0) {
+      return 1;
+    }
+    return Math.max(0, 1 - falloff * distance);
+  }
+
+  /**
+   * Scores a placement by the units it catches: wanted units count +1 and
+   * units of the opposite side -1. Hostile actions want hostiles, ally actions
+   * want allies; other actions count every unit. The actor is ignored.
+   */
+  public static scorePlacement(
+    targeting: ResolvedTargeting,
+    actor: BaseUnit,
+    caught: AreaUnit[]
+  ): number {
+    let score = 0;
+    for (const { unit } of caught) {
+      if (unit.id === actor.id) {
+        continue;
+      }
+
+      const relationship = RelationshipHelper.getRelationship(actor, unit);
+      if (targeting.type === 'hostile') {
+        score += this.relationshipScore(relationship, 'hostile', 'ally');
+      } else if (targeting.type === 'ally') {
+        score += this.relationshipScore(relationship, 'ally', 'hostile');
+      } else {
+        score += 1;
+      }
+    }
+    return score;
+  }
+
+  private static relationshipScore(
+    relationship: string,
+    wanted: string,
+    avoided: string
+  ): number {
+    if (relationship === wanted) return 1;
+    if (relationship === avoided) return -1;
+    return 0;
+  }
+
+  /**
+   * Distance used for falloff, or null when the offset lies outside the shape
+   */
+  private static getShapeDistance(
+    area: TargetArea,
+    size: number,
+    dx: number,
+    dy: number,
+    direction: Direction | null
+  ): number | null {
+    let distance: number;
+    switch (area) {
+      case 'radius': {
+        const euclidean = Math.hypot(dx, dy);
+        return euclidean <= size ? Math.round(euclidean) : null;
+      }
+      case 'diamond':
+        distance = Math.abs(dx) + Math.abs(dy);
+        return distance <= size ? distance : null;
+      case 'square':
+        distance = Math.max(Math.abs(dx), Math.abs(dy));
+        return distance <= size ? distance : null;
+      case 'line':
+      case 'cone': {
+        if (!direction) return null;
+        const along = dx * direction.x + dy * direction.y;
+        const across = Math.abs(dx * direction.y - dy * direction.x);
+        const halfWidth = area === 'line' ? 0.5 : along;
+        if (along <= 0 || along > size || across > halfWidth) {
+          return null;
+        }
+        return Math.max(0, Math.round(along) - 1);
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Unit vector from a position toward the target, or null without one
+   */
+  private static getDirection(
+    from: IUnitPosition,
+    target: BaseUnit | null
+  ): Direction | null {
+    const to = target && this.getPosition(target);
+    if (!to || to.mapId !== from.mapId) {
+      return null;
+    }
+
+    const dx = to.position.x - from.position.x;
+    const dy = to.position.y - from.position.y;
+    const length = Math.hypot(dx, dy);
+    return length === 0 ? null : { x: dx / length, y: dy / length };
+  }
+
+  private static getPosition(unit: BaseUnit): IUnitPosition | null {
+    const position = unit.getPropertyValue<IUnitPosition>('position');
+    return isUnitPosition(position) ? position : null;
+  }
+}
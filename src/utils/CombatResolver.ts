@@ -0,0 +1,149 @@
+import type { BaseUnit } from '@atsu/atago';
+import type { CombatRoll, DamageType, TerrainCombatModifiers } from '../types';
+import { isNumber, isRecord } from '../types/typeGuards';
+import type { RandomGenerator } from './RandomGenerator';
+
+/**
+ * Everything a combat resolver needs to resolve one attack
+ */
+export interface CombatContext {
+  attacker: BaseUnit | undefined;
+  defender: BaseUnit;
+  /** Damage rolled by the effect before combat modifiers. */
+  baseDamage: number;
+  damageType: DamageType;
+  actionType: string;
+  /** Shared seeded generator for the hit and critical rolls. */
+  random: RandomGenerator;
+  /** Cover from the defender's tile. */
+  terrain?: TerrainCombatModifiers;
+}
+
+/**
+ * Combat rules invoked by damage effects. Games can supply their own
+ * implementation to swap the hit, critical and damage formulas.
+ */
+export interface CombatResolver {
+  resolve(context: CombatContext): CombatRoll;
+}
+
+export interface StandardCombatOptions {
+  /** Hit chance when attack equals defense. */
+  baseHitChance: number;
+  /** Hit chance gained per point of attack above the defender's defense. */
+  hitChancePerPoint: number;
+  minHitChance: number;
+  maxHitChance: number;
+  critChance: number;
+  critMultiplier: number;
+  /** Share of the attacker's `attack` added to the base damage. */
+  attackScaling: number;
+  /** Share of the defender's `defense` subtracted from physical damage. */
+  defenseScaling: number;
+  /** Damage dealt by a hit that would otherwise deal less. */
+  minimumDamage: number;
+}
+
+export const DEFAULT_COMBAT_OPTIONS: StandardCombatOptions = {
+  baseHitChance: 0.8,
+  hitChancePerPoint: 0.01,
+  minHitChance: 0.05,
+  maxHitChance: 0.95,
+  critChance: 0.05,
+  critMultiplier: 1.5,
+  attackScaling: 0.2,
+  defenseScaling: 0.25,
+  minimumDamage: 1,
+};
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Default combat rules.
+ * Hit chance scales with attack minus defense; a critical hit multiplies the
+ * damage. The defender's tile adds its terrain defense and takes its evasion
+ * off the hit chance. Physical damage is reduced by defense, magical damage is not, and
+ * both are scaled by the defender's `resistances` property
+ * (e.g. `{ "magical": 0.25 }` takes 25% less, negative values take more).
+ */
+export class StandardCombatResolver implements CombatResolver {
+  private readonly options: StandardCombatOptions;
+
+  constructor(options: Partial<StandardCombatOptions> = {}) {
+    this.options = { ...DEFAULT_COMBAT_OPTIONS, ...options };
+  }
+
+  public resolve(context: CombatContext): CombatRoll {
+    const { attacker, defender, damageType, random, terrain } = context;
+    const attack = StandardCombatResolver.getStat(attacker, 'attack');
+    const defense =
+      StandardCombatResolver.getStat(defender, 'defense') +
+      (terrain?.defense ?? 0);
+    const roll = (): number => random.next();
+
+    const hitChance = clamp(
+      this.options.baseHitChance +
+        (attack - defense) * this.options.hitChancePerPoint -
+        (terrain?.evasion ?? 0),
+      this.options.minHitChance,
+      this.options.maxHitChance
+    );
+    const hitRoll = roll();
+    const hit = hitRoll < hitChance;
+    const critChance = this.options.critChance;
+    const critRoll = roll();
+    const critical = hit && critRoll < critChance;
+
+    const mitigation =
+      damageType === 'physical'
+        ? Math.floor(defense * this.options.defenseScaling)
+        : 0;
+    const resistance = StandardCombatResolver.getResistance(
+      defender,
+      damageType
+    );
+
+    let damage = 0;
+    if (hit) {
+      const rawDamage =
+        (context.baseDamage + Math.floor(attack * this.options.attackScaling)) *
+        (critical ? this.options.critMultiplier : 1);
+      damage = Math.max(
+        this.options.minimumDamage,
+        Math.round((rawDamage - mitigation) * (1 - resistance))
+      );
+    }
+
+    return {
+      ...(attacker ? { attackerId: attacker.id } : {}),
+      defenderId: defender.id,
+      damageType,
+      hitChance,
+      hitRoll,
+      hit,
+      critChance,
+      critRoll,
+      critical,
+      baseDamage: context.baseDamage,
+      mitigation,
+      resistance,
+      damage,
+      ...(terrain ? { terrain } : {}),
+    };
+  }
+
+  /**
+   * Reads a unit's resistance to a damage type from its `resistances` property
+   */
+  public static getResistance(unit: BaseUnit, damageType: DamageType): number {
+    const resistances = unit.getPropertyValue('resistances');
+    const value = isRecord(resistances) ? resistances[damageType] : undefined;
+    return isNumber(value) ? clamp(value, -1, 1) : 0;
+  }
+
+  private static getStat(unit: BaseUnit | undefined, name: string): number {
+    const value = unit?.getPropertyValue(name);
+    return isNumber(value) ? value : 0;
+  }
+}
@@ -1,49 +1,438 @@
+import type { BaseUnit } from '@atsu/atago';
+import { RelationshipHelper } from './RelationshipHelper';
+import { UnitLifecycle } from './UnitLifecycle';
+import { UnitPosition } from './UnitPosition';
+
+/**
+ * Values a condition can be evaluated against.
+ * Bare identifiers resolve to `values`, then named predicates, then actor properties.
+ */
+export interface ConditionContext {
+  actor?: BaseUnit | undefined;
+  target?: BaseUnit | undefined;
+  units?: BaseUnit[] | undefined;
+  /** Range used by range-based predicates (defaults to 1). */
+  range?: number | undefined;
+  values?: Record<string, unknown> | undefined;
+}
+
+export type ConditionPredicate = (context: ConditionContext) => boolean;
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type ConditionNode =
+  | { kind: 'literal'; value: string | number | boolean }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'reference'; scope: 'actor' | 'target'; property: string }
+  | { kind: 'not'; operand: ConditionNode }
+  | {
+      kind: 'logical';
+      operator: '&&' | '||';
+      left: ConditionNode;
+      right: ConditionNode;
+    }
+  | {
+      kind: 'comparison';
+      operator: ComparisonOperator;
+      left: ConditionNode;
+      right: ConditionNode;
+    };
+
+interface ConditionToken {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'paren' | 'dot';
+  text: string;
+  position: number;
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!'];
+const COMPARISONS = new Set(['==', '!=', '<', '<=', '>', '>=']);
+
+/**
+ * Splits a condition into tokens, rejecting any character outside the grammar
+ */
+const tokenize = (condition: string): ConditionToken[] => {
+  const tokens: ConditionToken[] = [];
+  let index = 0;
+
+  while (index < condition.length) {
+    const char = condition[index] as string;
+    const rest = condition.slice(index);
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const numberMatch = /^-?(\d+(\.\d+)?|\.\d+)/.exec(rest);
+    const previous = tokens[tokens.length - 1];
+    const negativeAllowed =
+      !previous || previous.type === 'operator' || previous.text === '(';
+    if (numberMatch && (char !== '-' || negativeAllowed)) {
+      tokens.push({ type: 'number', text: numberMatch[0], position: index });
+      index += numberMatch[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const end = condition.indexOf(char, index + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated string at position ${index}`);
+      }
+      tokens.push({
+        type: 'string',
+        text: condition.slice(index + 1, end),
+        position: index,
+      });
+      index = end + 1;
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+    if (identifierMatch) {
+      tokens.push({
+        type: 'identifier',
+        text: identifierMatch[0],
+        position: index,
+      });
+      index += identifierMatch[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', text: char, position: index });
+    } else if (char === '.') {
+      tokens.push({ type: 'dot', text: char, position: index });
+    } else {
+      throw new Error(`Unexpected character '${char}' at position ${index}`);
+    }
+    index++;
+  }
+
+  return tokens;
+};
+
+/**
+ * Recursive-descent parser: or -> and -> not -> comparison -> operand
+ */
+class ConditionGrammar {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: ConditionToken[],
+    private readonly source: string
+  ) {}
+
+  public parse(): ConditionNode {
+    if (this.tokens.length === 0) {
+      throw new Error('Condition is empty');
+    }
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new Error(
+        `Unexpected '${extra.text}' at position ${extra.position}`
+      );
+    }
+    return node;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.peekOperator('||')) {
+      this.index++;
+      left = { kind: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.peekOperator('&&')) {
+      this.index++;
+      left = { kind: 'logical', operator: '&&', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.peekOperator('!')) {
+      this.index++;
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parseOperand();
+    const token = this.peek();
+    if (token?.type === 'operator' && COMPARISONS.has(token.text)) {
+      this.index++;
+      return {
+        kind: 'comparison',
+        operator: token.text as ComparisonOperator,
+        left,
+        right: this.parseOperand(),
+      };
+    }
+    return left;
+  }
+
+  private parseOperand(): ConditionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: parseFloat(token.text) };
+      case 'string':
+        return { kind: 'literal', value: token.text };
+      case 'paren':
+        if (token.text === '(') {
+          const inner = this.parseOr();
+          this.expect(')');
+          return inner;
+        }
+        break;
+      case 'identifier':
+        if (token.text === 'true' || token.text === 'false') {
+          return { kind: 'literal', value: token.text === 'true' };
+        }
+        if (token.text === 'actor' || token.text === 'target') {
+          this.expect('.');
+          const property = this.next();
+          if (property.type !== 'identifier') {
+            throw new Error(
+              `Expected property name after '${token.text}.' at position ${property.position}`
+            );
+          }
+          return {
+            kind: 'reference',
+            scope: token.text,
+            property: property.text,
+          };
+        }
+        return { kind: 'identifier', name: token.text };
+      default:
+        break;
+    }
+
+    throw new Error(`Unexpected '${token.text}' at position ${token.position}`);
+  }
+
+  private peek(): ConditionToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private peekOperator(operator: string): boolean {
+    const token = this.peek();
+    return token?.type === 'operator' && token.text === operator;
+  }
+
+  private next(): ConditionToken {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new Error(
+        `Unexpected end of condition at position ${this.source.length}`
+      );
+    }
+    this.index++;
+    return token;
+  }
+
+  private expect(text: string): void {
+    const token = this.next();
+    if (token.text !== text || token.type === 'string') {
+      throw new Error(
+        `Expected '${text}' but found '${token.text}' at position ${token.position}`
+      );
+    }
+  }
+}
+
+/**
+ * True when an alive hostile of the actor is within the context range.
+ */
+const hostileInRange: ConditionPredicate = context => {
+  const { actor, units } = context;
+  if (!actor || !units) return false;
+  const range = context.range ?? 1;
+
+  return units.some(other => {
+    if (other.id === actor.id) return false;
+    if (UnitLifecycle.isDead(other)) return false;
+    if (!RelationshipHelper.isHostile(actor, other)) return false;
+    const distance = UnitPosition.getDistanceBetweenUnits(
+      units,
+      actor.id,
+      other.id
+    );
+    return distance <= range;
+  });
+};
+
 /**
  * Utility class for parsing and evaluating condition strings
  */
 export class ConditionParser {
+  private static cache: Map<string, ConditionNode> = new Map();
+  private static predicates: Map<string, ConditionPredicate> = new Map([
+    ['hostile_in_range', hostileInRange],
+    ['no_hostile_in_range', context => !hostileInRange(context)],
+    ['has_target', context => Boolean(context.target)],
+  ]);
+
   /**
    * Evaluates a condition string against a value
    * @param condition The condition string (e.g., "health <= 30", "mana > 50")
-   * @param value The value to check against the condition
+   * @param value The value the leading identifier of the condition resolves to
    * @returns True if the condition is satisfied, false otherwise
    */
   public static evaluateCondition(condition: string, value: number): boolean {
-    // Define the operators and their checking functions
-    const operators = [
-      {
-        symbol: '<=',
-        checkFunc: (val: number, threshold: number) => val <= threshold,
-      },
-      {
-        symbol: '>=',
-        checkFunc: (val: number, threshold: number) => val >= threshold,
-      },
-      {
-        symbol: '<',
-        checkFunc: (val: number, threshold: number) => val < threshold,
-      },
-      {
-        symbol: '>',
-        checkFunc: (val: number, threshold: number) => val > threshold,
-      },
-    ];
-
-    // Find the appropriate operator in the condition
-    for (const { symbol, checkFunc } of operators) {
-      if (condition.includes(symbol)) {
-        // Extract the value after the operator
-        const parts = condition.split(symbol)[1];
-        if (parts) {
-          const threshold = parseFloat(parts.trim());
-          if (!isNaN(threshold)) {
-            return checkFunc(value, threshold);
-          }
+    const subject = /^\s*([A-Za-z_][A-Za-z0-9_]*)/.exec(condition)?.[1];
+    if (!subject) {
+      return false;
+    }
+    return this.evaluate(condition, { values: { [subject]: value } });
+  }
+
+  /**
+   * Evaluates a condition against the actor/target context.
+   * Invalid conditions evaluate to false.
+   */
+  public static evaluate(
+    condition: string,
+    context: ConditionContext = {}
+  ): boolean {
+    try {
+      return this.isTruthy(this.evaluateNode(this.parse(condition), context));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Parses a condition, throwing a descriptive Error on invalid syntax
+   */
+  public static parse(condition: string): ConditionNode {
+    const cached = this.cache.get(condition);
+    if (cached) {
+      return cached;
+    }
+
+    const node = new ConditionGrammar(tokenize(condition), condition).parse();
+    this.cache.set(condition, node);
+    return node;
+  }
+
+  /**
+   * Returns the parse error message for a condition, or null when valid
+   */
+  public static validate(condition: string): string | null {
+    try {
+      this.parse(condition);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
+  /**
+   * Registers (or replaces) a named predicate usable as a bare identifier
+   */
+  public static registerPredicate(
+    name: string,
+    predicate: ConditionPredicate
+  ): void {
+    this.predicates.set(name, predicate);
+  }
+
+  private static evaluateNode(
+    node: ConditionNode,
+    context: ConditionContext
+  ): unknown {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+      case 'reference': {
+        const unit = node.scope === 'actor' ? context.actor : context.target;
+        return unit?.getPropertyValue(node.property);
+      }
+      case 'identifier':
+        return this.resolveIdentifier(node.name, context);
+      case 'not':
+        return !this.isTruthy(this.evaluateNode(node.operand, context));
+      case 'logical': {
+        const left = this.isTruthy(this.evaluateNode(node.left, context));
+        if (node.operator === '&&') {
+          return left && this.isTruthy(this.evaluateNode(node.right, context));
         }
+        return left || this.isTruthy(this.evaluateNode(node.right, context));
       }
+      case 'comparison':
+        return this.compare(
+          node.operator,
+          this.evaluateNode(node.left, context),
+          this.evaluateNode(node.right, context)
+        );
     }
+  }
 
-    // If condition format is not recognized, return false
-    return false;
+  private static resolveIdentifier(
+    name: string,
+    context: ConditionContext
+  ): unknown {
+    if (context.values && Object.hasOwn(context.values, name)) {
+      return context.values[name];
+    }
+
+    const predicate = this.predicates.get(name);
+    if (predicate) {
+      return predicate(context);
+    }
+
+    return context.actor?.getPropertyValue(name);
+  }
+
+  private static compare(
+    operator: ComparisonOperator,
+    left: unknown,
+    right: unknown
+  ): boolean {
+    switch (operator) {
+      case '==':
+        return left === right;
+      case '!=':
+        return left !== right;
+      default:
+        break;
+    }
+
+    if (typeof left !== 'number' || typeof right !== 'number') {
+      return false;
+    }
+
+    switch (operator) {
+      case '<':
+        return left < right;
+      case '<=':
+        return left <= right;
+      case '>':
+        return left > right;
+      default:
+        return left >= right;
+    }
+  }
+
+  private static isTruthy(value: unknown): boolean {
+    if (typeof value === 'string') {
+      return value.length > 0;
+    }
+    return Boolean(value);
   }
 }
@@ -1,7 +1,19 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { createRequire } from 'module';
-import type { FullConfig, MapGenerationConfig } from './engineConfig';
+import type { TerrainType } from '@atsu/choukai';
+import type { TerrainRule } from '../types';
+import type {
+  FullConfig,
+  GoalsConfig,
+  LifecycleConfig,
+  MapGenerationConfig,
+  MemoryConfig,
+  SquadsConfig,
+  StatusEffectsConfig,
+  TerrainConfig,
+  VisionConfig,
+} from './engineConfig';
 
 const require = createRequire(import.meta.url);
 let tsNodeRegistered = false;
@@ -9,6 +21,18 @@ let tsNodeRegistered = false;
 const isRecord = (value: unknown): value is Record<string, unknown> =>
   value !== null && typeof value === 'object';
 
+const rule = (
+  moveCost: number,
+  overrides: Partial<TerrainRule> = {}
+): TerrainRule => ({
+  moveCost,
+  impassableFor: [],
+  passableFor: [],
+  defense: 0,
+  evasion: 0,
+  ...overrides,
+});
+
 interface TsNodeRegisterOptions {
   transpileOnly: boolean;
   compilerOptions: Record<string, unknown>;
@@ -91,6 +115,18 @@ const isFullConfig = (value: unknown): value is FullConfig => {
     return false;
   }
 
+  if (value.seed !== undefined && typeof value.seed !== 'string') {
+    return false;
+  }
+
+  if (
+    value.playerFactions !== undefined &&
+    (!Array.isArray(value.playerFactions) ||
+      !value.playerFactions.every(faction => typeof faction === 'string'))
+  ) {
+    return false;
+  }
+
   if (!isRecord(value.rendering)) {
     return false;
   }
@@ -103,6 +139,34 @@ const isFullConfig = (value: unknown): value is FullConfig => {
     return false;
   }
 
+  if (value.statusEffects !== undefined && !isRecord(value.statusEffects)) {
+    return false;
+  }
+
+  if (value.lifecycle !== undefined && !isRecord(value.lifecycle)) {
+    return false;
+  }
+
+  if (value.goals !== undefined && !isRecord(value.goals)) {
+    return false;
+  }
+
+  if (value.squads !== undefined && !isRecord(value.squads)) {
+    return false;
+  }
+
+  if (value.terrain !== undefined && !isRecord(value.terrain)) {
+    return false;
+  }
+
+  if (value.vision !== undefined && !isRecord(value.vision)) {
+    return false;
+  }
+
+  if (value.memory !== undefined && !isRecord(value.memory)) {
+    return false;
+  }
+
   return true;
 };
 
@@ -202,6 +266,53 @@ export class ConfigManager {
         consoleMaxEntries: 200,
         consoleTitle: 'Console Log',
       },
+      statusEffects: {
+        defaultStacking: 'refresh',
+        maxStacks: 3,
+        defaultDurationUnit: 'round',
+      },
+      lifecycle: {
+        corpsePolicy: 'persist',
+        removeFactions: ['Wild Animals'],
+        removeTypes: ['beast'],
+        lootPolicy: 'removed',
+        lootProperties: ['resources'],
+      },
+      goals: {
+        switchMargin: 20,
+        cooldownTurns: 2,
+        failedActionTurns: 3,
+      },
+      squads: {
+        deriveFromFaction: true,
+        formation: 'cluster',
+        spacing: 2,
+      },
+      terrain: {
+        grass: rule(1),
+        plains: rule(1),
+        road: rule(0.5),
+        sand: rule(1.5),
+        desert: rule(1.5),
+        snow: rule(2),
+        forest: rule(2, { defense: 2, evasion: 0.1 }),
+        swamp: rule(2, { impassableFor: ['*'], passableFor: ['beast'] }),
+        water: rule(2, { impassableFor: ['*'] }),
+        mountain: rule(3, { impassableFor: ['*'] }),
+        wall: rule(1, { impassableFor: ['*'] }),
+      },
+      vision: {
+        enabled: true,
+        defaultSightRadius: 6,
+        shareWithFaction: true,
+        blockingTerrain: ['wall', 'mountain'],
+        sightPenalty: { forest: 1 },
+      },
+      memory: {
+        forgetAfterTurns: 10,
+        decay: 0.8,
+        threatRadius: 4,
+      },
     };
   }
 
@@ -224,6 +335,98 @@ export class ConfigManager {
     } as MapGenerationConfig;
   }
 
+  /**
+   * Get only status effect configuration
+   */
+  public static getStatusEffectsConfig(): StatusEffectsConfig {
+    const config = this.getConfig();
+    const defaultConfig = this.getDefaultConfig();
+    return {
+      ...(defaultConfig.statusEffects || {}),
+      ...(config.statusEffects || {}),
+    } as StatusEffectsConfig;
+  }
+
+  /**
+   * Get only unit lifecycle configuration
+   */
+  public static getLifecycleConfig(): LifecycleConfig {
+    const config = this.getConfig();
+    const defaultConfig = this.getDefaultConfig();
+    return {
+      ...(defaultConfig.lifecycle || {}),
+      ...(config.lifecycle || {}),
+    } as LifecycleConfig;
+  }
+
+  /**
+   * Get only goal persistence configuration
+   */
+  public static getGoalsConfig(): GoalsConfig {
+    const config = this.getConfig();
+    const defaultConfig = this.getDefaultConfig();
+    return {
+      ...(defaultConfig.goals || {}),
+      ...(config.goals || {}),
+    } as GoalsConfig;
+  }
+
+  /**
+   * Get only squad configuration
+   */
+  public static getSquadsConfig(): SquadsConfig {
+    const config = this.getConfig();
+    const defaultConfig = this.getDefaultConfig();
+    return {
+      ...(defaultConfig.squads || {}),
+      ...(config.squads || {}),
+    } as SquadsConfig;
+  }
+
+  /**
+   * Get terrain rules, each merged field by field over its default rule
+   */
+  public static getTerrainConfig(): TerrainConfig {
+    const overrides = this.getConfig().terrain || {};
+    const defaults = this.getDefaultConfig().terrain || {};
+    const terrainConfig: TerrainConfig = {};
+    for (const terrain of new Set([
+      ...Object.keys(defaults),
+      ...Object.keys(overrides),
+    ]) as Set<TerrainType>) {
+      terrainConfig[terrain] = {
+        ...rule(1),
+        ...defaults[terrain],
+        ...overrides[terrain],
+      };
+    }
+    return terrainConfig;
+  }
+
+  /**
+   * Get only vision configuration
+   */
+  public static getVisionConfig(): VisionConfig {
+    const config = this.getConfig();
+    const defaultConfig = this.getDefaultConfig();
+    return {
+      ...(defaultConfig.vision || {}),
+      ...(config.vision || {}),
+    } as VisionConfig;
+  }
+
+  /**
+   * Get only unit memory configuration
+   */
+  public static getMemoryConfig(): MemoryConfig {
+    const config = this.getConfig();
+    const defaultConfig = this.getDefaultConfig();
+    return {
+      ...(defaultConfig.memory || {}),
+      ...(config.memory || {}),
+    } as MemoryConfig;
+  }
+
   /**
    * Reset the configuration (for testing purposes)
    */
@@ -240,5 +443,6 @@ export class ConfigManager {
 export type {
   FullConfig,
   MapGenerationConfig,
+  MemoryConfig,
   MayaRenderingConfig,
 } from './engineConfig';
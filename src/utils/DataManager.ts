@@ -7,14 +7,32 @@ import type {
   ActionsData,
   DiaryEntry,
   GoalsData,
+  SavedUnitData,
+  TurnStateSnapshot,
   UnitDefinition,
 } from '../types';
-import { WorldSnapshotSerializer } from './WorldSnapshotSerializer';
-import { isBestiaryData, isUnitPosition } from '../types/typeGuards';
+import {
+  WorldSnapshotSerializer,
+  type WorldSnapshotOptions,
+  type WorldSnapshotState,
+} from './WorldSnapshotSerializer';
+import { isRecord, isString, isUnitPosition } from '../types/typeGuards';
 import { Logger } from './Logger';
+import {
+  DataValidator,
+  type DataIssue,
+  type DataValidationReport,
+} from './DataValidator';
+import { DiaryStore, type DiaryQuery } from './DiaryStore';
+import {
+  FileSystemStorageAdapter,
+  type StorageAdapter,
+} from './StorageAdapter';
 
 /**
- * Utility class for managing JSON data files
+ * Utility class for managing JSON data files.
+ * All reads and writes go through a StorageAdapter; `DataManager.storage`
+ * (files under DATA_DIR) is used unless a caller passes its own.
  */
 export class DataManager {
   public static DATA_DIR = path.join(process.cwd(), 'data');
@@ -28,116 +46,315 @@ export class DataManager {
   );
   public static DIARY_FILE = path.join(DataManager.DATA_DIR, 'diary.json');
   public static WORLD_FILE = path.join(DataManager.DATA_DIR, 'world.json');
+  public static TURN_STATE_FILE = path.join(
+    DataManager.DATA_DIR,
+    'turn-state.json'
+  );
+  public static storage: StorageAdapter = new FileSystemStorageAdapter(
+    () => DataManager.DATA_DIR
+  );
+  private static diaryStores = new WeakMap<
+    StorageAdapter,
+    Map<string, DiaryStore>
+  >();
+
+  /**
+   * Maps a data file path to a storage key: paths inside DATA_DIR become
+   * relative keys (e.g. `units.json`), anything else is kept as-is
+   */
+  public static toStorageKey(filePath: string): string {
+    const relative = path.relative(this.DATA_DIR, filePath);
+    if (
+      relative === '' ||
+      relative.startsWith('..') ||
+      path.isAbsolute(relative)
+    ) {
+      return filePath;
+    }
+    return relative.split(path.sep).join('/');
+  }
 
   /**
-   * Loads action templates from the actions.json file
+   * Reads a data file through the storage backend; null when it does not exist
    */
-  public static loadActions(): ActionsData {
-    if (!fs.existsSync(this.ACTIONS_FILE)) {
+  private static readFile(
+    filePath: string,
+    storage: StorageAdapter
+  ): string | null {
+    return storage.read(this.toStorageKey(filePath));
+  }
+
+  /**
+   * Loads action templates from the actions.json file.
+   * Throws listing every schema problem, including unparsable conditions and
+   * calculation expressions.
+   */
+  public static loadActions(
+    storage: StorageAdapter = this.storage
+  ): ActionsData {
+    const data = this.readFile(this.ACTIONS_FILE, storage);
+    if (data === null) {
       throw new Error(`Actions file not found: ${this.ACTIONS_FILE}`);
     }
 
-    const data = fs.readFileSync(this.ACTIONS_FILE, 'utf-8');
-    return JSON.parse(data);
+    const parsed: unknown = JSON.parse(data);
+    this.assertValid(
+      'Actions',
+      DataValidator.validateActions(
+        parsed,
+        this.toStorageKey(this.ACTIONS_FILE)
+      )
+    );
+    return parsed as ActionsData;
   }
 
   /**
-   * Loads goal definitions from the goals.json file
+   * Loads goal definitions from the goals.json file.
+   * Candidate actions are cross-checked by `validateDataFiles`, not here.
    */
-  public static loadGoals(): GoalsData {
-    if (!fs.existsSync(this.GOALS_FILE)) {
+  public static loadGoals(storage: StorageAdapter = this.storage): GoalsData {
+    const data = this.readFile(this.GOALS_FILE, storage);
+    if (data === null) {
       throw new Error(`Goals file not found: ${this.GOALS_FILE}`);
     }
 
-    const data = fs.readFileSync(this.GOALS_FILE, 'utf-8');
-    return JSON.parse(data);
+    const parsed: unknown = JSON.parse(data);
+    this.assertValid(
+      'Goals',
+      DataValidator.validateGoals(parsed, this.toStorageKey(this.GOALS_FILE))
+    );
+    return parsed as GoalsData;
   }
 
   /**
    * Loads bestiary definitions from the beastiary.json file
    */
-  public static loadBeastiary(): UnitDefinition[] {
-    if (!fs.existsSync(this.BEASTIARY_FILE)) {
+  public static loadBeastiary(
+    storage: StorageAdapter = this.storage
+  ): UnitDefinition[] {
+    const data = this.readFile(this.BEASTIARY_FILE, storage);
+    if (data === null) {
       throw new Error(`Beastiary file not found: ${this.BEASTIARY_FILE}`);
     }
 
-    const data = fs.readFileSync(this.BEASTIARY_FILE, 'utf-8');
     const parsed: unknown = JSON.parse(data);
+    this.assertValid(
+      'Beastiary',
+      DataValidator.validateBestiary(
+        parsed,
+        this.toStorageKey(this.BEASTIARY_FILE)
+      )
+    );
+    return parsed as UnitDefinition[];
+  }
+
+  /**
+   * Validates every data file without starting the engine: actions, goals
+   * (including candidate actions against the known action types), bestiary,
+   * names and saved units. A missing units.json is not an error.
+   */
+  public static validateDataFiles(
+    storage: StorageAdapter = this.storage
+  ): DataValidationReport {
+    const issues: DataIssue[] = [];
+    const read = (filePath: string, required: boolean) => {
+      const file = this.toStorageKey(filePath);
+      const content = storage.read(file);
+      if (content === null) {
+        if (required) {
+          issues.push({
+            file,
+            path: '$',
+            message: 'File not found',
+            severity: 'error',
+          });
+        }
+        return null;
+      }
+      try {
+        return { file, data: JSON.parse(content) as unknown };
+      } catch (error) {
+        issues.push({
+          file,
+          path: '$',
+          message: `Invalid JSON: ${(error as Error).message}`,
+          severity: 'error',
+        });
+        return null;
+      }
+    };
+
+    const actions = read(this.ACTIONS_FILE, true);
+    let actionTypes: string[] | undefined;
+    if (actions) {
+      issues.push(...DataValidator.validateActions(actions.data, actions.file));
+      actionTypes = Array.isArray(actions.data)
+        ? actions.data
+            .map((action: unknown) => (isRecord(action) ? action.type : null))
+            .filter(isString)
+        : undefined;
+    }
+
+    const goals = read(this.GOALS_FILE, true);
+    if (goals) {
+      issues.push(
+        ...DataValidator.validateGoals(goals.data, goals.file, actionTypes)
+      );
+    }
 
-    if (!isBestiaryData(parsed)) {
-      throw new Error('Beastiary file has invalid format');
+    const bestiary = read(this.BEASTIARY_FILE, true);
+    if (bestiary) {
+      issues.push(
+        ...DataValidator.validateBestiary(bestiary.data, bestiary.file)
+      );
     }
 
-    return parsed;
+    const names = read(this.NAMES_FILE, true);
+    if (names) {
+      issues.push(...DataValidator.validateNames(names.data, names.file));
+    }
+
+    const units = read(this.UNITS_FILE, false);
+    if (units) {
+      issues.push(...DataValidator.validateUnits(units.data, units.file));
+    }
+
+    return DataValidator.createReport(issues);
+  }
+
+  /**
+   * Throws with every error-level issue, one per line
+   */
+  private static assertValid(label: string, issues: DataIssue[]): void {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      throw new Error(
+        `${label} file has invalid format:\n${DataValidator.formatIssues(errors)}`
+      );
+    }
   }
 
   /**
    * Saves unit states to the units.json file
    */
-  public static saveUnits(units: BaseUnit[]): void {
-    const unitData = units.map(unit => ({
+  public static saveUnits(
+    units: BaseUnit[],
+    storage: StorageAdapter = this.storage
+  ): void {
+    const unitData = this.serializeUnits(units);
+
+    storage.write(
+      this.toStorageKey(this.UNITS_FILE),
+      JSON.stringify(unitData, null, 2)
+    );
+  }
+
+  /**
+   * Converts units to the plain data stored in units.json and save slots
+   */
+  public static serializeUnits(units: BaseUnit[]): SavedUnitData[] {
+    return units.map(unit => ({
       id: unit.id,
       name: unit.name,
       type: unit.type,
       properties: unit.properties,
     }));
-
-    fs.writeFileSync(this.UNITS_FILE, JSON.stringify(unitData, null, 2));
   }
 
   /**
-   * Saves diary entry to the diary.json file
+   * Returns the segmented diary store next to DIARY_FILE. Each storage backend
+   * keeps one store, so its index stays cached; a legacy diary.json array is
+   * imported when the store is first opened.
    */
-  public static saveDiaryEntry(entry: DiaryEntry): void {
-    let diary: DiaryEntry[] = [];
-
-    if (fs.existsSync(this.DIARY_FILE)) {
-      const content = fs.readFileSync(this.DIARY_FILE, 'utf-8');
-      diary = JSON.parse(content);
+  public static getDiaryStore(
+    storage: StorageAdapter = this.storage
+  ): DiaryStore {
+    const key = this.toStorageKey(this.DIARY_FILE);
+    const stores =
+      this.diaryStores.get(storage) ?? new Map<string, DiaryStore>();
+    this.diaryStores.set(storage, stores);
+
+    let store = stores.get(key);
+    if (!store) {
+      store = new DiaryStore(key, { storage });
+      store.migrateLegacy();
+      stores.set(key, store);
     }
+    return store;
+  }
 
-    diary.push(entry);
+  /**
+   * Appends a diary entry to the diary store
+   */
+  public static saveDiaryEntry(
+    entry: DiaryEntry,
+    storage: StorageAdapter = this.storage
+  ): void {
+    this.getDiaryStore(storage).append(entry);
+  }
 
-    fs.writeFileSync(this.DIARY_FILE, JSON.stringify(diary, null, 2));
+  /**
+   * Saves a full diary log, replacing any existing entries
+   */
+  public static saveDiaryLog(
+    entries: DiaryEntry[],
+    storage: StorageAdapter = this.storage
+  ): void {
+    this.getDiaryStore(storage).replaceAll(entries);
   }
 
   /**
-   * Saves a full diary log
+   * Loads all diary entries
+   * If the diary doesn't exist, returns an empty array
    */
-  public static saveDiaryLog(entries: DiaryEntry[]): void {
-    fs.writeFileSync(this.DIARY_FILE, JSON.stringify(entries, null, 2));
+  public static loadDiary(
+    storage: StorageAdapter = this.storage
+  ): DiaryEntry[] {
+    return Array.from(this.getDiaryStore(storage).read());
   }
 
   /**
-   * Loads diary entries
-   * If file doesn't exist, returns an empty array
+   * Loads the most recent diary entries without reading the whole history
    */
-  public static loadDiary(): DiaryEntry[] {
-    if (!fs.existsSync(this.DIARY_FILE)) {
-      return [];
-    }
+  public static loadRecentDiary(
+    limit: number,
+    storage: StorageAdapter = this.storage
+  ): DiaryEntry[] {
+    return this.getDiaryStore(storage).readTail(limit);
+  }
 
-    const content = fs.readFileSync(this.DIARY_FILE, 'utf-8');
-    return JSON.parse(content);
+  /**
+   * Streams diary entries, optionally filtered by turn range or round
+   */
+  public static streamDiary(
+    query: DiaryQuery = {},
+    storage: StorageAdapter = this.storage
+  ): Generator<DiaryEntry> {
+    return this.getDiaryStore(storage).read(query);
   }
 
   /**
    * Loads unit states from the units.json file
    * If file doesn't exist, returns an empty array
    */
-  public static loadUnits(): BaseUnit[] {
-    if (!fs.existsSync(this.UNITS_FILE)) {
+  public static loadUnits(storage: StorageAdapter = this.storage): BaseUnit[] {
+    const content = this.readFile(this.UNITS_FILE, storage);
+    if (content === null) {
       return [];
     }
 
-    const content = fs.readFileSync(this.UNITS_FILE, 'utf-8');
-    const unitData = JSON.parse(content) as BaseUnit[];
-
-    if (!Array.isArray(unitData)) {
-      return [];
-    }
+    const unitData: unknown = JSON.parse(content);
+    this.assertValid(
+      'Units',
+      DataValidator.validateUnits(unitData, this.toStorageKey(this.UNITS_FILE))
+    );
+    return this.deserializeUnits(unitData as SavedUnitData[]);
+  }
 
-    // Reconstruct BaseUnit instances properly
+  /**
+   * Reconstructs BaseUnit instances from serialized unit data
+   */
+  public static deserializeUnits(unitData: SavedUnitData[]): BaseUnit[] {
     return unitData.map(unit => {
       // Create the base unit
       const baseUnit = new BaseUnit(
@@ -166,40 +383,65 @@ export class DataManager {
   }
 
   /**
-   * Gets the last turn number from the diary entries
-   * If file doesn't exist or is empty, returns 0
+   * Gets the last turn number from the diary index
+   * If the diary doesn't exist or is empty, returns 0
    */
-  public static getLastTurnNumber(): number {
-    if (!fs.existsSync(this.DIARY_FILE)) {
-      return 0;
-    }
+  public static getLastTurnNumber(
+    storage: StorageAdapter = this.storage
+  ): number {
+    return this.getDiaryStore(storage).getLastTurn();
+  }
 
-    const content = fs.readFileSync(this.DIARY_FILE, 'utf-8');
-    const diary: DiaryEntry[] = JSON.parse(content);
+  /**
+   * Saves turn/round state to the turn-state.json file.
+   * Storage writes are atomic, so an interrupted write keeps the previous state.
+   */
+  public static saveTurnState(
+    state: TurnStateSnapshot,
+    storage: StorageAdapter = this.storage
+  ): void {
+    storage.write(
+      this.toStorageKey(this.TURN_STATE_FILE),
+      JSON.stringify(state, null, 2)
+    );
+  }
 
-    if (!diary || diary.length === 0) {
-      return 0;
+  /**
+   * Loads turn/round state from the turn-state.json file
+   * If file doesn't exist, returns null
+   */
+  public static loadTurnState(
+    storage: StorageAdapter = this.storage
+  ): TurnStateSnapshot | null {
+    const content = this.readFile(this.TURN_STATE_FILE, storage);
+    if (content === null) {
+      return null;
     }
 
-    // Find the highest turn number in the diary
-    return Math.max(...diary.map(entry => entry.turn));
+    return JSON.parse(content) as TurnStateSnapshot;
   }
 
   /**
    * Loads names catalog from the names.json file
    */
-  public static loadNames(): NamesData {
-    if (!fs.existsSync(this.NAMES_FILE)) {
+  public static loadNames(storage: StorageAdapter = this.storage): NamesData {
+    const data = this.readFile(this.NAMES_FILE, storage);
+    if (data === null) {
       throw new Error(`Names file not found: ${this.NAMES_FILE}`);
     }
 
-    const data = fs.readFileSync(this.NAMES_FILE, 'utf-8');
-    const jsonData = JSON.parse(data);
-    return jsonData;
+    const parsed: unknown = JSON.parse(data);
+    this.assertValid(
+      'Names',
+      DataValidator.validateNames(parsed, this.toStorageKey(this.NAMES_FILE))
+    );
+    return parsed as NamesData;
   }
 
   /**
-   * Creates data directory if it doesn't exist
+   * Creates data directory if it doesn't exist.
+   * Only needed when writing to DATA_DIR directly; storage adapters create
+   * what they need on write.
    */
   public static ensureDataDirectory(): void {
     if (!fs.existsSync(this.DATA_DIR)) {
@@ -209,15 +451,23 @@ export class DataManager {
 
   /**
    * Saves world to the world.json file using snapshot serialization
+   * @param options - Gate system and units to persist alongside the maps
    */
-  public static saveWorld(world: ChoukaiWorld): void {
+  public static saveWorld(
+    world: ChoukaiWorld,
+    options: WorldSnapshotOptions = {},
+    storage: StorageAdapter = this.storage
+  ): void {
     const logger = new Logger({ prefix: 'DataManager', disable: true });
     logger.info('DataManager.saveWorld called');
 
-    const serializedWorld = WorldSnapshotSerializer.serialize(world);
+    const serializedWorld = WorldSnapshotSerializer.serialize(world, options);
     logger.info('Writing serialized world to file:', this.WORLD_FILE);
 
-    fs.writeFileSync(this.WORLD_FILE, JSON.stringify(serializedWorld, null, 2));
+    storage.write(
+      this.toStorageKey(this.WORLD_FILE),
+      JSON.stringify(serializedWorld, null, 2)
+    );
     logger.info('World saved to file successfully');
   }
 
@@ -225,13 +475,26 @@ export class DataManager {
    * Loads world from the world.json file using snapshot deserialization
    * If file doesn't exist, returns null
    */
-  public static loadWorld(): ChoukaiWorld | null {
-    if (!fs.existsSync(this.WORLD_FILE)) {
+  public static loadWorld(
+    storage: StorageAdapter = this.storage
+  ): ChoukaiWorld | null {
+    return this.loadWorldState(storage)?.world ?? null;
+  }
+
+  /**
+   * Loads the world together with its gates and unit placement layer.
+   * Snapshots saved before versioning load with no gates or placements.
+   * If file doesn't exist, returns null
+   */
+  public static loadWorldState(
+    storage: StorageAdapter = this.storage
+  ): WorldSnapshotState | null {
+    const content = this.readFile(this.WORLD_FILE, storage);
+    if (content === null) {
       return null;
     }
 
-    const content = fs.readFileSync(this.WORLD_FILE, 'utf-8');
     const serializedWorld = JSON.parse(content);
-    return WorldSnapshotSerializer.deserialize(serializedWorld);
+    return WorldSnapshotSerializer.deserializeState(serializedWorld);
   }
 }
@@ -0,0 +1,952 @@
+/**
+ * Schema validation for the engine's JSON data files.
+ * Every problem is reported with the file, a JSON path (e.g. `$[3].effects[0].operation`)
+ * and a message, instead of stopping at the first one.
+ */
+
+import {
+  isNumber,
+  isProperty,
+  isRecord,
+  isString,
+  isUnitPosition,
+} from '../types/typeGuards';
+import { ConditionParser } from './ConditionParser';
+import { ExpressionEvaluator } from './ExpressionEvaluator';
+
+export type DataIssueSeverity = 'error' | 'warning';
+
+/**
+ * One problem found in a data file
+ */
+export interface DataIssue {
+  file: string;
+  path: string;
+  message: string;
+  severity: DataIssueSeverity;
+}
+
+export interface DataValidationReport {
+  valid: boolean;
+  issues: DataIssue[];
+}
+
+const EFFECT_TARGETS = [
+  'unit',
+  'self',
+  'target',
+  'world',
+  'all',
+  'ally',
+  'enemy',
+  'area',
+];
+const EFFECT_OPERATIONS = [
+  'add',
+  'subtract',
+  'multiply',
+  'divide',
+  'set',
+  'create',
+  'remove',
+];
+const EFFECT_VALUE_TYPES = [
+  'static',
+  'calculation',
+  'random',
+  'modifyProperty',
+];
+const TARGETING_TYPES = ['none', 'self', 'ally', 'hostile', 'any'];
+const TARGET_AREAS = ['single', 'radius', 'diamond', 'line', 'cone', 'square'];
+const AREA_ORIGINS = ['target', 'actor'];
+const EXPLORATION_STRATEGIES = ['random', 'frontier', 'patrol', 'gates'];
+const DAMAGE_TYPES = ['physical', 'magical'];
+const TARGET_STATUSES = ['alive', 'dead'];
+const DURATION_UNITS = ['turn', 'round'];
+const STACKING_RULES = ['refresh', 'stack', 'ignore'];
+const GOAL_SCOPES = ['unit', 'squad'];
+const COMPLETION_TYPES = ['stat_at_least', 'condition_met', 'none'];
+const GOAL_INPUTS = [
+  'healthPct',
+  'manaPct',
+  'hostilesAvailable',
+  'hostileCount',
+  'nearestHostileDistance',
+  'allyCount',
+  'lowestAllyHealthPct',
+  'squadSize',
+  'squadSpread',
+  'rallyPointDistance',
+  'squadHealthPct',
+  'focusTargetAvailable',
+];
+const SQUAD_SUBGOALS = [
+  'keep_formation',
+  'attack_focus_target',
+  'move_to_rally_point',
+];
+const CURVE_TYPES = ['step', 'linear'];
+
+const ACTION_KEYS = [
+  'type',
+  'description',
+  'player',
+  'requirements',
+  'payload',
+  'effects',
+  'targeting',
+  'exploration',
+];
+const EFFECT_KEYS = [
+  'target',
+  'property',
+  'operation',
+  'value',
+  'permanent',
+  'condition',
+  'duration',
+  'durationUnit',
+  'stacking',
+  'friendlyFire',
+  'falloff',
+  'damageType',
+];
+const TARGETING_KEYS = [
+  'type',
+  'area',
+  'areaSize',
+  'areaOrigin',
+  'minRange',
+  'maxRange',
+  'lineOfSight',
+  'status',
+];
+const EXPLORATION_KEYS = ['strategy', 'patrolRadius'];
+const GOAL_KEYS = [
+  'id',
+  'label',
+  'scope',
+  'completion',
+  'candidateActions',
+  'scoring',
+  'cooldown',
+  'subgoal',
+];
+const SCORING_KEYS = ['weight', 'considerations', 'reason'];
+const CONSIDERATION_KEYS = ['input', 'curve'];
+const STEP_CURVE_KEYS = ['type', 'steps', 'otherwise'];
+const CURVE_STEP_KEYS = ['below', 'atMost', 'value', 'reason'];
+const LINEAR_CURVE_KEYS = ['type', 'from', 'to', 'exponent'];
+const NAME_KEYS = ['male', 'female'];
+
+/** Saved units also hold engine state (memory, visited cells, goal state) as nested JSON. */
+const isStateProperty = (
+  value: unknown
+): value is { name: string; value: unknown } =>
+  isRecord(value) && isString(value.name) && 'value' in value;
+
+const formatList = (values: string[]): string =>
+  values.map(value => `"${value}"`).join(', ');
+
+/**
+ * Collects issues for a single file
+ */
+class IssueCollector {
+  public readonly issues: DataIssue[] = [];
+  private readonly file: string;
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  public error(path: string, message: string): void {
+    this.issues.push({ file: this.file, path, message, severity: 'error' });
+  }
+
+  public warning(path: string, message: string): void {
+    this.issues.push({ file: this.file, path, message, severity: 'warning' });
+  }
+
+  public requireString(
+    value: Record<string, unknown>,
+    key: string,
+    path: string
+  ): void {
+    if (!isString(value[key]) || value[key].length === 0) {
+      this.error(`${path}.${key}`, 'Expected a non-empty string');
+    }
+  }
+
+  public checkOneOf(
+    value: unknown,
+    allowed: string[],
+    path: string,
+    required: boolean = true
+  ): void {
+    if (value === undefined && !required) {
+      return;
+    }
+    if (!isString(value) || !allowed.includes(value)) {
+      this.error(
+        path,
+        `Expected one of ${formatList(allowed)}, got ${JSON.stringify(value)}`
+      );
+    }
+  }
+
+  public checkUnknownKeys(
+    value: Record<string, unknown>,
+    known: string[],
+    path: string
+  ): void {
+    for (const key of Object.keys(value)) {
+      if (!known.includes(key)) {
+        this.warning(`${path}.${key}`, 'Unknown field is ignored');
+      }
+    }
+  }
+}
+
+/**
+ * Utility class validating data files against their schemas
+ */
+export class DataValidator {
+  /**
+   * Validates actions.json: action shape, requirements, effects, and that
+   * every condition and calculation expression parses
+   */
+  public static validateActions(data: unknown, file: string): DataIssue[] {
+    const collector = new IssueCollector(file);
+    if (!Array.isArray(data)) {
+      collector.error('$', 'Expected an array of actions');
+      return collector.issues;
+    }
+
+    const seenTypes = new Set<string>();
+    data.forEach((action: unknown, index) => {
+      const path = `$[${index}]`;
+      if (!isRecord(action)) {
+        collector.error(path, 'Expected an action object');
+        return;
+      }
+
+      collector.checkUnknownKeys(action, ACTION_KEYS, path);
+      collector.requireString(action, 'type', path);
+      collector.requireString(action, 'description', path);
+      const type = isString(action.type) ? action.type : `#${index}`;
+      if (isString(action.type)) {
+        if (seenTypes.has(action.type)) {
+          collector.warning(
+            `${path}.type`,
+            `Duplicate action type "${action.type}"; lookups by type use the first definition`
+          );
+        }
+        seenTypes.add(action.type);
+      }
+
+      if (action.payload !== undefined && !isRecord(action.payload)) {
+        collector.error(`${path}.payload`, 'Expected an object');
+      }
+      if (action.targeting !== undefined) {
+        this.validateTargeting(
+          action.targeting,
+          `${path}.targeting`,
+          collector
+        );
+      }
+      if (action.exploration !== undefined) {
+        this.validateExploration(
+          action.exploration,
+          `${path}.exploration`,
+          collector
+        );
+      }
+
+      if (action.requirements !== undefined) {
+        this.validateRequirements(
+          action.requirements,
+          `${path}.requirements`,
+          collector
+        );
+      }
+
+      if (action.effects !== undefined) {
+        if (!Array.isArray(action.effects)) {
+          collector.error(`${path}.effects`, 'Expected an array of effects');
+        } else {
+          action.effects.forEach((effect: unknown, effectIndex) =>
+            this.validateEffect(
+              effect,
+              `${path}.effects[${effectIndex}]`,
+              `action "${type}" effect ${effectIndex}`,
+              collector
+            )
+          );
+        }
+      }
+    });
+
+    return collector.issues;
+  }
+
+  /**
+   * Validates goals.json. When `actionTypes` is given, every candidate
+   * action must be one of them.
+   */
+  public static validateGoals(
+    data: unknown,
+    file: string,
+    actionTypes?: Iterable<string>
+  ): DataIssue[] {
+    const collector = new IssueCollector(file);
+    if (!Array.isArray(data)) {
+      collector.error('$', 'Expected an array of goals');
+      return collector.issues;
+    }
+
+    const knownActions = actionTypes ? new Set(actionTypes) : null;
+    const seenIds = new Set<string>();
+    data.forEach((goal: unknown, index) => {
+      const path = `$[${index}]`;
+      if (!isRecord(goal)) {
+        collector.error(path, 'Expected a goal object');
+        return;
+      }
+
+      collector.checkUnknownKeys(goal, GOAL_KEYS, path);
+      collector.requireString(goal, 'id', path);
+      collector.requireString(goal, 'label', path);
+      collector.checkOneOf(goal.scope, GOAL_SCOPES, `${path}.scope`, false);
+      collector.checkOneOf(
+        goal.subgoal,
+        SQUAD_SUBGOALS,
+        `${path}.subgoal`,
+        goal.scope === 'squad'
+      );
+      if (isString(goal.id)) {
+        if (seenIds.has(goal.id)) {
+          collector.error(`${path}.id`, `Duplicate goal id "${goal.id}"`);
+        }
+        seenIds.add(goal.id);
+      }
+
+      this.validateCompletion(goal.completion, `${path}.completion`, collector);
+      if (goal.scoring !== undefined) {
+        this.validateScoring(goal.scoring, `${path}.scoring`, collector);
+      }
+      if (
+        goal.cooldown !== undefined &&
+        (!Number.isInteger(goal.cooldown) || (goal.cooldown as number) < 0)
+      ) {
+        collector.error(`${path}.cooldown`, 'Expected a non-negative integer');
+      }
+
+      if (!Array.isArray(goal.candidateActions)) {
+        collector.error(
+          `${path}.candidateActions`,
+          'Expected an array of action types'
+        );
+        return;
+      }
+      goal.candidateActions.forEach((actionType: unknown, actionIndex) => {
+        const actionPath = `${path}.candidateActions[${actionIndex}]`;
+        if (!isString(actionType)) {
+          collector.error(actionPath, 'Expected an action type string');
+        } else if (knownActions && !knownActions.has(actionType)) {
+          collector.error(
+            actionPath,
+            `Unknown action "${actionType}"; it is not defined in the actions file`
+          );
+        }
+      });
+    });
+
+    return collector.issues;
+  }
+
+  /**
+   * Validates beastiary.json: unit definitions with unique ids
+   */
+  public static validateBestiary(data: unknown, file: string): DataIssue[] {
+    return this.validateUnitList(data, file, 'bestiary entry');
+  }
+
+  /**
+   * Validates saved units (units.json): unit definitions with unique ids and
+   * well-formed positions. Property values may be any JSON, as the engine
+   * stores unit state there.
+   */
+  public static validateUnits(data: unknown, file: string): DataIssue[] {
+    return this.validateUnitList(data, file, 'unit', true);
+  }
+
+  /**
+   * Validates names.json: optional `male` and `female` name lists
+   */
+  public static validateNames(data: unknown, file: string): DataIssue[] {
+    const collector = new IssueCollector(file);
+    if (!isRecord(data)) {
+      collector.error('$', 'Expected an object with name lists');
+      return collector.issues;
+    }
+
+    collector.checkUnknownKeys(data, NAME_KEYS, '$');
+    for (const key of NAME_KEYS) {
+      const names = data[key];
+      if (names === undefined) continue;
+      if (!Array.isArray(names)) {
+        collector.error(`$.${key}`, 'Expected an array of names');
+        continue;
+      }
+      names.forEach((name: unknown, index) => {
+        if (!isString(name) || name.trim().length === 0) {
+          collector.error(`$.${key}[${index}]`, 'Expected a non-empty string');
+        }
+      });
+    }
+
+    return collector.issues;
+  }
+
+  /**
+   * Builds a report; the data is valid when no issue is an error
+   */
+  public static createReport(issues: DataIssue[]): DataValidationReport {
+    return {
+      valid: issues.every(issue => issue.severity !== 'error'),
+      issues,
+    };
+  }
+
+  /**
+   * Formats issues one per line as `severity file path: message`
+   */
+  public static formatIssues(issues: DataIssue[]): string {
+    return issues
+      .map(
+        issue =>
+          `${issue.severity} ${issue.file} ${issue.path}: ${issue.message}`
+      )
+      .join('\n');
+  }
+
+  private static validateRequirements(
+    requirements: unknown,
+    path: string,
+    collector: IssueCollector
+  ): void {
+    if (!Array.isArray(requirements)) {
+      collector.error(path, 'Expected an array of requirements');
+      return;
+    }
+
+    requirements.forEach((requirement: unknown, index) => {
+      const requirementPath = `${path}[${index}]`;
+      if (!isRecord(requirement)) {
+        collector.error(requirementPath, 'Expected a requirement object');
+        return;
+      }
+      collector.requireString(requirement, 'type', requirementPath);
+      if (!isNumber(requirement.value)) {
+        collector.error(`${requirementPath}.value`, 'Expected a number');
+      }
+      if (requirement.type !== 'comparison') {
+        return;
+      }
+
+      collector.requireString(requirement, 'property', requirementPath);
+      collector.requireString(requirement, 'operator', requirementPath);
+      if (
+        isString(requirement.property) &&
+        isString(requirement.operator) &&
+        isNumber(requirement.value)
+      ) {
+        // Requirements are checked as `<property> <operator> <value>` conditions
+        const error = ConditionParser.validate(
+          `${requirement.property} ${requirement.operator} ${requirement.value}`
+        );
+        if (error) {
+          collector.error(
+            `${requirementPath}.operator`,
+            `Invalid comparison: ${error}`
+          );
+        }
+      }
+    });
+  }
+
+  private static validateTargeting(
+    targeting: unknown,
+    path: string,
+    collector: IssueCollector
+  ): void {
+    if (!isRecord(targeting)) {
+      collector.error(path, 'Expected a targeting object');
+      return;
+    }
+
+    collector.checkUnknownKeys(targeting, TARGETING_KEYS, path);
+    collector.checkOneOf(targeting.type, TARGETING_TYPES, `${path}.type`);
+    collector.checkOneOf(targeting.area, TARGET_AREAS, `${path}.area`, false);
+    collector.checkOneOf(
+      targeting.areaOrigin,
+      AREA_ORIGINS,
+      `${path}.areaOrigin`,
+      false
+    );
+    if (
+      targeting.areaSize !== undefined &&
+      (!isNumber(targeting.areaSize) || targeting.areaSize <= 0)
+    ) {
+      collector.error(`${path}.areaSize`, 'Expected a positive number');
+    }
+    collector.checkOneOf(
+      targeting.status,
+      TARGET_STATUSES,
+      `${path}.status`,
+      false
+    );
+    for (const key of ['minRange', 'maxRange']) {
+      const range = targeting[key];
+      if (range !== undefined && (!isNumber(range) || range < 0)) {
+        collector.error(`${path}.${key}`, 'Expected a non-negative number');
+      }
+    }
+    if (
+      isNumber(targeting.minRange) &&
+      isNumber(targeting.maxRange) &&
+      targeting.minRange > targeting.maxRange
+    ) {
+      collector.error(`${path}.minRange`, 'Must not exceed maxRange');
+    }
+    if (
+      targeting.lineOfSight !== undefined &&
+      typeof targeting.lineOfSight !== 'boolean'
+    ) {
+      collector.error(`${path}.lineOfSight`, 'Expected a boolean');
+    }
+  }
+
+  private static validateExploration(
+    exploration: unknown,
+    path: string,
+    collector: IssueCollector
+  ): void {
+    if (!isRecord(exploration)) {
+      collector.error(path, 'Expected an exploration object');
+      return;
+    }
+
+    collector.checkUnknownKeys(exploration, EXPLORATION_KEYS, path);
+    collector.checkOneOf(
+      exploration.strategy,
+      EXPLORATION_STRATEGIES,
+      `${path}.strategy`
+    );
+    if (
+      exploration.patrolRadius !== undefined &&
+      (!isNumber(exploration.patrolRadius) || exploration.patrolRadius <= 0)
+    ) {
+      collector.error(`${path}.patrolRadius`, 'Expected a positive number');
+    }
+  }
+
+  private static validateEffect(
+    effect: unknown,
+    path: string,
+    label: string,
+    collector: IssueCollector
+  ): void {
+    if (!isRecord(effect)) {
+      collector.error(path, 'Expected an effect object');
+      return;
+    }
+
+    collector.checkUnknownKeys(effect, EFFECT_KEYS, path);
+    if (isString(effect.target) && !EFFECT_TARGETS.includes(effect.target)) {
+      // Unknown targets fall back to the acting unit at runtime
+      collector.warning(
+        `${path}.target`,
+        `Unknown target ${JSON.stringify(effect.target)} applies the effect to the acting unit; expected one of ${formatList(EFFECT_TARGETS)}`
+      );
+    } else {
+      collector.checkOneOf(effect.target, EFFECT_TARGETS, `${path}.target`);
+    }
+    collector.requireString(effect, 'property', path);
+    collector.checkOneOf(
+      effect.operation,
+      EFFECT_OPERATIONS,
+      `${path}.operation`
+    );
+    if (typeof effect.permanent !== 'boolean') {
+      collector.error(`${path}.permanent`, 'Expected a boolean');
+    }
+
+    if (effect.condition !== undefined) {
+      const error = isString(effect.condition)
+        ? ConditionParser.validate(effect.condition)
+        : 'Expected a condition string';
+      if (error) {
+        collector.error(
+          `${path}.condition`,
+          `Invalid condition in ${label}: ${error}`
+        );
+      }
+    }
+
+    if (
+      effect.duration !== undefined &&
+      (!Number.isInteger(effect.duration) || (effect.duration as number) <= 0)
+    ) {
+      collector.error(`${path}.duration`, 'Expected a positive integer');
+    }
+    collector.checkOneOf(
+      effect.durationUnit,
+      DURATION_UNITS,
+      `${path}.durationUnit`,
+      false
+    );
+    collector.checkOneOf(
+      effect.stacking,
+      STACKING_RULES,
+      `${path}.stacking`,
+      false
+    );
+    collector.checkOneOf(
+      effect.damageType,
+      DAMAGE_TYPES,
+      `${path}.damageType`,
+      false
+    );
+    if (
+      effect.friendlyFire !== undefined &&
+      typeof effect.friendlyFire !== 'boolean'
+    ) {
+      collector.error(`${path}.friendlyFire`, 'Expected a boolean');
+    }
+    if (
+      effect.falloff !== undefined &&
+      (!isNumber(effect.falloff) || effect.falloff < 0 || effect.falloff > 1)
+    ) {
+      collector.error(`${path}.falloff`, 'Expected a number from 0 to 1');
+    }
+
+    this.validateEffectValue(effect.value, `${path}.value`, label, collector);
+  }
+
+  private static validateEffectValue(
+    value: unknown,
+    path: string,
+    label: string,
+    collector: IssueCollector
+  ): void {
+    if (!isRecord(value)) {
+      collector.error(path, 'Expected an effect value object');
+      return;
+    }
+
+    collector.checkOneOf(value.type, EFFECT_VALUE_TYPES, `${path}.type`);
+    switch (value.type) {
+      case 'static':
+        if (isString(value.value)) {
+          collector.warning(
+            `${path}.value`,
+            'Non-numeric static value; numeric operations cannot apply it'
+          );
+        } else if (value.value !== undefined && !isNumber(value.value)) {
+          collector.error(`${path}.value`, 'Expected a number');
+        }
+        break;
+      case 'calculation': {
+        if (value.value !== undefined && !isNumber(value.value)) {
+          collector.error(`${path}.value`, 'Expected a number');
+        }
+        if (value.expression === undefined) break;
+        const error = isString(value.expression)
+          ? ExpressionEvaluator.validate(value.expression)
+          : 'Expected an expression string';
+        if (error) {
+          collector.error(
+            `${path}.expression`,
+            `Invalid calculation expression in ${label}: ${error}`
+          );
+        }
+        break;
+      }
+      case 'random':
+        if (!isNumber(value.min)) {
+          collector.error(`${path}.min`, 'Expected a number');
+        }
+        if (!isNumber(value.max)) {
+          collector.error(`${path}.max`, 'Expected a number');
+        }
+        if (
+          isNumber(value.min) &&
+          isNumber(value.max) &&
+          value.min > value.max
+        ) {
+          collector.error(
+            path,
+            `min (${value.min}) is greater than max (${value.max})`
+          );
+        }
+        break;
+      case 'modifyProperty':
+        collector.requireString(value, 'key', path);
+        if (isRecord(value.value)) {
+          this.validateEffectValue(
+            value.value,
+            `${path}.value`,
+            label,
+            collector
+          );
+        } else if (
+          value.value !== undefined &&
+          !isNumber(value.value) &&
+          !isString(value.value)
+        ) {
+          collector.error(
+            `${path}.value`,
+            'Expected a number, string or effect value object'
+          );
+        }
+        break;
+    }
+  }
+
+  private static validateCompletion(
+    completion: unknown,
+    path: string,
+    collector: IssueCollector
+  ): void {
+    if (!isRecord(completion)) {
+      collector.error(path, 'Expected a completion object');
+      return;
+    }
+
+    collector.checkOneOf(completion.type, COMPLETION_TYPES, `${path}.type`);
+    if (completion.type === 'stat_at_least') {
+      collector.requireString(completion, 'stat', path);
+      if (!isNumber(completion.value)) {
+        collector.error(`${path}.value`, 'Expected a number');
+      }
+    }
+    if (completion.type === 'condition_met') {
+      if (!isString(completion.condition)) {
+        collector.error(`${path}.condition`, 'Expected a condition string');
+        return;
+      }
+      const error = ConditionParser.validate(completion.condition);
+      if (error) {
+        collector.error(`${path}.condition`, `Invalid condition: ${error}`);
+      }
+    }
+  }
+
+  private static validateScoring(
+    scoring: unknown,
+    path: string,
+    collector: IssueCollector
+  ): void {
+    if (!isRecord(scoring)) {
+      collector.error(path, 'Expected a scoring object');
+      return;
+    }
+
+    collector.checkUnknownKeys(scoring, SCORING_KEYS, path);
+    if (
+      scoring.weight !== undefined &&
+      (!isNumber(scoring.weight) || scoring.weight < 0)
+    ) {
+      collector.error(`${path}.weight`, 'Expected a non-negative number');
+    }
+    if (scoring.reason !== undefined && !isString(scoring.reason)) {
+      collector.error(`${path}.reason`, 'Expected a string');
+    }
+    if (scoring.considerations === undefined) {
+      return;
+    }
+    if (!Array.isArray(scoring.considerations)) {
+      collector.error(
+        `${path}.considerations`,
+        'Expected an array of considerations'
+      );
+      return;
+    }
+
+    scoring.considerations.forEach((consideration: unknown, index) => {
+      const considerationPath = `${path}.considerations[${index}]`;
+      if (!isRecord(consideration)) {
+        collector.error(considerationPath, 'Expected a consideration object');
+        return;
+      }
+      collector.checkUnknownKeys(
+        consideration,
+        CONSIDERATION_KEYS,
+        considerationPath
+      );
+      collector.checkOneOf(
+        consideration.input,
+        GOAL_INPUTS,
+        `${considerationPath}.input`
+      );
+      this.validateCurve(
+        consideration.curve,
+        `${considerationPath}.curve`,
+        collector
+      );
+    });
+  }
+
+  private static validateCurve(
+    curve: unknown,
+    path: string,
+    collector: IssueCollector
+  ): void {
+    if (!isRecord(curve)) {
+      collector.error(path, 'Expected a curve object');
+      return;
+    }
+
+    collector.checkOneOf(curve.type, CURVE_TYPES, `${path}.type`);
+    if (curve.type === 'step') {
+      collector.checkUnknownKeys(curve, STEP_CURVE_KEYS, path);
+      if (curve.otherwise !== undefined && !isNumber(curve.otherwise)) {
+        collector.error(`${path}.otherwise`, 'Expected a number');
+      }
+      if (!Array.isArray(curve.steps) || curve.steps.length === 0) {
+        collector.error(`${path}.steps`, 'Expected a non-empty array of steps');
+        return;
+      }
+      curve.steps.forEach((step: unknown, index) => {
+        const stepPath = `${path}.steps[${index}]`;
+        if (!isRecord(step)) {
+          collector.error(stepPath, 'Expected a step object');
+          return;
+        }
+        collector.checkUnknownKeys(step, CURVE_STEP_KEYS, stepPath);
+        if (!isNumber(step.value)) {
+          collector.error(`${stepPath}.value`, 'Expected a number');
+        }
+        const bounds = ['below', 'atMost'].filter(key => isNumber(step[key]));
+        if (bounds.length !== 1) {
+          collector.error(stepPath, 'Expected exactly one of below or atMost');
+        }
+        if (step.reason !== undefined && !isString(step.reason)) {
+          collector.error(`${stepPath}.reason`, 'Expected a string');
+        }
+      });
+    }
+    if (curve.type === 'linear') {
+      collector.checkUnknownKeys(curve, LINEAR_CURVE_KEYS, path);
+      for (const key of ['from', 'to']) {
+        const point = curve[key];
+        if (!isRecord(point) || !isNumber(point.x) || !isNumber(point.y)) {
+          collector.error(
+            `${path}.${key}`,
+            'Expected a point with numeric x and y'
+          );
+        }
+      }
+      if (
+        isRecord(curve.from) &&
+        isRecord(curve.to) &&
+        curve.from.x === curve.to.x
+      ) {
+        collector.error(`${path}.to.x`, 'Must differ from from.x');
+      }
+      if (
+        curve.exponent !== undefined &&
+        (!isNumber(curve.exponent) || curve.exponent <= 0)
+      ) {
+        collector.error(`${path}.exponent`, 'Expected a positive number');
+      }
+    }
+  }
+
+  private static validateResistances(
+    value: unknown,
+    path: string,
+    collector: IssueCollector
+  ): void {
+    if (!isRecord(value)) {
+      collector.error(path, 'Expected a map of damage type to resistance');
+      return;
+    }
+    for (const [damageType, resistance] of Object.entries(value)) {
+      collector.checkOneOf(damageType, DAMAGE_TYPES, `${path}.${damageType}`);
+      if (!isNumber(resistance) || resistance < -1 || resistance > 1) {
+        collector.error(
+          `${path}.${damageType}`,
+          'Expected a number from -1 to 1'
+        );
+      }
+    }
+  }
+
+  private static validateUnitList(
+    data: unknown,
+    file: string,
+    label: string,
+    allowStateValues: boolean = false
+  ): DataIssue[] {
+    const collector = new IssueCollector(file);
+    if (!Array.isArray(data)) {
+      collector.error('$', `Expected an array of ${label} definitions`);
+      return collector.issues;
+    }
+
+    const seenIds = new Set<string>();
+    data.forEach((unit: unknown, index) => {
+      const path = `$[${index}]`;
+      if (!isRecord(unit)) {
+        collector.error(path, `Expected a ${label} object`);
+        return;
+      }
+
+      collector.requireString(unit, 'id', path);
+      collector.requireString(unit, 'name', path);
+      collector.requireString(unit, 'type', path);
+      if (isString(unit.id)) {
+        if (seenIds.has(unit.id)) {
+          collector.error(`${path}.id`, `Duplicate ${label} id "${unit.id}"`);
+        }
+        seenIds.add(unit.id);
+      }
+
+      if (!isRecord(unit.properties)) {
+        collector.error(`${path}.properties`, 'Expected a property collection');
+        return;
+      }
+      const isValidProperty: (
+        value: unknown
+      ) => value is { name: string; value: unknown } = allowStateValues
+        ? isStateProperty
+        : isProperty;
+      for (const [key, property] of Object.entries(unit.properties)) {
+        const propertyPath = `${path}.properties.${key}`;
+        if (!isValidProperty(property)) {
+          collector.error(
+            propertyPath,
+            allowStateValues
+              ? 'Expected a property with a name and a value'
+              : 'Expected a property with a name and a scalar, map or position value'
+          );
+        } else if (key === 'position' && !isUnitPosition(property.value)) {
+          collector.error(
+            `${propertyPath}.value`,
+            'Expected a unit position with unitId, mapId and position'
+          );
+        } else if (key === 'resistances') {
+          this.validateResistances(
+            property.value,
+            `${propertyPath}.value`,
+            collector
+          );
+        }
+      }
+    });
+
+    return collector.issues;
+  }
+}
@@ -0,0 +1,424 @@
+/**
+ * Append-only diary storage.
+ * Entries are written as JSON Lines into numbered segment files; a small index
+ * records the turn/round range of each segment so readers can skip segments and
+ * stream only the lines they need. A torn trailing line (crash mid-append) is
+ * truncated the next time the store is opened.
+ */
+
+import type { DiaryEntry } from '../types';
+import {
+  FileSystemStorageAdapter,
+  type StorageAdapter,
+} from './StorageAdapter';
+
+/**
+ * Index record for one JSONL segment
+ */
+export interface DiarySegmentInfo {
+  file: string;
+  count: number;
+  bytes: number;
+  minTurn?: number;
+  maxTurn?: number;
+  minRound?: number;
+  maxRound?: number;
+}
+
+export interface DiaryIndex {
+  version: number;
+  segments: DiarySegmentInfo[];
+}
+
+/**
+ * Inclusive filters for streaming diary entries
+ */
+export interface DiaryQuery {
+  fromTurn?: number;
+  toTurn?: number;
+  round?: number;
+}
+
+export interface DiaryStoreOptions {
+  /** Directory holding segments and the index; defaults to the legacy file path without its extension. */
+  directory?: string;
+  /** Entries written to a segment before rotating to a new one. */
+  maxEntriesPerSegment?: number;
+  /** Backend holding the legacy file, segments and index; defaults to the filesystem. */
+  storage?: StorageAdapter;
+}
+
+const INDEX_VERSION = 1;
+const INDEX_FILE = 'index.json';
+const SEGMENT_PATTERN = /^segment-(\d+)\.jsonl$/;
+
+const encoder = new TextEncoder();
+
+/** Storage keys always use `/`, as `DataManager.toStorageKey` produces them. */
+const joinKey = (directory: string, name: string): string =>
+  `${directory}/${name}`;
+
+const segmentFileName = (id: number): string =>
+  `segment-${String(id).padStart(6, '0')}.jsonl`;
+
+const parseEntry = (line: string): DiaryEntry | null => {
+  if (line.trim().length === 0) {
+    return null;
+  }
+  try {
+    return JSON.parse(line) as DiaryEntry;
+  } catch {
+    return null;
+  }
+};
+
+export class DiaryStore {
+  public readonly legacyFile: string;
+  public readonly directory: string;
+  private readonly maxEntriesPerSegment: number;
+  private readonly storage: StorageAdapter;
+  private index: DiaryIndex | null = null;
+
+  constructor(legacyFile: string, options: DiaryStoreOptions = {}) {
+    this.legacyFile = legacyFile;
+    this.directory = options.directory ?? legacyFile.replace(/\.[^./]*$/, '');
+    this.maxEntriesPerSegment = Math.max(
+      1,
+      options.maxEntriesPerSegment ?? 500
+    );
+    this.storage = options.storage ?? new FileSystemStorageAdapter();
+  }
+
+  /**
+   * Appends one entry to the active segment
+   */
+  public append(entry: DiaryEntry): void {
+    this.appendMany([entry]);
+  }
+
+  /**
+   * Appends entries in order, rotating segments as they fill up.
+   * The index is rewritten once, atomically, after the lines are on disk.
+   */
+  public appendMany(entries: Iterable<DiaryEntry>): void {
+    const index = this.loadIndex();
+    let segment = index.segments[index.segments.length - 1];
+    let lines = '';
+
+    const flush = (): void => {
+      if (!segment || lines.length === 0) return;
+      this.storage.append(this.segmentPath(segment), lines);
+      segment.bytes += encoder.encode(lines).length;
+      lines = '';
+    };
+
+    try {
+      for (const entry of entries) {
+        if (!segment || segment.count >= this.maxEntriesPerSegment) {
+          flush();
+          segment = this.rotate(index);
+        }
+        lines += `${JSON.stringify(entry)}\n`;
+        this.recordEntry(segment, entry);
+      }
+      flush();
+      this.writeIndex(index);
+    } catch (error) {
+      // Drop the in-memory index so the next call recovers from disk
+      this.index = null;
+      throw error;
+    }
+  }
+
+  /**
+   * Streams entries in write order, skipping segments outside the query range
+   */
+  public *read(query: DiaryQuery = {}): Generator<DiaryEntry> {
+    const segments = [...this.loadIndex().segments];
+    for (const segment of segments) {
+      if (!this.segmentMatches(segment, query)) continue;
+      for (const entry of this.readSegment(segment)) {
+        if (this.entryMatches(entry, query)) {
+          yield entry;
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the last `limit` entries, reading only the segments that hold them
+   */
+  public readTail(limit: number): DiaryEntry[] {
+    if (limit <= 0) {
+      return [];
+    }
+
+    const segments = this.loadIndex().segments;
+    const selected: DiarySegmentInfo[] = [];
+    let total = 0;
+    for (let i = segments.length - 1; i >= 0 && total < limit; i--) {
+      const segment = segments[i] as DiarySegmentInfo;
+      selected.unshift(segment);
+      total += segment.count;
+    }
+
+    const tail: DiaryEntry[] = [];
+    for (const segment of selected) {
+      for (const entry of this.readSegment(segment)) {
+        tail.push(entry);
+        if (tail.length > limit) {
+          tail.shift();
+        }
+      }
+    }
+    return tail;
+  }
+
+  /**
+   * Highest turn recorded in the index; 0 when the diary is empty
+   */
+  public getLastTurn(): number {
+    return this.loadIndex().segments.reduce(
+      (max, segment) => Math.max(max, segment.maxTurn ?? 0),
+      0
+    );
+  }
+
+  /**
+   * Number of entries across all segments
+   */
+  public getEntryCount(): number {
+    return this.loadIndex().segments.reduce(
+      (total, segment) => total + segment.count,
+      0
+    );
+  }
+
+  /**
+   * Gets a copy of the segment index
+   */
+  public getIndex(): DiaryIndex {
+    const index = this.loadIndex();
+    return {
+      version: index.version,
+      segments: index.segments.map(segment => ({ ...segment })),
+    };
+  }
+
+  /**
+   * Replaces the whole diary. Segments are built in a staging directory and
+   * swapped in with renames so readers never see a half-written diary.
+   */
+  public replaceAll(entries: Iterable<DiaryEntry>): void {
+    const staging = `${this.directory}.staging`;
+    const previous = `${this.directory}.previous`;
+    this.storage.remove(staging);
+    this.storage.remove(previous);
+
+    const stagingStore = new DiaryStore(this.legacyFile, {
+      directory: staging,
+      maxEntriesPerSegment: this.maxEntriesPerSegment,
+      storage: this.storage,
+    });
+    stagingStore.appendMany(entries);
+
+    if (this.storage.exists(this.directory)) {
+      this.storage.rename(this.directory, previous);
+    }
+    if (this.storage.exists(staging)) {
+      this.storage.rename(staging, this.directory);
+    }
+    this.storage.remove(previous);
+    this.index = null;
+  }
+
+  /**
+   * Imports a legacy `diary.json` array written before segmented storage.
+   * Legacy entries are placed before any already-segmented entries and the
+   * legacy file is renamed to `<file>.bak`. Returns the number of imported entries.
+   */
+  public migrateLegacy(): number {
+    const content = this.storage.read(this.legacyFile);
+    if (content === null) {
+      return 0;
+    }
+
+    const parsed: unknown = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error(
+        `Legacy diary file has invalid format: ${this.legacyFile}`
+      );
+    }
+
+    const legacy = parsed as DiaryEntry[];
+    if (this.loadIndex().segments.length === 0) {
+      this.appendMany(legacy);
+    } else {
+      const existing = this.read();
+      this.replaceAll(
+        (function* () {
+          yield* legacy;
+          yield* existing;
+        })()
+      );
+    }
+
+    this.storage.rename(this.legacyFile, `${this.legacyFile}.bak`);
+    return legacy.length;
+  }
+
+  private loadIndex(): DiaryIndex {
+    if (this.index) {
+      return this.index;
+    }
+
+    const onDisk = this.listSegmentFiles();
+    let index = this.readIndexFile();
+    const indexed = index?.segments.map(segment => segment.file) ?? [];
+    if (
+      !index ||
+      indexed.length !== onDisk.length ||
+      indexed.some((file, i) => file !== onDisk[i])
+    ) {
+      index = {
+        version: INDEX_VERSION,
+        segments: onDisk.map(file => this.scanSegment(file)),
+      };
+      if (onDisk.length > 0) {
+        this.writeIndex(index);
+      }
+    }
+
+    const last = index.segments[index.segments.length - 1];
+    if (last && this.storage.size(this.segmentPath(last)) !== last.bytes) {
+      index.segments[index.segments.length - 1] = this.scanSegment(last.file);
+      this.writeIndex(index);
+    }
+
+    this.index = index;
+    return index;
+  }
+
+  private readIndexFile(): DiaryIndex | null {
+    const content = this.storage.read(joinKey(this.directory, INDEX_FILE));
+    if (content === null) {
+      return null;
+    }
+    try {
+      const parsed = JSON.parse(content) as DiaryIndex;
+      return parsed.version === INDEX_VERSION && Array.isArray(parsed.segments)
+        ? parsed
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Replaces the index atomically through the storage backend
+   */
+  private writeIndex(index: DiaryIndex): void {
+    this.storage.write(
+      joinKey(this.directory, INDEX_FILE),
+      JSON.stringify(index, null, 2)
+    );
+    this.index = index;
+  }
+
+  private rotate(index: DiaryIndex): DiarySegmentInfo {
+    const last = index.segments[index.segments.length - 1];
+    const lastId = last ? Number(SEGMENT_PATTERN.exec(last.file)?.[1] ?? 0) : 0;
+    const segment: DiarySegmentInfo = {
+      file: segmentFileName(lastId + 1),
+      count: 0,
+      bytes: 0,
+    };
+    index.segments.push(segment);
+    return segment;
+  }
+
+  /**
+   * Rebuilds a segment's index record from its lines, truncating a torn final line
+   */
+  private scanSegment(file: string): DiarySegmentInfo {
+    const segment: DiarySegmentInfo = { file, count: 0, bytes: 0 };
+    const segmentPath = joinKey(this.directory, file);
+    const size = this.storage.size(segmentPath);
+    const kept: string[] = [];
+
+    for (const line of this.storage.readLines(segmentPath)) {
+      const lineBytes = encoder.encode(line).length + 1;
+      // A final line without its newline was cut off mid-append
+      if (segment.bytes + lineBytes > size) {
+        break;
+      }
+      segment.bytes += lineBytes;
+      kept.push(line);
+      const entry = parseEntry(line);
+      if (entry) {
+        this.recordEntry(segment, entry);
+      }
+    }
+
+    if (segment.bytes !== size) {
+      this.storage.write(segmentPath, kept.map(line => `${line}\n`).join(''));
+    }
+    return segment;
+  }
+
+  private *readSegment(segment: DiarySegmentInfo): Generator<DiaryEntry> {
+    for (const line of this.storage.readLines(this.segmentPath(segment))) {
+      const entry = parseEntry(line);
+      if (entry) {
+        yield entry;
+      }
+    }
+  }
+
+  private recordEntry(segment: DiarySegmentInfo, entry: DiaryEntry): void {
+    segment.count++;
+    segment.minTurn = Math.min(segment.minTurn ?? entry.turn, entry.turn);
+    segment.maxTurn = Math.max(segment.maxTurn ?? entry.turn, entry.turn);
+    if (entry.round !== undefined) {
+      segment.minRound = Math.min(segment.minRound ?? entry.round, entry.round);
+      segment.maxRound = Math.max(segment.maxRound ?? entry.round, entry.round);
+    }
+  }
+
+  private segmentMatches(
+    segment: DiarySegmentInfo,
+    query: DiaryQuery
+  ): boolean {
+    if (segment.count === 0) return false;
+    if (query.fromTurn !== undefined && (segment.maxTurn ?? 0) < query.fromTurn)
+      return false;
+    if (query.toTurn !== undefined && (segment.minTurn ?? 0) > query.toTurn)
+      return false;
+    if (query.round !== undefined) {
+      if (segment.minRound === undefined || segment.maxRound === undefined)
+        return false;
+      if (query.round < segment.minRound || query.round > segment.maxRound)
+        return false;
+    }
+    return true;
+  }
+
+  private entryMatches(entry: DiaryEntry, query: DiaryQuery): boolean {
+    if (query.fromTurn !== undefined && entry.turn < query.fromTurn)
+      return false;
+    if (query.toTurn !== undefined && entry.turn > query.toTurn) return false;
+    if (query.round !== undefined && entry.round !== query.round) return false;
+    return true;
+  }
+
+  private listSegmentFiles(): string[] {
+    return this.storage
+      .list(this.directory)
+      .filter(file => SEGMENT_PATTERN.test(file))
+      .sort();
+  }
+
+  private segmentPath(segment: DiarySegmentInfo): string {
+    return joinKey(this.directory, segment.file);
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * Sandboxed arithmetic expression evaluator for `calculation` effect values.
+ * Expressions are tokenized and parsed into a small AST; nothing is passed to
+ * eval/Function, and only whitelisted functions and unit references resolve.
+ *
+ * Supported syntax:
+ * - numbers, `+ - * / %`, unary minus, parentheses
+ * - `actor.<property>` and `target.<property>` numeric property lookups
+ * - `min(a, b, ...)`, `max(a, b, ...)`, `clamp(value, low, high)`,
+ *   `floor(x)`, `ceil(x)`, `round(x)`, `abs(x)`
+ * - `random(min, max)` inclusive integer roll and `roll(count, sides)` dice,
+ *   capped at 100 dice of 1000 sides
+ */
+
+import type { BaseUnit } from '@atsu/atago';
+import { MathUtils } from './Math';
+import type { RandomGenerator } from './RandomGenerator';
+
+export interface ExpressionContext {
+  actor?: BaseUnit | undefined;
+  target?: BaseUnit | undefined;
+  random?: RandomGenerator | undefined;
+}
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'reference'; scope: 'actor' | 'target'; property: string }
+  | { kind: 'unary'; operator: '-' | '+'; operand: ExpressionNode }
+  | {
+      kind: 'binary';
+      operator: '+' | '-' | '*' | '/' | '%';
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator' | 'paren' | 'comma' | 'dot';
+  text: string;
+  position: number;
+}
+
+interface FunctionSpec {
+  minArgs: number;
+  maxArgs: number;
+  apply: (args: number[], context: ExpressionContext) => number;
+}
+
+/** Most dice and faces one `roll` uses; larger arguments are capped. */
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+
+/**
+ * The context's generator; dice need the shared seeded one
+ */
+const requireRandom = (
+  context: ExpressionContext,
+  name: string
+): RandomGenerator => {
+  if (!context.random) {
+    throw new Error(`Function '${name}' needs a random generator`);
+  }
+  return context.random;
+};
+
+const FUNCTIONS = new Map<string, FunctionSpec>(
+  Object.entries({
+    min: { minArgs: 1, maxArgs: Infinity, apply: args => Math.min(...args) },
+    max: { minArgs: 1, maxArgs: Infinity, apply: args => Math.max(...args) },
+    clamp: {
+      minArgs: 3,
+      maxArgs: 3,
+      apply: ([value = 0, low = 0, high = 0]) =>
+        Math.min(high, Math.max(low, value)),
+    },
+    floor: { minArgs: 1, maxArgs: 1, apply: ([x = 0]) => Math.floor(x) },
+    ceil: { minArgs: 1, maxArgs: 1, apply: ([x = 0]) => Math.ceil(x) },
+    round: { minArgs: 1, maxArgs: 1, apply: ([x = 0]) => Math.round(x) },
+    abs: { minArgs: 1, maxArgs: 1, apply: ([x = 0]) => Math.abs(x) },
+    random: {
+      minArgs: 2,
+      maxArgs: 2,
+      apply: ([min = 0, max = 0], context) =>
+        MathUtils.getRandomNumber(
+          Math.ceil(min),
+          Math.floor(max),
+          requireRandom(context, 'random')
+        ),
+    },
+    roll: {
+      minArgs: 2,
+      maxArgs: 2,
+      apply: ([count = 0, sides = 0], context) => {
+        const random = requireRandom(context, 'roll');
+        const dice = Math.min(Math.floor(count), MAX_DICE);
+        const faces = Math.min(Math.floor(sides), MAX_SIDES);
+        let total = 0;
+        for (let i = 0; i < dice; i++) {
+          total += MathUtils.getRandomNumber(1, faces, random);
+        }
+        return total;
+      },
+    },
+  } satisfies Record<string, FunctionSpec>)
+);
+
+const SCOPES = new Set(['actor', 'target']);
+
+/**
+ * Splits an expression into tokens, rejecting any character outside the grammar
+ */
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index] as string;
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const numberMatch = /^(\d+(\.\d+)?|\.\d+)/.exec(expression.slice(index));
+    if (numberMatch) {
+      tokens.push({ type: 'number', text: numberMatch[0], position: index });
+      index += numberMatch[0].length;
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(
+      expression.slice(index)
+    );
+    if (identifierMatch) {
+      tokens.push({
+        type: 'identifier',
+        text: identifierMatch[0],
+        position: index,
+      });
+      index += identifierMatch[0].length;
+      continue;
+    }
+
+    if ('+-*/%'.includes(char)) {
+      tokens.push({ type: 'operator', text: char, position: index });
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', text: char, position: index });
+    } else if (char === ',') {
+      tokens.push({ type: 'comma', text: char, position: index });
+    } else if (char === '.') {
+      tokens.push({ type: 'dot', text: char, position: index });
+    } else {
+      throw new Error(`Unexpected character '${char}' at position ${index}`);
+    }
+    index++;
+  }
+
+  return tokens;
+};
+
+/**
+ * Recursive-descent parser over the token list
+ */
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly source: string
+  ) {}
+
+  public parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new Error('Expression is empty');
+    }
+    const node = this.parseAdditive();
+    const extra = this.peek();
+    if (extra) {
+      throw new Error(
+        `Unexpected '${extra.text}' at position ${extra.position}`
+      );
+    }
+    return node;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    let token = this.peek();
+    while (token?.type === 'operator' && '+-'.includes(token.text)) {
+      this.index++;
+      const right = this.parseMultiplicative();
+      left = {
+        kind: 'binary',
+        operator: token.text as '+' | '-',
+        left,
+        right,
+      };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    let token = this.peek();
+    while (token?.type === 'operator' && '*/%'.includes(token.text)) {
+      this.index++;
+      const right = this.parseUnary();
+      left = {
+        kind: 'binary',
+        operator: token.text as '*' | '/' | '%',
+        left,
+        right,
+      };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (
+      token?.type === 'operator' &&
+      (token.text === '-' || token.text === '+')
+    ) {
+      this.index++;
+      return {
+        kind: 'unary',
+        operator: token.text,
+        operand: this.parseUnary(),
+      };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { kind: 'number', value: parseFloat(token.text) };
+    }
+
+    if (token.type === 'paren' && token.text === '(') {
+      const inner = this.parseAdditive();
+      this.expect('paren', ')');
+      return inner;
+    }
+
+    if (token.type === 'identifier') {
+      if (SCOPES.has(token.text)) {
+        this.expect('dot', '.');
+        const property = this.next();
+        if (property.type !== 'identifier') {
+          throw new Error(
+            `Expected property name after '${token.text}.' at position ${property.position}`
+          );
+        }
+        return {
+          kind: 'reference',
+          scope: token.text as 'actor' | 'target',
+          property: property.text,
+        };
+      }
+
+      const spec = FUNCTIONS.get(token.text);
+      if (!spec) {
+        throw new Error(
+          `Unknown identifier '${token.text}' at position ${token.position}`
+        );
+      }
+      return this.parseCall(token, spec);
+    }
+
+    throw new Error(`Unexpected '${token.text}' at position ${token.position}`);
+  }
+
+  private parseCall(token: Token, spec: FunctionSpec): ExpressionNode {
+    this.expect('paren', '(');
+    const args: ExpressionNode[] = [];
+    if (this.peek()?.text !== ')') {
+      args.push(this.parseAdditive());
+      while (this.peek()?.type === 'comma') {
+        this.index++;
+        args.push(this.parseAdditive());
+      }
+    }
+    this.expect('paren', ')');
+
+    if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+      throw new Error(
+        `Function '${token.text}' at position ${token.position} received ${args.length} argument(s)`
+      );
+    }
+    return { kind: 'call', name: token.text, args };
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new Error(
+        `Unexpected end of expression at position ${this.source.length}`
+      );
+    }
+    this.index++;
+    return token;
+  }
+
+  private expect(type: Token['type'], text: string): void {
+    const token = this.next();
+    if (token.type !== type || token.text !== text) {
+      throw new Error(
+        `Expected '${text}' but found '${token.text}' at position ${token.position}`
+      );
+    }
+  }
+}
+
+/**
+ * Utility class for parsing and evaluating calculation expressions
+ */
+export class ExpressionEvaluator {
+  private static cache: Map<string, ExpressionNode> = new Map();
+
+  /**
+   * Parses an expression, throwing a descriptive Error on invalid syntax
+   */
+  public static parse(expression: string): ExpressionNode {
+    const cached = this.cache.get(expression);
+    if (cached) {
+      return cached;
+    }
+
+    const node = new Parser(tokenize(expression), expression).parse();
+    this.cache.set(expression, node);
+    return node;
+  }
+
+  /**
+   * Returns the parse error message for an expression, or null when valid
+   */
+  public static validate(expression: string): string | null {
+    try {
+      this.parse(expression);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
+  /**
+   * Evaluates an expression against the actor/target context
+   * @returns The numeric result; non-finite results collapse to 0
+   */
+  public static evaluate(
+    expression: string,
+    context: ExpressionContext = {}
+  ): number {
+    const result = this.evaluateNode(this.parse(expression), context);
+    return Number.isFinite(result) ? result : 0;
+  }
+
+  private static evaluateNode(
+    node: ExpressionNode,
+    context: ExpressionContext
+  ): number {
+    switch (node.kind) {
+      case 'number':
+        return node.value;
+      case 'reference': {
+        const unit = node.scope === 'actor' ? context.actor : context.target;
+        const value = unit?.getPropertyValue(node.property);
+        return typeof value === 'number' ? value : 0;
+      }
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, context);
+        return node.operator === '-' ? -operand : operand;
+      }
+      case 'binary': {
+        const left = this.evaluateNode(node.left, context);
+        const right = this.evaluateNode(node.right, context);
+        switch (node.operator) {
+          case '+':
+            return left + right;
+          case '-':
+            return left - right;
+          case '*':
+            return left * right;
+          case '/':
+            return right === 0 ? 0 : left / right;
+          default:
+            return right === 0 ? 0 : left % right;
+        }
+      }
+      case 'call': {
+        const spec = FUNCTIONS.get(node.name);
+        if (!spec) {
+          return 0;
+        }
+        const args = node.args.map(arg => this.evaluateNode(arg, context));
+        return spec.apply(args, context);
+      }
+    }
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * In-game clock for action and diary timestamps.
+ * Times derive from the turn number rather than the wall clock, so the same
+ * seed always writes the same diary.
+ */
+export class GameClock {
+  private readonly start: number;
+  private readonly turnLength: number;
+
+  /**
+   * @param start Epoch milliseconds of turn 0
+   * @param turnLength Milliseconds of in-game time per turn
+   */
+  constructor(start: number = 0, turnLength: number = 60_000) {
+    this.start = start;
+    this.turnLength = turnLength;
+  }
+
+  /**
+   * Epoch milliseconds at which the turn takes place
+   */
+  public timeOf(turn: number): number {
+    return this.start + turn * this.turnLength;
+  }
+
+  /**
+   * ISO 8601 time at which the turn takes place
+   */
+  public isoTimeOf(turn: number): string {
+    return new Date(this.timeOf(turn)).toISOString();
+  }
+}
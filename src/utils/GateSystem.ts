@@ -87,6 +87,33 @@ export class GateSystem {
     return [...this.gates];
   }
 
+  /**
+   * Gets gates as they were added, without the generated reverse gates,
+   * so re-adding them rebuilds the same system
+   */
+  public getDefinitions(): GateConnection[] {
+    const generated = new Set(
+      this.gates
+        .filter(gate => gate.bidirectional)
+        .map(gate => gate.name + '_reverse')
+    );
+    return this.gates
+      .filter(gate => !generated.has(gate.name))
+      .map(gate => ({
+        ...gate,
+        positionFrom: { ...gate.positionFrom },
+        positionTo: { ...gate.positionTo },
+      }));
+  }
+
+  /**
+   * Replaces all gates with the given definitions
+   */
+  public load(gates: GateConnection[]): void {
+    this.clear();
+    gates.forEach(gate => this.addGate(gate));
+  }
+
   /**
    * Clears all gates
    */
@@ -6,12 +6,18 @@
 import { Map, World } from '@atsu/choukai';
 import { ConfigManager } from './ConfigManager';
 import type { MapGenerationConfig } from './engineConfig';
+import { RandomGenerator } from './RandomGenerator';
 
 export class MapGenerator {
   private config: MapGenerationConfig;
+  private random: RandomGenerator;
 
-  constructor() {
+  /**
+   * @param random Shared generator; defaults to one seeded with `mapGeneration.seed`
+   */
+  constructor(random?: RandomGenerator) {
     this.config = this.loadMapGenerationConfig();
+    this.random = random ?? new RandomGenerator(this.config.seed);
   }
 
   /**
@@ -112,13 +118,13 @@ export class MapGenerator {
 
     for (let i = 0; i < numWaterBodies; i++) {
       const size = Math.floor(
-        Math.random() *
+        this.random.next() *
           (this.config.maxWaterBodySize - this.config.minWaterBodySize + 1) +
           this.config.minWaterBodySize
       );
 
-      const x = Math.floor(Math.random() * (gameMap.width - size));
-      const y = Math.floor(Math.random() * (gameMap.height - size));
+      const x = Math.floor(this.random.next() * (gameMap.width - size));
+      const y = Math.floor(this.random.next() * (gameMap.height - size));
 
       this.createWaterBody(gameMap, x, y, size, size);
     }
@@ -154,7 +160,7 @@ export class MapGenerator {
 
     for (let i = 0; i < numMountainRanges; i++) {
       const length = Math.floor(
-        Math.random() *
+        this.random.next() *
           (this.config.maxMountainRangeLength -
             this.config.minMountainRangeLength +
             1) +
@@ -162,11 +168,11 @@ export class MapGenerator {
       );
 
       // Choose a random starting point
-      const startX = Math.floor(Math.random() * gameMap.width);
-      const startY = Math.floor(Math.random() * gameMap.height);
+      const startX = Math.floor(this.random.next() * gameMap.width);
+      const startY = Math.floor(this.random.next() * gameMap.height);
 
       // Choose a direction (horizontal, vertical, or diagonal)
-      const direction = Math.floor(Math.random() * 4); // 0: right, 1: down, 2: right-down diagonal, 3: left-down diagonal
+      const direction = Math.floor(this.random.next() * 4); // 0: right, 1: down, 2: right-down diagonal, 3: left-down diagonal
 
       this.createMountainRange(gameMap, startX, startY, length, direction);
     }
@@ -232,13 +238,13 @@ export class MapGenerator {
 
     for (let i = 0; i < numForestAreas; i++) {
       const size = Math.floor(
-        Math.random() *
+        this.random.next() *
           (this.config.maxForestAreaSize - this.config.minForestAreaSize + 1) +
           this.config.minForestAreaSize
       );
 
-      const x = Math.floor(Math.random() * (gameMap.width - size));
-      const y = Math.floor(Math.random() * (gameMap.height - size));
+      const x = Math.floor(this.random.next() * (gameMap.width - size));
+      const y = Math.floor(this.random.next() * (gameMap.height - size));
 
       this.createForestArea(gameMap, x, y, size, size);
     }
@@ -272,8 +278,8 @@ export class MapGenerator {
     );
 
     for (let i = 0; i < numDesertAreas; i++) {
-      const x = Math.floor(Math.random() * gameMap.width);
-      const y = Math.floor(Math.random() * gameMap.height);
+      const x = Math.floor(this.random.next() * gameMap.width);
+      const y = Math.floor(this.random.next() * gameMap.height);
       if (gameMap.getTerrain(x, y) === 'grass') {
         // Only place on grass
         gameMap.setTerrain(x, y, 'desert');
@@ -290,8 +296,8 @@ export class MapGenerator {
     );
 
     for (let i = 0; i < numSwampAreas; i++) {
-      const x = Math.floor(Math.random() * gameMap.width);
-      const y = Math.floor(Math.random() * gameMap.height);
+      const x = Math.floor(this.random.next() * gameMap.width);
+      const y = Math.floor(this.random.next() * gameMap.height);
       if (gameMap.getTerrain(x, y) === 'grass') {
         // Only place on grass
         gameMap.setTerrain(x, y, 'swamp');
@@ -308,8 +314,8 @@ export class MapGenerator {
     );
 
     for (let i = 0; i < numSnowAreas; i++) {
-      const x = Math.floor(Math.random() * gameMap.width);
-      const y = Math.floor(Math.random() * gameMap.height);
+      const x = Math.floor(this.random.next() * gameMap.width);
+      const y = Math.floor(this.random.next() * gameMap.height);
       if (gameMap.getTerrain(x, y) === 'grass') {
         // Only place on grass
         gameMap.setTerrain(x, y, 'snow');
@@ -326,8 +332,8 @@ export class MapGenerator {
     );
 
     for (let i = 0; i < numSandAreas; i++) {
-      const x = Math.floor(Math.random() * gameMap.width);
-      const y = Math.floor(Math.random() * gameMap.height);
+      const x = Math.floor(this.random.next() * gameMap.width);
+      const y = Math.floor(this.random.next() * gameMap.height);
       if (gameMap.getTerrain(x, y) === 'grass') {
         // Only place on grass
         gameMap.setTerrain(x, y, 'sand');
@@ -344,13 +350,13 @@ export class MapGenerator {
 
     // Create a few horizontal roads
     for (let r = 0; r < 2; r++) {
-      const y = Math.floor(Math.random() * (gameMap.height - 5)) + 2; // Avoid edges
+      const y = Math.floor(this.random.next() * (gameMap.height - 5)) + 2; // Avoid edges
       this.createHorizontalRoad(gameMap, y);
     }
 
     // Create a few vertical roads
     for (let r = 0; r < 2; r++) {
-      const x = Math.floor(Math.random() * (gameMap.width - 5)) + 2; // Avoid edges
+      const x = Math.floor(this.random.next() * (gameMap.width - 5)) + 2; // Avoid edges
       this.createVerticalRoad(gameMap, x);
     }
   }
@@ -1,10 +1,13 @@
+import type { RandomGenerator } from './RandomGenerator';
+
 /**
  * Gets a random element from an array
  * @param arr The array to pick from
+ * @param random The shared seeded generator
  * @returns A random element from the array
  */
-const getRandomFromArray = <T>(arr: T[]): T => {
-  const randomIndex = Math.floor(Math.random() * arr.length);
+const getRandomFromArray = <T>(arr: T[], random: RandomGenerator): T => {
+  const randomIndex = Math.floor(random.next() * arr.length);
   return arr[randomIndex] as T;
 };
 
@@ -12,10 +15,15 @@ const getRandomFromArray = <T>(arr: T[]): T => {
  * Generates a random integer between min and max (inclusive)
  * @param min The minimum integer
  * @param max The maximum integer
+ * @param random The shared seeded generator
  * @returns A random integer between min and max
  */
-const getRandomNumber = (min: number, max: number): number => {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+const getRandomNumber = (
+  min: number,
+  max: number,
+  random: RandomGenerator
+): number => {
+  return Math.floor(random.next() * (max - min + 1)) + min;
 };
 
 export const MathUtils = {
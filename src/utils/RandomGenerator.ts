@@ -0,0 +1,117 @@
+/**
+ * Seeded pseudo-random number generator shared across the engine.
+ * Uses a string hash to derive a 32-bit state and mulberry32 to advance it,
+ * so the same seed always reproduces the same sequence of values.
+ */
+
+import { ConfigManager } from './ConfigManager';
+
+/**
+ * Hashes a seed string into a 32-bit unsigned integer.
+ */
+const hashSeed = (seed: string): number => {
+  let hash = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 2246822507);
+  hash = Math.imul(hash ^ (hash >>> 13), 3266489909);
+  return (hash ^ (hash >>> 16)) >>> 0;
+};
+
+export class RandomGenerator {
+  private readonly seed: string;
+  private state: number;
+
+  constructor(seed: string | number = Date.now().toString()) {
+    this.seed = String(seed);
+    this.state = hashSeed(this.seed);
+  }
+
+  /**
+   * Creates a generator seeded from engine configuration.
+   * Uses `seed` when present, otherwise `mapGeneration.seed`.
+   */
+  public static fromConfig(): RandomGenerator {
+    const seed =
+      ConfigManager.getConfig().seed ??
+      ConfigManager.getMapGenerationConfig().seed;
+    return new RandomGenerator(seed);
+  }
+
+  /**
+   * Returns a float in [0, 1), like Math.random().
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Returns an integer between min and max (inclusive).
+   */
+  public nextInt(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  /**
+   * Returns true with the given probability (0-1).
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Picks a random element from an array; undefined for empty arrays.
+   */
+  public pick<T>(arr: T[]): T {
+    const randomIndex = Math.floor(this.next() * arr.length);
+    return arr[randomIndex] as T;
+  }
+
+  /**
+   * Generates an RFC 4122 version 4 UUID from the seeded sequence.
+   */
+  public uuid(): string {
+    const bytes: number[] = [];
+    for (let i = 0; i < 16; i++) {
+      bytes.push(this.nextInt(0, 255));
+    }
+    bytes[6] = ((bytes[6] ?? 0) & 0x0f) | 0x40;
+    bytes[8] = ((bytes[8] ?? 0) & 0x3f) | 0x80;
+
+    const hex = bytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+    return [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      hex.slice(12, 16),
+      hex.slice(16, 20),
+      hex.slice(20, 32),
+    ].join('-');
+  }
+
+  /**
+   * Gets the seed this generator was created with.
+   */
+  public getSeed(): string {
+    return this.seed;
+  }
+
+  /**
+   * Gets the internal state so a sequence can be resumed later.
+   */
+  public getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Restores a state previously returned by getState().
+   */
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
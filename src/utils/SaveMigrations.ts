@@ -0,0 +1,84 @@
+import { isRecord } from '../types/typeGuards';
+
+/**
+ * Upgrades a save from one version to the next.
+ * Receives a copy of the save at `fromVersion`; the registry stamps the new version.
+ */
+export type SaveMigration = (
+  save: Record<string, unknown>
+) => Record<string, unknown>;
+
+/**
+ * Ordered registry of save migrations.
+ * Each migration upgrades exactly one version, so old saves are brought
+ * forward step by step until they reach the current version.
+ */
+export class SaveMigrationRegistry {
+  private readonly currentVersion: number;
+  private migrations: Map<number, SaveMigration> = new Map();
+
+  constructor(currentVersion: number) {
+    this.currentVersion = currentVersion;
+  }
+
+  /**
+   * Gets the version saves are migrated to
+   */
+  public getCurrentVersion(): number {
+    return this.currentVersion;
+  }
+
+  /**
+   * Registers the migration that upgrades `fromVersion` to `fromVersion + 1`
+   */
+  public register(fromVersion: number, migration: SaveMigration): void {
+    if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+      throw new Error(`Invalid save migration version: ${fromVersion}`);
+    }
+    if (fromVersion >= this.currentVersion) {
+      throw new Error(
+        `Cannot register a migration from version ${fromVersion}; current version is ${this.currentVersion}`
+      );
+    }
+    if (this.migrations.has(fromVersion)) {
+      throw new Error(
+        `A save migration from version ${fromVersion} is already registered`
+      );
+    }
+    this.migrations.set(fromVersion, migration);
+  }
+
+  /**
+   * Upgrades a parsed save to the current version
+   * @returns The migrated save and the version it started at
+   */
+  public migrate(save: unknown): {
+    save: Record<string, unknown>;
+    fromVersion: number;
+  } {
+    if (!isRecord(save)) {
+      throw new Error('Save data must be an object');
+    }
+    if (typeof save.version !== 'number') {
+      throw new Error('Save data is missing a numeric version');
+    }
+
+    const fromVersion = save.version;
+    if (fromVersion > this.currentVersion) {
+      throw new Error(
+        `Save version ${fromVersion} is newer than supported version ${this.currentVersion}`
+      );
+    }
+
+    let current = save;
+    for (let version = fromVersion; version < this.currentVersion; version++) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new Error(`No save migration registered from version ${version}`);
+      }
+      current = { ...migration({ ...current }), version: version + 1 };
+    }
+
+    return { save: current, fromVersion };
+  }
+}
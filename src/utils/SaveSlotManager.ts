@@ -0,0 +1,252 @@
+/**
+ * Named save slots.
+ * Each slot is one versioned JSON file bundling units, the world snapshot
+ * (with gates), the diary cursor and turn/round state, plus a copy of the
+ * diary up to that cursor. Slots are migrated through
+ * `SaveSlotManager.migrations` when loaded.
+ */
+
+import * as path from 'path';
+import type { DiaryEntry, SavedUnitData, TurnStateSnapshot } from '../types';
+import { DataManager } from './DataManager';
+import { DiaryStore } from './DiaryStore';
+import { SaveMigrationRegistry } from './SaveMigrations';
+import type { StorageAdapter } from './StorageAdapter';
+import type { SerializableWorldSnapshot } from './WorldSnapshotSerializer';
+
+export const SAVE_GAME_VERSION = 1;
+
+/**
+ * Position in the active diary when the save was made
+ */
+export interface SaveDiaryCursor {
+  entryCount: number;
+  lastTurn: number;
+}
+
+/**
+ * Engine state bundled into a save slot
+ */
+export interface SaveGameData {
+  units: SavedUnitData[];
+  world: SerializableWorldSnapshot;
+  turnState: TurnStateSnapshot;
+  diary: SaveDiaryCursor;
+}
+
+export interface SaveGame extends SaveGameData {
+  version: number;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveSlotSummary {
+  name: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  turn: number;
+  round: number;
+  unitCount: number;
+}
+
+const SLOT_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function* takeEntries(
+  entries: Iterable<DiaryEntry>,
+  count: number
+): Generator<DiaryEntry> {
+  if (count <= 0) return;
+  let taken = 0;
+  for (const entry of entries) {
+    yield entry;
+    if (++taken >= count) return;
+  }
+}
+
+/**
+ * Utility class for creating, listing, loading, copying and deleting save slots.
+ * Slots live under SAVES_DIR in `DataManager.storage` unless a storage is passed.
+ */
+export class SaveSlotManager {
+  public static SAVES_DIR = path.join(DataManager.DATA_DIR, 'saves');
+  public static migrations = new SaveMigrationRegistry(SAVE_GAME_VERSION);
+
+  /**
+   * Writes a slot and copies the active diary up to `data.diary`. Fails when
+   * the slot exists unless `overwrite` is set; overwriting keeps the original
+   * creation time.
+   */
+  public static createSlot(
+    name: string,
+    data: SaveGameData,
+    overwrite: boolean = false,
+    storage: StorageAdapter = DataManager.storage
+  ): SaveGame {
+    const existing = this.slotExists(name, storage)
+      ? this.loadSlot(name, storage)
+      : null;
+    if (existing && !overwrite) {
+      throw new Error(`Save slot "${name}" already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const save: SaveGame = {
+      version: SAVE_GAME_VERSION,
+      name,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      ...data,
+    };
+    this.getSlotDiary(name, storage).replaceAll(
+      takeEntries(
+        DataManager.getDiaryStore(storage).read(),
+        data.diary.entryCount
+      )
+    );
+    this.writeSlot(save, storage);
+    return save;
+  }
+
+  /**
+   * Lists all slots, most recently updated first
+   */
+  public static listSlots(
+    storage: StorageAdapter = DataManager.storage
+  ): SaveSlotSummary[] {
+    return storage
+      .list(DataManager.toStorageKey(this.SAVES_DIR))
+      .filter(file => file.endsWith('.json'))
+      .map(file => this.loadSlot(path.basename(file, '.json'), storage))
+      .map(save => ({
+        name: save.name,
+        version: save.version,
+        createdAt: save.createdAt,
+        updatedAt: save.updatedAt,
+        turn: save.turnState.turn,
+        round: save.turnState.round,
+        unitCount: save.units.length,
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Loads a slot, upgrading it to the current save version
+   */
+  public static loadSlot(
+    name: string,
+    storage: StorageAdapter = DataManager.storage
+  ): SaveGame {
+    const content = storage.read(this.getSlotKey(name));
+    if (content === null) {
+      throw new Error(`Save slot "${name}" not found`);
+    }
+
+    const parsed: unknown = JSON.parse(content);
+    const { save } = this.migrations.migrate(parsed);
+    return { ...(save as unknown as SaveGame), name };
+  }
+
+  /**
+   * Deletes a slot; returns false when it did not exist
+   */
+  public static deleteSlot(
+    name: string,
+    storage: StorageAdapter = DataManager.storage
+  ): boolean {
+    const slotKey = this.getSlotKey(name);
+    if (!storage.exists(slotKey)) {
+      return false;
+    }
+    storage.remove(slotKey);
+    storage.remove(this.getSlotDiary(name, storage).directory);
+    return true;
+  }
+
+  /**
+   * Copies a slot under a new name
+   */
+  public static copySlot(
+    from: string,
+    to: string,
+    storage: StorageAdapter = DataManager.storage
+  ): SaveGame {
+    if (this.slotExists(to, storage)) {
+      throw new Error(`Save slot "${to}" already exists`);
+    }
+
+    const source = this.loadSlot(from, storage);
+    const copy: SaveGame = {
+      ...source,
+      name: to,
+      updatedAt: new Date().toISOString(),
+    };
+    this.getSlotDiary(to, storage).replaceAll(
+      this.getSlotDiary(from, storage).read()
+    );
+    this.writeSlot(copy, storage);
+    return copy;
+  }
+
+  /**
+   * Checks whether a slot exists
+   */
+  public static slotExists(
+    name: string,
+    storage: StorageAdapter = DataManager.storage
+  ): boolean {
+    return storage.exists(this.getSlotKey(name));
+  }
+
+  /**
+   * Writes a slot's units, world, diary and turn state back to the active data
+   * files so the next engine start resumes from it. Slots saved without a
+   * diary copy truncate the active diary to their cursor instead.
+   */
+  public static restoreSlot(
+    name: string,
+    storage: StorageAdapter = DataManager.storage
+  ): SaveGame {
+    const save = this.loadSlot(name, storage);
+    const activeDiary = DataManager.getDiaryStore(storage);
+    const slotDiary = this.getSlotDiary(name, storage);
+    activeDiary.replaceAll(
+      storage.exists(slotDiary.directory)
+        ? slotDiary.read()
+        : takeEntries(activeDiary.read(), save.diary.entryCount)
+    );
+    DataManager.saveUnits(DataManager.deserializeUnits(save.units), storage);
+    storage.write(
+      DataManager.toStorageKey(DataManager.WORLD_FILE),
+      JSON.stringify(save.world, null, 2)
+    );
+    DataManager.saveTurnState({ ...save.turnState, restored: true }, storage);
+    return save;
+  }
+
+  private static writeSlot(save: SaveGame, storage: StorageAdapter): void {
+    storage.write(this.getSlotKey(save.name), JSON.stringify(save, null, 2));
+  }
+
+  private static getSlotKey(name: string): string {
+    if (!SLOT_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid save slot name "${name}"; use letters, numbers, "-" and "_"`
+      );
+    }
+    return DataManager.toStorageKey(path.join(this.SAVES_DIR, `${name}.json`));
+  }
+
+  /**
+   * Diary copy kept next to the slot file; `.` cannot appear in slot names,
+   * so the directory never collides with another slot
+   */
+  private static getSlotDiary(
+    name: string,
+    storage: StorageAdapter
+  ): DiaryStore {
+    const directory = this.getSlotKey(name).replace(/\.json$/, '.diary');
+    return new DiaryStore(directory, { directory, storage });
+  }
+}
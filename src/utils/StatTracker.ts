@@ -32,7 +32,14 @@ export class StatTracker {
     units: BaseUnit[]
   ): StatChange[] {
     const changes: StatChange[] = [];
-    const ignoredProperties = new Set(['lastActionTurn']);
+    const ignoredProperties = new Set([
+      'lastActionTurn',
+      'goalState',
+      'plan',
+      'memory',
+      'visited',
+      'patrol',
+    ]);
 
     for (const unit of units) {
       const initialProperties = initialStates[unit.id];
@@ -0,0 +1,249 @@
+import type { BaseUnit, IPropertyCollection, PropertyMap } from '@atsu/atago';
+import type {
+  EffectDefinition,
+  StatusDurationUnit,
+  StatusEffectEvent,
+  StatusStackingRule,
+} from '../types';
+import { ConfigManager } from './ConfigManager';
+
+/**
+ * Bookkeeping stored as the value of a status modifier on a unit property.
+ */
+interface StatusModifierState extends PropertyMap {
+  delta: number;
+  remaining: number;
+  duration: number;
+  durationUnit: StatusDurationUnit;
+}
+
+interface PropertyModifier {
+  source: string;
+  value: unknown;
+}
+
+interface StatusModifier extends PropertyModifier {
+  value: StatusModifierState;
+}
+
+interface StatusApplication {
+  property: string;
+  source: string;
+  duration: number;
+  durationUnit: StatusDurationUnit;
+  stacking: StatusStackingRule;
+}
+
+/**
+ * Utility class for timed status effects.
+ * Each active status is an Atago modifier on the affected property whose
+ * source starts with `status:` and whose value tracks the applied delta and
+ * remaining duration, so statuses persist with the unit and can be reverted.
+ */
+export class StatusEffects {
+  public static readonly SOURCE_PREFIX = 'status:';
+
+  /**
+   * Whether an effect should be tracked as a timed status
+   */
+  public static isTimed(effect: EffectDefinition): boolean {
+    return (
+      !effect.permanent && effect.duration !== undefined && effect.duration > 0
+    );
+  }
+
+  /**
+   * Resolves duration unit, stacking rule and source for a timed effect
+   */
+  public static resolveApplication(
+    effect: EffectDefinition,
+    property: string,
+    actionType: string
+  ): StatusApplication {
+    const config = ConfigManager.getStatusEffectsConfig();
+    return {
+      property,
+      source: `${this.SOURCE_PREFIX}${actionType}`,
+      duration: effect.duration ?? 0,
+      durationUnit: effect.durationUnit ?? config.defaultDurationUnit,
+      stacking: effect.stacking ?? config.defaultStacking,
+    };
+  }
+
+  /**
+   * Applies the stacking rule against statuses already active on the unit.
+   * Returns an event when the rule consumed the application (refresh/ignore),
+   * or null when the caller should apply a new delta and call `track`.
+   */
+  public static checkStacking(
+    unit: BaseUnit,
+    application: StatusApplication
+  ): StatusEffectEvent | null {
+    const active = this.getModifiers(unit, application.property).filter(
+      modifier => modifier.source === application.source
+    );
+    const oldest = active[0];
+    if (!oldest) {
+      return null;
+    }
+
+    const maxStacks = ConfigManager.getStatusEffectsConfig().maxStacks;
+    if (application.stacking === 'stack' && active.length < maxStacks) {
+      return null;
+    }
+
+    if (application.stacking === 'ignore') {
+      return this.toEvent('ignored', unit, application.property, oldest);
+    }
+
+    oldest.value.remaining = Math.max(
+      oldest.value.remaining,
+      application.duration
+    );
+    return this.toEvent('refreshed', unit, application.property, oldest);
+  }
+
+  /**
+   * Records a delta that was just applied to the unit as an active status
+   */
+  public static track(
+    unit: BaseUnit,
+    application: StatusApplication,
+    delta: number
+  ): StatusEffectEvent {
+    const property = unit.properties[application.property];
+    const stacked = this.getModifiers(unit, application.property).some(
+      modifier => modifier.source === application.source
+    );
+    const modifier: StatusModifier = {
+      source: application.source,
+      value: {
+        delta,
+        remaining: application.duration,
+        duration: application.duration,
+        durationUnit: application.durationUnit,
+      },
+    };
+
+    if (property) {
+      property.modifiers = [...(property.modifiers ?? []), modifier];
+    }
+
+    return this.toEvent(
+      stacked ? 'stacked' : 'applied',
+      unit,
+      application.property,
+      modifier
+    );
+  }
+
+  /**
+   * Counts down statuses measured in `boundary` units and reverts expired ones
+   */
+  public static tick(
+    units: BaseUnit[],
+    boundary: StatusDurationUnit
+  ): StatusEffectEvent[] {
+    const expired: StatusEffectEvent[] = [];
+
+    for (const unit of units) {
+      const properties: IPropertyCollection = unit.properties;
+      for (const propertyName of Object.keys(properties)) {
+        const property = properties[propertyName];
+        if (!property || this.getModifiers(unit, propertyName).length === 0) {
+          continue;
+        }
+
+        const remaining = (property.modifiers ?? []).filter(
+          (modifier: PropertyModifier) => {
+            if (!this.isStatusModifier(modifier)) return true;
+            if (modifier.value.durationUnit !== boundary) return true;
+
+            modifier.value.remaining -= 1;
+            if (modifier.value.remaining > 0) return true;
+
+            this.revert(unit, propertyName, modifier.value.delta);
+            expired.push(this.toEvent('expired', unit, propertyName, modifier));
+            return false;
+          }
+        );
+        // Reverting may replace the property object, so write back through the unit
+        const updated = unit.properties[propertyName];
+        if (updated) {
+          updated.modifiers = remaining;
+        }
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Lists active statuses on a unit as events with their remaining duration
+   */
+  public static getActive(unit: BaseUnit): StatusEffectEvent[] {
+    return Object.keys(unit.properties).flatMap(propertyName =>
+      this.getModifiers(unit, propertyName).map(modifier =>
+        this.toEvent('applied', unit, propertyName, modifier)
+      )
+    );
+  }
+
+  /**
+   * Removes the delta from the property; reverting never kills a unit.
+   */
+  private static revert(
+    unit: BaseUnit,
+    propertyName: string,
+    delta: number
+  ): void {
+    const current = unit.getPropertyValue(propertyName);
+    if (typeof current !== 'number') return;
+    if (propertyName === 'health' && unit.getPropertyValue('status') === 'dead')
+      return;
+
+    const floor = propertyName === 'health' ? 1 : 0;
+    unit.setProperty(propertyName, Math.max(floor, current - delta));
+  }
+
+  private static getModifiers(
+    unit: BaseUnit,
+    propertyName: string
+  ): StatusModifier[] {
+    const modifiers = unit.properties[propertyName]?.modifiers ?? [];
+    return modifiers.filter((modifier: PropertyModifier) =>
+      this.isStatusModifier(modifier)
+    );
+  }
+
+  private static isStatusModifier(
+    modifier: PropertyModifier
+  ): modifier is StatusModifier {
+    const value = modifier.value as Partial<StatusModifierState> | null;
+    return (
+      modifier.source.startsWith(this.SOURCE_PREFIX) &&
+      typeof value === 'object' &&
+      value !== null &&
+      typeof value.delta === 'number' &&
+      typeof value.remaining === 'number'
+    );
+  }
+
+  private static toEvent(
+    type: StatusEffectEvent['type'],
+    unit: BaseUnit,
+    property: string,
+    modifier: StatusModifier
+  ): StatusEffectEvent {
+    return {
+      type,
+      unitId: unit.id,
+      unitName: unit.name,
+      property,
+      source: modifier.source,
+      delta: modifier.value.delta,
+      remaining: modifier.value.remaining,
+      durationUnit: modifier.value.durationUnit,
+    };
+  }
+}
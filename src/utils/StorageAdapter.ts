@@ -0,0 +1,279 @@
+/**
+ * Storage backends for persisted engine data.
+ * Keys are `/`-separated paths (e.g. `units.json`, `diary/index.json`); a key
+ * prefix acts like a directory for `list`, `remove` and `rename`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+
+export interface StorageAdapter {
+  /** Reads a whole entry; null when it does not exist. */
+  read(key: string): string | null;
+  /** Streams an entry line by line without the trailing newline. */
+  readLines(key: string): Iterable<string>;
+  /** Replaces an entry; readers see either the old or the new content. */
+  write(key: string, data: string): void;
+  append(key: string, data: string): void;
+  exists(key: string): boolean;
+  /** UTF-8 size of an entry in bytes; 0 when it does not exist. */
+  size(key: string): number;
+  /** Names of entries and sub-directories directly under a directory key. */
+  list(directory: string): string[];
+  /** Removes an entry or a directory with everything under it. */
+  remove(key: string): void;
+  /** Moves an entry or a directory with everything under it. */
+  rename(from: string, to: string): void;
+}
+
+/**
+ * Subset of the Web Storage API (e.g. `localStorage`) used by KeyValueStorageAdapter
+ */
+export interface KeyValueStore {
+  readonly length: number;
+  key(index: number): string | null;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+const READ_CHUNK_SIZE = 64 * 1024;
+const encoder = new TextEncoder();
+
+function* splitLines(content: string): Generator<string> {
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  yield* lines;
+}
+
+/**
+ * Stores entries as files under a base directory (the default backend)
+ */
+export class FileSystemStorageAdapter implements StorageAdapter {
+  private readonly baseDir: () => string;
+
+  /**
+   * @param baseDir Directory relative keys resolve against, or a getter for it;
+   * absolute keys are used as-is
+   */
+  constructor(baseDir: string | (() => string) = process.cwd()) {
+    this.baseDir = typeof baseDir === 'string' ? () => baseDir : baseDir;
+  }
+
+  public read(key: string): string | null {
+    const filePath = this.resolve(key);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+  }
+
+  public *readLines(key: string): Generator<string> {
+    const filePath = this.resolve(key);
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    const fd = fs.openSync(filePath, 'r');
+    const decoder = new StringDecoder('utf8');
+    const buffer = Buffer.alloc(READ_CHUNK_SIZE);
+    let pending = '';
+
+    try {
+      let bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null);
+      while (bytesRead > 0) {
+        pending += decoder.write(buffer.subarray(0, bytesRead));
+        let newline = pending.indexOf('\n');
+        while (newline !== -1) {
+          yield pending.slice(0, newline);
+          pending = pending.slice(newline + 1);
+          newline = pending.indexOf('\n');
+        }
+        bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null);
+      }
+      pending += decoder.end();
+      if (pending.length > 0) {
+        yield pending;
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  public write(key: string, data: string): void {
+    const filePath = this.resolve(key);
+    const tempPath = `${filePath}.tmp`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, filePath);
+  }
+
+  public append(key: string, data: string): void {
+    const filePath = this.resolve(key);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.appendFileSync(filePath, data);
+  }
+
+  public exists(key: string): boolean {
+    return fs.existsSync(this.resolve(key));
+  }
+
+  public size(key: string): number {
+    const filePath = this.resolve(key);
+    return fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  }
+
+  public list(directory: string): string[] {
+    const dirPath = this.resolve(directory);
+    if (!fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) {
+      return [];
+    }
+    return fs.readdirSync(dirPath);
+  }
+
+  public remove(key: string): void {
+    fs.rmSync(this.resolve(key), { recursive: true, force: true });
+  }
+
+  public rename(from: string, to: string): void {
+    const target = this.resolve(to);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.renameSync(this.resolve(from), target);
+  }
+
+  private resolve(key: string): string {
+    return path.resolve(this.baseDir(), key);
+  }
+}
+
+/**
+ * Stores entries in a Web Storage-like key-value store under a namespace.
+ * Suitable for browser builds backed by `localStorage`.
+ */
+export class KeyValueStorageAdapter implements StorageAdapter {
+  private readonly store: KeyValueStore;
+  private readonly namespace: string;
+
+  constructor(store: KeyValueStore, namespace: string = 'takao:') {
+    this.store = store;
+    this.namespace = namespace;
+  }
+
+  public read(key: string): string | null {
+    return this.store.getItem(this.namespace + this.normalize(key));
+  }
+
+  public readLines(key: string): Iterable<string> {
+    return splitLines(this.read(key) ?? '');
+  }
+
+  public write(key: string, data: string): void {
+    this.store.setItem(this.namespace + this.normalize(key), data);
+  }
+
+  public append(key: string, data: string): void {
+    this.write(key, (this.read(key) ?? '') + data);
+  }
+
+  public exists(key: string): boolean {
+    return this.read(key) !== null || this.keysUnder(key).length > 0;
+  }
+
+  public size(key: string): number {
+    const content = this.read(key);
+    return content === null ? 0 : encoder.encode(content).length;
+  }
+
+  public list(directory: string): string[] {
+    const prefix = this.directoryPrefix(directory);
+    const names = new Set<string>();
+    for (const key of this.keysUnder(directory)) {
+      names.add(key.slice(prefix.length).split('/')[0] as string);
+    }
+    return [...names];
+  }
+
+  public remove(key: string): void {
+    const normalized = this.normalize(key);
+    this.store.removeItem(this.namespace + normalized);
+    for (const child of this.keysUnder(normalized)) {
+      this.store.removeItem(this.namespace + child);
+    }
+  }
+
+  public rename(from: string, to: string): void {
+    const source = this.normalize(from);
+    const target = this.normalize(to);
+
+    const content = this.read(source);
+    if (content !== null) {
+      this.write(target, content);
+      this.store.removeItem(this.namespace + source);
+    }
+    for (const child of this.keysUnder(source)) {
+      const moved = target + child.slice(source.length);
+      this.write(moved, this.read(child) ?? '');
+      this.store.removeItem(this.namespace + child);
+    }
+  }
+
+  /**
+   * Keys (without namespace) stored below a directory key
+   */
+  private keysUnder(directory: string): string[] {
+    const prefix = this.namespace + this.directoryPrefix(directory);
+    const keys: string[] = [];
+    for (let i = 0; i < this.store.length; i++) {
+      const key = this.store.key(i);
+      if (key?.startsWith(prefix)) {
+        keys.push(key.slice(this.namespace.length));
+      }
+    }
+    return keys;
+  }
+
+  private directoryPrefix(directory: string): string {
+    const normalized = this.normalize(directory);
+    return normalized === '' ? '' : `${normalized}/`;
+  }
+
+  private normalize(key: string): string {
+    return key.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+  }
+}
+
+/**
+ * Map-backed KeyValueStore used by MemoryStorageAdapter
+ */
+class MemoryKeyValueStore implements KeyValueStore {
+  private entries: Map<string, string> = new Map();
+
+  public get length(): number {
+    return this.entries.size;
+  }
+
+  public key(index: number): string | null {
+    return [...this.entries.keys()][index] ?? null;
+  }
+
+  public getItem(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.entries.set(key, value);
+  }
+
+  public removeItem(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Keeps all entries in memory; nothing touches disk
+ */
+export class MemoryStorageAdapter extends KeyValueStorageAdapter {
+  constructor() {
+    super(new MemoryKeyValueStore(), '');
+  }
+}
@@ -0,0 +1,209 @@
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A map as the pathfinder sees it
+ */
+export interface PathGrid {
+  width: number;
+  height: number;
+  /** Movement points to enter a tile; Infinity when it cannot be entered. */
+  getEnterCost(x: number, y: number): number;
+  /** Tiles that can be entered but not walked through, such as gates. */
+  endsMovement?(x: number, y: number): boolean;
+}
+
+/**
+ * A tile reachable from the start and the cheapest cost to get there
+ */
+export interface ReachableTile extends GridPoint {
+  cost: number;
+}
+
+interface SearchResult {
+  costs: Map<number, number>;
+  previous: Map<number, number>;
+}
+
+const DIRECTIONS: GridPoint[] = [
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+];
+
+/**
+ * Utility class finding the cheapest orthogonal routes over a grid whose
+ * tiles cost different amounts of movement to enter
+ */
+export class TerrainPathfinder {
+  /**
+   * Cheapest route to a tile within `stopWithinRange` tiles (Manhattan) of
+   * `to`, cut where the next step would go over `budget`. The start tile is
+   * not included, and only `to` itself may be a tile that ends movement.
+   * Throws when no tile in range can be entered or none can be reached.
+   */
+  public static findPath(
+    grid: PathGrid,
+    from: GridPoint,
+    to: GridPoint,
+    budget: number,
+    stopWithinRange: number = 0
+  ): GridPoint[] {
+    const distanceTo = (index: number): number =>
+      Math.abs((index % grid.width) - to.x) +
+      Math.abs(Math.floor(index / grid.width) - to.y);
+    const start = this.toIndex(grid, from);
+    if (start === undefined || distanceTo(start) <= stopWithinRange) {
+      return [];
+    }
+
+    const goals = this.collectGoals(grid, to, stopWithinRange);
+    if (goals.length === 0) {
+      throw new Error(
+        `No available goal positions within range ${stopWithinRange} of (${to.x}, ${to.y})`
+      );
+    }
+
+    const { costs, previous } = this.search(grid, from);
+    const goal = goals
+      .filter(index => costs.has(index))
+      .sort(
+        (a, b) =>
+          (costs.get(a) ?? Infinity) - (costs.get(b) ?? Infinity) ||
+          distanceTo(a) - distanceTo(b)
+      )[0];
+    if (goal === undefined) {
+      throw new Error(
+        `No path found from (${from.x}, ${from.y}) to (${to.x}, ${to.y})`
+      );
+    }
+
+    const route: number[] = [];
+    for (let index = goal; index !== start; ) {
+      route.unshift(index);
+      index = previous.get(index) ?? start;
+    }
+
+    const path: GridPoint[] = [];
+    for (const index of route) {
+      if ((costs.get(index) ?? Infinity) > budget) break;
+      path.push({ x: index % grid.width, y: Math.floor(index / grid.width) });
+    }
+    return path;
+  }
+
+  /**
+   * Every tile the start can reach for at most `budget`, the start excluded
+   */
+  public static getReachable(
+    grid: PathGrid,
+    from: GridPoint,
+    budget: number
+  ): ReachableTile[] {
+    const start = this.toIndex(grid, from);
+    const { costs } = this.search(grid, from, budget);
+    return [...costs]
+      .filter(([index]) => index !== start)
+      .map(([index, cost]) => ({
+        x: index % grid.width,
+        y: Math.floor(index / grid.width),
+        cost,
+      }));
+  }
+
+  /**
+   * Dijkstra over the grid from one tile, stopping past `limit`
+   */
+  private static search(
+    grid: PathGrid,
+    from: GridPoint,
+    limit: number = Infinity
+  ): SearchResult {
+    const costs = new Map<number, number>();
+    const previous = new Map<number, number>();
+    const start = this.toIndex(grid, from);
+    if (start === undefined) {
+      return { costs, previous };
+    }
+
+    const settled = new Set<number>();
+    const frontier = new Set<number>([start]);
+    costs.set(start, 0);
+
+    while (frontier.size > 0) {
+      let current = -1;
+      let currentCost = Infinity;
+      for (const index of frontier) {
+        const cost = costs.get(index) ?? Infinity;
+        if (cost < currentCost) {
+          current = index;
+          currentCost = cost;
+        }
+      }
+      frontier.delete(current);
+      settled.add(current);
+
+      const x = current % grid.width;
+      const y = Math.floor(current / grid.width);
+      if (current !== start && grid.endsMovement?.(x, y)) continue;
+      for (const direction of DIRECTIONS) {
+        const next = this.toIndex(grid, {
+          x: x + direction.x,
+          y: y + direction.y,
+        });
+        if (next === undefined || settled.has(next)) continue;
+
+        const cost =
+          currentCost + grid.getEnterCost(x + direction.x, y + direction.y);
+        if (cost > limit || cost >= (costs.get(next) ?? Infinity)) continue;
+
+        costs.set(next, cost);
+        previous.set(next, current);
+        frontier.add(next);
+      }
+    }
+
+    return { costs, previous };
+  }
+
+  /**
+   * Enterable tiles within range of a point; tiles that end movement count
+   * only when they are the point itself
+   */
+  private static collectGoals(
+    grid: PathGrid,
+    to: GridPoint,
+    range: number
+  ): number[] {
+    const goals: number[] = [];
+    for (let dy = -range; dy <= range; dy++) {
+      for (let dx = -range; dx <= range; dx++) {
+        const x = to.x + dx;
+        const y = to.y + dy;
+        const index = this.toIndex(grid, { x, y });
+        if (
+          index === undefined ||
+          Math.abs(dx) + Math.abs(dy) > range ||
+          grid.getEnterCost(x, y) === Infinity ||
+          ((dx !== 0 || dy !== 0) && grid.endsMovement?.(x, y))
+        ) {
+          continue;
+        }
+        goals.push(index);
+      }
+    }
+    return goals;
+  }
+
+  private static toIndex(grid: PathGrid, point: GridPoint): number | undefined {
+    return point.x >= 0 &&
+      point.y >= 0 &&
+      point.x < grid.width &&
+      point.y < grid.height
+      ? point.y * grid.width + point.x
+      : undefined;
+  }
+}
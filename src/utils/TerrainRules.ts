@@ -0,0 +1,83 @@
+import type { BaseUnit, IUnitPosition } from '@atsu/atago';
+import type { TerrainType, World } from '@atsu/choukai';
+import type { TerrainCombatModifiers, TerrainRule } from '../types';
+import { isUnitPosition } from '../types/typeGuards';
+import { ConfigManager } from './ConfigManager';
+import type { TerrainConfig } from './engineConfig';
+
+/**
+ * Utility class applying the terrain rules table: movement cost,
+ * passability per unit type and the cover a tile gives in combat
+ */
+export class TerrainRules {
+  /** Rule for terrain the table does not list. */
+  public static readonly DEFAULT_RULE: TerrainRule = {
+    moveCost: 1,
+    impassableFor: [],
+    passableFor: [],
+    defense: 0,
+    evasion: 0,
+  };
+
+  public static getRule(
+    terrain: TerrainType,
+    rules: TerrainConfig = ConfigManager.getTerrainConfig()
+  ): TerrainRule {
+    return rules[terrain] ?? this.DEFAULT_RULE;
+  }
+
+  public static canEnter(
+    terrain: TerrainType,
+    unitType: string,
+    rules: TerrainConfig = ConfigManager.getTerrainConfig()
+  ): boolean {
+    const rule = this.getRule(terrain, rules);
+    if (rule.passableFor.includes(unitType)) {
+      return true;
+    }
+    return (
+      !rule.impassableFor.includes('*') &&
+      !rule.impassableFor.includes(unitType)
+    );
+  }
+
+  /**
+   * Movement points a unit type spends to enter the terrain; Infinity when it
+   * cannot enter
+   */
+  public static getMoveCost(
+    terrain: TerrainType,
+    unitType: string,
+    rules: TerrainConfig = ConfigManager.getTerrainConfig()
+  ): number {
+    return this.canEnter(terrain, unitType, rules)
+      ? Math.max(0, this.getRule(terrain, rules).moveCost)
+      : Infinity;
+  }
+
+  /**
+   * Cover from the tile a unit stands on; undefined off the map or on
+   * terrain without combat modifiers
+   */
+  public static getCombatModifiers(
+    world: World,
+    unit: BaseUnit,
+    rules: TerrainConfig = ConfigManager.getTerrainConfig()
+  ): TerrainCombatModifiers | undefined {
+    const position = unit.getPropertyValue<IUnitPosition>('position');
+    if (!isUnitPosition(position)) {
+      return undefined;
+    }
+
+    const map = world.getMap(position.mapId);
+    if (!map) {
+      return undefined;
+    }
+
+    const terrain = map.getTerrain(position.position.x, position.position.y);
+    const { defense, evasion } = this.getRule(terrain, rules);
+    return defense !== 0 || evasion !== 0
+      ? { terrain, defense, evasion }
+      : undefined;
+  }
+}
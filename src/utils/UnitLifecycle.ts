@@ -0,0 +1,115 @@
+import type { BaseUnit } from '@atsu/atago';
+import type { CorpsePolicy, UnitDeathEvent } from '../types';
+import { isNumber } from '../types/typeGuards';
+import type { LifecycleConfig } from './engineConfig';
+import { ConfigManager } from './ConfigManager';
+
+/**
+ * Utility class owning the alive/dead state of units.
+ * Effects call `kill` when health reaches 0 and `revive` when a dead unit's
+ * health is restored; everything else asks `isAlive`/`isDead`.
+ */
+export class UnitLifecycle {
+  /**
+   * A unit is dead when its status says so or its health has dropped to 0.
+   * Units without a health property are treated as alive.
+   */
+  public static isDead(unit: BaseUnit): boolean {
+    if (unit.getPropertyValue('status') === 'dead') {
+      return true;
+    }
+    const health = unit.getPropertyValue('health');
+    return isNumber(health) && health <= 0;
+  }
+
+  public static isAlive(unit: BaseUnit): boolean {
+    return !this.isDead(unit);
+  }
+
+  /**
+   * Whether a dead unit's body is removed from play or left as a corpse
+   */
+  public static getDisposal(
+    unit: BaseUnit,
+    config: LifecycleConfig = ConfigManager.getLifecycleConfig()
+  ): CorpsePolicy {
+    const faction = unit.getPropertyValue('faction');
+    if (
+      (typeof faction === 'string' &&
+        config.removeFactions.includes(faction)) ||
+      config.removeTypes.includes(unit.type)
+    ) {
+      return 'remove';
+    }
+    return config.corpsePolicy;
+  }
+
+  /**
+   * Marks a unit dead, hands its loot to the killer according to
+   * `lootPolicy`, and describes what happened. Units never loot themselves.
+   */
+  public static kill(
+    unit: BaseUnit,
+    cause: string,
+    killer?: BaseUnit,
+    config: LifecycleConfig = ConfigManager.getLifecycleConfig()
+  ): UnitDeathEvent {
+    unit.setProperty('health', 0);
+    unit.setProperty('status', 'dead');
+
+    const disposal = this.getDisposal(unit, config);
+    const looter = killer && killer.id !== unit.id ? killer : undefined;
+    const loot =
+      looter && this.dropsLoot(disposal, config)
+        ? this.transferLoot(unit, looter, config.lootProperties)
+        : {};
+
+    return {
+      unitId: unit.id,
+      unitName: unit.name,
+      ...(looter ? { killerId: looter.id, killerName: looter.name } : {}),
+      cause,
+      loot,
+      disposal,
+    };
+  }
+
+  /**
+   * Brings a dead unit back; the caller restores its health
+   */
+  public static revive(unit: BaseUnit): void {
+    unit.setProperty('status', 'alive');
+  }
+
+  private static dropsLoot(
+    disposal: CorpsePolicy,
+    config: LifecycleConfig
+  ): boolean {
+    switch (config.lootPolicy) {
+      case 'always':
+        return true;
+      case 'removed':
+        return disposal === 'remove';
+      default:
+        return false;
+    }
+  }
+
+  private static transferLoot(
+    unit: BaseUnit,
+    killer: BaseUnit,
+    properties: string[]
+  ): Record<string, number> {
+    const loot: Record<string, number> = {};
+    for (const property of properties) {
+      const amount = unit.getPropertyValue(property);
+      if (!isNumber(amount) || amount <= 0) continue;
+
+      const current = killer.getPropertyValue(property);
+      killer.setProperty(property, (isNumber(current) ? current : 0) + amount);
+      unit.setProperty(property, 0);
+      loot[property] = amount;
+    }
+    return loot;
+  }
+}
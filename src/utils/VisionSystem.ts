@@ -0,0 +1,215 @@
+import type { BaseUnit, IUnitPosition } from '@atsu/atago';
+import {
+  getMapPositionKey,
+  type IMapPosition,
+  type Map as ChoukaiMap,
+  type World,
+} from '@atsu/choukai';
+import { isNumber, isUnitPosition } from '../types/typeGuards';
+import { ActionTargeting } from './ActionTargeting';
+import { ConfigManager } from './ConfigManager';
+import type { VisionConfig } from './engineConfig';
+import { UnitLifecycle } from './UnitLifecycle';
+
+/**
+ * What units can see. Each living unit sees the tiles within its sight
+ * radius that terrain does not hide; with shared vision a faction pools what
+ * its members see. Visible tiles are rebuilt on every update, explored tiles
+ * build up over the session.
+ */
+export class VisionSystem {
+  private visible = new Map<string, Set<string>>();
+  private visibleByFaction = new Map<string, Set<string>>();
+  private explored = new Map<string, Set<string>>();
+  private config: VisionConfig;
+
+  constructor(config: VisionConfig = ConfigManager.getVisionConfig()) {
+    this.config = config;
+  }
+
+  public isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Who a unit sees with: its faction when vision is shared, else itself
+   */
+  public getViewerId(unit: BaseUnit): string {
+    const faction = unit.getPropertyValue<unknown>('faction');
+    return this.config.shareWithFaction &&
+      typeof faction === 'string' &&
+      faction.trim().length > 0
+      ? faction
+      : unit.id;
+  }
+
+  /**
+   * A unit's `sightRadius` property, else `vision.defaultSightRadius`
+   */
+  public getSightRadius(unit: BaseUnit): number {
+    const value = unit.getPropertyValue<unknown>('sightRadius');
+    return isNumber(value) && value >= 0
+      ? Math.floor(value)
+      : this.config.defaultSightRadius;
+  }
+
+  /**
+   * Rebuilds what every living unit sees and marks it explored
+   */
+  public update(world: World, units: BaseUnit[]): void {
+    this.visible = new Map();
+    this.visibleByFaction = new Map();
+
+    for (const unit of units) {
+      const position = unit.getPropertyValue<IUnitPosition>('position');
+      if (!UnitLifecycle.isAlive(unit) || !isUnitPosition(position)) continue;
+
+      const map = world.getMap(position.mapId);
+      if (!map) continue;
+
+      const keys = this.getTilesInSight(
+        map,
+        position.position,
+        this.getSightRadius(unit)
+      ).map(tile =>
+        getMapPositionKey({ mapId: position.mapId, position: tile })
+      );
+      const viewerId = this.getViewerId(unit);
+      this.addTiles(this.visible, viewerId, keys);
+      this.addTiles(this.explored, viewerId, keys);
+
+      const faction = unit.getPropertyValue<unknown>('faction');
+      if (typeof faction === 'string') {
+        this.addTiles(this.visibleByFaction, faction, keys);
+      }
+    }
+  }
+
+  /**
+   * Whether the viewer knows where the target is: itself, a unit it shares
+   * vision with, or a unit standing on a tile it sees
+   */
+  public canSee(viewer: BaseUnit, target: BaseUnit): boolean {
+    if (!this.config.enabled || viewer.id === target.id) {
+      return true;
+    }
+    const viewerId = this.getViewerId(viewer);
+    if (viewerId === this.getViewerId(target)) {
+      return true;
+    }
+    return this.isOnTiles(target, this.visible.get(viewerId));
+  }
+
+  public getVisibleUnits(viewer: BaseUnit, units: BaseUnit[]): BaseUnit[] {
+    return units.filter(unit => this.canSee(viewer, unit));
+  }
+
+  /**
+   * Whether any member of the faction sees the unit, for drawing the map
+   * from that faction's point of view
+   */
+  public isVisibleToFaction(faction: string, unit: BaseUnit): boolean {
+    if (!this.config.enabled) {
+      return true;
+    }
+    return (
+      unit.getPropertyValue<unknown>('faction') === faction ||
+      this.isOnTiles(unit, this.visibleByFaction.get(faction))
+    );
+  }
+
+  /**
+   * Map position keys of the tiles the viewer sees now
+   */
+  public getVisibleTiles(viewerId: string): string[] {
+    return [...(this.visible.get(viewerId) ?? [])];
+  }
+
+  /**
+   * Map position keys of every tile the viewer has seen this session
+   */
+  public getExploredTiles(viewerId: string): string[] {
+    return [...(this.explored.get(viewerId) ?? [])];
+  }
+
+  public isVisible(viewerId: string, position: IMapPosition): boolean {
+    return (
+      this.visible.get(viewerId)?.has(getMapPositionKey(position)) ?? false
+    );
+  }
+
+  public isExplored(viewerId: string, position: IMapPosition): boolean {
+    return (
+      this.explored.get(viewerId)?.has(getMapPositionKey(position)) ?? false
+    );
+  }
+
+  /**
+   * Tiles within `radius` (Manhattan) of the origin that terrain does not
+   * hide. Blocking terrain hides what lies behind it; every tile on the way,
+   * the seen tile included, also uses up its terrain's sight penalty.
+   */
+  public getTilesInSight(
+    map: ChoukaiMap,
+    origin: { x: number; y: number },
+    radius: number
+  ): Array<{ x: number; y: number }> {
+    const tiles: Array<{ x: number; y: number }> = [];
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        const tile = { x: origin.x + dx, y: origin.y + dy };
+        const distance = Math.abs(dx) + Math.abs(dy);
+        if (
+          distance > radius ||
+          tile.x < 0 ||
+          tile.y < 0 ||
+          tile.x >= map.width ||
+          tile.y >= map.height
+        ) {
+          continue;
+        }
+        if (distance === 0 || this.getSightCost(map, origin, tile) <= radius) {
+          tiles.push(tile);
+        }
+      }
+    }
+    return tiles;
+  }
+
+  /**
+   * Sight used up to see a tile; Infinity when blocking terrain is in the way
+   */
+  private getSightCost(
+    map: ChoukaiMap,
+    from: { x: number; y: number },
+    to: { x: number; y: number }
+  ): number {
+    let cost = Math.abs(to.x - from.x) + Math.abs(to.y - from.y);
+    for (const point of ActionTargeting.getLinePoints(from, to)) {
+      const terrain = map.getTerrain(point.x, point.y);
+      if (this.config.blockingTerrain.includes(terrain)) {
+        return Infinity;
+      }
+      cost += this.config.sightPenalty[terrain] ?? 0;
+    }
+    return cost + (this.config.sightPenalty[map.getTerrain(to.x, to.y)] ?? 0);
+  }
+
+  private isOnTiles(unit: BaseUnit, tiles?: Set<string>): boolean {
+    const position = unit.getPropertyValue<IUnitPosition>('position');
+    if (!tiles || !isUnitPosition(position)) {
+      return false;
+    }
+    return tiles.has(getMapPositionKey(position));
+  }
+
+  private addTiles(
+    target: Map<string, Set<string>>,
+    id: string,
+    keys: string[]
+  ): void {
+    const tiles = target.get(id) ?? new Set<string>();
+    for (const key of keys) tiles.add(key);
+    target.set(id, tiles);
+  }
+}
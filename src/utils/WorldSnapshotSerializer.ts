@@ -9,12 +9,53 @@ import {
   type TerrainType,
   type IMapConfig,
 } from '@atsu/choukai';
+import type { BaseUnit, IUnitPosition } from '@atsu/atago';
+import { GateSystem, type GateConnection } from './GateSystem';
+
+/**
+ * Current world snapshot format version.
+ * 1: maps only (snapshots without a `version` field); 2: adds gates and unit placements.
+ */
+export const WORLD_SNAPSHOT_VERSION = 2;
 
 /**
  * Serializable world snapshot data structure
  */
 export interface SerializableWorldSnapshot {
+  version?: number;
   maps: MapSnapshot[];
+  /** Gate definitions; bidirectional gates are stored once. */
+  gates?: GateConnection[];
+  /** Optional unit placement layer. */
+  units?: UnitPlacementSnapshot[];
+}
+
+/**
+ * Where a unit stood when the world was saved
+ */
+export interface UnitPlacementSnapshot {
+  unitId: string;
+  mapId: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Extra state to include when serializing a world
+ */
+export interface WorldSnapshotOptions {
+  gateSystem?: GateSystem;
+  units?: BaseUnit[];
+}
+
+/**
+ * Fully restored world state
+ */
+export interface WorldSnapshotState {
+  version: number;
+  world: ChoukaiWorld;
+  gateSystem: GateSystem;
+  units: UnitPlacementSnapshot[];
 }
 
 /**
@@ -35,10 +76,13 @@ export class WorldSnapshotSerializer {
   /**
    * Serialize a Choukai World to a compressed snapshot
    * @param world - The world to serialize
-   * @param unitNames - Optional mapping from unit ID to unit name for rendering
+   * @param options - Gate system and units to include in the snapshot
    * @returns Serialized world snapshot data
    */
-  static serialize(world: ChoukaiWorld): SerializableWorldSnapshot {
+  static serialize(
+    world: ChoukaiWorld,
+    options: WorldSnapshotOptions = {}
+  ): SerializableWorldSnapshot {
     console.log('WorldSnapshotSerializer.serialize called with', {
       mapsCount: world.getAllMaps().length,
     });
@@ -98,10 +142,60 @@ export class WorldSnapshotSerializer {
       `World serialized successfully. Maps: ${serializedMaps.length}`
     );
     return {
+      version: WORLD_SNAPSHOT_VERSION,
       maps: serializedMaps,
+      gates: options.gateSystem?.getDefinitions() ?? [],
+      ...(options.units && {
+        units: this.serializeUnitPlacements(options.units),
+      }),
+    };
+  }
+
+  /**
+   * Deserialize a snapshot of any supported version into a world, a gate
+   * system with every saved gate, and the saved unit placements
+   * @param data - The serialized world snapshot data
+   * @returns Restored world state
+   */
+  static deserializeState(data: SerializableWorldSnapshot): WorldSnapshotState {
+    const version = data.version ?? 1;
+    if (version > WORLD_SNAPSHOT_VERSION) {
+      throw new Error(
+        `World snapshot version ${version} is newer than supported version ${WORLD_SNAPSHOT_VERSION}`
+      );
+    }
+
+    const gateSystem = new GateSystem();
+    gateSystem.load(data.gates ?? []);
+
+    return {
+      version,
+      world: this.deserialize(data),
+      gateSystem,
+      units: data.units ?? [],
     };
   }
 
+  /**
+   * Build the placement layer from units that have a position
+   */
+  private static serializeUnitPlacements(
+    units: BaseUnit[]
+  ): UnitPlacementSnapshot[] {
+    const placements: UnitPlacementSnapshot[] = [];
+    for (const unit of units) {
+      const unitPosition = unit.getPropertyValue<IUnitPosition>('position');
+      if (!unitPosition) continue;
+      placements.push({
+        unitId: unit.id,
+        mapId: unitPosition.mapId,
+        x: unitPosition.position.x,
+        y: unitPosition.position.y,
+      });
+    }
+    return placements;
+  }
+
   /**
    * Deserialize a serialized world snapshot to a Choukai World
    * @param data - The serialized world snapshot data
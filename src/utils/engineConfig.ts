@@ -1,5 +1,15 @@
 // Shared configuration types and helpers for engine setup.
 
+import type { TerrainType } from '@atsu/choukai';
+import type {
+  CorpsePolicy,
+  LootPolicy,
+  SquadFormation,
+  StatusDurationUnit,
+  StatusStackingRule,
+  TerrainRule,
+} from '../types';
+
 export interface AppConfig {
   /** Max turns before stopping the session unless runIndefinitely is true. */
   maxTurnsPerSession: number;
@@ -19,6 +29,10 @@ export interface AppConfig {
   placementMapName?: string;
   /** Cooldown in milliseconds after each movement step is applied. */
   movementStepCooldownMs?: number;
+  /** Seed for every random roll in a session; falls back to mapGeneration.seed. */
+  seed?: string;
+  /** Units of these factions wait for player input on their turn. */
+  playerFactions?: string[];
 }
 
 export interface MapGenerationConfig {
@@ -102,11 +116,94 @@ export interface MayaRenderingConfig {
   consoleMaxEntries?: number;
   /** Title for the console panel. */
   consoleTitle?: string;
+  /** Only draw units this faction can see. */
+  perspectiveFaction?: string;
+}
+
+export interface StatusEffectsConfig {
+  /** Rule used when an effect does not declare `stacking`. */
+  defaultStacking: StatusStackingRule;
+  /** Maximum concurrent stacks of one status on one property. */
+  maxStacks: number;
+  /** Unit used when an effect does not declare `durationUnit`. */
+  defaultDurationUnit: StatusDurationUnit;
+}
+
+export interface LifecycleConfig {
+  /** What happens to a dead unit's body when no rule below removes it. */
+  corpsePolicy: CorpsePolicy;
+  /** Factions whose dead are always removed from play. */
+  removeFactions: string[];
+  /** Unit types whose dead are always removed from play. */
+  removeTypes: string[];
+  /** When the killer takes the dead unit's loot. */
+  lootPolicy: LootPolicy;
+  /** Numeric properties handed to the killer as loot. */
+  lootProperties: string[];
+}
+
+export interface GoalsConfig {
+  /** Score a new goal needs above the current one before a unit switches. */
+  switchMargin: number;
+  /** Turns before a done or blocked goal may be picked again. */
+  cooldownTurns: number;
+  /** Turns a failed action is tried last by the goals that list it. */
+  failedActionTurns: number;
 }
 
+export interface SquadsConfig {
+  /** Units without a `squad` property join the squad named after their faction. */
+  deriveFromFaction: boolean;
+  /** Formation used until a squad's blackboard sets another. */
+  formation: SquadFormation;
+  /** Tiles members may drift from their formation anchor or rally point. */
+  spacing: number;
+}
+
+export interface VisionConfig {
+  /** When false every unit sees every other unit. */
+  enabled: boolean;
+  /** Sight radius, in tiles, of units without a `sightRadius` property. */
+  defaultSightRadius: number;
+  /** Units of one faction share what they see and have explored. */
+  shareWithFaction: boolean;
+  /** Terrain that hides every tile behind it. */
+  blockingTerrain: TerrainType[];
+  /** Extra sight each tile of a terrain uses up, the seen tile included. */
+  sightPenalty: Partial<Record<TerrainType, number>>;
+}
+
+export interface MemoryConfig {
+  /** Turns a hostile sighting or attacker is remembered after it was last seen. */
+  forgetAfterTurns: number;
+  /** Share of remembered damage and sighting weight kept each turn. */
+  decay: number;
+  /** Tiles (Manhattan) a hostile's threat reaches past its own tile. */
+  threatRadius: number;
+}
+
+/**
+ * Rules per terrain type; terrain without a rule costs 1 and has no modifiers
+ */
+export type TerrainConfig = Partial<Record<TerrainType, TerrainRule>>;
+
 export interface FullConfig extends AppConfig {
   /** Override values for map generation; omitted fields fall back to defaults. */
   mapGeneration?: Partial<MapGenerationConfig>;
   /** Rendering settings consumed by Maya and logger configuration. */
   rendering: MayaRenderingConfig;
+  /** Timed status effect rules; omitted fields fall back to defaults. */
+  statusEffects?: Partial<StatusEffectsConfig>;
+  /** Death, loot and corpse rules; omitted fields fall back to defaults. */
+  lifecycle?: Partial<LifecycleConfig>;
+  /** Goal stickiness, cooldowns and failure memory; omitted fields fall back to defaults. */
+  goals?: Partial<GoalsConfig>;
+  /** Squad membership and formation; omitted fields fall back to defaults. */
+  squads?: Partial<SquadsConfig>;
+  /** Terrain movement and combat rules; each listed field overrides the default rule. */
+  terrain?: Partial<Record<TerrainType, Partial<TerrainRule>>>;
+  /** Sight radius and what blocks line of sight; omitted fields fall back to defaults. */
+  vision?: Partial<VisionConfig>;
+  /** What units remember of hostiles and how far threat spreads; omitted fields fall back to defaults. */
+  memory?: Partial<MemoryConfig>;
 }
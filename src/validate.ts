@@ -0,0 +1,31 @@
+/**
+ * Validates the engine's data files without starting the engine.
+ * Usage: npm run validate -- [dataDir]
+ * Prints every issue and exits with code 1 when any of them is an error.
+ */
+
+import * as path from 'path';
+import { DataManager } from './utils/DataManager';
+import { DataValidator } from './utils/DataValidator';
+import { FileSystemStorageAdapter } from './utils/StorageAdapter';
+
+const dataDir = process.argv[2];
+const storage = dataDir
+  ? new FileSystemStorageAdapter(path.resolve(dataDir))
+  : DataManager.storage;
+
+const report = DataManager.validateDataFiles(storage);
+const errorCount = report.issues.filter(
+  issue => issue.severity === 'error'
+).length;
+const warningCount = report.issues.length - errorCount;
+
+if (report.issues.length > 0) {
+  console.log(DataValidator.formatIssues(report.issues));
+}
+console.log(
+  report.valid
+    ? `Data files are valid (${warningCount} warning(s))`
+    : `Found ${errorCount} error(s) and ${warningCount} warning(s)`
+);
+process.exitCode = report.valid ? 0 : 1;
@@ -160,6 +160,42 @@ describe('ActionProcessor range validation', () => {
     expect(withinRange.success).toBe(true);
   });
 
+  it('prefers targeting ranges over payload range', async () => {
+    const action = {
+      player: 'Player1',
+      type: 'shoot',
+      description: 'Player1 shoots Player3',
+      targeting: { type: 'hostile' as const, minRange: 2, maxRange: 6 },
+      payload: { targetUnit: 'unit3', range: 1 },
+    };
+
+    const farTarget = await actionProcessor.executeActionEffect(action, units);
+    expect(farTarget.success).toBe(true);
+
+    action.payload.targetUnit = 'unit2';
+    const tooClose = await actionProcessor.executeActionEffect(action, units);
+    expect(tooClose.success).toBe(false);
+    expect(tooClose.errorMessage).toContain('too close');
+  });
+
+  it('denies line-of-sight actions through walls', async () => {
+    const action = {
+      player: 'Player1',
+      type: 'shoot',
+      description: 'Player1 shoots Player3',
+      targeting: { type: 'hostile' as const, maxRange: 6, lineOfSight: true },
+      payload: { targetUnit: 'unit3' },
+    };
+
+    const clear = await actionProcessor.executeActionEffect(action, units);
+    expect(clear.success).toBe(true);
+
+    world.getMap('Test Map').setTerrain(3, 3, 'wall');
+    const blocked = await actionProcessor.executeActionEffect(action, units);
+    expect(blocked.success).toBe(false);
+    expect(blocked.errorMessage).toContain('not in line of sight');
+  });
+
   it('should allow action when no target unit specified', async () => {
    const action = {
      player: 'Player1',
@@ -192,4 +228,150 @@ describe('ActionProcessor range validation', () => {
     expect(result.success).toBe(true);
     expect(units[0].getPropertyValue('courage')).toBe(3); // initialized to 1 then +2
   });
+
+  it('evaluates calculation expressions against actor and target', async () => {
+    units[0].setProperty('faction', 'Red');
+    units[0].setProperty('attack', 20);
+    units[1].setProperty('faction', 'Blue');
+    units[1].setProperty('health', 50);
+    units[1].setProperty('defense', 4);
+
+    const action = {
+      player: 'Player1',
+      type: 'custom_calculation',
+      description: 'Player1 strikes Player2',
+      payload: { targetUnit: 'unit2', range: 1 },
+      effects: [
+        {
+          target: 'unit',
+          property: 'health',
+          operation: 'subtract',
+          value: {
+            type: 'calculation',
+            expression: 'actor.attack - target.defense',
+          },
+          permanent: false,
+        },
+      ],
+    };
+
+    const result = await actionProcessor.executeActionEffect(action, units);
+
+    expect(result.success).toBe(true);
+    expect(units[1].getPropertyValue('health')).toBe(34);
+  });
+
+  it('skips effects whose condition evaluates false', async () => {
+    units[0].setProperty('mana', 10);
+
+    const action = {
+      player: 'Player1',
+      type: 'custom_conditional',
+      description: 'Player1 focuses',
+      effects: [
+        {
+          target: 'self',
+          property: 'mana',
+          operation: 'add',
+          value: { type: 'static', value: 5 },
+          permanent: false,
+          condition: 'mana >= 50',
+        },
+        {
+          target: 'self',
+          property: 'mana',
+          operation: 'add',
+          value: { type: 'static', value: 1 },
+          permanent: false,
+          condition: 'actor.mana < 50 && !(target.mana > 10)',
+        },
+      ],
+    };
+
+    const result = await actionProcessor.executeActionEffect(action, units);
+
+    expect(result.success).toBe(true);
+    expect(units[0].getPropertyValue('mana')).toBe(11);
+  });
+
+  it('kills units at 0 health and only lets dead-targeting actions touch them', async () => {
+    units[0].setProperty('faction', 'Red');
+    units[1].setProperty('faction', 'Blue');
+    units[1].setProperty('health', 5);
+    const strike = {
+      player: 'Player1',
+      type: 'custom_strike',
+      description: 'Player1 strikes Player2',
+      payload: { targetUnit: 'unit2' },
+      effects: [
+        {
+          target: 'unit',
+          property: 'health',
+          operation: 'subtract',
+          value: { type: 'static', value: 10 },
+          permanent: false,
+        },
+      ],
+    };
+
+    const result = await actionProcessor.executeActionEffect(strike, units);
+
+    expect(result.deaths).toEqual([
+      expect.objectContaining({
+        unitId: 'unit2',
+        killerId: 'unit1',
+        cause: 'custom_strike',
+      }),
+    ]);
+    expect(units[1].getPropertyValue('status')).toBe('dead');
+
+    const again = await actionProcessor.executeActionEffect(strike, units);
+    expect(again.deaths).toBeUndefined();
+
+    const revive = {
+      player: 'Player1',
+      type: 'custom_revive',
+      description: 'Player1 revives Player2',
+      targeting: { type: 'any' as const, status: 'dead' as const },
+      payload: { targetUnit: 'unit2' },
+      effects: [
+        {
+          target: 'unit',
+          property: 'health',
+          operation: 'set',
+          value: { type: 'static', value: 20 },
+          permanent: false,
+        },
+      ],
+    };
+
+    await actionProcessor.executeActionEffect(revive, units);
+
+    expect(units[1].getPropertyValue('health')).toBe(20);
+    expect(units[1].getPropertyValue('status')).toBe('alive');
+  });
+
+  it('removes dead bodies through unit remove effects', async () => {
+    units[1].setProperty('status', 'dead');
+    const rites = {
+      player: 'Player1',
+      type: 'custom_rites',
+      description: 'Player1 buries Player2',
+      targeting: { type: 'any' as const, status: 'dead' as const },
+      payload: { targetUnit: 'unit2' },
+      effects: [
+        {
+          target: 'unit',
+          property: 'unit',
+          operation: 'remove',
+          value: { type: 'static', value: 0 },
+          permanent: true,
+        },
+      ],
+    };
+
+    const result = await actionProcessor.executeActionEffect(rites, units);
+
+    expect(result.removedUnitIds).toEqual(['unit2']);
+  });
 });
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { ActionTargeting } from '../src/utils/ActionTargeting';
+
+describe('ActionTargeting', () => {
+  it('fills in defaults and falls back to payload range', () => {
+    expect(ActionTargeting.resolve({ payload: { range: 4 } })).toEqual({
+      type: 'none',
+      area: 'single',
+      areaSize: 1,
+      areaOrigin: 'target',
+      minRange: 0,
+      maxRange: 4,
+      lineOfSight: false,
+      status: 'alive',
+    });
+    expect(
+      ActionTargeting.resolve({
+        targeting: { type: 'hostile', maxRange: 2 },
+        payload: { range: 4 },
+      }).maxRange
+    ).toBe(2);
+    expect(ActionTargeting.resolve({}).maxRange).toBe(1);
+  });
+
+  it('requires a target only for unit targeting types', () => {
+    expect(ActionTargeting.requiresTarget({})).toBe(false);
+    expect(
+      ActionTargeting.requiresTarget({ targeting: { type: 'self' } })
+    ).toBe(false);
+    expect(
+      ActionTargeting.requiresTarget({ targeting: { type: 'ally' } })
+    ).toBe(true);
+    expect(ActionTargeting.requiresTarget({ targeting: { type: 'any' } })).toBe(
+      true
+    );
+  });
+
+  it('checks distance against min and max range', () => {
+    const targeting = ActionTargeting.resolve({
+      targeting: { type: 'hostile', minRange: 2, maxRange: 4 },
+    });
+
+    expect(ActionTargeting.isWithinRange(targeting, 1)).toBe(false);
+    expect(ActionTargeting.isWithinRange(targeting, 2)).toBe(true);
+    expect(ActionTargeting.isWithinRange(targeting, 4)).toBe(true);
+    expect(ActionTargeting.isWithinRange(targeting, 5)).toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
+import { World, Map as ChoukaiMap, Position } from '@atsu/choukai';
+import { AreaOfEffect } from '../src/utils/AreaOfEffect';
+import { ActionTargeting } from '../src/utils/ActionTargeting';
+import { ActionProcessor } from '../src/utils/ActionProcessor';
+import type { Action, TargetArea } from '../src/types';
+
+const createUnit = (
+  id: string,
+  faction: string,
+  x: number,
+  y: number
+): BaseUnit => {
+  const unit = new BaseUnit(id, id, 'warrior');
+  unit.setProperty('faction', faction);
+  unit.setProperty('health', 50);
+  unit.setProperty('position', {
+    unitId: id,
+    mapId: 'Test Map',
+    position: new Position(x, y),
+  });
+  return unit;
+};
+
+describe('AreaOfEffect', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+    world.addMap(new ChoukaiMap(10, 10, 'Test Map'));
+  });
+
+  describe('shapes centered on the target', () => {
+    const actor = createUnit('actor', 'Red', 2, 2);
+    const target = createUnit('target', 'Blue', 5, 5);
+    const side = createUnit('side', 'Blue', 6, 5);
+    const corner = createUnit('corner', 'Blue', 6, 6);
+    const far = createUnit('far', 'Blue', 9, 9);
+    const units = [actor, target, side, corner, far];
+
+    const caughtIds = (area: TargetArea): string[] =>
+      AreaOfEffect.getUnitsInArea(
+        world,
+        units,
+        actor,
+        target,
+        ActionTargeting.resolve({ targeting: { type: 'hostile', area } })
+      ).map(({ unit }) => unit.id);
+
+    it('resolves radius, diamond and square areas', () => {
+      expect(caughtIds('radius')).toEqual(['target', 'side']);
+      expect(caughtIds('diamond')).toEqual(['target', 'side']);
+      expect(caughtIds('square')).toEqual(['target', 'side', 'corner']);
+      expect(caughtIds('single')).toEqual(['target']);
+    });
+  });
+
+  it('extends lines and cones from the actor toward the target', () => {
+    const actor = createUnit('actor', 'Red', 0, 0);
+    const first = createUnit('first', 'Blue', 1, 0);
+    const target = createUnit('target', 'Blue', 3, 0);
+    const flank = createUnit('flank', 'Blue', 2, 1);
+    const behind = createUnit('behind', 'Blue', 5, 0);
+    const units = [actor, first, target, flank, behind];
+
+    const caught = (area: TargetArea) =>
+      AreaOfEffect.getUnitsInArea(
+        world,
+        units,
+        actor,
+        target,
+        ActionTargeting.resolve({
+          targeting: { type: 'hostile', area, areaSize: 3 },
+        })
+      ).map(({ unit, distance }) => `${unit.id}@${distance}`);
+
+    expect(caught('line')).toEqual(['first@0', 'target@2']);
+    expect(caught('cone')).toEqual(['first@0', 'flank@1', 'target@2']);
+  });
+
+  it('scores placements by hostiles minus allies', () => {
+    const actor = createUnit('actor', 'Red', 0, 0);
+    const targeting = ActionTargeting.resolve({
+      targeting: { type: 'hostile', area: 'radius' },
+    });
+    const caught = [
+      { unit: actor, distance: 1 },
+      { unit: createUnit('a', 'Blue', 0, 0), distance: 0 },
+      { unit: createUnit('b', 'Blue', 0, 0), distance: 1 },
+      { unit: createUnit('c', 'Red', 0, 0), distance: 1 },
+    ];
+
+    expect(AreaOfEffect.scorePlacement(targeting, actor, caught)).toBe(1);
+    expect(AreaOfEffect.getFalloffScale(0.25, 2)).toBe(0.5);
+    expect(AreaOfEffect.getFalloffScale(0.5, 3)).toBe(0);
+  });
+
+  describe('area effects in ActionProcessor', () => {
+    let units: BaseUnit[];
+    let action: Action;
+
+    beforeEach(() => {
+      units = [
+        createUnit('actor', 'Red', 2, 2),
+        createUnit('target', 'Blue', 5, 5),
+        createUnit('side', 'Blue', 6, 5),
+        createUnit('friend', 'Red', 5, 6),
+      ];
+      action = {
+        player: 'actor',
+        type: 'custom_fireball',
+        description: 'actor hurls fire',
+        targeting: { type: 'hostile', area: 'radius', maxRange: 6 },
+        payload: { targetUnit: 'target' },
+        effects: [
+          {
+            target: 'area',
+            property: 'health',
+            operation: 'subtract',
+            value: { type: 'static', value: 20 },
+            permanent: false,
+            falloff: 0.5,
+          },
+        ],
+      };
+    });
+
+    const health = (id: string) =>
+      units.find(unit => unit.id === id)?.getPropertyValue('health');
+
+    it('applies falloff, spares allies and reports every hit', async () => {
+      const processor = new ActionProcessor(undefined, world);
+      const result = await processor.executeActionEffect(action, units);
+
+      expect(result.success).toBe(true);
+      expect(health('target')).toBe(30);
+      expect(health('side')).toBe(40);
+      expect(health('friend')).toBe(50);
+      expect(result.areaHits).toEqual([
+        {
+          unitId: 'target',
+          unitName: 'target',
+          property: 'health',
+          distance: 0,
+          scale: 1,
+        },
+        {
+          unitId: 'side',
+          unitName: 'side',
+          property: 'health',
+          distance: 1,
+          scale: 0.5,
+        },
+      ]);
+    });
+
+    it('hits allies with friendly fire', async () => {
+      const [effect] = action.effects ?? [];
+      action.effects = [{ ...effect!, friendlyFire: true }];
+
+      const processor = new ActionProcessor(undefined, world);
+      const result = await processor.executeActionEffect(action, units);
+
+      expect(health('friend')).toBe(40);
+      expect(result.areaHits?.map(hit => hit.unitId).sort()).toEqual([
+        'friend',
+        'side',
+        'target',
+      ]);
+    });
+
+    it('reports only the units whose condition is met', async () => {
+      const [effect] = action.effects ?? [];
+      action.effects = [{ ...effect!, condition: '!target.warded' }];
+      units.find(unit => unit.id === 'side')?.setProperty('warded', true);
+
+      const processor = new ActionProcessor(undefined, world);
+      const result = await processor.executeActionEffect(action, units);
+
+      expect(health('side')).toBe(50);
+      expect(result.areaHits?.map(hit => hit.unitId)).toEqual(['target']);
+    });
+  });
+});
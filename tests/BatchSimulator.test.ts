@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BatchSimulator,
+  type SimulationReport,
+} from '../src/core/BatchSimulator';
+
+const report: SimulationReport = {
+  sessions: [{ seed: 'balance-1', turnsPlayed: 4, units: 3, unplacedUnits: 1 }],
+  turnsPlayed: 4,
+  actionUsage: { attack: { count: 3, share: 0.75 } },
+  failures: { attack: { range: 1 } },
+  damageByUnitType: {
+    beast: { units: 1, dealt: 0, taken: 12, averageDealt: 0, averageTaken: 12 },
+  },
+  survivalByFaction: {
+    'Wild Animals': { units: 1, survived: 0, rate: 0 },
+  },
+  goalSelection: { 'Hunt, then rest': { count: 4, share: 1 } },
+};
+
+describe('BatchSimulator', () => {
+  it('flattens a report into CSV rows', () => {
+    const lines = BatchSimulator.toCsv(report).split('\n');
+
+    expect(lines[0]).toBe('section,name,metric,value');
+    expect(lines).toContain('session,balance-1,turnsPlayed,4');
+    expect(lines).toContain('session,balance-1,unplacedUnits,1');
+    expect(lines).toContain('action,attack,share,0.75');
+    expect(lines).toContain('failure,attack,range,1');
+    expect(lines).toContain('damage,beast,averageTaken,12');
+    expect(lines).toContain('survival,Wild Animals,rate,0');
+    expect(lines).toContain('goal,"Hunt, then rest",count,4');
+  });
+
+  it('rejects empty batches', async () => {
+    await expect(
+      BatchSimulator.run({ sessions: 0, turns: 10 })
+    ).rejects.toThrow('at least one session and one turn');
+  });
+
+  it('reproduces the same statistics for the same seed', async () => {
+    const options = { sessions: 2, turns: 5, seed: 'balance' };
+
+    const first = await BatchSimulator.run(options);
+    const second = await BatchSimulator.run(options);
+
+    expect(first.sessions.map(session => session.seed)).toEqual([
+      'balance-1',
+      'balance-2',
+    ]);
+    expect(first.turnsPlayed).toBeGreaterThan(0);
+    expect(second.actionUsage).toEqual(first.actionUsage);
+    expect(second.survivalByFaction).toEqual(first.survivalByFaction);
+
+    const damage = Object.values(first.damageByUnitType);
+    const dealt = damage.reduce((total, stats) => total + stats.dealt, 0);
+    const taken = damage.reduce((total, stats) => total + stats.taken, 0);
+    expect(dealt).toBeLessThanOrEqual(taken);
+    expect(first.sessions.every(session => session.unplacedUnits === 0)).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
+import {
+  StandardCombatResolver,
+  type CombatContext,
+  type CombatResolver,
+} from '../src/utils/CombatResolver';
+import { ActionProcessor } from '../src/utils/ActionProcessor';
+import { RandomGenerator } from '../src/utils/RandomGenerator';
+import type { Action, CombatRoll } from '../src/types';
+
+describe('StandardCombatResolver', () => {
+  let attacker: BaseUnit;
+  let defender: BaseUnit;
+  let random: RandomGenerator;
+
+  const rollSequence = (...rolls: number[]) => {
+    const spy = vi.spyOn(random, 'next');
+    rolls.forEach(roll => spy.mockReturnValueOnce(roll));
+  };
+
+  const resolve = (
+    damageType: CombatContext['damageType'] = 'physical'
+  ): CombatRoll =>
+    new StandardCombatResolver().resolve({
+      attacker,
+      defender,
+      baseDamage: 10,
+      damageType,
+      actionType: 'attack',
+      random,
+    });
+
+  beforeEach(() => {
+    attacker = new BaseUnit('attacker', 'Attacker', 'warrior');
+    attacker.setProperty('attack', 20);
+    defender = new BaseUnit('defender', 'Defender', 'beast');
+    defender.setProperty('defense', 12);
+    defender.setProperty('resistances', { magical: 0.5 });
+    random = new RandomGenerator('combat');
+  });
+
+  it('scales hit chance with attack over defense and mitigates physical damage', () => {
+    rollSequence(0.5, 0.9);
+
+    expect(resolve()).toEqual({
+      attackerId: 'attacker',
+      defenderId: 'defender',
+      damageType: 'physical',
+      hitChance: 0.88,
+      hitRoll: 0.5,
+      hit: true,
+      critChance: 0.05,
+      critRoll: 0.9,
+      critical: false,
+      baseDamage: 10,
+      mitigation: 3,
+      resistance: 0,
+      damage: 11,
+    });
+  });
+
+  it('multiplies critical hits before mitigation', () => {
+    rollSequence(0.1, 0.01);
+
+    const roll = resolve();
+    expect(roll.critical).toBe(true);
+    expect(roll.damage).toBe(18);
+  });
+
+  it('applies resistances to magical damage and ignores defense', () => {
+    rollSequence(0.5, 0.9);
+
+    const roll = resolve('magical');
+    expect(roll.mitigation).toBe(0);
+    expect(roll.resistance).toBe(0.5);
+    expect(roll.damage).toBe(7);
+  });
+
+  it('deals no damage on a miss', () => {
+    rollSequence(0.95, 0);
+
+    const roll = resolve();
+    expect(roll.hit).toBe(false);
+    expect(roll.critical).toBe(false);
+    expect(roll.damage).toBe(0);
+  });
+
+  it("adds the defender's terrain defense and evasion", () => {
+    rollSequence(0.5, 0.9);
+    const terrain = { terrain: 'forest' as const, defense: 4, evasion: 0.1 };
+
+    const roll = new StandardCombatResolver().resolve({
+      attacker,
+      defender,
+      baseDamage: 10,
+      damageType: 'physical',
+      actionType: 'attack',
+      random,
+      terrain,
+    });
+    expect(roll.hitChance).toBeCloseTo(0.74);
+    expect(roll.mitigation).toBe(4);
+    expect(roll.damage).toBe(10);
+    expect(roll.terrain).toEqual(terrain);
+  });
+});
+
+describe('ActionProcessor combat resolution', () => {
+  class FixedResolver implements CombatResolver {
+    public resolve(context: CombatContext): CombatRoll {
+      return {
+        defenderId: context.defender.id,
+        damageType: context.damageType,
+        hitChance: 1,
+        hitRoll: 0,
+        hit: true,
+        critChance: 0,
+        critRoll: 1,
+        critical: false,
+        baseDamage: context.baseDamage,
+        mitigation: 0,
+        resistance: 0,
+        damage: 7,
+      };
+    }
+  }
+
+  const createAction = (damageType?: 'physical'): Action => ({
+    player: 'attacker',
+    type: 'custom_strike',
+    description: 'attacker strikes defender',
+    payload: { targetUnit: 'defender' },
+    effects: [
+      {
+        target: 'unit',
+        property: 'health',
+        operation: 'subtract',
+        value: { type: 'static', value: 20 },
+        permanent: false,
+        ...(damageType ? { damageType } : {}),
+      },
+    ],
+  });
+
+  const createUnits = (): BaseUnit[] => {
+    const attacker = new BaseUnit('attacker', 'Attacker', 'warrior');
+    attacker.setProperty('faction', 'Red');
+    const defender = new BaseUnit('defender', 'Defender', 'beast');
+    defender.setProperty('faction', 'Blue');
+    defender.setProperty('health', 50);
+    return [attacker, defender];
+  };
+
+  it('routes damage effects with a damage type through the resolver', async () => {
+    const units = createUnits();
+    const processor = new ActionProcessor(
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      new FixedResolver()
+    );
+
+    const result = await processor.executeActionEffect(
+      createAction('physical'),
+      units
+    );
+
+    expect(units[1]?.getPropertyValue('health')).toBe(43);
+    expect(result.combatRolls).toHaveLength(1);
+    expect(result.combatRolls?.[0]?.baseDamage).toBe(20);
+  });
+
+  it('leaves untyped damage effects unchanged', async () => {
+    const units = createUnits();
+    const processor = new ActionProcessor();
+    processor.setCombatResolver(new FixedResolver());
+
+    const result = await processor.executeActionEffect(createAction(), units);
+
+    expect(units[1]?.getPropertyValue('health')).toBe(30);
+    expect(result.combatRolls).toBeUndefined();
+  });
+});
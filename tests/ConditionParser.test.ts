@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
 import { ConditionParser } from '../src/utils/ConditionParser';
 
 describe('ConditionParser', () => {
@@ -68,4 +69,77 @@ describe('ConditionParser', () => {
       expect(ConditionParser.evaluateCondition('health > -5', -10)).toBe(false);
     });
   });
+
+  describe('evaluate', () => {
+    const actor = new BaseUnit('actor', 'Actor', 'warrior', {
+      health: { name: 'health', value: 40, baseValue: 40 },
+      faction: {
+        name: 'faction',
+        value: 'Adventurers',
+        baseValue: 'Adventurers',
+      },
+    });
+    const target = new BaseUnit('wolf', 'Wolf', 'beast', {
+      health: { name: 'health', value: 10, baseValue: 10 },
+      faction: {
+        name: 'faction',
+        value: 'Wild Animals',
+        baseValue: 'Wild Animals',
+      },
+    });
+
+    it('supports equality and string comparisons', () => {
+      const context = { actor, target };
+      expect(
+        ConditionParser.evaluate("target.faction == 'Wild Animals'", context)
+      ).toBe(true);
+      expect(
+        ConditionParser.evaluate('faction != "Adventurers"', context)
+      ).toBe(false);
+      expect(ConditionParser.evaluate('health == 40', context)).toBe(true);
+    });
+
+    it('combines clauses with &&, ||, !, and parentheses', () => {
+      const context = { actor, target };
+      expect(
+        ConditionParser.evaluate(
+          'actor.health > 30 && target.health < 20',
+          context
+        )
+      ).toBe(true);
+      expect(
+        ConditionParser.evaluate(
+          '!(health > 30) || target.health > 20',
+          context
+        )
+      ).toBe(false);
+      expect(
+        ConditionParser.evaluate(
+          "(health < 10 || faction == 'Adventurers') && !false",
+          context
+        )
+      ).toBe(true);
+    });
+
+    it('resolves registered predicates', () => {
+      ConditionParser.registerPredicate('is_wounded', context => {
+        const health = context.actor?.getPropertyValue<number>('health') ?? 0;
+        return health < 50;
+      });
+
+      expect(ConditionParser.evaluate('is_wounded', { actor })).toBe(true);
+      expect(ConditionParser.evaluate('!is_wounded', { actor })).toBe(false);
+    });
+
+    it('reports parse errors through validate', () => {
+      expect(ConditionParser.validate('(health > 1')).toContain(
+        'Unexpected end of condition'
+      );
+      expect(ConditionParser.validate("faction == 'Wild")).toContain(
+        'Unterminated string'
+      );
+      expect(ConditionParser.validate('no_hostile_in_range')).toBeNull();
+      expect(ConditionParser.evaluate('health >', { actor })).toBe(false);
+    });
+  });
 });
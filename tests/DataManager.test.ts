@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { DataManager } from '../src/utils/DataManager';
+import { MemoryStorageAdapter } from '../src/utils/StorageAdapter';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -125,6 +126,43 @@ describe('DataManager', () => {
     DataManager.ACTIONS_FILE = originalActionsFile;
   });
 
+  it('throws with action type and effect index for invalid calculation expressions', () => {
+    const originalActionsFile = DataManager.ACTIONS_FILE;
+    DataManager.ACTIONS_FILE = ACTIONS_FILE;
+
+    fs.writeFileSync(
+      ACTIONS_FILE,
+      JSON.stringify([
+        {
+          type: 'smite',
+          description: 'Smite',
+          effects: [
+            {
+              target: 'unit',
+              property: 'health',
+              operation: 'subtract',
+              value: { type: 'static', value: 1 },
+              permanent: false,
+            },
+            {
+              target: 'unit',
+              property: 'health',
+              operation: 'subtract',
+              value: { type: 'calculation', expression: 'actor.attack *' },
+              permanent: false,
+            },
+          ],
+        },
+      ])
+    );
+
+    expect(() => DataManager.loadActions()).toThrow(
+      'Invalid calculation expression in action "smite" effect 1'
+    );
+
+    DataManager.ACTIONS_FILE = originalActionsFile;
+  });
+
   it('loads names from JSON file correctly', () => {
     // Temporarily change data paths for testing
     const originalNamesFile = DataManager.NAMES_FILE;
@@ -217,6 +255,29 @@ describe('DataManager', () => {
     DataManager.DIARY_FILE = originalDiaryFile;
   });
 
+  it('keeps one diary store per storage and imports the legacy diary once', () => {
+    const storage = new MemoryStorageAdapter();
+    const legacyKey = DataManager.toStorageKey(DataManager.DIARY_FILE);
+    const entry = (turn: number) => ({
+      turn,
+      timestamp: new Date(0).toISOString(),
+      action: { player: 'unit1', type: 'rest', description: `turn ${turn}` },
+    });
+    storage.write(legacyKey, JSON.stringify([entry(1)]));
+
+    const store = DataManager.getDiaryStore(storage);
+    const listSpy = vi.spyOn(storage, 'list');
+    DataManager.saveDiaryEntry(entry(2), storage);
+    DataManager.saveDiaryEntry(entry(3), storage);
+
+    expect(DataManager.getDiaryStore(storage)).toBe(store);
+    expect(listSpy).not.toHaveBeenCalled();
+    expect(storage.exists(`${legacyKey}.bak`)).toBe(true);
+    expect(DataManager.loadDiary(storage).map(item => item.turn)).toEqual([
+      1, 2, 3,
+    ]);
+  });
+
   it('returns 0 when diary file does not exist', () => {
     // Temporarily change data paths for testing
     const fakeDiaryFile = path.join(TEST_DATA_DIR, 'nonexistent.json');
@@ -0,0 +1,348 @@
+import { describe, it, expect } from 'vitest';
+import { DataValidator } from '../src/utils/DataValidator';
+import { DataManager } from '../src/utils/DataManager';
+import { MemoryStorageAdapter } from '../src/utils/StorageAdapter';
+
+const validAction = {
+  type: 'strike',
+  description: '{{unitName}} strikes.',
+  requirements: [
+    { type: 'comparison', property: 'mana', operator: '>=', value: 5 },
+  ],
+  effects: [
+    {
+      target: 'enemy',
+      property: 'health',
+      operation: 'subtract',
+      value: { type: 'random', min: 2, max: 6 },
+      permanent: false,
+    },
+  ],
+};
+
+const validGoal = {
+  id: 'AttackEnemy',
+  label: 'Attack Enemy',
+  scope: 'unit',
+  completion: { type: 'condition_met', condition: 'no_hostile_in_range' },
+  candidateActions: ['strike'],
+};
+
+const validUnit = {
+  id: 'wolf',
+  name: 'Wolf',
+  type: 'beast',
+  properties: { health: { name: 'health', value: 60, baseValue: 60 } },
+};
+
+describe('DataValidator', () => {
+  it('accepts well-formed data', () => {
+    expect(
+      DataValidator.validateActions([validAction], 'actions.json')
+    ).toEqual([]);
+    expect(
+      DataValidator.validateGoals([validGoal], 'goals.json', ['strike'])
+    ).toEqual([]);
+    expect(
+      DataValidator.validateBestiary([validUnit], 'beastiary.json')
+    ).toEqual([]);
+    expect(
+      DataValidator.validateNames({ male: ['Bob'], female: [] }, 'names.json')
+    ).toEqual([]);
+  });
+
+  it('reports every effect problem with its JSON path', () => {
+    const issues = DataValidator.validateActions(
+      [
+        {
+          ...validAction,
+          effects: [
+            {
+              target: 'allies',
+              property: 'health',
+              operation: 'subtact',
+              value: { type: 'calculation', expression: 'actor.attack *' },
+              permanent: 'no',
+            },
+          ],
+        },
+      ],
+      'actions.json'
+    );
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      '$[0].effects[0].target',
+      '$[0].effects[0].operation',
+      '$[0].effects[0].permanent',
+      '$[0].effects[0].value.expression',
+    ]);
+    expect(issues.every(issue => issue.file === 'actions.json')).toBe(true);
+    expect(issues[1]?.message).toContain('"subtact"');
+    expect(issues[3]?.message).toContain(
+      'Invalid calculation expression in action "strike" effect 0'
+    );
+  });
+
+  it('warns about unknown fields without failing', () => {
+    const issues = DataValidator.validateActions(
+      [{ ...validAction, efects: [] }],
+      'actions.json'
+    );
+
+    expect(issues).toEqual([
+      {
+        file: 'actions.json',
+        path: '$[0].efects',
+        message: 'Unknown field is ignored',
+        severity: 'warning',
+      },
+    ]);
+    expect(DataValidator.createReport(issues).valid).toBe(true);
+  });
+
+  it('warns about unknown effect targets and duplicate action types', () => {
+    const issues = DataValidator.validateActions(
+      [
+        validAction,
+        {
+          ...validAction,
+          effects: [{ ...validAction.effects[0], target: 'allies' }],
+        },
+      ],
+      'actions.json'
+    );
+
+    expect(
+      issues.map(issue => [issue.path, issue.severity, issue.message])
+    ).toEqual([
+      [
+        '$[1].type',
+        'warning',
+        'Duplicate action type "strike"; lookups by type use the first definition',
+      ],
+      [
+        '$[1].effects[0].target',
+        'warning',
+        expect.stringContaining(
+          'Unknown target "allies" applies the effect to the acting unit'
+        ),
+      ],
+    ]);
+    expect(DataValidator.createReport(issues).valid).toBe(true);
+  });
+
+  it('checks action targeting declarations', () => {
+    const issues = DataValidator.validateActions(
+      [
+        {
+          ...validAction,
+          targeting: { type: 'enemy', minRange: 3, maxRange: 1, los: true },
+        },
+      ],
+      'actions.json'
+    );
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      '$[0].targeting.los',
+      '$[0].targeting.type',
+      '$[0].targeting.minRange',
+    ]);
+    expect(issues[2]?.message).toBe('Must not exceed maxRange');
+  });
+
+  it('checks action exploration strategies', () => {
+    const issues = DataValidator.validateActions(
+      [
+        {
+          ...validAction,
+          exploration: { strategy: 'patrol', patrolRadius: 2 },
+        },
+        {
+          ...validAction,
+          type: 'wander',
+          exploration: { strategy: 'wander', patrolRadius: 0 },
+        },
+      ],
+      'actions.json'
+    );
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      '$[1].exploration.strategy',
+      '$[1].exploration.patrolRadius',
+    ]);
+  });
+
+  it('cross-references goal candidate actions', () => {
+    const issues = DataValidator.validateGoals(
+      [{ ...validGoal, candidateActions: ['strike', 'fireball'] }],
+      'goals.json',
+      ['strike']
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]?.path).toBe('$[0].candidateActions[1]');
+    expect(issues[0]?.message).toContain('Unknown action "fireball"');
+  });
+
+  it('rejects malformed units and duplicate ids', () => {
+    const issues = DataValidator.validateUnits(
+      [
+        validUnit,
+        { ...validUnit, properties: { health: { value: 10 } } },
+        {
+          ...validUnit,
+          id: 'wolf-2',
+          properties: {
+            position: { name: 'position', value: { x: 1, y: 2 } },
+          },
+        },
+      ],
+      'units.json'
+    );
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      '$[1].id',
+      '$[1].properties.health',
+      '$[2].properties.position.value',
+    ]);
+  });
+
+  it('accepts unit state stored as nested values in saved units', () => {
+    const unit = {
+      ...validUnit,
+      properties: {
+        visited: { name: 'visited', value: { Town: ['1,2', '2,2'] } },
+        memory: {
+          name: 'memory',
+          value: { threats: [{ id: 'wolf', turn: 3 }] },
+        },
+      },
+    };
+
+    expect(DataValidator.validateUnits([unit], 'units.json')).toEqual([]);
+    expect(
+      DataValidator.validateBestiary([unit], 'beastiary.json').map(
+        issue => issue.path
+      )
+    ).toEqual(['$[0].properties.visited', '$[0].properties.memory']);
+  });
+
+  it('requires a known subgoal for squad goals', () => {
+    const issues = DataValidator.validateGoals(
+      [
+        { ...validGoal, id: 'a', scope: 'squad' },
+        { ...validGoal, id: 'b', scope: 'squad', subgoal: 'flank' },
+        { ...validGoal, id: 'c', scope: 'squad', subgoal: 'keep_formation' },
+      ],
+      'goals.json',
+      ['strike']
+    );
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      '$[0].subgoal',
+      '$[1].subgoal',
+    ]);
+  });
+
+  it('checks goal scoring curves', () => {
+    const issues = DataValidator.validateGoals(
+      [
+        {
+          ...validGoal,
+          scoring: {
+            weight: -1,
+            considerations: [
+              {
+                input: 'healthPercent',
+                curve: { type: 'step', steps: [{ below: 0.3, atMost: 0.5 }] },
+              },
+              {
+                input: 'nearestHostileDistance',
+                curve: { type: 'linear', from: { x: 2, y: 1 }, to: { x: 2 } },
+              },
+            ],
+          },
+        },
+      ],
+      'goals.json',
+      ['strike']
+    );
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      '$[0].scoring.weight',
+      '$[0].scoring.considerations[0].input',
+      '$[0].scoring.considerations[0].curve.steps[0].value',
+      '$[0].scoring.considerations[0].curve.steps[0]',
+      '$[0].scoring.considerations[1].curve.to',
+      '$[0].scoring.considerations[1].curve.to.x',
+    ]);
+  });
+
+  it('checks bestiary resistances', () => {
+    const issues = DataValidator.validateBestiary(
+      [
+        {
+          ...validUnit,
+          properties: {
+            resistances: {
+              name: 'resistances',
+              value: { magical: 0.5, fire: 0.2, physical: 2 },
+            },
+          },
+        },
+      ],
+      'beastiary.json'
+    );
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      '$[0].properties.resistances.value.fire',
+      '$[0].properties.resistances.value.physical',
+    ]);
+  });
+
+  it('formats issues one per line', () => {
+    const issues = DataValidator.validateNames({ male: 'Bob' }, 'names.json');
+
+    expect(DataValidator.formatIssues(issues)).toBe(
+      'error names.json $.male: Expected an array of names'
+    );
+  });
+});
+
+describe('DataManager.validateDataFiles', () => {
+  it('validates every data file in a storage backend', () => {
+    const storage = new MemoryStorageAdapter();
+    storage.write('actions.json', JSON.stringify([validAction]));
+    storage.write(
+      'goals.json',
+      JSON.stringify([{ ...validGoal, candidateActions: ['fireball'] }])
+    );
+    storage.write('beastiary.json', JSON.stringify([validUnit]));
+    storage.write('names.json', '{ "male": [');
+
+    const report = DataManager.validateDataFiles(storage);
+
+    expect(report.valid).toBe(false);
+    expect(report.issues.map(issue => `${issue.file} ${issue.path}`)).toEqual([
+      'goals.json $[0].candidateActions[0]',
+      'names.json $',
+    ]);
+    expect(report.issues[1]?.message).toContain('Invalid JSON');
+  });
+
+  it('throws from loaders with every error listed', () => {
+    const storage = new MemoryStorageAdapter();
+    storage.write(
+      'goals.json',
+      JSON.stringify([{ ...validGoal, id: 7, completion: { type: 'done' } }])
+    );
+
+    expect(() => DataManager.loadGoals(storage)).toThrow(
+      [
+        'Goals file has invalid format:',
+        'error goals.json $[0].id: Expected a non-empty string',
+        'error goals.json $[0].completion.type: Expected one of "stat_at_least", "condition_met", "none", got "done"',
+      ].join('\n')
+    );
+  });
+});
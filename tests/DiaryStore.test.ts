@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiaryStore } from '../src/utils/DiaryStore';
+import { MemoryStorageAdapter } from '../src/utils/StorageAdapter';
+import type { DiaryEntry } from '../src/types';
+
+const TEST_DATA_DIR = path.join(__dirname, 'diary-store-data');
+const LEGACY_FILE = path.join(TEST_DATA_DIR, 'diary.json');
+const STORE_DIR = path.join(TEST_DATA_DIR, 'diary');
+
+const createEntry = (turn: number, round = 1): DiaryEntry => ({
+  turn,
+  round,
+  timestamp: new Date(0).toISOString(),
+  action: { player: 'unit1', type: 'rest', description: `turn ${turn}` },
+});
+
+const turnsOf = (entries: Iterable<DiaryEntry>) =>
+  Array.from(entries, entry => entry.turn);
+
+describe('DiaryStore', () => {
+  beforeEach(() => {
+    fs.mkdirSync(TEST_DATA_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+  });
+
+  it('appends entries as JSON lines and rotates full segments', () => {
+    const store = new DiaryStore(LEGACY_FILE, { maxEntriesPerSegment: 2 });
+    [1, 2, 3, 4, 5].forEach(turn => store.append(createEntry(turn)));
+
+    const segments = store.getIndex().segments;
+    expect(segments.map(segment => segment.file)).toEqual([
+      'segment-000001.jsonl',
+      'segment-000002.jsonl',
+      'segment-000003.jsonl',
+    ]);
+    expect(segments[1]).toMatchObject({ count: 2, minTurn: 3, maxTurn: 4 });
+
+    const firstSegment = fs.readFileSync(
+      path.join(STORE_DIR, 'segment-000001.jsonl'),
+      'utf-8'
+    );
+    expect(firstSegment.trim().split('\n')).toHaveLength(2);
+    expect(turnsOf(store.read())).toEqual([1, 2, 3, 4, 5]);
+    expect(store.getLastTurn()).toBe(5);
+  });
+
+  it('streams entries filtered by turn range and round', () => {
+    const store = new DiaryStore(LEGACY_FILE, { maxEntriesPerSegment: 2 });
+    store.appendMany(
+      [1, 2, 3, 4, 5, 6].map(turn => createEntry(turn, Math.ceil(turn / 2)))
+    );
+
+    expect(turnsOf(store.read({ fromTurn: 2, toTurn: 4 }))).toEqual([2, 3, 4]);
+    expect(turnsOf(store.read({ round: 3 }))).toEqual([5, 6]);
+  });
+
+  it('reads only the last entries for the tail', () => {
+    const store = new DiaryStore(LEGACY_FILE, { maxEntriesPerSegment: 2 });
+    store.appendMany([1, 2, 3, 4, 5].map(turn => createEntry(turn)));
+
+    expect(turnsOf(store.readTail(3))).toEqual([3, 4, 5]);
+    expect(store.readTail(0)).toEqual([]);
+  });
+
+  it('returns nothing for a diary that was never written', () => {
+    const store = new DiaryStore(LEGACY_FILE);
+
+    expect(turnsOf(store.read())).toEqual([]);
+    expect(store.getLastTurn()).toBe(0);
+    expect(fs.existsSync(STORE_DIR)).toBe(false);
+  });
+
+  it('drops a torn final line left by an interrupted append', () => {
+    const store = new DiaryStore(LEGACY_FILE);
+    store.appendMany([createEntry(1), createEntry(2)]);
+    fs.appendFileSync(
+      path.join(STORE_DIR, 'segment-000001.jsonl'),
+      '{"turn":3,"times'
+    );
+
+    const reopened = new DiaryStore(LEGACY_FILE);
+    expect(turnsOf(reopened.read())).toEqual([1, 2]);
+
+    reopened.append(createEntry(3));
+    expect(turnsOf(new DiaryStore(LEGACY_FILE).read())).toEqual([1, 2, 3]);
+  });
+
+  it('rebuilds a missing index from the segment files', () => {
+    const store = new DiaryStore(LEGACY_FILE, { maxEntriesPerSegment: 2 });
+    store.appendMany([1, 2, 3].map(turn => createEntry(turn)));
+    fs.rmSync(path.join(STORE_DIR, 'index.json'));
+
+    const reopened = new DiaryStore(LEGACY_FILE);
+    expect(reopened.getLastTurn()).toBe(3);
+    expect(reopened.getIndex().segments).toHaveLength(2);
+  });
+
+  it('migrates a legacy diary.json array and keeps a backup', () => {
+    fs.writeFileSync(
+      LEGACY_FILE,
+      JSON.stringify([createEntry(1), createEntry(2)], null, 2)
+    );
+    const store = new DiaryStore(LEGACY_FILE);
+
+    expect(store.migrateLegacy()).toBe(2);
+    expect(fs.existsSync(LEGACY_FILE)).toBe(false);
+    expect(fs.existsSync(`${LEGACY_FILE}.bak`)).toBe(true);
+    expect(turnsOf(store.read())).toEqual([1, 2]);
+    expect(store.migrateLegacy()).toBe(0);
+  });
+
+  it('places legacy entries before already segmented ones', () => {
+    const store = new DiaryStore(LEGACY_FILE);
+    store.append(createEntry(3));
+    fs.writeFileSync(LEGACY_FILE, JSON.stringify([createEntry(1)]));
+
+    store.migrateLegacy();
+
+    expect(turnsOf(store.read())).toEqual([1, 3]);
+  });
+
+  it('rejects a legacy file that is not an array', () => {
+    fs.writeFileSync(LEGACY_FILE, JSON.stringify({ turn: 1 }));
+
+    expect(() => new DiaryStore(LEGACY_FILE).migrateLegacy()).toThrow(
+      'Legacy diary file has invalid format'
+    );
+  });
+
+  it('replaces the whole diary', () => {
+    const store = new DiaryStore(LEGACY_FILE);
+    store.appendMany([1, 2, 3].map(turn => createEntry(turn)));
+
+    store.replaceAll([createEntry(7)]);
+
+    expect(turnsOf(store.read())).toEqual([7]);
+    expect(fs.readdirSync(TEST_DATA_DIR)).toEqual(['diary']);
+  });
+
+  it('keys segments with "/" and counts multi-byte text in bytes', () => {
+    const storage = new MemoryStorageAdapter();
+    const store = new DiaryStore('diary.json', { storage });
+    const entry = createEntry(1);
+    entry.action.description = 'Aki crosses the bridge → 橋';
+    store.append(entry);
+
+    const [segment] = store.getIndex().segments;
+    const key = `diary/${segment?.file}`;
+    expect(segment?.bytes).toBe(storage.size(key));
+
+    const reopened = new DiaryStore('diary.json', { storage });
+    expect(turnsOf(reopened.read())).toEqual([1]);
+  });
+});
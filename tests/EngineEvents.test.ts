@@ -0,0 +1,192 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
+import { World, Map as ChoukaiMap, Position } from '@atsu/choukai';
+import { UnitController } from '../src/ai/UnitController';
+import { BatchSimulator } from '../src/core/BatchSimulator';
+import { EngineEvents } from '../src/core/EngineEvents';
+import { StoryTeller } from '../src/core/StoryTeller';
+import { DataManager } from '../src/utils/DataManager';
+import { Logger } from '../src/utils/Logger';
+import { MemoryStorageAdapter } from '../src/utils/StorageAdapter';
+
+const createEvents = () =>
+  new EngineEvents(new Logger({ prefix: 'EngineEvents', disable: true }));
+
+const turnEnded = { turn: 3, round: 1, roundEnded: false };
+
+describe('EngineEvents', () => {
+  it('delivers typed payloads until unsubscribed', async () => {
+    const events = createEvents();
+    const turns: number[] = [];
+
+    const unsubscribe = events.on('turnEnded', info => {
+      turns.push(info.turn);
+    });
+    await events.emit('turnEnded', turnEnded);
+    unsubscribe();
+    await events.emit('turnEnded', { ...turnEnded, turn: 4 });
+
+    expect(turns).toEqual([3]);
+    expect(events.listenerCount('turnEnded')).toBe(0);
+  });
+
+  it('awaits async handlers in subscription order', async () => {
+    const events = createEvents();
+    const calls: string[] = [];
+
+    events.on('roundStarted', async ({ round }) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      calls.push(`slow ${round}`);
+    });
+    events.on('roundStarted', ({ round }) => {
+      calls.push(`fast ${round}`);
+    });
+
+    await events.emit('roundStarted', { round: 2, turnOrder: ['a', 'b'] });
+
+    expect(calls).toEqual(['slow 2', 'fast 2']);
+  });
+
+  it('runs once handlers a single time', async () => {
+    const events = createEvents();
+    let count = 0;
+
+    events.once('turnEnded', () => {
+      count += 1;
+    });
+    await events.emit('turnEnded', turnEnded);
+    await events.emit('turnEnded', turnEnded);
+
+    expect(count).toBe(1);
+  });
+
+  it('removes once handlers with off', async () => {
+    const events = createEvents();
+    let count = 0;
+    const handler = () => {
+      count += 1;
+    };
+
+    events.once('turnEnded', handler);
+    events.off('turnEnded', handler);
+    await events.emit('turnEnded', turnEnded);
+
+    expect(count).toBe(0);
+    expect(events.listenerCount('turnEnded')).toBe(0);
+  });
+
+  it('keeps notifying handlers after one throws', async () => {
+    const events = createEvents();
+    const received: string[] = [];
+
+    events.on('unitSpawned', () => {
+      throw new Error('broken listener');
+    });
+    events.on('unitSpawned', ({ unitId }) => {
+      received.push(unitId);
+    });
+
+    await expect(
+      events.emit('unitSpawned', {
+        unitId: 'wolf-1',
+        unitName: 'Wolf',
+        unitType: 'beast',
+        source: 'unit_join',
+      })
+    ).resolves.toBeUndefined();
+    expect(received).toEqual(['wolf-1']);
+  });
+});
+
+describe('StoryTeller events', () => {
+  const createUnit = (id: string, faction: string, x: number): BaseUnit => {
+    const unit = new BaseUnit(id, id, 'warrior');
+    unit.setProperty('faction', faction);
+    unit.setProperty('health', 50);
+    unit.setProperty('movementRange', 1);
+    unit.setProperty('position', {
+      unitId: id,
+      mapId: 'Test Map',
+      position: new Position(x, 0),
+    });
+    return unit;
+  };
+
+  const strike = (type: string, expression: string) => ({
+    type,
+    description: '{{unitName}} strikes {{targetUnitName}}.',
+    targeting: { type: 'hostile', maxRange: 1 },
+    effects: [
+      {
+        target: 'enemy',
+        property: 'health',
+        operation: 'subtract',
+        value: { type: 'calculation', expression },
+        permanent: false,
+      },
+    ],
+  });
+
+  it('announces each chosen action before it runs', async () => {
+    const storage = new MemoryStorageAdapter();
+    for (const file of BatchSimulator.CATALOG_FILES) {
+      const key = DataManager.toStorageKey(file);
+      const content = DataManager.storage.read(key);
+      if (content !== null) {
+        storage.write(key, content);
+      }
+    }
+    const unitController = new UnitController(undefined, storage);
+    await unitController.initialize({ turn: 0 });
+    (unitController as any).gameUnits = [
+      createUnit('hero', 'Adventurers', 0),
+      createUnit('wolf', 'Wild Animals', 1),
+    ];
+    const world = new World();
+    world.addMap(new ChoukaiMap(10, 10, 'Test Map'));
+
+    const events = createEvents();
+    const storyTeller = new StoryTeller(
+      unitController,
+      world,
+      undefined,
+      undefined,
+      storage,
+      undefined,
+      events
+    );
+    const lob = strike('lob', '5 *');
+    const jab = strike('jab', '5');
+    (storyTeller as any).actionsData = [lob, jab];
+    (storyTeller as any).goalSystem.chooseAction = () => ({
+      action: lob,
+      candidateActions: [lob, jab],
+    });
+
+    const order: string[] = [];
+    events.on('actionChosen', ({ action }) => {
+      order.push(`chosen ${action.type}`);
+    });
+    events.on('actionFailed', ({ action }) => {
+      order.push(`failed ${action.type}`);
+    });
+    events.on('effectApplied', ({ actionType }) => {
+      order.push(`applied ${actionType}`);
+    });
+
+    await storyTeller.generateStoryAction(1, {
+      actorId: 'hero',
+      round: 1,
+      turnInRound: 1,
+      turnOrder: ['hero', 'wolf'],
+    });
+
+    expect(order).toEqual([
+      'chosen lob',
+      'failed lob',
+      'chosen jab',
+      'applied jab',
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
+import { Position } from '@atsu/choukai';
+import { Exploration } from '../src/ai/Exploration';
+
+const buildUnit = (id: string, faction: string) =>
+  new BaseUnit(id, id, 'type', {
+    health: { name: 'health', value: 100, baseValue: 100 },
+    faction: { name: 'faction', value: faction, baseValue: faction },
+  });
+
+const at = (x: number, y: number, mapId: string = 'Field') => ({
+  mapId,
+  position: new Position(x, y),
+});
+
+describe('Exploration', () => {
+  it('pools the tiles a faction has visited', () => {
+    const scout = buildUnit('scout', 'Adventurers');
+    const guard = buildUnit('guard', 'Adventurers');
+    const wolf = buildUnit('wolf', 'Wild Animals');
+
+    Exploration.markVisited(scout, [at(0, 0), at(1, 0), at(0, 0)]);
+    Exploration.markVisited(guard, [at(4, 4, 'Cave')]);
+    Exploration.markVisited(wolf, [at(2, 0)]);
+
+    expect(Exploration.readVisited(scout)).toEqual({ Field: ['0,0', '1,0'] });
+    const visited = Exploration.getFactionVisited(scout, [scout, guard, wolf]);
+    expect(Exploration.isVisited(visited, at(1, 0))).toBe(true);
+    expect(Exploration.isVisited(visited, at(4, 4, 'Cave'))).toBe(true);
+    expect(Exploration.isVisited(visited, at(2, 0))).toBe(false);
+  });
+
+  it('forgets the earliest visited tiles past the per-map limit', () => {
+    const scout = buildUnit('scout', 'Adventurers');
+    const limit = Exploration.MAX_VISITED_PER_MAP;
+
+    Exploration.markVisited(
+      scout,
+      Array.from({ length: limit + 2 }, (_, x) => at(x, 0))
+    );
+    Exploration.markVisited(scout, [at(0, 0, 'Cave')]);
+
+    const visited = Exploration.readVisited(scout);
+    expect(visited.Field).toHaveLength(limit);
+    expect(visited.Field?.[0]).toBe('2,0');
+    expect(visited.Field?.[limit - 1]).toBe(`${limit + 1},0`);
+    expect(visited.Cave).toEqual(['0,0']);
+  });
+
+  it('patrols the corners around the unit, moving past reached waypoints', () => {
+    const guard = buildUnit('guard', 'Adventurers');
+    const patrol = Exploration.createPatrol(guard, at(1, 5), 3, {
+      width: 10,
+      height: 10,
+    });
+
+    expect(patrol?.waypoints.map(({ x, y }) => [x, y])).toEqual([
+      [0, 2],
+      [4, 2],
+      [4, 8],
+      [0, 8],
+    ]);
+
+    const { state, waypoint } = Exploration.advancePatrol(patrol!, at(1, 2));
+    expect(state.next).toBe(1);
+    expect(waypoint).toEqual({ mapId: 'Field', x: 4, y: 2 });
+
+    guard.setProperty('patrolRoute', [{ mapId: 'Field', x: 9, y: 9 }]);
+    expect(
+      Exploration.createPatrol(guard, at(1, 5), 3, { width: 10, height: 10 })
+    ).toEqual({ waypoints: [{ mapId: 'Field', x: 9, y: 9 }], next: 0 });
+  });
+
+  it('walks randomly on explore actions without a strategy', () => {
+    const action = {
+      player: 'scout',
+      type: 'explore',
+      description: 'Explores.',
+    };
+    expect(Exploration.resolve(action)).toEqual({ strategy: 'random' });
+    expect(Exploration.resolve({ ...action, type: 'rest' })).toBeUndefined();
+    expect(
+      Exploration.resolve({ ...action, exploration: { strategy: 'gates' } })
+    ).toEqual({ strategy: 'gates' });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
+import { ExpressionEvaluator } from '../src/utils/ExpressionEvaluator';
+import { RandomGenerator } from '../src/utils/RandomGenerator';
+
+describe('ExpressionEvaluator', () => {
+  const actor = new BaseUnit('actor', 'Actor', 'warrior', {
+    attack: { name: 'attack', value: 20, baseValue: 20 },
+  });
+  const target = new BaseUnit('target', 'Target', 'archer', {
+    defense: { name: 'defense', value: 8, baseValue: 8 },
+  });
+
+  it('evaluates arithmetic with precedence and parentheses', () => {
+    expect(ExpressionEvaluator.evaluate('2 + 3 * 4')).toBe(14);
+    expect(ExpressionEvaluator.evaluate('(2 + 3) * 4')).toBe(20);
+    expect(ExpressionEvaluator.evaluate('-5 + 10 % 4')).toBe(-3);
+  });
+
+  it('reads actor and target properties', () => {
+    const result = ExpressionEvaluator.evaluate(
+      'actor.attack * 1.5 - target.defense',
+      { actor, target }
+    );
+    expect(result).toBe(22);
+  });
+
+  it('treats missing properties as 0', () => {
+    expect(
+      ExpressionEvaluator.evaluate('target.attack + 1', { actor, target })
+    ).toBe(1);
+  });
+
+  it('supports min, max, clamp, and floor', () => {
+    expect(ExpressionEvaluator.evaluate('min(3, 1, 2)')).toBe(1);
+    expect(ExpressionEvaluator.evaluate('max(3, 1, 2)')).toBe(3);
+    expect(ExpressionEvaluator.evaluate('clamp(15, 0, 10)')).toBe(10);
+    expect(ExpressionEvaluator.evaluate('floor(7.9)')).toBe(7);
+  });
+
+  it('rolls random values reproducibly with a seeded generator', () => {
+    const first = ExpressionEvaluator.evaluate('random(1, 6) + roll(2, 6)', {
+      random: new RandomGenerator('dice'),
+    });
+    const second = ExpressionEvaluator.evaluate('random(1, 6) + roll(2, 6)', {
+      random: new RandomGenerator('dice'),
+    });
+
+    expect(first).toBe(second);
+    expect(first).toBeGreaterThanOrEqual(3);
+    expect(first).toBeLessThanOrEqual(18);
+  });
+
+  it('caps the dice and faces of a roll', () => {
+    const total = ExpressionEvaluator.evaluate('roll(1000000000, 1000000000)', {
+      random: new RandomGenerator('dice'),
+    });
+
+    expect(total).toBeGreaterThanOrEqual(100);
+    expect(total).toBeLessThanOrEqual(100 * 1000);
+  });
+
+  it('returns 0 for division by zero', () => {
+    expect(ExpressionEvaluator.evaluate('10 / 0')).toBe(0);
+  });
+
+  it('rejects unknown identifiers and invalid syntax', () => {
+    expect(() => ExpressionEvaluator.parse('process.exit(1)')).toThrow(
+      "Unknown identifier 'process'"
+    );
+    expect(() => ExpressionEvaluator.parse('constructor(1)')).toThrow(
+      "Unknown identifier 'constructor'"
+    );
+    expect(ExpressionEvaluator.validate('1 +')).toContain(
+      'Unexpected end of expression'
+    );
+    expect(ExpressionEvaluator.validate('clamp(1, 2)')).toContain(
+      "Function 'clamp'"
+    );
+    expect(ExpressionEvaluator.validate('actor.attack + 2')).toBeNull();
+  });
+});
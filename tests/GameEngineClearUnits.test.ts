@@ -70,6 +70,6 @@ describe('GameEngine clear units config', () => {
     const engine = new GameEngine();
     await engine.initialize({ turn: 0 });
 
-    expect(saveSpy).toHaveBeenCalledWith([]);
+    expect(saveSpy).toHaveBeenCalledWith([], DataManager.storage);
   });
 });
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../src/utils/ConfigManager', () => {
+  const config = {
+    maxTurnsPerSession: 10,
+    runIndefinitely: false,
+    cooldownPeriod: 1,
+    clearUnitsOnStart: false,
+    mapGeneration: {
+      defaultMapWidth: 20,
+      defaultMapHeight: 20,
+      waterFrequency: 0.05,
+      mountainFrequency: 0.03,
+      forestFrequency: 0.08,
+      desertFrequency: 0.04,
+      roadFrequency: 0.06,
+      swampFrequency: 0.03,
+      snowFrequency: 0.02,
+      sandFrequency: 0.03,
+      minWaterBodySize: 2,
+      maxWaterBodySize: 4,
+      minMountainRangeLength: 2,
+      maxMountainRangeLength: 5,
+      minForestAreaSize: 2,
+      maxForestAreaSize: 4,
+      minTerrainFeatureSpacing: 3,
+      unitSpawnNearTerrain: ['road', 'grass'],
+      minDistanceBetweenUnits: 5,
+      createRoadsBetweenMaps: true,
+      maxMapsInWorld: 10,
+      enablePerlinNoise: false,
+      noiseScale: 0.1,
+      seed: 'test-seed',
+    },
+    rendering: { visualOnly: true },
+  };
+
+  return {
+    ConfigManager: {
+      getConfig: vi.fn(() => config),
+      getDefaultConfig: vi.fn(() => config),
+      getMapGenerationConfig: vi.fn(() => config.mapGeneration),
+    },
+  };
+});
+
+import { GameEngine } from '../src/core/GameEngine';
+import { DataManager } from '../src/utils/DataManager';
+import { UnitController } from '../src/ai/UnitController';
+import type { DiaryEntry, TurnStateSnapshot } from '../src/types';
+
+const createDiaryEntry = (overrides: Partial<DiaryEntry>): DiaryEntry => ({
+  turn: 5,
+  timestamp: new Date(0).toISOString(),
+  action: { player: 'unit2', type: 'rest', description: 'rests' },
+  ...overrides,
+});
+
+describe('GameEngine resume state', () => {
+  beforeEach(() => {
+    vi.spyOn(UnitController.prototype, 'initialize').mockResolvedValue();
+    vi.spyOn(DataManager, 'saveTurnState').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('restores turn, round, position and initiative from saved turn state', async () => {
+    const saved: TurnStateSnapshot = {
+      turn: 7,
+      round: 3,
+      turnInRound: 1,
+      turnOrder: ['unit1', 'unit2', 'unit3'],
+      persistentTurnOrder: ['unit1', 'unit2', 'unit3', 'unit4'],
+    };
+    vi.spyOn(DataManager, 'getLastTurnNumber').mockReturnValue(7);
+    vi.spyOn(DataManager, 'loadTurnState').mockReturnValue(saved);
+
+    const engine = new GameEngine();
+    await engine.initialize({ turn: 0 });
+
+    const turnManager = engine.getTurnManager();
+    expect(turnManager.getCurrentTurn()).toBe(7);
+    expect(turnManager.getCurrentRound()).toBe(3);
+    expect(turnManager.getCurrentActorId()).toBe('unit2');
+    expect(engine.createSaveData().turnState).toEqual(saved);
+  });
+
+  it('falls back to the last diary entry when turn state is missing or stale', async () => {
+    vi.spyOn(DataManager, 'getLastTurnNumber').mockReturnValue(5);
+    vi.spyOn(DataManager, 'loadTurnState').mockReturnValue(null);
+    vi.spyOn(DataManager, 'loadRecentDiary').mockReturnValue([
+      createDiaryEntry({
+        round: 2,
+        turnInRound: 2,
+        turnOrder: ['unit1', 'unit2', 'unit3'],
+      }),
+    ]);
+
+    const engine = new GameEngine();
+    await engine.initialize({ turn: 0 });
+
+    const turnManager = engine.getTurnManager();
+    expect(turnManager.getCurrentTurn()).toBe(5);
+    expect(turnManager.getCurrentRound()).toBe(2);
+    expect(turnManager.getCurrentActorId()).toBe('unit3');
+  });
+
+  it('starts the next round when the diary shows the round finished', async () => {
+    vi.spyOn(DataManager, 'getLastTurnNumber').mockReturnValue(5);
+    vi.spyOn(DataManager, 'loadTurnState').mockReturnValue(null);
+    vi.spyOn(DataManager, 'loadRecentDiary').mockReturnValue([
+      createDiaryEntry({
+        round: 2,
+        turnInRound: 2,
+        turnOrder: ['unit1', 'unit2'],
+      }),
+    ]);
+
+    const engine = new GameEngine();
+    await engine.initialize({ turn: 0 });
+
+    const turnManager = engine.getTurnManager();
+    expect(turnManager.getCurrentRound()).toBe(2);
+    expect(turnManager.hasPendingTurns()).toBe(false);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { BaseUnit } from '@atsu/atago';
+import { Position } from '@atsu/choukai';
 import { GoalSystem } from '../src/ai/goals/GoalSystem';
+import { SquadBlackboard } from '../src/ai/goals/SquadBlackboard';
 import type { Action, GoalDefinition } from '../src/types';
 
 const goals: GoalDefinition[] = [
@@ -10,6 +12,24 @@ const goals: GoalDefinition[] = [
     scope: 'unit',
     completion: { type: 'stat_at_least', stat: 'health', value: 70 },
     candidateActions: ['rest', 'retreat', 'meditate', 'search'],
+    scoring: {
+      considerations: [
+        {
+          input: 'healthPct',
+          curve: {
+            type: 'step',
+            steps: [
+              { below: 0.3, value: 100, reason: 'Health critically low' },
+              {
+                below: 0.6,
+                value: 75,
+                reason: 'Health below comfort threshold',
+              },
+            ],
+          },
+        },
+      ],
+    },
   },
   {
     id: 'RecoverMana',
@@ -17,6 +37,21 @@ const goals: GoalDefinition[] = [
     scope: 'unit',
     completion: { type: 'stat_at_least', stat: 'mana', value: 50 },
     candidateActions: ['conserve_mana', 'meditate', 'rest'],
+    scoring: {
+      reason: 'Mana running low',
+      considerations: [
+        {
+          input: 'manaPct',
+          curve: {
+            type: 'step',
+            steps: [
+              { below: 0.25, value: 70 },
+              { below: 0.5, value: 45 },
+            ],
+          },
+        },
+      ],
+    },
   },
   {
     id: 'AttackEnemy',
@@ -24,6 +59,27 @@ const goals: GoalDefinition[] = [
     scope: 'unit',
     completion: { type: 'condition_met', condition: 'no_hostile_in_range' },
     candidateActions: ['attack', 'desperate_attack'],
+    scoring: {
+      reason: 'Hostile targets available',
+      considerations: [
+        {
+          input: 'hostilesAvailable',
+          curve: {
+            type: 'step',
+            steps: [{ below: 1, value: 0 }],
+            otherwise: 1,
+          },
+        },
+        {
+          input: 'healthPct',
+          curve: {
+            type: 'step',
+            steps: [{ atMost: 0.35, value: 25 }],
+            otherwise: 60,
+          },
+        },
+      ],
+    },
   },
   {
     id: 'Explore',
@@ -31,6 +87,7 @@ const goals: GoalDefinition[] = [
     scope: 'unit',
     completion: { type: 'none' },
     candidateActions: ['explore', 'scout', 'patrol'],
+    scoring: { weight: 10, reason: 'Fallback exploration' },
   },
 ];
 
@@ -161,4 +218,300 @@ describe('GoalSystem', () => {
 
     expect(choice.action?.type).toBe('explore');
   });
+
+  it('scores the built-in goals with the original thresholds', () => {
+    const system = new GoalSystem(goals);
+    const scores = (health: number, mana: number) =>
+      system
+        .chooseAction(buildUnit(health, 100, mana, 100), {
+          availableActions: actions,
+          turn: 1,
+        })
+        .goalCandidates.map(
+          candidate => `${candidate.goal.id} ${candidate.score}`
+        );
+
+    expect(scores(20, 10)).toEqual([
+      'RecoverHealth 100',
+      'RecoverMana 70',
+      'AttackEnemy 25',
+      'Explore 10',
+    ]);
+    expect(scores(35, 30)).toEqual([
+      'RecoverHealth 75',
+      'RecoverMana 45',
+      'AttackEnemy 25',
+      'Explore 10',
+    ]);
+    expect(scores(60, 50)).toEqual(['AttackEnemy 60', 'Explore 10']);
+  });
+
+  it('scores goals added purely in data', () => {
+    const flee: GoalDefinition = {
+      id: 'Flee',
+      label: 'Flee',
+      completion: { type: 'none' },
+      candidateActions: ['retreat'],
+      scoring: {
+        reason: 'Enemy too close',
+        considerations: [
+          {
+            input: 'nearestHostileDistance',
+            curve: {
+              type: 'linear',
+              from: { x: 1, y: 200 },
+              to: { x: 5, y: 0 },
+            },
+          },
+        ],
+      },
+    };
+    const system = new GoalSystem([...goals, flee]);
+    const actor = buildUnit(90, 100, 80, 100, 'actor', 'Adventurers');
+    const hostile = buildUnit(90, 100, 80, 100, 'wolf', 'Wild Animals');
+    const place = (unit: BaseUnit, x: number) =>
+      unit.setProperty('position', {
+        unitId: unit.id,
+        mapId: 'Test Map',
+        position: new Position(x, 0),
+      });
+    place(actor, 0);
+    place(hostile, 2);
+
+    const choice = system.chooseAction(actor, {
+      availableActions: actions,
+      units: [actor, hostile],
+      turn: 1,
+    });
+
+    expect(choice.goal.id).toBe('Flee');
+    expect(choice.reason).toBe('Enemy too close');
+    expect(choice.goalCandidates[0]?.score).toBe(150);
+  });
+
+  it('never scores goals without scoring', () => {
+    const system = new GoalSystem(
+      goals.map(({ id, label, completion, candidateActions }) => ({
+        id,
+        label,
+        completion,
+        candidateActions,
+      }))
+    );
+
+    const choice = system.chooseAction(buildUnit(20, 100, 10, 100), {
+      availableActions: actions,
+      turn: 1,
+    });
+
+    expect(choice.goalCandidates).toEqual([]);
+    expect(choice.reason).toBe('Fallback selection');
+  });
+
+  it('evaluates stat_at_least and condition_met completions', () => {
+    const system = new GoalSystem(goals);
+    const actor = buildUnit(80, 100, 20, 100, 'actor', 'Adventurers');
+    const hostile = buildUnit(90, 100, 80, 100, 'wolf', 'Wild Animals');
+    const place = (unit: BaseUnit, x: number) =>
+      unit.setProperty('position', {
+        unitId: unit.id,
+        mapId: 'Test Map',
+        position: new Position(x, 0),
+      });
+    place(actor, 0);
+    place(hostile, 3);
+
+    const [recoverHealth, recoverMana, attackEnemy, explore] = goals;
+    const context = {
+      availableActions: actions,
+      units: [actor, hostile],
+      turn: 1,
+    };
+
+    expect(system.isGoalComplete(recoverHealth!, actor, context)).toBe(true);
+    expect(system.isGoalComplete(recoverMana!, actor, context)).toBe(false);
+    expect(system.isGoalComplete(attackEnemy!, actor, context)).toBe(true);
+    expect(system.isGoalComplete(explore!, actor, context)).toBe(false);
+
+    place(hostile, 1);
+    expect(system.isGoalComplete(attackEnemy!, actor, context)).toBe(false);
+  });
+});
+
+describe('GoalSystem goal persistence', () => {
+  const config = { switchMargin: 20, cooldownTurns: 2, failedActionTurns: 3 };
+  const setStat = (unit: BaseUnit, stat: string, value: number) =>
+    unit.setProperty(stat, value);
+
+  it('keeps the current goal until another beats it by the margin', () => {
+    const system = new GoalSystem(goals, undefined, undefined, config);
+    const unit = buildUnit(80, 100, 20, 100);
+
+    const first = system.chooseAction(unit, {
+      availableActions: actions,
+      turn: 1,
+    });
+    expect(first.goal.id).toBe('RecoverMana');
+    expect(first.transitions).toEqual([
+      {
+        unitId: 'id',
+        goalId: 'RecoverMana',
+        status: 'pending',
+        reason: 'Mana running low',
+      },
+    ]);
+
+    // AttackEnemy (60) beats RecoverMana (45) by less than the margin
+    setStat(unit, 'mana', 40);
+    const second = system.chooseAction(unit, {
+      availableActions: actions,
+      turn: 2,
+    });
+    expect(second.goal.id).toBe('RecoverMana');
+    expect(second.transitions).toEqual([]);
+
+    // RecoverHealth (75) beats it by 30
+    setStat(unit, 'health', 50);
+    const third = system.chooseAction(unit, {
+      availableActions: actions,
+      turn: 3,
+    });
+    expect(third.goal.id).toBe('RecoverHealth');
+    expect(third.transitions[0]).toMatchObject({
+      goalId: 'RecoverHealth',
+      status: 'pending',
+      previousGoalId: 'RecoverMana',
+    });
+    expect(unit.getPropertyValue('goalState')).toMatchObject({
+      currentGoal: 'RecoverHealth',
+      status: 'pending',
+      startedTurn: 3,
+    });
+  });
+
+  it('marks goals active, then done with a cooldown', () => {
+    const system = new GoalSystem(goals, undefined, undefined, config);
+    const unit = buildUnit(20, 100, 100, 100);
+    const context = (turn: number) => ({ availableActions: actions, turn });
+
+    system.chooseAction(unit, context(1));
+    setStat(unit, 'health', 75);
+    const transitions = system.resolveTurn(unit, context(1), 'rest');
+
+    expect(transitions.map(transition => transition.status)).toEqual([
+      'active',
+      'done',
+    ]);
+
+    setStat(unit, 'health', 20);
+    expect(system.chooseAction(unit, context(2)).goal.id).toBe('AttackEnemy');
+    expect(system.chooseAction(unit, context(3)).goal.id).toBe('RecoverHealth');
+  });
+
+  it('blocks goals whose actions all failed and tries failed actions last', () => {
+    const system = new GoalSystem(goals, undefined, undefined, {
+      ...config,
+      cooldownTurns: 0,
+    });
+    const unit = buildUnit(20, 100, 100, 100);
+    const context = (turn: number) => ({ availableActions: actions, turn });
+
+    system.chooseAction(unit, context(1));
+    const transitions = system.resolveTurn(unit, context(1), 'idle', [
+      'rest',
+      'retreat',
+    ]);
+    expect(transitions).toEqual([
+      {
+        unitId: 'id',
+        goalId: 'RecoverHealth',
+        status: 'blocked',
+        reason: 'No goal action succeeded',
+      },
+    ]);
+
+    const retry = system.chooseAction(unit, context(2));
+    expect(retry.goal.id).toBe('RecoverHealth');
+    expect(retry.candidateActions.map(action => action.type)).toEqual([
+      'meditate',
+      'search',
+      'rest',
+      'retreat',
+    ]);
+
+    const later = system.chooseAction(unit, context(4));
+    expect(later.candidateActions[0]?.type).toBe('rest');
+  });
+});
+
+describe('GoalSystem squad goals', () => {
+  const focusFire: GoalDefinition = {
+    id: 'FocusFire',
+    label: 'Focus Fire',
+    scope: 'squad',
+    subgoal: 'attack_focus_target',
+    completion: {
+      type: 'condition_met',
+      condition: 'focusTargetAvailable == 0',
+    },
+    candidateActions: ['attack'],
+    scoring: {
+      weight: 70,
+      considerations: [
+        {
+          input: 'focusTargetAvailable',
+          curve: {
+            type: 'step',
+            steps: [{ below: 1, value: 0 }],
+            otherwise: 1,
+          },
+        },
+      ],
+    },
+  };
+  const config = { switchMargin: 20, cooldownTurns: 2, failedActionTurns: 3 };
+  const squads = {
+    deriveFromFaction: true,
+    formation: 'cluster' as const,
+    spacing: 2,
+  };
+
+  it('blends squad goals with personal goals for squad members', () => {
+    const blackboard = new SquadBlackboard(squads);
+    const system = new GoalSystem(
+      [...goals, focusFire],
+      undefined,
+      undefined,
+      config,
+      blackboard
+    );
+    const leader = buildUnit(90, 100, 80, 100, 'leader');
+    const member = buildUnit(90, 100, 80, 100, 'member');
+    const loner = buildUnit(90, 100, 80, 100, 'loner', 'Hermits');
+    const wolf = buildUnit(90, 100, 80, 100, 'wolf', 'Wild Animals');
+    const units = [leader, member, loner, wolf];
+    blackboard.update(units);
+    blackboard.setFocusTarget('Adventurers', 'wolf');
+
+    const choice = system.chooseAction(member, {
+      availableActions: actions,
+      units,
+      turn: 1,
+    });
+    expect(choice.goal.id).toBe('FocusFire');
+    expect(choice.directive).toEqual({
+      squadId: 'Adventurers',
+      subgoal: 'attack_focus_target',
+      targetUnitId: 'wolf',
+      withinRange: 2,
+    });
+
+    const solo = system.chooseAction(loner, {
+      availableActions: actions,
+      units,
+      turn: 1,
+    });
+    expect(solo.goal.id).toBe('AttackEnemy');
+    expect(solo.directive).toBeUndefined();
+  });
 });
@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { MapGenerator } from '../src/utils/MapGenerator';
+import { RandomGenerator } from '../src/utils/RandomGenerator';
 import { Map } from '@atsu/choukai';
 
 describe('MapGenerator', () => {
@@ -97,4 +98,17 @@ describe('MapGenerator', () => {
     const config3 = mapGenerator.getConfig();
     expect(config3.defaultMapWidth).not.toBe(999);
   });
+
+  it('should generate identical terrain from the same seed', () => {
+    const first = new MapGenerator(new RandomGenerator('map-seed'));
+    const second = new MapGenerator(new RandomGenerator('map-seed'));
+    const mapA = first.generateMap('Seeded', 20, 20);
+    const mapB = second.generateMap('Seeded', 20, 20);
+
+    for (let x = 0; x < 20; x++) {
+      for (let y = 0; y < 20; y++) {
+        expect(mapA.getTerrain(x, y)).toBe(mapB.getTerrain(x, y));
+      }
+    }
+  });
 });
@@ -1,25 +1,31 @@
 import { MathUtils } from '../src/utils/Math';
 import { describe, it, expect } from 'vitest';
+import { RandomGenerator } from '../src/utils/RandomGenerator';
 
 describe('MathUtils', () => {
+  const random = new RandomGenerator('math');
+
   describe('getRandomFromArray', () => {
     it('should return an element from the provided array', () => {
       const testArray = [1, 2, 3, 4, 5];
-      const randomElement = MathUtils.getRandomFromArray(testArray);
+      const randomElement = MathUtils.getRandomFromArray(testArray, random);
 
       expect(testArray).toContain(randomElement);
     });
 
     it('should return the only element from single-element array', () => {
       const singleElementArray = ['only-element'];
-      const randomElement = MathUtils.getRandomFromArray(singleElementArray);
+      const randomElement = MathUtils.getRandomFromArray(
+        singleElementArray,
+        random
+      );
 
       expect(randomElement).toBe('only-element');
     });
 
     it('should return undefined for an empty array', () => {
       const emptyArray: any[] = [];
-      const randomElement = MathUtils.getRandomFromArray(emptyArray);
+      const randomElement = MathUtils.getRandomFromArray(emptyArray, random);
 
       // When array is empty, accessing arr[randomIndex] when randomIndex=0 will return undefined
       expect(randomElement).toBeUndefined();
@@ -28,17 +34,17 @@ describe('MathUtils', () => {
     it('should work with arrays of different types', () => {
       // Test with string array
       const stringArray = ['a', 'b', 'c'];
-      const randomString = MathUtils.getRandomFromArray(stringArray);
+      const randomString = MathUtils.getRandomFromArray(stringArray, random);
       expect(stringArray).toContain(randomString);
 
       // Test with number array
       const numberArray = [10, 20, 30];
-      const randomNumber = MathUtils.getRandomFromArray(numberArray);
+      const randomNumber = MathUtils.getRandomFromArray(numberArray, random);
       expect(numberArray).toContain(randomNumber);
 
       // Test with object array
       const objectArray = [{ id: 1 }, { id: 2 }];
-      const randomObject = MathUtils.getRandomFromArray(objectArray);
+      const randomObject = MathUtils.getRandomFromArray(objectArray, random);
       expect(objectArray).toContain(randomObject);
     });
   });
@@ -47,7 +53,7 @@ describe('MathUtils', () => {
     it('should return a number within the specified range (inclusive)', () => {
       const min = 5;
       const max = 10;
-      const randomNumber = MathUtils.getRandomNumber(min, max);
+      const randomNumber = MathUtils.getRandomNumber(min, max, random);
 
       expect(randomNumber).toBeGreaterThanOrEqual(min);
       expect(randomNumber).toBeLessThanOrEqual(max);
@@ -56,7 +62,7 @@ describe('MathUtils', () => {
 
     it('should return the same number when min and max are equal', () => {
       const minMax = 7;
-      const randomNumber = MathUtils.getRandomNumber(minMax, minMax);
+      const randomNumber = MathUtils.getRandomNumber(minMax, minMax, random);
 
       expect(randomNumber).toBe(minMax);
     });
@@ -64,7 +70,7 @@ describe('MathUtils', () => {
     it('should handle negative ranges correctly', () => {
       const min = -10;
       const max = -5;
-      const randomNumber = MathUtils.getRandomNumber(min, max);
+      const randomNumber = MathUtils.getRandomNumber(min, max, random);
 
       expect(randomNumber).toBeGreaterThanOrEqual(min);
       expect(randomNumber).toBeLessThanOrEqual(max);
@@ -74,7 +80,7 @@ describe('MathUtils', () => {
     it('should handle ranges crossing zero correctly', () => {
       const min = -5;
       const max = 5;
-      const randomNumber = MathUtils.getRandomNumber(min, max);
+      const randomNumber = MathUtils.getRandomNumber(min, max, random);
 
       expect(randomNumber).toBeGreaterThanOrEqual(min);
       expect(randomNumber).toBeLessThanOrEqual(max);
@@ -84,7 +90,7 @@ describe('MathUtils', () => {
     it('should work with range of 0 to positive number', () => {
       const min = 0;
       const max = 100;
-      const randomNumber = MathUtils.getRandomNumber(min, max);
+      const randomNumber = MathUtils.getRandomNumber(min, max, random);
 
       expect(randomNumber).toBeGreaterThanOrEqual(min);
       expect(randomNumber).toBeLessThanOrEqual(max);
@@ -100,7 +106,7 @@ describe('MathUtils', () => {
 
       // Call function multiple times and collect results
       for (let i = 0; i < 10; i++) {
-        results.push(MathUtils.getRandomFromArray(testArray));
+        results.push(MathUtils.getRandomFromArray(testArray, random));
       }
 
       // With a low probability this could fail due to randomness, but it's very unlikely
@@ -115,7 +121,7 @@ describe('MathUtils', () => {
 
       // Call function multiple times and collect results
       for (let i = 0; i < 20; i++) {
-        results.push(MathUtils.getRandomNumber(1, 10));
+        results.push(MathUtils.getRandomNumber(1, 10, random));
       }
 
       // With a low probability this could fail due to randomness, but it's very unlikely
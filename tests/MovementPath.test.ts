@@ -169,6 +169,26 @@ describe('WorldManager movement paths', () => {
     ).toThrow(/No path found/i);
   });
 
+  it('returns no steps toward a destination walled off from the unit', () => {
+    const blockedMap = new ChoukaiMap(3, 3, 'Blocked');
+    blockedMap.setTerrain(0, 1, 'wall');
+    blockedMap.setTerrain(1, 1, 'wall');
+    blockedMap.setTerrain(2, 1, 'wall');
+    world.addMap(blockedMap);
+
+    const mover = new BaseUnit('mover', 'Mover', 'warrior');
+    mover.setProperty('movementRange', 3);
+    setUnitPosition(mover, blockedMap.name, 0, 0);
+
+    expect(
+      worldManager.planMovementToPosition(
+        mover,
+        { mapId: blockedMap.name, position: new Position(2, 2) },
+        [mover]
+      )
+    ).toEqual([]);
+  });
+
   it('throws when no reachable tile exists within action range of the target', () => {
     const tightMap = new ChoukaiMap(3, 3, 'Tight');
     tightMap.setTerrain(1, 0, 'wall');
@@ -202,6 +222,109 @@ describe('WorldManager movement paths', () => {
     ).toThrow(/No available goal positions/i);
   });
 
+  it('prefers roads and keeps out of terrain the unit type cannot enter', () => {
+    const roadMap = new ChoukaiMap(8, 3, 'Road');
+    for (let x = 0; x < 8; x += 1) {
+      roadMap.setTerrain(x, 1, 'road');
+    }
+    roadMap.setTerrain(2, 0, 'swamp');
+    world.addMap(roadMap);
+
+    const mover = new BaseUnit('mover', 'Mover', 'adventurer');
+    mover.setProperty('movementRange', 10);
+    setUnitPosition(mover, roadMap.name, 0, 0);
+
+    const target = new BaseUnit('target', 'Target', 'archer');
+    setUnitPosition(target, roadMap.name, 6, 0);
+
+    const plan = worldManager.planMovementTowardTarget(
+      mover,
+      target,
+      [mover, target],
+      1
+    );
+
+    // Along the road to (6, 1) is cheaper than five grass tiles to (5, 0)
+    expect(plan.steps.map(step => step.position.y)).toEqual([
+      1, 1, 1, 1, 1, 1, 1,
+    ]);
+    expect(
+      plan.steps.some(step => step.position.x === 2 && step.position.y === 0)
+    ).toBe(false);
+  });
+
+  it('walks to the lowest scoring tile in reach, or stays put', () => {
+    const mover = new BaseUnit('mover', 'Mover', 'adventurer');
+    mover.setProperty('movementRange', 2);
+    setUnitPosition(mover, map.name, 5, 5);
+
+    // Scores drop eastward, so the best tile is two steps east
+    const score = (position: { position: { x: number; y: number } }) =>
+      10 - position.position.x;
+    const steps = worldManager.planMovementToLowestScore(mover, [mover], score);
+    expect(steps[steps.length - 1]?.position).toMatchObject({ x: 7, y: 5 });
+
+    expect(
+      worldManager.planMovementToLowestScore(mover, [mover], () => 0)
+    ).toEqual([]);
+  });
+
+  it('explores toward the widest unvisited frontier, then the nearest one', () => {
+    const mover = new BaseUnit('mover', 'Mover', 'adventurer');
+    mover.setProperty('movementRange', 1);
+    setUnitPosition(mover, map.name, 5, 5);
+
+    // (5, 4) and (5, 6) border a few unvisited tiles; (6, 5) borders the most
+    const isVisited = ({ position }: { position: { x: number; y: number } }) =>
+      position.x <= 5 && position.y !== 4 && position.y !== 6;
+    expect(
+      worldManager.planFrontierMovement(mover, [mover], isVisited)
+    ).toMatchObject([{ position: { x: 6, y: 5 } }]);
+
+    const strip = new ChoukaiMap(6, 1, 'Strip');
+    world.addMap(strip);
+    mover.setProperty('movementRange', 2);
+    setUnitPosition(mover, strip.name, 0, 0);
+    expect(
+      worldManager
+        .planFrontierMovement(mover, [mover], ({ position }) => position.x <= 3)
+        .map(step => step.position.x)
+    ).toEqual([1, 2]);
+    expect(
+      worldManager.planFrontierMovement(mover, [mover], () => true)
+    ).toEqual([]);
+  });
+
+  it('scouts toward the gate into the least visited map', () => {
+    const hall = new ChoukaiMap(10, 1, 'Hall');
+    world.addMap(hall);
+    world.addMap(new ChoukaiMap(3, 3, 'Known'));
+    world.addMap(new ChoukaiMap(3, 3, 'Unknown'));
+    worldManager.addGate({
+      name: 'west',
+      mapFrom: hall.name,
+      positionFrom: { x: 2, y: 0 },
+      mapTo: 'Known',
+      positionTo: { x: 1, y: 1 },
+    });
+    worldManager.addGate({
+      name: 'east',
+      mapFrom: hall.name,
+      positionFrom: { x: 9, y: 0 },
+      mapTo: 'Unknown',
+      positionTo: { x: 1, y: 1 },
+    });
+
+    const mover = new BaseUnit('mover', 'Mover', 'adventurer');
+    mover.setProperty('movementRange', 10);
+    setUnitPosition(mover, hall.name, 4, 0);
+
+    const steps = worldManager.planGateMovement(mover, [mover], mapId =>
+      mapId === 'Known' ? 5 : 0
+    );
+    expect(steps[steps.length - 1]?.position).toMatchObject({ x: 9, y: 0 });
+  });
+
   it('nudges onto a nearby free tile when a collision occurs', async () => {
     const units = unitController.getUnits();
     const mover = units[0];
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
+import { PlanQueue } from '../src/ai/PlanQueue';
+
+const buildUnit = (id: string, health: number = 100) =>
+  new BaseUnit(id, id, 'type', {
+    health: { name: 'health', value: health, baseValue: 100 },
+    maxHealth: { name: 'maxHealth', value: 100, baseValue: 100 },
+  });
+
+describe('PlanQueue', () => {
+  it('queues approach steps before the act and persists on the unit', () => {
+    const unit = buildUnit('hunter');
+    const plan = PlanQueue.create('attack', 'wolf', 2, 5, 'AttackEnemy');
+
+    expect(plan.steps.map(step => step.kind)).toEqual([
+      'approach',
+      'approach',
+      'act',
+    ]);
+
+    PlanQueue.write(unit, plan);
+    expect(PlanQueue.read(unit)).toEqual(plan);
+
+    PlanQueue.write(unit);
+    expect(PlanQueue.read(unit)).toBeUndefined();
+  });
+
+  it('consumes approach steps, then completes when the action lands', () => {
+    let plan = PlanQueue.create('attack', 'wolf', 2, 1);
+    const approach = { actionType: 'attack', targetUnitId: 'wolf' };
+
+    const first = PlanQueue.advance(plan, {
+      ...approach,
+      movedTowardsTarget: true,
+    });
+    expect(first.event).toBe('progressed');
+    expect(first.plan?.steps).toHaveLength(2);
+    plan = first.plan!;
+
+    // Arriving early skips the remaining approach
+    expect(
+      PlanQueue.advance(plan, { ...approach, movedTowardsTarget: false })
+    ).toEqual({ event: 'completed' });
+
+    expect(
+      PlanQueue.advance(plan, { actionType: 'rest', movedTowardsTarget: false })
+    ).toEqual({ event: 'abandoned', reason: 'Planned attack did not run' });
+  });
+
+  it('gives reasons to abandon a plan', () => {
+    const plan = PlanQueue.create('attack', 'wolf', 1, 1, 'AttackEnemy');
+    const check = {
+      goalId: 'AttackEnemy',
+      target: buildUnit('wolf'),
+      actionAvailable: true,
+      turnsToReach: 2,
+    };
+
+    expect(PlanQueue.getInvalidReason(plan, check)).toBeUndefined();
+    expect(
+      PlanQueue.getInvalidReason(plan, { ...check, goalId: 'RecoverHealth' })
+    ).toBe('Goal changed to RecoverHealth');
+    expect(
+      PlanQueue.getInvalidReason(plan, {
+        ...check,
+        target: buildUnit('wolf', 0),
+      })
+    ).toBe('Target died');
+    expect(
+      PlanQueue.getInvalidReason(plan, { ...check, actionAvailable: false })
+    ).toBe('attack is no longer available');
+    expect(
+      PlanQueue.getInvalidReason(plan, { ...check, turnsToReach: 3 })
+    ).toBe('Target moved out of reach');
+  });
+});
@@ -0,0 +1,208 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BaseUnit, type IUnitPosition } from '@atsu/atago';
+import { World, Map as ChoukaiMap, Position } from '@atsu/choukai';
+import {
+  PlayerControl,
+  ProgrammaticPlayerInput,
+  type PlayerTurnRequest,
+} from '../src/core/PlayerInput';
+import { StoryTeller } from '../src/core/StoryTeller';
+import { TerminalPlayerInput } from '../src/core/TerminalPlayerInput';
+import { Logger } from '../src/utils/Logger';
+import { UnitController } from '../src/ai/UnitController';
+
+const createUnit = (id: string, faction: string, x = 0, y = 0) => {
+  const unit = new BaseUnit(id, id, 'warrior');
+  unit.setProperty('faction', faction);
+  unit.setProperty('health', 10);
+  unit.setProperty('movementRange', 1);
+  unit.setProperty('position', {
+    unitId: id,
+    mapId: 'Test Map',
+    position: new Position(x, y),
+  });
+  return unit;
+};
+
+const attack = {
+  type: 'attack',
+  description: '{{unitName}} attacks {{targetUnitName}}.',
+  targeting: { type: 'hostile', maxRange: 1 },
+};
+const rest = { type: 'rest', description: '{{unitName}} rests.' };
+
+describe('PlayerControl', () => {
+  it('flags units by faction or by property', () => {
+    const config = { playerFactions: ['Adventurers'] };
+    const hero = createUnit('hero', 'Adventurers');
+    const wolf = createUnit('wolf', 'Wild Animals');
+
+    expect(PlayerControl.isPlayerControlled(hero, config)).toBe(true);
+    expect(PlayerControl.isPlayerControlled(wolf, config)).toBe(false);
+
+    wolf.setProperty('playerControlled', true);
+    expect(PlayerControl.isPlayerControlled(wolf, {})).toBe(true);
+  });
+});
+
+describe('TerminalPlayerInput', () => {
+  const hero = createUnit('hero', 'Adventurers');
+  const wolf = createUnit('wolf', 'Wild Animals', 1, 0);
+  const fox = createUnit('fox', 'Wild Animals', 0, 1);
+  const request = {
+    turn: 3,
+    round: 1,
+    unit: hero,
+    actions: [
+      { action: rest, targets: [] },
+      { action: attack, targets: [wolf, fox] },
+    ],
+    destinations: [
+      { mapId: 'Test Map', position: new Position(1, 1) },
+      { mapId: 'Test Map', position: new Position(2, 1) },
+    ],
+  } satisfies PlayerTurnRequest;
+
+  const answering = (...answers: string[]) => {
+    const questions: string[] = [];
+    const input = new TerminalPlayerInput(
+      new Logger({ prefix: 'PlayerInput', disable: true }),
+      question => {
+        questions.push(question);
+        return Promise.resolve(answers.shift() ?? '');
+      }
+    );
+    return { input, questions };
+  };
+
+  it('reads one numbered choice per step', async () => {
+    const { input, questions } = answering('2', '2', '1');
+
+    await expect(input.chooseAction(request)).resolves.toEqual({
+      actionType: 'attack',
+      targetUnitId: 'fox',
+      destination: request.destinations[0],
+    });
+    expect(questions).toEqual([
+      'Action [0-2, default 0]: ',
+      'Target [0-2, default 0]: ',
+      'Move to [0-2, default 0]: ',
+    ]);
+  });
+
+  it('skips a step on an empty, zero or unknown answer', async () => {
+    const { input, questions } = answering('', 'nine');
+
+    await expect(input.chooseAction(request)).resolves.toEqual({});
+    expect(questions).toHaveLength(2);
+  });
+});
+
+describe('ProgrammaticPlayerInput', () => {
+  const request = {
+    turn: 1,
+    round: 1,
+    unit: createUnit('hero', 'Adventurers'),
+    actions: [],
+    destinations: [],
+  } satisfies PlayerTurnRequest;
+
+  it('answers from the queue and waits once it runs dry', async () => {
+    const input = new ProgrammaticPlayerInput([{ actionType: 'rest' }]);
+
+    await expect(input.chooseAction(request)).resolves.toEqual({
+      actionType: 'rest',
+    });
+    await expect(input.chooseAction(request)).resolves.toEqual({});
+    expect(input.getRequests()).toHaveLength(2);
+  });
+
+  it('delegates to a strategy callback', async () => {
+    const input = new ProgrammaticPlayerInput(({ turn }) => ({
+      actionType: turn === 1 ? 'attack' : 'rest',
+    }));
+
+    await expect(input.chooseAction(request)).resolves.toEqual({
+      actionType: 'attack',
+    });
+  });
+});
+
+describe('StoryTeller player turns', () => {
+  let unitController: UnitController;
+  let storyTeller: StoryTeller;
+  let hero: BaseUnit;
+  let near: BaseUnit;
+  let far: BaseUnit;
+
+  beforeEach(async () => {
+    unitController = new UnitController();
+    await unitController.initialize({ turn: 0 });
+
+    const world = new World();
+    world.addMap(new ChoukaiMap(10, 10, 'Test Map'));
+
+    hero = createUnit('hero', 'Adventurers', 0, 0);
+    near = createUnit('near', 'Wild Animals', 1, 0);
+    far = createUnit('far', 'Wild Animals', 5, 5);
+    (unitController as any).gameUnits = [hero, near, far];
+
+    storyTeller = new StoryTeller(unitController, world);
+    (storyTeller as any).actionsData = [attack, rest];
+  });
+
+  it('lists actions with in-range targets and reachable tiles', async () => {
+    const options = await storyTeller.getPlayerOptions(hero);
+
+    expect(
+      options.actions.map(option => [
+        option.action.type,
+        option.targets.map(target => target.id),
+      ])
+    ).toEqual([
+      ['attack', ['near']],
+      ['rest', []],
+    ]);
+    expect(
+      options.destinations.map(({ position }) => [position.x, position.y])
+    ).toEqual([[0, 1]]);
+  });
+
+  it('runs the chosen action and then walks to the chosen tile', async () => {
+    const result = (storyTeller as any).createPlayerStory(
+      hero,
+      {
+        actionType: 'attack',
+        targetUnitId: 'near',
+        destination: { mapId: 'Test Map', position: new Position(0, 1) },
+      },
+      [hero, near, far],
+      1,
+      {}
+    );
+
+    const [chosen, fallback] = result.executions;
+    expect(chosen.action.type).toBe('attack');
+    expect(chosen.action.payload?.targetUnit).toBe('near');
+    expect(fallback.action.type).toBe('idle');
+
+    await (storyTeller as any).applyPlannedMove(chosen);
+    const pos = hero.getPropertyValue<IUnitPosition>('position')?.position;
+    expect([pos?.x, pos?.y]).toEqual([0, 1]);
+  });
+
+  it('waits when the choice is not among the options', () => {
+    const result = (storyTeller as any).createPlayerStory(
+      hero,
+      { actionType: 'attack', targetUnitId: 'far' },
+      [hero, near, far],
+      1,
+      {}
+    );
+
+    expect(
+      result.executions.map((execution: any) => execution.action.type)
+    ).toEqual(['idle']);
+  });
+});
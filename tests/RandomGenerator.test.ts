@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { RandomGenerator } from '../src/utils/RandomGenerator';
+
+describe('RandomGenerator', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = new RandomGenerator('takao');
+    const b = new RandomGenerator('takao');
+
+    const sequenceA = Array.from({ length: 10 }, () => a.next());
+    const sequenceB = Array.from({ length: 10 }, () => b.next());
+
+    expect(sequenceA).toEqual(sequenceB);
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    const a = new RandomGenerator('takao');
+    const b = new RandomGenerator('atago');
+
+    const sequenceA = Array.from({ length: 10 }, () => a.next());
+    const sequenceB = Array.from({ length: 10 }, () => b.next());
+
+    expect(sequenceA).not.toEqual(sequenceB);
+  });
+
+  it('should keep next() within [0, 1)', () => {
+    const random = new RandomGenerator(42);
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('should keep nextInt() within inclusive bounds', () => {
+    const random = new RandomGenerator('bounds');
+    const seen = new Set<number>();
+    for (let i = 0; i < 500; i++) {
+      const value = random.nextInt(3, 6);
+      expect(value).toBeGreaterThanOrEqual(3);
+      expect(value).toBeLessThanOrEqual(6);
+      seen.add(value);
+    }
+    expect(seen.size).toBe(4);
+  });
+
+  it('should generate reproducible v4 UUIDs', () => {
+    const id = new RandomGenerator('uuid').uuid();
+
+    expect(id).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    );
+    expect(new RandomGenerator('uuid').uuid()).toBe(id);
+  });
+
+  it('should resume a sequence from a saved state', () => {
+    const random = new RandomGenerator('resume');
+    random.next();
+    const state = random.getState();
+    const expected = [random.next(), random.next()];
+
+    const restored = new RandomGenerator('resume');
+    restored.setState(state);
+
+    expect([restored.next(), restored.next()]).toEqual(expected);
+    expect(restored.getSeed()).toBe('resume');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { SaveMigrationRegistry } from '../src/utils/SaveMigrations';
+
+describe('SaveMigrationRegistry', () => {
+  it('upgrades a save one version at a time', () => {
+    const registry = new SaveMigrationRegistry(3);
+    registry.register(1, save => ({ ...save, units: save.actors, actors: [] }));
+    registry.register(2, save => ({ ...save, diary: { entryCount: 0 } }));
+
+    const { save, fromVersion } = registry.migrate({
+      version: 1,
+      actors: ['unit1'],
+    });
+
+    expect(fromVersion).toBe(1);
+    expect(save).toEqual({
+      version: 3,
+      actors: [],
+      units: ['unit1'],
+      diary: { entryCount: 0 },
+    });
+  });
+
+  it('returns current saves unchanged', () => {
+    const registry = new SaveMigrationRegistry(2);
+    const { save, fromVersion } = registry.migrate({ version: 2, units: [] });
+
+    expect(fromVersion).toBe(2);
+    expect(save).toEqual({ version: 2, units: [] });
+  });
+
+  it('does not mutate the input save', () => {
+    const registry = new SaveMigrationRegistry(2);
+    registry.register(1, save => {
+      save.units = [];
+      return save;
+    });
+    const original = { version: 1 };
+
+    registry.migrate(original);
+
+    expect(original).toEqual({ version: 1 });
+  });
+
+  it('fails when a step is missing', () => {
+    const registry = new SaveMigrationRegistry(3);
+    registry.register(2, save => save);
+
+    expect(() => registry.migrate({ version: 1 })).toThrow(
+      'No save migration registered from version 1'
+    );
+  });
+
+  it('rejects saves that are newer or unversioned', () => {
+    const registry = new SaveMigrationRegistry(1);
+
+    expect(() => registry.migrate({ version: 2 })).toThrow(
+      'newer than supported'
+    );
+    expect(() => registry.migrate({ units: [] })).toThrow(
+      'missing a numeric version'
+    );
+    expect(() => registry.migrate([])).toThrow('must be an object');
+  });
+
+  it('rejects duplicate or out-of-range registrations', () => {
+    const registry = new SaveMigrationRegistry(2);
+    registry.register(1, save => save);
+
+    expect(() => registry.register(1, save => save)).toThrow(
+      'already registered'
+    );
+    expect(() => registry.register(2, save => save)).toThrow(
+      'current version is 2'
+    );
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  SaveSlotManager,
+  SAVE_GAME_VERSION,
+  type SaveGameData,
+} from '../src/utils/SaveSlotManager';
+import { SaveMigrationRegistry } from '../src/utils/SaveMigrations';
+import { DataManager } from '../src/utils/DataManager';
+import { MemoryStorageAdapter } from '../src/utils/StorageAdapter';
+import type { DiaryEntry } from '../src/types';
+
+const TEST_SAVES_DIR = path.join(__dirname, 'test-saves');
+
+const createDiaryEntry = (turn: number): DiaryEntry => ({
+  turn,
+  timestamp: new Date(0).toISOString(),
+  action: { player: 'unit1', type: 'rest', description: 'rests' },
+});
+
+const createSaveData = (turn = 4): SaveGameData => ({
+  units: [
+    {
+      id: 'unit1',
+      name: 'Aki',
+      type: 'warrior',
+      properties: {
+        health: { name: 'health', value: 80, baseValue: 100 },
+      },
+    },
+  ],
+  world: {
+    version: 2,
+    maps: [{ name: 'Town', width: 2, height: 1, renderedMap: ['..'] }],
+    gates: [],
+  },
+  turnState: {
+    turn,
+    round: 2,
+    turnInRound: 1,
+    turnOrder: ['unit1', 'unit2'],
+    persistentTurnOrder: ['unit1', 'unit2'],
+  },
+  diary: { entryCount: turn, lastTurn: turn },
+});
+
+describe('SaveSlotManager', () => {
+  const originalSavesDir = SaveSlotManager.SAVES_DIR;
+  const originalMigrations = SaveSlotManager.migrations;
+
+  beforeEach(() => {
+    SaveSlotManager.SAVES_DIR = TEST_SAVES_DIR;
+  });
+
+  afterEach(() => {
+    SaveSlotManager.SAVES_DIR = originalSavesDir;
+    SaveSlotManager.migrations = originalMigrations;
+    fs.rmSync(TEST_SAVES_DIR, { recursive: true, force: true });
+  });
+
+  it('creates and loads a versioned slot', () => {
+    const created = SaveSlotManager.createSlot('campaign-1', createSaveData());
+
+    expect(created.version).toBe(SAVE_GAME_VERSION);
+    const loaded = SaveSlotManager.loadSlot('campaign-1');
+    expect(loaded.name).toBe('campaign-1');
+    expect(loaded.turnState.round).toBe(2);
+    expect(loaded.units[0]?.id).toBe('unit1');
+    expect(loaded.createdAt).toBe(created.createdAt);
+  });
+
+  it('refuses to overwrite a slot unless asked to', () => {
+    SaveSlotManager.createSlot('campaign', createSaveData(4));
+
+    expect(() =>
+      SaveSlotManager.createSlot('campaign', createSaveData(5))
+    ).toThrow('already exists');
+
+    SaveSlotManager.createSlot('campaign', createSaveData(5), true);
+    expect(SaveSlotManager.loadSlot('campaign').turnState.turn).toBe(5);
+  });
+
+  it('lists, copies and deletes slots', () => {
+    SaveSlotManager.createSlot('alpha', createSaveData(3));
+    SaveSlotManager.copySlot('alpha', 'beta');
+
+    const names = SaveSlotManager.listSlots().map(slot => slot.name);
+    expect(names.sort()).toEqual(['alpha', 'beta']);
+    expect(SaveSlotManager.loadSlot('beta').turnState.turn).toBe(3);
+    expect(() => SaveSlotManager.copySlot('alpha', 'beta')).toThrow(
+      'already exists'
+    );
+
+    expect(SaveSlotManager.deleteSlot('alpha')).toBe(true);
+    expect(SaveSlotManager.deleteSlot('alpha')).toBe(false);
+    expect(SaveSlotManager.listSlots().map(slot => slot.name)).toEqual([
+      'beta',
+    ]);
+  });
+
+  it('restores the diary saved with the slot', () => {
+    const storage = new MemoryStorageAdapter();
+    DataManager.saveDiaryLog([1, 2].map(createDiaryEntry), storage);
+    SaveSlotManager.createSlot('early', createSaveData(2), false, storage);
+    SaveSlotManager.copySlot('early', 'early-copy', storage);
+    DataManager.saveDiaryLog([1, 2, 3, 4].map(createDiaryEntry), storage);
+
+    SaveSlotManager.restoreSlot('early-copy', storage);
+
+    expect(DataManager.loadDiary(storage).map(entry => entry.turn)).toEqual([
+      1, 2,
+    ]);
+    expect(DataManager.loadTurnState(storage)).toMatchObject({
+      turn: 2,
+      restored: true,
+    });
+  });
+
+  it('truncates the diary to the cursor of slots saved without one', () => {
+    const storage = new MemoryStorageAdapter();
+    SaveSlotManager.createSlot('legacy', createSaveData(2), false, storage);
+    storage.remove(path.join(TEST_SAVES_DIR, 'legacy.diary'));
+    DataManager.saveDiaryLog([1, 2, 3, 4].map(createDiaryEntry), storage);
+
+    SaveSlotManager.restoreSlot('legacy', storage);
+
+    expect(DataManager.loadDiary(storage).map(entry => entry.turn)).toEqual([
+      1, 2,
+    ]);
+  });
+
+  it('rejects unsafe slot names and missing slots', () => {
+    expect(() =>
+      SaveSlotManager.createSlot('../outside', createSaveData())
+    ).toThrow('Invalid save slot name');
+    expect(() => SaveSlotManager.loadSlot('missing')).toThrow('not found');
+  });
+
+  it('migrates older saves when loading', () => {
+    const registry = new SaveMigrationRegistry(SAVE_GAME_VERSION + 1);
+    registry.register(SAVE_GAME_VERSION, save => ({
+      ...save,
+      upgraded: true,
+    }));
+    SaveSlotManager.migrations = registry;
+
+    SaveSlotManager.createSlot('old', createSaveData());
+    const loaded = SaveSlotManager.loadSlot('old') as unknown as Record<
+      string,
+      unknown
+    >;
+
+    expect(loaded.version).toBe(SAVE_GAME_VERSION + 1);
+    expect(loaded.upgraded).toBe(true);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
+import { Position } from '@atsu/choukai';
+import { SquadBlackboard } from '../src/ai/goals/SquadBlackboard';
+
+const config = {
+  deriveFromFaction: true,
+  formation: 'cluster' as const,
+  spacing: 2,
+};
+
+const buildUnit = (
+  id: string,
+  faction: string,
+  extra: Record<string, unknown> = {}
+) => {
+  const unit = new BaseUnit(id, id, 'type', {
+    health: { name: 'health', value: 100, baseValue: 100 },
+    maxHealth: { name: 'maxHealth', value: 100, baseValue: 100 },
+    faction: { name: 'faction', value: faction, baseValue: faction },
+  });
+  for (const [key, value] of Object.entries(extra)) {
+    unit.setProperty(key, value);
+  }
+  return unit;
+};
+
+const place = (unit: BaseUnit, x: number, y: number = 0) =>
+  unit.setProperty('position', {
+    unitId: unit.id,
+    mapId: 'Test Map',
+    position: new Position(x, y),
+  });
+
+describe('SquadBlackboard', () => {
+  it('groups units by squad property, then faction', () => {
+    const blackboard = new SquadBlackboard(config);
+    const units = [
+      buildUnit('a1', 'Adventurers'),
+      buildUnit('a2', 'Adventurers'),
+      buildUnit('scout', 'Adventurers', { squad: 'Scouts' }),
+      buildUnit('w1', 'Wild Animals'),
+    ];
+
+    const entries = blackboard.update(units);
+
+    expect(entries.map(entry => [entry.squadId, entry.memberIds])).toEqual([
+      ['Adventurers', ['a1', 'a2']],
+    ]);
+    expect(blackboard.getForUnit('scout')).toBeUndefined();
+    expect(
+      new SquadBlackboard({ ...config, deriveFromFaction: false }).update(units)
+    ).toEqual([]);
+  });
+
+  it('keeps its leader and puts a marked leader first', () => {
+    const blackboard = new SquadBlackboard(config);
+    const a1 = buildUnit('a1', 'Adventurers');
+    const a2 = buildUnit('a2', 'Adventurers');
+    const a3 = buildUnit('a3', 'Adventurers');
+
+    expect(blackboard.update([a1, a2, a3])[0]?.leaderId).toBe('a1');
+    expect(blackboard.update([a3, a2, a1])[0]?.memberIds).toEqual([
+      'a1',
+      'a3',
+      'a2',
+    ]);
+
+    a2.setProperty('squadLeader', true);
+    expect(blackboard.update([a1, a2, a3])[0]?.leaderId).toBe('a2');
+  });
+
+  it('anchors members on the leader or the member ahead', () => {
+    const blackboard = new SquadBlackboard(config);
+    blackboard.update(
+      ['a1', 'a2', 'a3'].map(id => buildUnit(id, 'Adventurers'))
+    );
+    const entry = blackboard.get('Adventurers')!;
+
+    expect(blackboard.getAnchorId(entry, 'a1')).toBeUndefined();
+    expect(blackboard.getAnchorId(entry, 'a3')).toBe('a1');
+
+    blackboard.setFormation('Adventurers', 'column');
+    expect(blackboard.getAnchorId(entry, 'a3')).toBe('a2');
+    expect(blackboard.getDirective(entry, 'a3', 'keep_formation')).toEqual({
+      squadId: 'Adventurers',
+      subgoal: 'keep_formation',
+      followUnitId: 'a2',
+      withinRange: 2,
+    });
+  });
+
+  it('tracks the focus target and rally point', () => {
+    const blackboard = new SquadBlackboard(config);
+    const a1 = buildUnit('a1', 'Adventurers');
+    const a2 = buildUnit('a2', 'Adventurers');
+    const near = buildUnit('near', 'Wild Animals');
+    const far = buildUnit('far', 'Wild Animals');
+    place(a1, 0);
+    place(a2, 6);
+    place(near, 2);
+    place(far, 9);
+    const units = [a1, a2, near, far];
+
+    const entry = blackboard.update(units)[0]!;
+    expect(entry.focusTargetId).toBe('near');
+    expect(entry.rallyPoint).toEqual({ mapId: 'Test Map', x: 0, y: 0 });
+    expect(blackboard.readInputs(a2, units)).toEqual({
+      squadSize: 2,
+      squadSpread: 6,
+      rallyPointDistance: 6,
+      squadHealthPct: 1,
+      focusTargetAvailable: 1,
+    });
+
+    // The focus target sticks while it lives, even when another is nearer
+    place(far, 1, 1);
+    expect(blackboard.update(units)[0]?.focusTargetId).toBe('near');
+
+    blackboard.setRallyPoint('Adventurers', { mapId: 'Test Map', x: 5, y: 0 });
+    expect(blackboard.update(units)[0]?.rallyPoint).toEqual({
+      mapId: 'Test Map',
+      x: 5,
+      y: 0,
+    });
+    expect(blackboard.readInputs(a2, units)?.rallyPointDistance).toBe(1);
+  });
+});
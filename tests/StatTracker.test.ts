@@ -120,6 +120,22 @@ describe('StatTracker', () => {
         expect(healthChange.unitId).toBe('unit-1');
       }
     });
+
+    it('ignores the AI state kept on units', () => {
+      const [warrior] = testUnits;
+      warrior!.setProperty('goalState', { status: 'pending' });
+      warrior!.setProperty('plan', null);
+      warrior!.setProperty('patrol', { waypoints: [], next: 0 });
+      const initialSnapshot = StatTracker.takeSnapshot(testUnits);
+
+      warrior!.setProperty('goalState', { status: 'active' });
+      warrior!.setProperty('plan', { createdTurn: 1, steps: [] });
+      warrior!.setProperty('patrol', { waypoints: [], next: 1 });
+
+      expect(StatTracker.compareSnapshots(initialSnapshot, testUnits)).toEqual(
+        []
+      );
+    });
   });
 
   describe('formatStatChanges', () => {
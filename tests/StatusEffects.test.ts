@@ -0,0 +1,211 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
+import { World } from '@atsu/choukai';
+import { UnitController } from '../src/ai/UnitController';
+import { BatchSimulator } from '../src/core/BatchSimulator';
+import { EngineEvents } from '../src/core/EngineEvents';
+import { StoryTeller } from '../src/core/StoryTeller';
+import { DataManager } from '../src/utils/DataManager';
+import { Logger } from '../src/utils/Logger';
+import { StatusEffects } from '../src/utils/StatusEffects';
+import { MemoryStorageAdapter } from '../src/utils/StorageAdapter';
+import type { EffectDefinition, StatusStackingRule } from '../src/types';
+
+const createUnit = (morale = 50, health = 100) =>
+  new BaseUnit('unit1', 'Aki', 'warrior', {
+    morale: { name: 'morale', value: morale, baseValue: morale },
+    health: { name: 'health', value: health, baseValue: health },
+  });
+
+const createEffect = (
+  overrides: Partial<EffectDefinition> = {}
+): EffectDefinition => ({
+  target: 'self',
+  property: 'morale',
+  operation: 'add',
+  value: { type: 'static', value: 10 },
+  permanent: false,
+  duration: 2,
+  durationUnit: 'turn',
+  ...overrides,
+});
+
+const applyStatus = (
+  unit: BaseUnit,
+  delta: number,
+  stacking: StatusStackingRule = 'refresh',
+  property = 'morale'
+) => {
+  const application = StatusEffects.resolveApplication(
+    createEffect({ stacking, property }),
+    property,
+    'inspire'
+  );
+  const consumed = StatusEffects.checkStacking(unit, application);
+  if (consumed) {
+    return consumed;
+  }
+  const current = unit.getPropertyValue(property) as number;
+  unit.setProperty(property, current + delta);
+  return StatusEffects.track(unit, application, delta);
+};
+
+describe('StatusEffects', () => {
+  it('only treats non-permanent effects with a duration as timed', () => {
+    expect(StatusEffects.isTimed(createEffect())).toBe(true);
+    expect(StatusEffects.isTimed(createEffect({ permanent: true }))).toBe(
+      false
+    );
+    expect(StatusEffects.isTimed(createEffect({ duration: 0 }))).toBe(false);
+
+    const untimed = createEffect();
+    delete untimed.duration;
+    expect(StatusEffects.isTimed(untimed)).toBe(false);
+  });
+
+  it('reverts the applied delta when the duration runs out', () => {
+    const unit = createUnit(50);
+    const applied = applyStatus(unit, 10);
+
+    expect(applied.type).toBe('applied');
+    expect(unit.getPropertyValue('morale')).toBe(60);
+    expect(StatusEffects.getActive(unit)).toHaveLength(1);
+
+    expect(StatusEffects.tick([unit], 'turn')).toEqual([]);
+    expect(unit.getPropertyValue('morale')).toBe(60);
+
+    const expired = StatusEffects.tick([unit], 'turn');
+    expect(expired).toHaveLength(1);
+    expect(expired[0]).toMatchObject({
+      type: 'expired',
+      unitId: 'unit1',
+      property: 'morale',
+      source: 'status:inspire',
+      delta: 10,
+    });
+    expect(unit.getPropertyValue('morale')).toBe(50);
+    expect(StatusEffects.getActive(unit)).toHaveLength(0);
+  });
+
+  it('does not count down statuses measured in another unit', () => {
+    const unit = createUnit(50);
+    applyStatus(unit, 10);
+
+    StatusEffects.tick([unit], 'round');
+    StatusEffects.tick([unit], 'round');
+
+    expect(unit.getPropertyValue('morale')).toBe(60);
+    expect(StatusEffects.getActive(unit)[0]?.remaining).toBe(2);
+  });
+
+  it('refreshes the remaining duration instead of re-applying', () => {
+    const unit = createUnit(50);
+    applyStatus(unit, 10);
+    StatusEffects.tick([unit], 'turn');
+
+    const refreshed = applyStatus(unit, 10, 'refresh');
+
+    expect(refreshed.type).toBe('refreshed');
+    expect(refreshed.remaining).toBe(2);
+    expect(unit.getPropertyValue('morale')).toBe(60);
+    expect(StatusEffects.getActive(unit)).toHaveLength(1);
+  });
+
+  it('stacks up to the configured maximum and then refreshes', () => {
+    const unit = createUnit(50);
+
+    expect(applyStatus(unit, 10, 'stack').type).toBe('applied');
+    expect(applyStatus(unit, 10, 'stack').type).toBe('stacked');
+    expect(applyStatus(unit, 10, 'stack').type).toBe('stacked');
+    expect(applyStatus(unit, 10, 'stack').type).toBe('refreshed');
+    expect(unit.getPropertyValue('morale')).toBe(80);
+
+    StatusEffects.tick([unit], 'turn');
+    const expired = StatusEffects.tick([unit], 'turn');
+
+    expect(expired).toHaveLength(3);
+    expect(unit.getPropertyValue('morale')).toBe(50);
+  });
+
+  it('ignores re-application while the status is active', () => {
+    const unit = createUnit(50);
+    applyStatus(unit, 10, 'ignore');
+
+    const ignored = applyStatus(unit, 10, 'ignore');
+
+    expect(ignored.type).toBe('ignored');
+    expect(unit.getPropertyValue('morale')).toBe(60);
+  });
+
+  it('never kills a unit when reverting a health bonus', () => {
+    const unit = createUnit(50, 30);
+    applyStatus(unit, 20, 'refresh', 'health');
+    unit.setProperty('health', 10);
+
+    StatusEffects.tick([unit], 'turn');
+    StatusEffects.tick([unit], 'turn');
+
+    expect(unit.getPropertyValue('health')).toBe(1);
+  });
+});
+
+describe('StoryTeller status expiry', () => {
+  it('counts down turn statuses on the actor only and announces reverts', async () => {
+    const storage = new MemoryStorageAdapter();
+    for (const file of BatchSimulator.CATALOG_FILES) {
+      const key = DataManager.toStorageKey(file);
+      const content = DataManager.storage.read(key);
+      if (content !== null) {
+        storage.write(key, content);
+      }
+    }
+    const unitController = new UnitController(undefined, storage);
+    await unitController.initialize({ turn: 0 });
+    const [aki, ren] = ['aki', 'ren'].map(
+      id =>
+        new BaseUnit(id, id, 'warrior', {
+          morale: { name: 'morale', value: 50, baseValue: 50 },
+        })
+    );
+    (unitController as any).gameUnits = [aki, ren];
+    applyStatus(aki!, 10);
+    applyStatus(ren!, 10);
+
+    const events = new EngineEvents(
+      new Logger({ prefix: 'EngineEvents', disable: true })
+    );
+    const changed: string[] = [];
+    events.on('statChanged', ({ unitId, newValue, turn }) => {
+      changed.push(`${turn} ${unitId} ${String(newValue)}`);
+    });
+    const storyTeller = new StoryTeller(
+      unitController,
+      new World(),
+      undefined,
+      undefined,
+      storage,
+      undefined,
+      events
+    );
+    const endTurnOf = (turn: number, actorId: string) =>
+      storyTeller.expireStatusEffects({
+        turn,
+        round: 1,
+        roundEnded: false,
+        actorId,
+      });
+
+    await endTurnOf(1, 'aki');
+    await endTurnOf(2, 'ren');
+    expect(await endTurnOf(3, 'aki')).toHaveLength(1);
+
+    expect(aki!.getPropertyValue('morale')).toBe(50);
+    expect(ren!.getPropertyValue('morale')).toBe(60);
+    expect(changed).toEqual(['3 aki 50']);
+    const diary = DataManager.loadDiary(storage);
+    expect(diary.map(entry => [entry.turn, entry.action.type])).toEqual([
+      [3, 'status_expired'],
+    ]);
+  });
+});
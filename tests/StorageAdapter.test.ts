@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  FileSystemStorageAdapter,
+  KeyValueStorageAdapter,
+  MemoryStorageAdapter,
+  type KeyValueStore,
+  type StorageAdapter,
+} from '../src/utils/StorageAdapter';
+import { DiaryStore } from '../src/utils/DiaryStore';
+import type { DiaryEntry } from '../src/types';
+
+const TEST_DIR = path.join(__dirname, 'storage-adapter-data');
+
+const createLocalStorage = (): KeyValueStore & {
+  items: Map<string, string>;
+} => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    get length() {
+      return items.size;
+    },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: key => {
+      items.delete(key);
+    },
+  };
+};
+
+const createEntry = (turn: number): DiaryEntry => ({
+  turn,
+  round: 1,
+  timestamp: new Date(0).toISOString(),
+  action: { player: 'unit1', type: 'rest', description: `turn ${turn}` },
+});
+
+const adapters: Array<[string, () => StorageAdapter]> = [
+  ['FileSystemStorageAdapter', () => new FileSystemStorageAdapter(TEST_DIR)],
+  ['MemoryStorageAdapter', () => new MemoryStorageAdapter()],
+  [
+    'KeyValueStorageAdapter',
+    () => new KeyValueStorageAdapter(createLocalStorage()),
+  ],
+];
+
+describe.each(adapters)('%s', (_name, createAdapter) => {
+  afterEach(() => {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('reads, writes, appends and sizes entries', () => {
+    const storage = createAdapter();
+
+    expect(storage.read('units.json')).toBeNull();
+    expect(storage.exists('units.json')).toBe(false);
+    expect(storage.size('units.json')).toBe(0);
+
+    storage.write('units.json', '[]');
+    storage.append('diary/log.jsonl', 'a\n');
+    storage.append('diary/log.jsonl', 'ü\n');
+
+    expect(storage.read('units.json')).toBe('[]');
+    expect(storage.exists('diary')).toBe(true);
+    expect(storage.size('diary/log.jsonl')).toBe(5);
+    expect(Array.from(storage.readLines('diary/log.jsonl'))).toEqual([
+      'a',
+      'ü',
+    ]);
+  });
+
+  it('lists, renames and removes directories', () => {
+    const storage = createAdapter();
+    storage.write('saves/alpha.json', '{}');
+    storage.write('saves/beta.json', '{}');
+    storage.write('saves/old/gamma.json', '{}');
+
+    expect(storage.list('saves').sort()).toEqual([
+      'alpha.json',
+      'beta.json',
+      'old',
+    ]);
+
+    storage.rename('saves', 'archive');
+    expect(storage.exists('saves')).toBe(false);
+    expect(storage.read('archive/old/gamma.json')).toBe('{}');
+
+    storage.remove('archive');
+    expect(storage.list('archive')).toEqual([]);
+    expect(storage.exists('archive/alpha.json')).toBe(false);
+  });
+
+  it('backs a diary store', () => {
+    const storage = createAdapter();
+    const store = new DiaryStore('diary.json', {
+      storage,
+      maxEntriesPerSegment: 2,
+    });
+
+    store.appendMany([1, 2, 3].map(createEntry));
+    store.replaceAll([4, 5].map(createEntry));
+
+    const reopened = new DiaryStore('diary.json', { storage });
+    expect(Array.from(reopened.read()).map(entry => entry.turn)).toEqual([
+      4, 5,
+    ]);
+    expect(reopened.getLastTurn()).toBe(5);
+  });
+});
+
+describe('KeyValueStorageAdapter', () => {
+  it('keeps entries under its namespace', () => {
+    const localStorage = createLocalStorage();
+    localStorage.setItem('other-app', 'untouched');
+    const storage = new KeyValueStorageAdapter(localStorage, 'game:');
+
+    storage.write('world.json', '{}');
+    storage.remove('');
+
+    expect([...localStorage.items.keys()]).toEqual(['other-app']);
+  });
+});
@@ -0,0 +1,123 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StoryTeller } from '../src/core/StoryTeller';
+import { UnitController } from '../src/ai/UnitController';
+import { World, Map as ChoukaiMap, Position } from '@atsu/choukai';
+import { BaseUnit } from '@atsu/atago';
+import { BatchSimulator } from '../src/core/BatchSimulator';
+import { DataManager } from '../src/utils/DataManager';
+import { MemoryStorageAdapter } from '../src/utils/StorageAdapter';
+
+const createUnit = (
+  id: string,
+  type: string,
+  faction: string,
+  x: number
+): BaseUnit => {
+  const unit = new BaseUnit(id, id, type);
+  unit.setProperty('faction', faction);
+  unit.setProperty('health', 10);
+  unit.setProperty('movementRange', 1);
+  unit.setProperty('position', {
+    unitId: id,
+    mapId: 'Test Map',
+    position: new Position(x, 0),
+  });
+  return unit;
+};
+
+describe('StoryTeller dead unit disposal', () => {
+  let unitController: UnitController;
+  let world: World;
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(async () => {
+    storage = new MemoryStorageAdapter();
+    for (const file of BatchSimulator.CATALOG_FILES) {
+      const key = DataManager.toStorageKey(file);
+      const content = DataManager.storage.read(key);
+      if (content !== null) {
+        storage.write(key, content);
+      }
+    }
+    unitController = new UnitController(undefined, storage);
+    await unitController.initialize({ turn: 0 });
+
+    world = new World();
+    world.addMap(new ChoukaiMap(10, 10, 'Test Map'));
+  });
+
+  const strikeDown = (storyTeller: StoryTeller) => {
+    const strike = {
+      type: 'strike',
+      description: '{{unitName}} strikes {{targetUnitName}} down.',
+      targeting: { type: 'hostile', maxRange: 1 },
+      effects: [
+        {
+          target: 'enemy',
+          property: 'health',
+          operation: 'subtract',
+          value: { type: 'static', value: 50 },
+          permanent: false,
+        },
+      ],
+    };
+    (storyTeller as any).actionsData = [strike];
+    (storyTeller as any).goalSystem.chooseAction = () => ({
+      action: strike,
+      candidateActions: [strike],
+    });
+  };
+
+  const turnOf = (actorId: string, ...others: string[]) => ({
+    actorId,
+    round: 1,
+    turnInRound: 1,
+    turnOrder: [actorId, ...others],
+  });
+
+  it('removes units killed during a turn whose bodies are not kept', async () => {
+    const hunter = createUnit('hunter', 'warrior', 'Adventurers', 0);
+    const wolf = createUnit('wolf', 'beast', 'Wild Animals', 1);
+    (unitController as any).gameUnits = [hunter, wolf];
+
+    const storyTeller = new StoryTeller(
+      unitController,
+      world,
+      undefined,
+      undefined,
+      storage
+    );
+    strikeDown(storyTeller);
+
+    const executed = await storyTeller.generateStoryAction(
+      1,
+      turnOf('hunter', 'wolf')
+    );
+
+    expect(executed.action.type).toBe('strike');
+    const remaining = await unitController.getUnitState();
+    expect(remaining.map(unit => unit.id)).toEqual(['hunter']);
+  });
+
+  it('keeps the corpses of other fallen units in play', async () => {
+    const hunter = createUnit('hunter', 'warrior', 'Wild Animals', 0);
+    const knight = createUnit('knight', 'warrior', 'Adventurers', 1);
+    (unitController as any).gameUnits = [hunter, knight];
+
+    const storyTeller = new StoryTeller(
+      unitController,
+      world,
+      undefined,
+      undefined,
+      storage
+    );
+    strikeDown(storyTeller);
+
+    await storyTeller.generateStoryAction(1, turnOf('hunter', 'knight'));
+
+    const remaining = await unitController.getUnitState();
+    expect(remaining.map(unit => unit.id)).toEqual(['hunter', 'knight']);
+    expect(knight.getPropertyValue('status')).toBe('dead');
+  });
+});
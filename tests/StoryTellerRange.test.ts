@@ -35,10 +35,11 @@ describe('StoryTeller range-aware movement logging', () => {
   });
 
   it('annotates diary description when moving closer to a target', async () => {
-    // Two units far apart on the same map
+    // Two units far apart on the same map, still within sight
     const attacker = new BaseUnit('attacker', 'Attacker', 'warrior');
     attacker.setProperty('faction', 'Adventurers');
     attacker.setProperty('health', 10);
+    attacker.setProperty('sightRadius', 10);
     setMovementRange(attacker);
     attacker.setProperty('position', {
       unitId: 'attacker',
@@ -64,9 +65,7 @@ describe('StoryTeller range-aware movement logging', () => {
     const customAction = {
       type: 'attack',
       description: '{{unitName}} attacks {{targetUnitName}} aggressively.',
-      payload: {
-        range: 1,
-      },
+      targeting: { type: 'hostile', maxRange: 1 },
     };
 
     (storyTeller as any).actionsData = [customAction];
@@ -127,9 +126,7 @@ describe('StoryTeller range-aware movement logging', () => {
     const customAction = {
       type: 'attack',
       description: '{{unitName}} attacks {{targetUnitName}} aggressively.',
-      payload: {
-        range: 1,
-      },
+      targeting: { type: 'hostile', maxRange: 1 },
     };
 
     (storyTeller as any).actionsData = [customAction];
@@ -187,9 +184,7 @@ describe('StoryTeller range-aware movement logging', () => {
     const customAction = {
       type: 'attack',
       description: '{{unitName}} attacks {{targetUnitName}} aggressively.',
-      payload: {
-        range: 1,
-      },
+      targeting: { type: 'hostile', maxRange: 1 },
     };
 
     (storyTeller as any).actionsData = [customAction];
@@ -246,9 +241,7 @@ describe('StoryTeller range-aware movement logging', () => {
     const customAction = {
       type: 'attack',
       description: '{{unitName}} attacks {{targetUnitName}} aggressively.',
-      payload: {
-        range: 1,
-      },
+      targeting: { type: 'hostile', maxRange: 1 },
     };
 
     (storyTeller as any).actionsData = [customAction];
@@ -266,6 +259,96 @@ describe('StoryTeller range-aware movement logging', () => {
     expect(result.executions[0].action.payload?.targetUnit).toBe('alive');
   });
 
+  it('ignores hostiles it cannot see', async () => {
+    const attacker = new BaseUnit('attacker', 'Attacker', 'warrior');
+    attacker.setProperty('faction', 'Adventurers');
+    attacker.setProperty('health', 10);
+    attacker.setProperty('sightRadius', 3);
+    setMovementRange(attacker);
+    attacker.setProperty('position', {
+      unitId: 'attacker',
+      mapId: 'Test Map',
+      position: new Position(0, 0),
+    });
+
+    const hidden = new BaseUnit('hidden', 'Hidden', 'archer');
+    hidden.setProperty('faction', 'Wild Animals');
+    hidden.setProperty('health', 10);
+    setMovementRange(hidden);
+    hidden.setProperty('position', {
+      unitId: 'hidden',
+      mapId: 'Test Map',
+      position: new Position(4, 0),
+    });
+
+    (unitController as any).gameUnits = [attacker, hidden];
+
+    const storyTeller = new StoryTeller(unitController, world);
+    const customAction = {
+      type: 'attack',
+      description: '{{unitName}} attacks {{targetUnitName}} aggressively.',
+      targeting: { type: 'hostile', maxRange: 1 },
+    };
+    (storyTeller as any).actionsData = [customAction];
+    (storyTeller as any).goalSystem.chooseAction = () => ({
+      action: customAction,
+      candidateActions: [customAction],
+    });
+
+    const result = await (storyTeller as any).createStoryBasedOnUnits(
+      [attacker, hidden],
+      1,
+      { round: 1, turnInRound: 1, turnOrder: ['attacker', 'hidden'] }
+    );
+
+    expect(result.executions[0]?.action.payload?.targetUnit).toBeUndefined();
+    expect(storyTeller.getVision().canSee(hidden, attacker)).toBe(true);
+  });
+
+  it('places area actions where they catch the most hostiles', async () => {
+    const createUnit = (id: string, faction: string, x: number, y: number) => {
+      const unit = new BaseUnit(id, id, 'warrior');
+      unit.setProperty('faction', faction);
+      unit.setProperty('health', 10);
+      setMovementRange(unit);
+      unit.setProperty('position', {
+        unitId: id,
+        mapId: 'Test Map',
+        position: new Position(x, y),
+      });
+      return unit;
+    };
+
+    const attacker = createUnit('attacker', 'Adventurers', 0, 0);
+    const lone = createUnit('lone', 'Wild Animals', 1, 0);
+    const packLeader = createUnit('pack', 'Wild Animals', 0, 3);
+    const packMember = createUnit('member', 'Wild Animals', 1, 3);
+    const units = [attacker, lone, packLeader, packMember];
+    (unitController as any).gameUnits = units;
+
+    const storyTeller = new StoryTeller(unitController, world);
+
+    const customAction = {
+      type: 'fireball',
+      description: '{{unitName}} hurls fire at {{targetUnitName}}.',
+      targeting: { type: 'hostile', maxRange: 3, area: 'radius', areaSize: 1 },
+    };
+
+    (storyTeller as any).actionsData = [customAction];
+    (storyTeller as any).goalSystem.chooseAction = () => ({
+      action: customAction,
+      candidateActions: [customAction],
+    });
+
+    const result = await (storyTeller as any).createStoryBasedOnUnits(
+      units,
+      1,
+      { round: 1, turnInRound: 1, turnOrder: ['attacker'] }
+    );
+
+    expect(result.executions[0].action.payload?.targetUnit).toBe('pack');
+  });
+
   it('nudges to nearest free tile to avoid overlap when moving', async () => {
     const attacker = new BaseUnit('attacker', 'Attacker', 'warrior');
     attacker.setProperty('faction', 'Adventurers');
@@ -304,9 +387,7 @@ describe('StoryTeller range-aware movement logging', () => {
     const customAction = {
       type: 'attack',
       description: '{{unitName}} attacks {{targetUnitName}} aggressively.',
-      payload: {
-        range: 1,
-      },
+      targeting: { type: 'hostile', maxRange: 1 },
     };
 
     (storyTeller as any).actionsData = [customAction];
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import type { TerrainType } from '@atsu/choukai';
+import { TerrainPathfinder } from '../src/utils/TerrainPathfinder';
+import { TerrainRules } from '../src/utils/TerrainRules';
+import type { TerrainConfig } from '../src/utils/engineConfig';
+
+const rules: TerrainConfig = {
+  grass: { ...TerrainRules.DEFAULT_RULE, moveCost: 1 },
+  road: { ...TerrainRules.DEFAULT_RULE, moveCost: 0.5 },
+  swamp: {
+    ...TerrainRules.DEFAULT_RULE,
+    moveCost: 2,
+    impassableFor: ['*'],
+    passableFor: ['beast'],
+  },
+  water: { ...TerrainRules.DEFAULT_RULE, impassableFor: ['adventurer'] },
+};
+
+const SYMBOLS: Record<string, TerrainType> = {
+  '.': 'grass',
+  '=': 'road',
+  '~': 'swamp',
+};
+
+/**
+ * Builds a grid from rows of terrain symbols; `G` marks a gate on grass
+ */
+const buildGrid = (rows: string[], unitType: string = 'adventurer') => ({
+  width: rows[0]!.length,
+  height: rows.length,
+  getEnterCost: (x: number, y: number) =>
+    TerrainRules.getMoveCost(SYMBOLS[rows[y]![x]!] ?? 'grass', unitType, rules),
+  endsMovement: (x: number, y: number) => rows[y]![x] === 'G',
+});
+
+describe('TerrainRules', () => {
+  it('applies passability per unit type', () => {
+    expect(TerrainRules.canEnter('swamp', 'adventurer', rules)).toBe(false);
+    expect(TerrainRules.canEnter('swamp', 'beast', rules)).toBe(true);
+    expect(TerrainRules.canEnter('water', 'adventurer', rules)).toBe(false);
+    expect(TerrainRules.canEnter('water', 'goblin', rules)).toBe(true);
+    expect(TerrainRules.getMoveCost('swamp', 'adventurer', rules)).toBe(
+      Infinity
+    );
+    expect(TerrainRules.getRule('snow', rules)).toBe(TerrainRules.DEFAULT_RULE);
+  });
+});
+
+describe('TerrainPathfinder', () => {
+  it('prefers a road detour over open grass', () => {
+    const grid = buildGrid(['......', '======']);
+
+    expect(
+      TerrainPathfinder.findPath(grid, { x: 0, y: 0 }, { x: 5, y: 0 }, 10)
+    ).toEqual([
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 3, y: 1 },
+      { x: 4, y: 1 },
+      { x: 5, y: 1 },
+      { x: 5, y: 0 },
+    ]);
+  });
+
+  it('cuts the path at the movement budget and stops within range', () => {
+    const grid = buildGrid(['======']);
+
+    expect(
+      TerrainPathfinder.findPath(grid, { x: 0, y: 0 }, { x: 5, y: 0 }, 1.5)
+    ).toHaveLength(3);
+    expect(
+      TerrainPathfinder.findPath(grid, { x: 0, y: 0 }, { x: 5, y: 0 }, 10, 2)
+    ).toEqual([
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+      { x: 3, y: 0 },
+    ]);
+  });
+
+  it('routes around terrain the unit type cannot enter', () => {
+    const rows = ['.~.', '...'];
+
+    expect(
+      TerrainPathfinder.findPath(
+        buildGrid(rows),
+        { x: 0, y: 0 },
+        { x: 2, y: 0 },
+        10
+      )
+    ).toHaveLength(4);
+    expect(
+      TerrainPathfinder.findPath(
+        buildGrid(rows, 'beast'),
+        { x: 0, y: 0 },
+        { x: 2, y: 0 },
+        10
+      )
+    ).toHaveLength(2);
+  });
+
+  it('throws when the target cannot be reached', () => {
+    expect(() =>
+      TerrainPathfinder.findPath(
+        buildGrid(['..~.', '..~~']),
+        { x: 0, y: 0 },
+        { x: 3, y: 0 },
+        10
+      )
+    ).toThrow(/No path found/);
+    expect(() =>
+      TerrainPathfinder.findPath(
+        buildGrid(['.~~', '.~~']),
+        { x: 0, y: 0 },
+        { x: 2, y: 0 },
+        10,
+        1
+      )
+    ).toThrow(/No available goal positions/);
+  });
+
+  it('lists reachable tiles and does not walk through gates', () => {
+    const grid = buildGrid(['.G..']);
+
+    expect(TerrainPathfinder.getReachable(grid, { x: 0, y: 0 }, 3)).toEqual([
+      { x: 1, y: 0, cost: 1 },
+    ]);
+    expect(
+      TerrainPathfinder.findPath(grid, { x: 0, y: 0 }, { x: 1, y: 0 }, 3)
+    ).toEqual([{ x: 1, y: 0 }]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
+import { UnitLifecycle } from '../src/utils/UnitLifecycle';
+import type { LifecycleConfig } from '../src/utils/engineConfig';
+
+const config: LifecycleConfig = {
+  corpsePolicy: 'persist',
+  removeFactions: ['Wild Animals'],
+  removeTypes: ['beast'],
+  lootPolicy: 'removed',
+  lootProperties: ['resources'],
+};
+
+const createUnit = (
+  id: string,
+  type: string,
+  faction: string,
+  health = 10,
+  resources = 0
+) =>
+  new BaseUnit(id, id, type, {
+    health: { name: 'health', value: health, baseValue: health },
+    resources: { name: 'resources', value: resources, baseValue: resources },
+    faction: { name: 'faction', value: faction, baseValue: faction },
+    status: { name: 'status', value: 'alive', baseValue: 'alive' },
+  });
+
+describe('UnitLifecycle', () => {
+  it('treats dead status or depleted health as dead', () => {
+    const unit = createUnit('hero', 'warrior', 'Adventurers');
+    expect(UnitLifecycle.isAlive(unit)).toBe(true);
+
+    unit.setProperty('health', 0);
+    expect(UnitLifecycle.isDead(unit)).toBe(true);
+
+    unit.setProperty('health', 10);
+    unit.setProperty('status', 'dead');
+    expect(UnitLifecycle.isDead(unit)).toBe(true);
+  });
+
+  it('treats units without health as alive unless their status is dead', () => {
+    const rock = new BaseUnit('rock', 'Rock', 'object');
+    expect(UnitLifecycle.isAlive(rock)).toBe(true);
+
+    rock.setProperty('status', 'dead');
+    expect(UnitLifecycle.isDead(rock)).toBe(true);
+  });
+
+  it('removes defeated wild animals and hands their loot to the killer', () => {
+    const hero = createUnit('hero', 'warrior', 'Adventurers', 50, 2);
+    const wolf = createUnit('wolf', 'beast', 'Wild Animals', 0, 3);
+
+    const event = UnitLifecycle.kill(wolf, 'attack', hero, config);
+
+    expect(event).toEqual({
+      unitId: 'wolf',
+      unitName: 'wolf',
+      killerId: 'hero',
+      killerName: 'hero',
+      cause: 'attack',
+      loot: { resources: 3 },
+      disposal: 'remove',
+    });
+    expect(wolf.getPropertyValue('status')).toBe('dead');
+    expect(wolf.getPropertyValue('resources')).toBe(0);
+    expect(hero.getPropertyValue('resources')).toBe(5);
+  });
+
+  it('keeps other corpses and their loot under the default policy', () => {
+    const ally = createUnit('ally', 'warrior', 'Adventurers', 10, 0);
+    const hero = createUnit('hero', 'warrior', 'Adventurers', 0, 2);
+
+    const event = UnitLifecycle.kill(hero, 'attack', ally, config);
+
+    expect(event.disposal).toBe('persist');
+    expect(event.loot).toEqual({});
+    expect(ally.getPropertyValue('resources')).toBe(0);
+    expect(hero.getPropertyValue('resources')).toBe(2);
+  });
+
+  it('applies the configured corpse and loot policies', () => {
+    const ally = createUnit('ally', 'warrior', 'Adventurers');
+    const hero = createUnit('hero', 'warrior', 'Adventurers', 0, 2);
+
+    const event = UnitLifecycle.kill(hero, 'attack', ally, {
+      ...config,
+      corpsePolicy: 'remove',
+      lootPolicy: 'always',
+    });
+
+    expect(event.disposal).toBe('remove');
+    expect(event.loot).toEqual({ resources: 2 });
+  });
+
+  it('never loots a unit that killed itself', () => {
+    const wolf = createUnit('wolf', 'beast', 'Wild Animals', 0, 3);
+
+    const event = UnitLifecycle.kill(wolf, 'desperate_attack', wolf, config);
+
+    expect(event.killerId).toBeUndefined();
+    expect(event.loot).toEqual({});
+    expect(wolf.getPropertyValue('resources')).toBe(3);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
+import { Position } from '@atsu/choukai';
+import { ThreatMap } from '../src/ai/ThreatMap';
+import { UnitMemory } from '../src/ai/UnitMemory';
+
+const config = { forgetAfterTurns: 3, decay: 0.5, threatRadius: 3 };
+
+const buildUnit = (
+  id: string,
+  faction: string,
+  x: number,
+  attack: number = 10
+) => {
+  const unit = new BaseUnit(id, id, 'type', {
+    health: { name: 'health', value: 100, baseValue: 100 },
+    attack: { name: 'attack', value: attack, baseValue: attack },
+    faction: { name: 'faction', value: faction, baseValue: faction },
+  });
+  unit.setProperty('position', {
+    unitId: id,
+    mapId: 'Field',
+    position: new Position(x, 0),
+  });
+  return unit;
+};
+
+const at = (x: number) => ({ mapId: 'Field', position: new Position(x, 0) });
+
+describe('UnitMemory', () => {
+  it('keeps last sightings until the tile is seen empty or they are forgotten', () => {
+    const sighting = { unitId: 'wolf', mapId: 'Field', x: 4, y: 0, turn: 1 };
+    let memory = UnitMemory.observe(
+      { sightings: [], attackers: [] },
+      [sighting],
+      () => false,
+      1,
+      config
+    );
+
+    memory = UnitMemory.observe(memory, [], () => false, 4, config);
+    expect(UnitMemory.getSighting(memory, 'wolf')).toEqual(sighting);
+
+    expect(
+      UnitMemory.observe(memory, [], () => true, 2, config).sightings
+    ).toEqual([]);
+    expect(
+      UnitMemory.observe(memory, [], () => false, 5, config).sightings
+    ).toEqual([]);
+  });
+
+  it('adds damage on top of what is left of earlier damage', () => {
+    let memory = UnitMemory.recordDamage(
+      { sightings: [], attackers: [] },
+      'wolf',
+      12,
+      1,
+      config
+    );
+    expect(UnitMemory.getDamageFrom(memory, 'wolf', 2, config)).toBe(6);
+
+    memory = UnitMemory.recordDamage(memory, 'wolf', 4, 2, config);
+    expect(UnitMemory.getDamageFrom(memory, 'wolf', 2, config)).toBe(10);
+    expect(UnitMemory.getDamageFrom(memory, 'wolf', 6, config)).toBe(0);
+
+    const unit = buildUnit('hunter', 'Adventurers', 0);
+    UnitMemory.write(unit, memory);
+    expect(UnitMemory.read(unit)).toEqual(memory);
+  });
+});
+
+describe('ThreatMap', () => {
+  it('places seen hostiles where they stand and lost ones where last seen', () => {
+    const hunter = buildUnit('hunter', 'Adventurers', 0);
+    const wolf = buildUnit('wolf', 'Wild Animals', 8, 8);
+    const bear = buildUnit('bear', 'Wild Animals', 2, 20);
+    UnitMemory.write(hunter, {
+      sightings: [{ unitId: 'wolf', mapId: 'Field', x: 5, y: 0, turn: 2 }],
+      attackers: [{ unitId: 'bear', damage: 4, lastTurn: 3 }],
+    });
+
+    const threatMap = new ThreatMap(config);
+    threatMap.update(
+      [hunter, wolf, bear],
+      (_viewer, target) => target.id !== 'wolf',
+      3
+    );
+
+    expect(threatMap.getSources('Adventurers')).toEqual([
+      {
+        unitId: 'wolf',
+        mapId: 'Field',
+        x: 5,
+        y: 0,
+        strength: 4,
+        lastSeenTurn: 2,
+        visible: false,
+      },
+      {
+        unitId: 'bear',
+        mapId: 'Field',
+        x: 2,
+        y: 0,
+        strength: 24,
+        lastSeenTurn: 3,
+        visible: true,
+      },
+    ]);
+    expect(threatMap.getThreat('Adventurers', at(2))).toBe(24 + 1);
+    expect(threatMap.getThreat('Adventurers', at(9))).toBe(0);
+    expect(threatMap.getSources('Wild Animals')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
+import { World, Map as ChoukaiMap, Position } from '@atsu/choukai';
+import { VisionSystem } from '../src/utils/VisionSystem';
+
+const config = {
+  enabled: true,
+  defaultSightRadius: 4,
+  shareWithFaction: true,
+  blockingTerrain: ['wall' as const, 'mountain' as const],
+  sightPenalty: { forest: 1 },
+};
+
+const buildUnit = (id: string, faction: string, x: number, y: number = 0) => {
+  const unit = new BaseUnit(id, id, 'type', {
+    health: { name: 'health', value: 100, baseValue: 100 },
+    faction: { name: 'faction', value: faction, baseValue: faction },
+  });
+  unit.setProperty('position', {
+    unitId: id,
+    mapId: 'Sight',
+    position: new Position(x, y),
+  });
+  return unit;
+};
+
+describe('VisionSystem', () => {
+  let world: World;
+  let map: ChoukaiMap;
+
+  beforeEach(() => {
+    world = new World();
+    map = new ChoukaiMap(12, 3, 'Sight');
+    world.addMap(map);
+  });
+
+  it('sees within the sight radius and shares sight with the faction', () => {
+    const vision = new VisionSystem(config);
+    const scout = buildUnit('scout', 'Adventurers', 0);
+    const guard = buildUnit('guard', 'Adventurers', 11);
+    const wolf = buildUnit('wolf', 'Wild Animals', 4);
+    const bear = buildUnit('bear', 'Wild Animals', 7);
+    const units = [scout, guard, wolf, bear];
+
+    vision.update(world, units);
+
+    expect(vision.getVisibleUnits(scout, units).map(unit => unit.id)).toEqual([
+      'scout',
+      'guard',
+      'wolf',
+      'bear',
+    ]);
+    expect(
+      vision.isExplored('Adventurers', {
+        mapId: 'Sight',
+        position: new Position(8, 0),
+      })
+    ).toBe(true);
+
+    const alone = new VisionSystem({ ...config, shareWithFaction: false });
+    alone.update(world, units);
+    expect(alone.getVisibleUnits(scout, units).map(unit => unit.id)).toEqual([
+      'scout',
+      'wolf',
+    ]);
+
+    bear.setProperty('sightRadius', 1);
+    expect(alone.getSightRadius(bear)).toBe(1);
+    expect(alone.getSightRadius(wolf)).toBe(4);
+  });
+
+  it('is blocked by mountains and shortened by forest', () => {
+    const vision = new VisionSystem(config);
+    map.setTerrain(2, 0, 'mountain');
+    map.setTerrain(1, 1, 'forest');
+    const seenFrom = (y: number) =>
+      vision
+        .getTilesInSight(map, { x: 0, y }, 4)
+        .map(tile => `${tile.x},${tile.y}`);
+
+    expect(seenFrom(0)).toContain('2,0');
+    expect(seenFrom(0)).not.toContain('3,0');
+    expect(seenFrom(1)).toContain('3,1');
+    expect(seenFrom(1)).not.toContain('4,1');
+  });
+
+  it('sees everything when disabled', () => {
+    const vision = new VisionSystem({ ...config, enabled: false });
+    const scout = buildUnit('scout', 'Adventurers', 0);
+    const bear = buildUnit('bear', 'Wild Animals', 11);
+
+    expect(vision.canSee(scout, bear)).toBe(true);
+    expect(vision.isVisibleToFaction('Adventurers', bear)).toBe(true);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { BaseUnit } from '@atsu/atago';
+import { Position } from '@atsu/choukai';
+import { WorldController } from '../src/ai/WorldController';
+import { MemoryStorageAdapter } from '../src/utils/StorageAdapter';
+
+describe('WorldController', () => {
+  it('restores the unit placements saved with the world', () => {
+    const storage = new MemoryStorageAdapter();
+    const saved = new WorldController(storage);
+    saved.createMap(6, 6, 'Field');
+
+    const scout = new BaseUnit('scout', 'Scout', 'archer');
+    scout.setProperty('position', {
+      unitId: scout.id,
+      mapId: 'Field',
+      position: new Position(2, 4),
+    });
+    saved.saveWorldSync([scout, new BaseUnit('idle', 'Idle', 'warrior')]);
+
+    expect(new WorldController(storage).getUnitPlacements()).toEqual([
+      { unitId: 'scout', mapId: 'Field', x: 2, y: 4 },
+    ]);
+    expect(
+      new WorldController(new MemoryStorageAdapter()).getUnitPlacements()
+    ).toEqual([]);
+  });
+});
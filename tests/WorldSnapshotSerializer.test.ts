@@ -6,7 +6,9 @@ import {
 import {
   WorldSnapshotSerializer,
   type SerializableWorldSnapshot,
+  WORLD_SNAPSHOT_VERSION,
 } from '../src/utils/WorldSnapshotSerializer';
+import { GateSystem } from '../src/utils/GateSystem';
 import { describe, it, expect } from 'vitest';
 
 describe('WorldSnapshotSerializer', () => {
@@ -425,4 +427,74 @@ describe('WorldSnapshotSerializer', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('versioned state', () => {
+    const createWorld = () => {
+      const world = new ChoukaiWorld();
+      world.addMap(new ChoukaiMap(3, 3, 'Town'));
+      world.addMap(new ChoukaiMap(3, 3, 'Forest'));
+      return world;
+    };
+
+    it('should round-trip gates, including bidirectional ones', () => {
+      const gateSystem = new GateSystem();
+      gateSystem.addGate({
+        name: 'TownToForest',
+        mapFrom: 'Town',
+        positionFrom: { x: 2, y: 1 },
+        mapTo: 'Forest',
+        positionTo: { x: 0, y: 1 },
+        bidirectional: true,
+      });
+      gateSystem.addGate({
+        name: 'OneWay',
+        mapFrom: 'Forest',
+        positionFrom: { x: 2, y: 2 },
+        mapTo: 'Town',
+        positionTo: { x: 0, y: 0 },
+      });
+
+      const snapshot = JSON.parse(
+        JSON.stringify(
+          WorldSnapshotSerializer.serialize(createWorld(), { gateSystem })
+        )
+      ) as SerializableWorldSnapshot;
+
+      expect(snapshot.version).toBe(WORLD_SNAPSHOT_VERSION);
+      expect(snapshot.gates?.map(gate => gate.name)).toEqual([
+        'TownToForest',
+        'OneWay',
+      ]);
+
+      const state = WorldSnapshotSerializer.deserializeState(snapshot);
+      expect(state.world.getAllMaps()).toHaveLength(2);
+      expect(state.gateSystem.getAllGates()).toHaveLength(3);
+      expect(state.gateSystem.getDestination('Forest', 0, 1)?.mapTo).toBe(
+        'Town'
+      );
+      expect(state.gateSystem.hasGate('Town', 0, 0)).toBe(false);
+    });
+
+    it('should load snapshots saved before versioning', () => {
+      const legacy: SerializableWorldSnapshot = {
+        maps: [{ name: 'Old', width: 2, height: 1, renderedMap: ['.~'] }],
+      };
+
+      const state = WorldSnapshotSerializer.deserializeState(legacy);
+
+      expect(state.version).toBe(1);
+      expect(state.world.getMap('Old').getCell(1, 0)?.terrain).toBe('water');
+      expect(state.gateSystem.getAllGates()).toEqual([]);
+      expect(state.units).toEqual([]);
+    });
+
+    it('should reject snapshots from a newer format', () => {
+      expect(() =>
+        WorldSnapshotSerializer.deserializeState({
+          version: WORLD_SNAPSHOT_VERSION + 1,
+          maps: [],
+        })
+      ).toThrow('newer than supported');
+    });
+  });
 });
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { Map as ChoukaiMap, Position } from '@atsu/choukai';
+import { BatchSimulator } from '../../src/core/BatchSimulator';
+import { GameEngine } from '../../src/core/GameEngine';
+import { DataManager } from '../../src/utils/DataManager';
+import { RandomGenerator } from '../../src/utils/RandomGenerator';
+import { MemoryStorageAdapter } from '../../src/utils/StorageAdapter';
+
+const createEngine = async (
+  storage: MemoryStorageAdapter
+): Promise<GameEngine> => {
+  const engine = new GameEngine(
+    {},
+    { storage, random: new RandomGenerator('save-slots') }
+  );
+  engine.setSessionTurnLimit(20);
+  await engine.initialize({ turn: 0 });
+
+  const map = new ChoukaiMap(12, 12, 'Arena');
+  engine.getWorldController().getWorld().addMap(map);
+  engine
+    .getUnitController()
+    .getUnits()
+    .forEach((unit, index) => {
+      unit.setProperty('position', {
+        unitId: unit.id,
+        mapId: map.name,
+        position: new Position((index * 3) % map.width, index % map.height),
+      });
+    });
+  return engine;
+};
+
+const playTurns = async (engine: GameEngine, turns: number): Promise<void> => {
+  for (let turn = 0; turn < turns; turn++) {
+    await engine.playTurn();
+  }
+};
+
+describe('Save slots', () => {
+  it('resume at the saved turn after playing past it', async () => {
+    const storage = new MemoryStorageAdapter();
+    for (const file of BatchSimulator.CATALOG_FILES) {
+      const key = DataManager.toStorageKey(file);
+      const content = DataManager.storage.read(key);
+      if (content !== null) {
+        storage.write(key, content);
+      }
+    }
+
+    const engine = await createEngine(storage);
+    engine.startManual();
+    await playTurns(engine, 3);
+    const savedTurn = engine.getTurnManager().getCurrentTurn();
+    const savedDiary = DataManager.loadDiary(storage);
+    engine.saveGame('checkpoint');
+
+    await playTurns(engine, 3);
+    engine.stop();
+    expect(DataManager.getLastTurnNumber(storage)).toBeGreaterThan(savedTurn);
+
+    await engine.loadGame('checkpoint');
+    expect(engine.getTurnManager().getCurrentTurn()).toBe(savedTurn);
+    expect(DataManager.loadDiary(storage)).toEqual(savedDiary);
+
+    // A fresh engine on the same storage resumes there as well
+    const resumed = new GameEngine({}, { storage });
+    await resumed.initialize({ turn: 0 });
+    expect(resumed.getTurnManager().getCurrentTurn()).toBe(savedTurn);
+  });
+});
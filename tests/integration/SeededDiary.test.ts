@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { Map as ChoukaiMap, Position } from '@atsu/choukai';
+import { BatchSimulator } from '../../src/core/BatchSimulator';
+import { GameEngine } from '../../src/core/GameEngine';
+import type { DiaryEntry } from '../../src/types';
+import { DataManager } from '../../src/utils/DataManager';
+import { RandomGenerator } from '../../src/utils/RandomGenerator';
+import { MemoryStorageAdapter } from '../../src/utils/StorageAdapter';
+
+const playSession = async (
+  seed: string,
+  turns: number
+): Promise<DiaryEntry[]> => {
+  const storage = new MemoryStorageAdapter();
+  for (const file of BatchSimulator.CATALOG_FILES) {
+    const key = DataManager.toStorageKey(file);
+    const content = DataManager.storage.read(key);
+    if (content !== null) {
+      storage.write(key, content);
+    }
+  }
+
+  const engine = new GameEngine(
+    {},
+    { storage, random: new RandomGenerator(seed) }
+  );
+  engine.setSessionTurnLimit(turns);
+  await engine.initialize({ turn: 0 });
+
+  const map = new ChoukaiMap(12, 12, 'Arena');
+  engine.getWorldController().getWorld().addMap(map);
+  engine
+    .getUnitController()
+    .getUnits()
+    .forEach((unit, index) => {
+      unit.setProperty('position', {
+        unitId: unit.id,
+        mapId: map.name,
+        position: new Position((index * 3) % map.width, index % map.height),
+      });
+    });
+
+  engine.startManual();
+  for (let turn = 0; turn < turns && engine.getRunning(); turn++) {
+    await engine.playTurn();
+  }
+  if (engine.getRunning()) {
+    engine.stop();
+  }
+  return DataManager.loadDiary(storage);
+};
+
+describe('Seeded sessions', () => {
+  it('write the same diary for the same seed', async () => {
+    const first = await playSession('diary-seed', 6);
+    const second = await playSession('diary-seed', 6);
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+});
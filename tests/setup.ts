@@ -1,4 +1,5 @@
 import path from 'path';
 import { DataManager } from '../src/utils/DataManager';
 
-DataManager.DIARY_FILE = path.resolve(__dirname, 'mocks', 'diary.test.json');
+// Diary segments are written next to this path (tests/tmp is git-ignored)
+DataManager.DIARY_FILE = path.resolve(__dirname, 'tmp', 'diary.test.json');